@@ -6,15 +6,191 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { realpathSync } from "fs";
+import { pathToFileURL } from "url";
 import { z } from "zod";
 import { listBoards, formatBoardsAsMarkdown } from "./tools/listBoards.js";
 import { generateReport } from "./tools/generateReport.js";
-import { ReportPeriod } from "./trello/types.js";
+import { generateWorkspaceReport } from "./tools/generateWorkspaceReport.js";
+import { generateMemberReport } from "./tools/generateMemberReport.js";
+import { snapshotBoard, formatSnapshotAsMarkdown } from "./tools/snapshotBoard.js";
+import { registerReportPrompts } from "./prompts/reportPrompts.js";
+import { registerBoardResources } from "./resources/boardResources.js";
+import { TrelloApiClient } from "./trello/api.js";
+import { readSnapshot, resolveSnapshotPeriod, SnapshotDataSource } from "./trello/snapshot.js";
+import { ReportPeriod, ReportSectionId, TrelloDataSource } from "./trello/types.js";
+import { REPORT_SECTION_IDS } from "./trello/sections.js";
+import {
+  listBoardsOutputSchema,
+  reportOutputSchema,
+  snapshotOutputSchema,
+  workspaceReportOutputSchema,
+  memberReportOutputSchema,
+  toBoardListContent,
+  toReportContent,
+  toSnapshotContent,
+  toWorkspaceReportContent,
+  toMemberReportContent,
+} from "./tools/structuredContent.js";
+
+// Report period accepted by the report tools
+const periodSchema = z
+  .object({
+    type: z
+      .enum(["Q1", "Q2", "Q3", "Q4", "year", "month", "week", "lastDays", "custom"])
+      .describe(
+        "Period type: a quarter, a year, a single month, an ISO week, the last N days, or a custom date range"
+      ),
+    year: z
+      .number()
+      .optional()
+      .describe("Year for the report (defaults to current year if not provided)"),
+    month: z.number().int().min(1).max(12).optional().describe("Month (1-12) for 'month' periods"),
+    week: z.number().int().min(1).max(53).optional().describe("ISO week number for 'week' periods"),
+    days: z.number().int().positive().optional().describe("Number of days for 'lastDays' periods"),
+    start: z.string().optional().describe("Start date (YYYY-MM-DD) for 'custom' periods"),
+    end: z.string().optional().describe("End date (YYYY-MM-DD, inclusive) for 'custom' periods"),
+    fiscalYearStartMonth: z
+      .number()
+      .int()
+      .min(1)
+      .max(12)
+      .optional()
+      .describe(
+        "Month (1-12) the fiscal year starts in; shifts quarters and years (default: 1). Fiscal year N starts in calendar year N"
+      ),
+  })
+  .describe(
+    `Report period in a JSON format. e.g: { "type": "Q4", "year": 2024 }, { "type": "month", "month": 3 }, { "type": "custom", "start": "2024-01-15", "end": "2024-02-15" }`
+  );
+
+// Workflow stage mapping accepted by the report tools
+const stageMatcherSchema = z
+  .object({
+    listIds: z.array(z.string()).optional().describe("IDs of the lists in this stage"),
+    names: z
+      .array(z.string())
+      .optional()
+      .describe("Case- and accent-insensitive substrings of the names of lists in this stage"),
+  })
+  .optional();
+
+const workflowSchema = z
+  .object({
+    backlog: stageMatcherSchema,
+    todo: stageMatcherSchema,
+    inProgress: stageMatcherSchema,
+    review: stageMatcherSchema,
+    blocked: stageMatcherSchema,
+    done: stageMatcherSchema,
+  })
+  .optional()
+  .describe(
+    `Maps lists to workflow stages, overriding the workflow config file. e.g: { "done": { "names": ["Feito", "Concluído"] }, "inProgress": { "listIds": ["5f7e..."] } }`
+  );
+
+// Time zone of period boundaries and dates
+const timezoneSchema = z
+  .string()
+  .optional()
+  .describe(
+    `IANA time zone for period boundaries, day buckets and dates, e.g. "America/Sao_Paulo" (default: TRELLO_REPORT_TIMEZONE or the server's time zone)`
+  );
+
+// Locale of rendered dates accepted by the report tools
+const localeSchema = z
+  .string()
+  .optional()
+  .describe(`Locale of the dates in the report, e.g. "pt-BR" (default: TRELLO_REPORT_LOCALE or the server's locale)`);
+
+// Report language accepted by the report tools
+const languageSchema = z
+  .enum(["en", "pt", "es"])
+  .optional()
+  .describe("Language of the report text: 'en' (English, default), 'pt' (Portuguese) or 'es' (Spanish)");
+
+// Card filter accepted by generate_report
+const filterCriteriaSchema = z
+  .object({
+    labels: z.array(z.string()).optional().describe("Label names or IDs; matches cards with any of them"),
+    members: z
+      .array(z.string())
+      .optional()
+      .describe("Member usernames, full names or IDs; matches cards assigned to any of them"),
+    lists: z.array(z.string()).optional().describe("List IDs; matches cards in any of them"),
+    query: z.string().optional().describe("Text to search for in card names and descriptions"),
+    customFields: z
+      .record(z.string(), z.array(z.string()))
+      .optional()
+      .describe(
+        `Dropdown custom field name or ID mapped to option values; matches cards with any of the options. e.g: { "Priority": ["High"] }`
+      ),
+  })
+  .optional();
+
+const filterSchema = z
+  .object({
+    include: filterCriteriaSchema.describe("Only include cards matching these criteria"),
+    exclude: filterCriteriaSchema.describe("Leave out cards matching any of these criteria"),
+    match: z
+      .enum(["all", "any"])
+      .optional()
+      .describe("Whether included cards must match all include criteria or any of them (default: all)"),
+  })
+  .optional()
+  .describe(
+    `Restricts the report to matching cards and the actions on them. e.g: { "include": { "labels": ["Epic: Checkout"], "members": ["janedoe"] }, "exclude": { "query": "spike" } }`
+  );
+
+// Report sections, by ID or with a row limit
+const sectionIdSchema = z.enum(REPORT_SECTION_IDS as [ReportSectionId, ...ReportSectionId[]]);
+
+const sectionsSchema = z
+  .array(
+    z.union([
+      sectionIdSchema,
+      z.object({
+        id: sectionIdSchema,
+        limit: z.number().int().positive().optional().describe("Maximum number of rows or cards the section lists"),
+      }),
+    ])
+  )
+  .optional()
+  .describe(
+    `Sections of the markdown report, in order (default: all sections of the format). e.g: ["activity", { "id": "keyCards", "limit": 5 }, "recommendations"]`
+  );
+
+/**
+ * Convert a period argument into a ReportPeriod, defaulting the year to the current one
+ */
+function toReportPeriod(
+  period: z.infer<typeof periodSchema>,
+  defaultYear: number = new Date().getFullYear()
+): ReportPeriod {
+  return {
+    ...period,
+    type: period.type as ReportPeriod["type"],
+    year: period.year || defaultYear,
+  };
+}
+
+export interface TrelloMCPServerOptions {
+  client?: TrelloDataSource; // Defaults to a client configured from the environment
+}
 
 /**
  * Create and configure the Trello MCP server
  */
-export function createTrelloMCPServer(): McpServer {
+export function createTrelloMCPServer(options: TrelloMCPServerOptions = {}): McpServer {
+  // Create the API client on first use, so the server starts without credentials
+  let client = options.client;
+  const getClient = (): TrelloDataSource => {
+    if (!client) {
+      client = new TrelloApiClient();
+    }
+    return client;
+  };
+
   // Create a new MCP server
   const server = new McpServer({
     name: "trello-reports",
@@ -23,14 +199,18 @@ export function createTrelloMCPServer(): McpServer {
   });
 
   // Tool: List Boards
-  server.tool(
+  server.registerTool(
     "list_boards",
     {
-      searchTerm: z.string().optional().describe("Optional search term to filter boards by name"),
+      description: "List the Trello boards of the authenticated user, optionally filtered by name",
+      inputSchema: {
+        searchTerm: z.string().optional().describe("Optional search term to filter boards by name"),
+      },
+      outputSchema: listBoardsOutputSchema,
     },
     async ({ searchTerm }) => {
       try {
-        const boards = await listBoards(searchTerm);
+        const boards = await listBoards(getClient(), searchTerm);
         const markdown = formatBoardsAsMarkdown(boards);
 
         return {
@@ -40,9 +220,7 @@ export function createTrelloMCPServer(): McpServer {
               text: markdown,
             },
           ],
-          data: {
-            boards,
-          },
+          structuredContent: toBoardListContent(boards),
         };
       } catch (error) {
         if (error instanceof Error) {
@@ -54,45 +232,291 @@ export function createTrelloMCPServer(): McpServer {
   );
 
   // Tool: Generate Report
-  server.tool(
+  server.registerTool(
     "generate_report",
     {
-      boardId: z.string().optional().describe("ID of the Trello board"),
-      boardName: z
-        .string()
-        .optional()
-        .describe("Name of the Trello board (used if boardId is not provided)"),
-      period: z
-        .object({
-          type: z.enum(["Q1", "Q2", "Q3", "Q4", "year"]).describe("Period type (quarter or year)"),
-          year: z
-            .number()
-            .optional()
-            .describe("Year for the report (defaults to current year if not provided)"),
-        })
-        .describe(`Report period in a JSON format. e.g: { "type": "Q4","year": 2024 }`),
-      format: z
-        .enum(["summary", "full"])
-        .optional()
-        .describe(
-          "Report format: 'summary' for concise insights or 'full' for detailed report (default: 'full')"
-        ),
+      description: "Generate an activity report for a Trello board over a period",
+      inputSchema: {
+        boardId: z.string().optional().describe("ID of the Trello board"),
+        boardName: z
+          .string()
+          .optional()
+          .describe("Name of the Trello board (used if boardId is not provided)"),
+        period: periodSchema
+          .optional()
+          .describe(
+            "Report period, required unless snapshotPath is given (default: the snapshot's period). e.g. { \"type\": \"Q4\", \"year\": 2024 }"
+          ),
+        format: z
+          .enum(["summary", "full", "json", "csv", "html"])
+          .optional()
+          .describe(
+            "Report format: 'summary' for concise insights, 'full' for a detailed markdown report (default), 'json' for the complete report data, 'csv' for card, member, label and list flow tables, or 'html' for a self-contained styled report"
+          ),
+        outputPath: z
+          .string()
+          .optional()
+          .describe(
+            "Local file path to also write the report to. CSV tables are written next to it as <name>-cards.csv, <name>-members.csv, etc."
+          ),
+        maxActionPages: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Maximum number of action pages (1000 actions each) to fetch for the period (default: 20)"
+          ),
+        compareTo: z
+          .enum(["previous", "yearAgo"])
+          .optional()
+          .describe(
+            "Compare with the previous period ('previous') or the same period a year earlier ('yearAgo'). Not available with snapshotPath"
+          ),
+        workflow: workflowSchema,
+        filter: filterSchema,
+        dueSoonDays: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of days ahead to list cards that are due soon (default: 7)"),
+        pointsField: z
+          .string()
+          .optional()
+          .describe(
+            "Name or ID of the number custom field holding story points (default: a field named Story Points, Points, Estimate or Effort)"
+          ),
+        groupByField: z
+          .string()
+          .optional()
+          .describe("Name or ID of a dropdown custom field to break cards down by, e.g. Priority"),
+        staleDays: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Number of days without activity after which an open card is flagged as stale (default: 14)"),
+        timezone: timezoneSchema,
+        locale: localeSchema,
+        language: languageSchema,
+        commentDigest: z
+          .boolean()
+          .optional()
+          .describe("Include excerpts of the most recent comments on each key card (default: false)"),
+        sections: sectionsSchema,
+        template: z
+          .string()
+          .optional()
+          .describe(
+            "Name of a markdown template in the report templates directory (TRELLO_REPORT_TEMPLATES, default: report-templates), without the .md extension"
+          ),
+        snapshotPath: z
+          .string()
+          .optional()
+          .describe(
+            "Path to a snapshot file created by snapshot_board. When set, the report is built from the snapshot instead of the Trello API, as of the time it was captured; boardId, boardName and period default to the snapshot's"
+          ),
+      },
+      outputSchema: reportOutputSchema,
+    },
+    async ({
+      boardId,
+      boardName,
+      period,
+      format = "full",
+      outputPath,
+      maxActionPages,
+      compareTo,
+      workflow,
+      filter,
+      dueSoonDays,
+      pointsField,
+      groupByField,
+      commentDigest,
+      staleDays,
+      timezone,
+      locale,
+      language,
+      sections,
+      template,
+      snapshotPath,
+    }) => {
+      try {
+        if (snapshotPath) {
+          // A snapshot only holds the actions of its own period, so there is nothing to compare with
+          if (compareTo) {
+            throw new Error("compareTo is not available for reports built from a snapshot");
+          }
+        } else {
+          // Validate that either boardId or boardName is provided
+          if (!boardId && !boardName) {
+            throw new Error("Either boardId or boardName must be provided");
+          }
+          if (!period) {
+            throw new Error("period must be provided unless snapshotPath is given");
+          }
+        }
+
+        // Read board data from a snapshot when one is given, otherwise from the Trello API
+        const snapshot = snapshotPath ? await readSnapshot(snapshotPath) : undefined;
+        const dataSource = snapshot ? new SnapshotDataSource(snapshot) : getClient();
+        const reportPeriod = snapshot
+          ? resolveSnapshotPeriod(
+              snapshot,
+              period && toReportPeriod(period, new Date(snapshot.createdAt).getFullYear()),
+              timezone
+            )
+          : { period: toReportPeriod(period!) };
+
+        const result = await generateReport(dataSource, {
+          boardId: boardId || (boardName ? undefined : snapshot?.board.id),
+          boardName,
+          ...reportPeriod,
+          format,
+          outputPath,
+          maxActionPages,
+          compareTo,
+          workflow,
+          filter,
+          dueSoonDays,
+          pointsField,
+          groupByField,
+          commentDigest,
+          staleDays,
+          // Snapshots default to the time zone they were captured in, so the period ranges match
+          timezone: timezone || snapshot?.timeZone,
+          locale,
+          language,
+          sections,
+          template,
+        });
+
+        const writtenPaths = result.documents
+          .map((document) => document.path)
+          .filter((path): path is string => Boolean(path));
+
+        return {
+          content: [
+            ...(writtenPaths.length > 0
+              ? [{ type: "text" as const, text: `Report written to: ${writtenPaths.join(", ")}` }]
+              : []),
+            ...result.documents.map((document) => ({
+              type: "text" as const,
+              text: document.content,
+            })),
+          ],
+          structuredContent: toReportContent(result),
+        };
+      } catch (error) {
+        if (error instanceof Error) {
+          throw new Error(`Failed to generate report: ${error.message}`);
+        }
+        throw new Error("Failed to generate report: Unknown error");
+      }
+    }
+  );
+
+  // Tool: Snapshot Board
+  server.registerTool(
+    "snapshot_board",
+    {
+      description: "Capture a Trello board and its action history for a period to a local snapshot file",
+      inputSchema: {
+        boardId: z.string().optional().describe("ID of the Trello board"),
+        boardName: z
+          .string()
+          .optional()
+          .describe("Name of the Trello board (used if boardId is not provided)"),
+        period: periodSchema,
+        outputPath: z
+          .string()
+          .optional()
+          .describe(
+            "File to write the snapshot to (default: a timestamped file in TRELLO_SNAPSHOT_DIR or ./snapshots)"
+          ),
+        maxActionPages: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of action pages (1000 actions each) to capture (default: 20)"),
+        timezone: timezoneSchema,
+      },
+      outputSchema: snapshotOutputSchema,
     },
-    async ({ boardId, boardName, period, format = "full" }) => {
+    async ({ boardId, boardName, period, outputPath, maxActionPages, timezone }) => {
       try {
-        // Validate that either boardId or boardName is provided
         if (!boardId && !boardName) {
           throw new Error("Either boardId or boardName must be provided");
         }
 
-        const result = await generateReport({
+        const { path, snapshot } = await snapshotBoard(getClient(), {
           boardId,
           boardName,
-          period: {
-            type: period.type as ReportPeriod["type"],
-            year: period.year || new Date().getFullYear(),
-          },
-          format,
+          period: toReportPeriod(period),
+          outputPath,
+          maxActionPages,
+          timezone,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatSnapshotAsMarkdown(path, snapshot),
+            },
+          ],
+          structuredContent: toSnapshotContent(path, snapshot),
+        };
+      } catch (error) {
+        if (error instanceof Error) {
+          throw new Error(`Failed to snapshot board: ${error.message}`);
+        }
+        throw new Error("Failed to snapshot board: Unknown error");
+      }
+    }
+  );
+
+  // Tool: Generate Workspace Report
+  server.registerTool(
+    "generate_workspace_report",
+    {
+      description: "Generate a rollup report across several Trello boards",
+      inputSchema: {
+        organizationId: z
+          .string()
+          .optional()
+          .describe("ID of the Trello workspace (organization) whose boards should be included"),
+        boardIds: z.array(z.string()).optional().describe("IDs of the boards to include"),
+        boardNameFilter: z
+          .string()
+          .optional()
+          .describe("Only include boards whose name contains this text"),
+        period: periodSchema,
+        maxActionPages: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of action pages (1000 actions each) to fetch per board (default: 20)"),
+        timezone: timezoneSchema,
+        locale: localeSchema,
+        language: languageSchema,
+      },
+      outputSchema: workspaceReportOutputSchema,
+    },
+    async ({ organizationId, boardIds, boardNameFilter, period, maxActionPages, timezone, locale, language }) => {
+      try {
+        const result = await generateWorkspaceReport(getClient(), {
+          organizationId,
+          boardIds,
+          boardNameFilter,
+          period: toReportPeriod(period),
+          maxActionPages,
+          timezone,
+          locale,
+          language,
         });
 
         return {
@@ -102,24 +526,96 @@ export function createTrelloMCPServer(): McpServer {
               text: result.markdown,
             },
           ],
-          data: {
-            boardInfo: result.boardInfo,
-            period: result.period,
-            dateRange: {
-              start: result.dateRange.start.toISOString(),
-              end: result.dateRange.end.toISOString(),
+          structuredContent: toWorkspaceReportContent(result),
+        };
+      } catch (error) {
+        if (error instanceof Error) {
+          throw new Error(`Failed to generate workspace report: ${error.message}`);
+        }
+        throw new Error("Failed to generate workspace report: Unknown error");
+      }
+    }
+  );
+
+  // Tool: Generate Member Report
+  server.registerTool(
+    "generate_member_report",
+    {
+      description:
+        "Generate an individual contributor report: what one member created, moved, completed and commented on across boards",
+      inputSchema: {
+        member: z.string().describe("Member ID, username or full name"),
+        organizationId: z
+          .string()
+          .optional()
+          .describe("ID of the Trello workspace (organization) whose boards should be included"),
+        boardIds: z.array(z.string()).optional().describe("IDs of the boards to include"),
+        boardNameFilter: z
+          .string()
+          .optional()
+          .describe("Only include boards whose name contains this text"),
+        period: periodSchema,
+        maxActionPages: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum number of action pages (1000 actions each) to fetch per board (default: 20)"),
+        timezone: timezoneSchema,
+        locale: localeSchema,
+        language: languageSchema,
+      },
+      outputSchema: memberReportOutputSchema,
+    },
+    async ({
+      member,
+      organizationId,
+      boardIds,
+      boardNameFilter,
+      period,
+      maxActionPages,
+      timezone,
+      locale,
+      language,
+    }) => {
+      try {
+        const result = await generateMemberReport(getClient(), {
+          member,
+          organizationId,
+          boardIds,
+          boardNameFilter,
+          period: toReportPeriod(period),
+          maxActionPages,
+          timezone,
+          locale,
+          language,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.markdown,
             },
-          },
+          ],
+          structuredContent: toMemberReportContent(result),
         };
       } catch (error) {
         if (error instanceof Error) {
-          throw new Error(`Failed to generate report: ${error.message}`);
+          throw new Error(`Failed to generate member report: ${error.message}`);
         }
-        throw new Error("Failed to generate report: Unknown error");
+        throw new Error("Failed to generate member report: Unknown error");
       }
     }
   );
 
+  // Prompts: quarterly business review, sprint retrospective and stakeholder update
+  registerReportPrompts(server, getClient);
+
+  // Resources: boards, lists, cards and reports, with subscriptions to board activity
+  const subscriptions = registerBoardResources(server, getClient);
+  server.server.onclose = () => subscriptions.stop();
+
   return server;
 }
 
@@ -134,5 +630,9 @@ export async function startServer(): Promise<void> {
   await server.connect(transport);
   console.log("Trello MCP server connected");
 }
-startServer().catch(console.error)
+
+// Only start when run directly, so the server factory can be imported (e.g. with a mock client)
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  startServer().catch(console.error);
+}
 
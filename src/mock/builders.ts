@@ -0,0 +1,301 @@
+/**
+ * Builder for small hand-made boards, for tests that need exact histories rather than fixtures
+ */
+
+import {
+  BoardSnapshot,
+  TrelloAction,
+  TrelloBoard,
+  TrelloCard,
+  TrelloChecklist,
+  TrelloCustomField,
+  TrelloCustomFieldType,
+  TrelloLabel,
+  TrelloList,
+  TrelloMember,
+} from "../trello/types.js";
+import { SNAPSHOT_VERSION } from "../trello/snapshot.js";
+
+/**
+ * Build a Trello-style ID whose first 8 hex characters encode the creation time
+ */
+export function createObjectId(date: Date, counter: number): string {
+  const timestamp = Math.floor(date.getTime() / 1000)
+    .toString(16)
+    .padStart(8, "0");
+  return timestamp + counter.toString(16).padStart(16, "0");
+}
+
+/**
+ * Builds a board snapshot step by step. Cards, moves and other changes are recorded as the
+ * actions Trello would return for them, and applied to the board's current state.
+ */
+export class BoardBuilder {
+  readonly board: TrelloBoard;
+  readonly lists: TrelloList[] = [];
+  readonly cards: TrelloCard[] = [];
+  readonly members: TrelloMember[] = [];
+  readonly labels: TrelloLabel[] = [];
+  readonly actions: TrelloAction[] = [];
+  readonly checklists: TrelloChecklist[] = [];
+  readonly customFields: TrelloCustomField[] = [];
+  private counter = 0;
+
+  constructor(name: string, private createdAt: Date) {
+    this.board = {
+      id: this.nextId(createdAt),
+      name,
+      desc: "",
+      url: `https://trello.com/b/test/${name.toLowerCase().replace(/\s+/g, "-")}`,
+      shortUrl: "https://trello.com/b/test",
+      closed: false,
+      dateLastActivity: createdAt.toISOString(),
+      idOrganization: "60000000000000000000b0b0",
+    };
+  }
+
+  /**
+   * Get a new ID created at the given time
+   */
+  nextId(date: Date = this.createdAt): string {
+    return createObjectId(date, ++this.counter);
+  }
+
+  list(name: string): TrelloList {
+    const list: TrelloList = {
+      id: this.nextId(),
+      name,
+      closed: false,
+      idBoard: this.board.id,
+      pos: (this.lists.length + 1) * 1024,
+    };
+    this.lists.push(list);
+    return list;
+  }
+
+  member(fullName: string): TrelloMember {
+    const member = { id: this.nextId(), fullName, username: fullName.toLowerCase().replace(/\s+/g, "") };
+    this.members.push(member);
+    return member;
+  }
+
+  label(name: string, color: string | null = "green"): TrelloLabel {
+    const label = { id: this.nextId(), idBoard: this.board.id, name, color };
+    this.labels.push(label);
+    return label;
+  }
+
+  /**
+   * Record an action by a member (the first member of the board by default)
+   */
+  action(type: string, date: Date, data: TrelloAction["data"], member?: TrelloMember): TrelloAction {
+    const creator = member || this.members[0] || this.member("Test Member");
+    const action: TrelloAction = {
+      id: this.nextId(date),
+      idMemberCreator: creator.id,
+      type,
+      date: date.toISOString(),
+      data: { board: { id: this.board.id, name: this.board.name }, ...data },
+      memberCreator: { id: creator.id, fullName: creator.fullName, username: creator.username },
+    };
+    this.actions.push(action);
+    return action;
+  }
+
+  /**
+   * Create a card in a list, with its createCard action
+   */
+  card(
+    name: string,
+    list: TrelloList,
+    createdAt: Date,
+    fields: Partial<TrelloCard> = {},
+    member?: TrelloMember
+  ): TrelloCard {
+    const id = this.nextId(createdAt);
+    const card: TrelloCard = {
+      id,
+      name,
+      desc: "",
+      closed: false,
+      idBoard: this.board.id,
+      idList: list.id,
+      pos: (this.cards.length + 1) * 1024,
+      dateLastActivity: createdAt.toISOString(),
+      idMembers: [],
+      idLabels: [],
+      shortUrl: `https://trello.com/c/${id.slice(-8)}`,
+      url: `https://trello.com/c/${id.slice(-8)}`,
+      ...fields,
+    };
+    this.cards.push(card);
+    this.action(
+      "createCard",
+      createdAt,
+      { card: { id, name }, list: { id: list.id, name: list.name } },
+      member
+    );
+    return card;
+  }
+
+  /**
+   * Move a card to another list
+   */
+  move(card: TrelloCard, list: TrelloList, date: Date, member?: TrelloMember): TrelloAction {
+    const from = this.lists.find((l) => l.id === card.idList)!;
+    card.idList = list.id;
+    card.dateLastActivity = date.toISOString();
+    return this.action(
+      "updateCard",
+      date,
+      {
+        card: { id: card.id, name: card.name },
+        listBefore: { id: from.id, name: from.name },
+        listAfter: { id: list.id, name: list.name },
+        old: { idList: from.id },
+      },
+      member
+    );
+  }
+
+  /**
+   * Archive a card, or restore it with `closed` false
+   */
+  archive(card: TrelloCard, date: Date, closed: boolean = true): TrelloAction {
+    const list = this.lists.find((l) => l.id === card.idList)!;
+    card.closed = closed;
+    card.dateLastActivity = date.toISOString();
+    return this.action("updateCard", date, {
+      card: { id: card.id, name: card.name },
+      list: { id: list.id, name: list.name },
+      old: { closed: !closed },
+    });
+  }
+
+  comment(card: TrelloCard, date: Date, text: string, member?: TrelloMember): TrelloAction {
+    const list = this.lists.find((l) => l.id === card.idList)!;
+    return this.action(
+      "commentCard",
+      date,
+      { card: { id: card.id, name: card.name }, list: { id: list.id, name: list.name }, text },
+      member
+    );
+  }
+
+  /**
+   * Add a checklist to a card, with items in their current state
+   */
+  checklist(
+    card: TrelloCard,
+    name: string,
+    items: Array<[string, "complete" | "incomplete"]>
+  ): TrelloChecklist {
+    const id = this.nextId();
+    const checklist: TrelloChecklist = {
+      id,
+      name,
+      idCard: card.id,
+      checkItems: items.map(([itemName, state], index) => ({
+        id: this.nextId(),
+        name: itemName,
+        state,
+        idChecklist: id,
+        pos: (index + 1) * 1024,
+      })),
+    };
+    this.checklists.push(checklist);
+    return checklist;
+  }
+
+  /**
+   * Check or uncheck a checklist item of a card
+   */
+  checkItem(
+    card: TrelloCard,
+    item: { id: string; name: string; idChecklist: string },
+    state: "complete" | "incomplete",
+    date: Date,
+    member?: TrelloMember
+  ): TrelloAction {
+    const checklist = this.checklists.find((c) => c.id === item.idChecklist);
+    return this.action(
+      "updateCheckItemStateOnCard",
+      date,
+      {
+        card: { id: card.id, name: card.name },
+        checklist: { id: item.idChecklist, name: checklist?.name || "Checklist" },
+        checkItem: { id: item.id, name: item.name, state },
+      },
+      member
+    );
+  }
+
+  /**
+   * Define a custom field on the board, with the options of a dropdown ("list") field
+   */
+  customField(name: string, type: TrelloCustomFieldType, options: string[] = []): TrelloCustomField {
+    const id = this.nextId();
+    const field: TrelloCustomField = {
+      id,
+      idModel: this.board.id,
+      name,
+      type,
+      pos: (this.customFields.length + 1) * 1024,
+      options:
+        type === "list"
+          ? options.map((text, index) => ({
+              id: this.nextId(),
+              idCustomField: id,
+              value: { text },
+              color: "none",
+              pos: (index + 1) * 1024,
+            }))
+          : undefined,
+    };
+    this.customFields.push(field);
+    return field;
+  }
+
+  /**
+   * Set the value of a custom field on a card: the option text of a dropdown field, or the raw value
+   */
+  fieldValue(card: TrelloCard, field: TrelloCustomField, value: string): void {
+    const option = field.options?.find((o) => o.value.text === value);
+    if (field.type === "list" && !option) {
+      throw new Error(`Field "${field.name}" has no option "${value}".`);
+    }
+
+    const key = field.type === "checkbox" ? "checked" : field.type;
+    const items = (card.customFieldItems || []).filter((item) => item.idCustomField !== field.id);
+    items.push({
+      id: this.nextId(),
+      idCustomField: field.id,
+      idModel: card.id,
+      ...(option ? { idValue: option.id } : { value: { [key]: value } }),
+    });
+    card.customFieldItems = items;
+  }
+
+  /**
+   * Build the snapshot of a period, captured at its end or later, with actions newest first as
+   * Trello returns them
+   */
+  build(dateRange: { start: Date; end: Date }, capturedAt: Date = dateRange.end): BoardSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      createdAt: capturedAt.toISOString(),
+      period: { type: "custom", year: dateRange.start.getUTCFullYear() },
+      dateRange: { start: dateRange.start.toISOString(), end: dateRange.end.toISOString() },
+      board: this.board,
+      lists: this.lists,
+      cards: this.cards,
+      members: this.members,
+      labels: this.labels,
+      actions: [...this.actions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+      actionsEnd: capturedAt.toISOString(),
+      actionsTruncated: false,
+      checklists: this.checklists,
+      customFields: this.customFields,
+    };
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Deterministic fixture boards served by the mock Trello server, generated relative to an anchor date
+ */
+
+import { addDays, addHours, subDays } from "date-fns";
+import {
+  BoardSnapshot,
+  TrelloAction,
+  TrelloBoard,
+  TrelloCard,
+  TrelloChecklist,
+  TrelloCustomField,
+  TrelloLabel,
+  TrelloList,
+  TrelloMember,
+} from "../trello/types.js";
+import { SNAPSHOT_VERSION } from "../trello/snapshot.js";
+import { createObjectId } from "./builders.js";
+
+// Workspace (organization) the fixture boards belong to
+export const FIXTURE_ORGANIZATION_ID = "60000000000000000000a0a0";
+
+// Number of days of history generated before the anchor date
+const HISTORY_DAYS = 180;
+
+// Average card age, in days, per workflow stage a card has advanced
+const DAYS_PER_STAGE = 12;
+
+const LIST_NAMES = ["Backlog", "To Do", "In Progress", "Review", "Done"];
+
+// Story point estimates and priorities assigned to fixture cards in rotation
+const STORY_POINTS = [1, 2, 3, 5, 8];
+const PRIORITIES = ["High", "Medium", "Low"];
+
+// Discussion added to some cards that are still open
+const THREAD_COMMENTS = [
+  "Should this also cover the mobile app, or only the web version?",
+  "Web only for now. Mobile needs its own estimate.",
+  "The API change this depends on is not merged yet, so this is blocked until then.",
+  "Checked with the API team: the merge is planned for next week.",
+];
+
+const FIXTURE_MEMBERS: TrelloMember[] = [
+  { id: "600000000000000000000001", fullName: "Ana Souza", username: "anasouza" },
+  { id: "600000000000000000000002", fullName: "Bruno Lima", username: "brunolima" },
+  { id: "600000000000000000000003", fullName: "Carla Diaz", username: "carladiaz" },
+  { id: "600000000000000000000004", fullName: "Diego Alves", username: "diegoalves" },
+];
+
+/**
+ * Small seeded pseudo-random generator, so fixtures only depend on the anchor date
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+/**
+ * Generate one fixture board with lists, cards, checklists and a history of actions
+ */
+function createFixtureBoard(
+  name: string,
+  boardIndex: number,
+  cardCount: number,
+  members: TrelloMember[],
+  anchor: Date
+): BoardSnapshot {
+  const random = createRandom(boardIndex + 1);
+  const historyStart = subDays(anchor, HISTORY_DAYS);
+  let counter = boardIndex * 100000;
+  const nextId = (date: Date) => createObjectId(date, ++counter);
+
+  const board: TrelloBoard = {
+    id: nextId(historyStart),
+    name,
+    desc: `Fixture board "${name}" served by the mock Trello server`,
+    url: `https://trello.com/b/fixture${boardIndex}/${name.toLowerCase().replace(/\s+/g, "-")}`,
+    shortUrl: `https://trello.com/b/fixture${boardIndex}`,
+    closed: false,
+    dateLastActivity: anchor.toISOString(),
+    idOrganization: FIXTURE_ORGANIZATION_ID,
+  };
+
+  const lists: TrelloList[] = LIST_NAMES.map((listName, index) => ({
+    id: nextId(historyStart),
+    name: listName,
+    closed: false,
+    idBoard: board.id,
+    pos: (index + 1) * 1024,
+  }));
+
+  const labels: TrelloLabel[] = [
+    { id: nextId(historyStart), idBoard: board.id, name: "Feature", color: "green" },
+    { id: nextId(historyStart), idBoard: board.id, name: "Bug", color: "red" },
+    { id: nextId(historyStart), idBoard: board.id, name: "Chore", color: "yellow" },
+  ];
+
+  const storyPointsField: TrelloCustomField = {
+    id: nextId(historyStart),
+    idModel: board.id,
+    name: "Story Points",
+    type: "number",
+    pos: 1024,
+  };
+  const priorityFieldId = nextId(historyStart);
+  const priorityField: TrelloCustomField = {
+    id: priorityFieldId,
+    idModel: board.id,
+    name: "Priority",
+    type: "list",
+    pos: 2048,
+    options: PRIORITIES.map((priority, index) => ({
+      id: nextId(historyStart),
+      idCustomField: priorityFieldId,
+      value: { text: priority },
+      color: ["red", "yellow", "green"][index],
+      pos: (index + 1) * 1024,
+    })),
+  };
+
+  const cards: TrelloCard[] = [];
+  const checklists: TrelloChecklist[] = [];
+  const actions: TrelloAction[] = [];
+
+  const addAction = (
+    type: string,
+    date: Date,
+    member: TrelloMember,
+    data: TrelloAction["data"]
+  ) => {
+    actions.push({
+      id: nextId(date),
+      idMemberCreator: member.id,
+      type,
+      date: date.toISOString(),
+      data: { board: { id: board.id, name: board.name }, ...data },
+      memberCreator: { id: member.id, fullName: member.fullName, username: member.username },
+    });
+  };
+
+  for (let index = 0; index < cardCount; index++) {
+    const createdAt = addHours(historyStart, Math.floor((index / cardCount) * HISTORY_DAYS * 24));
+    const member = members[index % members.length];
+    const label = labels[index % labels.length];
+    const cardRef = { id: nextId(createdAt), name: `${label.name} ${index + 1}: ${name} task` };
+
+    // Older cards have progressed further through the workflow
+    const age = (anchor.getTime() - createdAt.getTime()) / (24 * 60 * 60 * 1000);
+    const targetStage = Math.min(
+      LIST_NAMES.length - 1,
+      Math.floor(age / DAYS_PER_STAGE + random() * 2)
+    );
+
+    const startList = lists[index % 3 === 0 ? 0 : 1];
+    addAction("createCard", createdAt, member, {
+      card: cardRef,
+      list: { id: startList.id, name: startList.name },
+    });
+
+    let currentList = startList;
+    let date = createdAt;
+    for (let stage = lists.indexOf(startList) + 1; stage <= targetStage; stage++) {
+      date = addHours(date, 12 + Math.floor(random() * 24 * (stage === 3 ? 6 : 3)));
+      if (date >= anchor) break;
+
+      addAction("updateCard", date, member, {
+        card: cardRef,
+        listBefore: { id: currentList.id, name: currentList.name },
+        listAfter: { id: lists[stage].id, name: lists[stage].name },
+        old: { idList: currentList.id },
+      });
+      currentList = lists[stage];
+
+      if (random() < 0.5) {
+        const commenter = members[Math.floor(random() * members.length)];
+        addAction("commentCard", addHours(date, 2), commenter, {
+          card: cardRef,
+          list: { id: currentList.id, name: currentList.name },
+          text: `Update on "${cardRef.name}" after moving to ${currentList.name}.`,
+        });
+      }
+    }
+
+    const isDone = currentList === lists[lists.length - 1];
+
+    // Some open cards carry a longer discussion that is still going on
+    if (!isDone && index % 5 === 2) {
+      THREAD_COMMENTS.forEach((text, commentIndex) => {
+        const commentDate = addHours(date, 6 + commentIndex * 20);
+        if (commentDate >= anchor) return;
+
+        addAction("commentCard", commentDate, members[(index + commentIndex) % members.length], {
+          card: cardRef,
+          list: { id: currentList.id, name: currentList.name },
+          text,
+        });
+      });
+    }
+    const due = index % 4 === 0 ? addDays(createdAt, 14 + Math.floor(random() * 21)) : undefined;
+
+    // Some cards carry a checklist, with items checked off as the card progresses
+    let checkItemsChecked = 0;
+    let checkItemCount = 0;
+    if (index % 3 === 1) {
+      const checklistId = nextId(createdAt);
+      const items = ["Design", "Implement", "Test"].map((itemName, itemIndex) => {
+        const complete = itemIndex < lists.indexOf(currentList) - 1;
+        if (complete) {
+          checkItemsChecked++;
+          addAction("updateCheckItemStateOnCard", addHours(createdAt, 24 * (itemIndex + 1)), member, {
+            card: cardRef,
+            checklist: { id: checklistId, name: "Definition of Done" },
+            checkItem: { id: `${checklistId}${itemIndex}`, name: itemName, state: "complete" },
+          });
+        }
+        return {
+          id: `${checklistId}${itemIndex}`,
+          name: itemName,
+          state: complete ? ("complete" as const) : ("incomplete" as const),
+          idChecklist: checklistId,
+          pos: (itemIndex + 1) * 1024,
+        };
+      });
+      checkItemCount = items.length;
+      checklists.push({ id: checklistId, name: "Definition of Done", idCard: cardRef.id, checkItems: items });
+    }
+
+    const cardMembers = [member.id];
+    if (random() < 0.3) {
+      cardMembers.push(members[(index + 1) % members.length].id);
+    }
+
+    cards.push({
+      id: cardRef.id,
+      name: cardRef.name,
+      desc: `Fixture card ${index + 1} on ${name}.`,
+      closed: false,
+      idBoard: board.id,
+      idList: currentList.id,
+      pos: (index + 1) * 1024,
+      dateLastActivity: date.toISOString(),
+      due: due?.toISOString(),
+      dueComplete: due ? isDone : undefined,
+      idMembers: cardMembers,
+      idLabels: [label.id],
+      shortUrl: `https://trello.com/c/${cardRef.id.slice(-8)}`,
+      url: `https://trello.com/c/${cardRef.id.slice(-8)}/${index + 1}`,
+      badges: {
+        attachments: 0,
+        checkItems: checkItemCount,
+        checkItemsChecked,
+        comments: actions.filter(
+          (action) => action.type === "commentCard" && action.data.card?.id === cardRef.id
+        ).length,
+        description: true,
+      },
+      customFieldItems: [
+        {
+          id: nextId(createdAt),
+          idCustomField: storyPointsField.id,
+          idModel: cardRef.id,
+          value: { number: String(STORY_POINTS[index % STORY_POINTS.length]) },
+        },
+        {
+          id: nextId(createdAt),
+          idCustomField: priorityField.id,
+          idModel: cardRef.id,
+          idValue: priorityField.options![Math.floor(index / 3) % PRIORITIES.length].id,
+        },
+      ],
+    });
+  }
+
+  // Trello returns actions newest first
+  actions.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  return {
+    version: SNAPSHOT_VERSION,
+    createdAt: anchor.toISOString(),
+    period: { type: "custom", year: anchor.getFullYear() },
+    dateRange: { start: historyStart.toISOString(), end: anchor.toISOString() },
+    board,
+    lists,
+    cards,
+    members,
+    labels,
+    actions,
+    actionsTruncated: false,
+    checklists,
+    customFields: [storyPointsField, priorityField],
+  };
+}
+
+/**
+ * Create the fixture boards: two boards in one workspace that share a member
+ */
+export function createFixtureBoards(anchor: Date = new Date()): BoardSnapshot[] {
+  return [
+    createFixtureBoard("Product Roadmap", 1, 60, FIXTURE_MEMBERS.slice(0, 3), anchor),
+    createFixtureBoard("Platform Team", 2, 40, FIXTURE_MEMBERS.slice(2), anchor),
+  ];
+}
@@ -0,0 +1,262 @@
+/**
+ * Local mock of the Trello REST API, serving fixture boards or board snapshots.
+ *
+ * Point the MCP server at it with TRELLO_API_BASE_URL=http://127.0.0.1:<port>/1 to run
+ * reports end-to-end without a Trello account.
+ */
+
+import { realpathSync } from "fs";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { BoardSnapshot, TrelloAction } from "../trello/types.js";
+import { readSnapshot } from "../trello/snapshot.js";
+import { createFixtureBoards } from "./fixtures.js";
+
+// Port used by the command line entry point when MOCK_TRELLO_PORT is not set
+const DEFAULT_PORT = 4010;
+
+// Trello's default and maximum number of actions per request
+const DEFAULT_ACTIONS_LIMIT = 50;
+const MAX_ACTIONS_LIMIT = 1000;
+
+// Trello object IDs: 24 hex characters, the first 8 being a creation timestamp
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/;
+
+export interface MockTrelloServerOptions {
+  port?: number; // Defaults to a random free port
+  boards?: BoardSnapshot[]; // Defaults to the fixture boards
+  apiKey?: string; // When set, requests with a different key are rejected
+  apiToken?: string; // When set, requests with a different token are rejected
+}
+
+export interface MockTrelloServer {
+  url: string; // Base URL to use as TRELLO_API_BASE_URL, e.g. http://127.0.0.1:4010/1
+  boards: BoardSnapshot[];
+  close(): Promise<void>;
+}
+
+/**
+ * Error answered with a given HTTP status
+ */
+class MockHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Convert an action cursor (`since`/`before`) to a date. Trello accepts both dates and
+ * object IDs, whose first 8 hex characters are the creation time in seconds.
+ */
+function parseCursor(value: string): Date {
+  if (OBJECT_ID_PATTERN.test(value)) {
+    return new Date(parseInt(value.substring(0, 8), 16) * 1000);
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new MockHttpError(400, `invalid value for cursor: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Apply Trello's action filtering and paging: newest first, `since` and `before` bounds
+ * (exclusive) and a `limit`. An action ID passed as `before` pages past that exact action.
+ */
+function pageActions(actions: TrelloAction[], query: URLSearchParams): TrelloAction[] {
+  let result = [...actions].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+
+  const before = query.get("before");
+  if (before) {
+    const index = result.findIndex((action) => action.id === before);
+    if (index >= 0) {
+      result = result.slice(index + 1);
+    } else {
+      const beforeDate = parseCursor(before);
+      result = result.filter((action) => new Date(action.date) < beforeDate);
+    }
+  }
+
+  const since = query.get("since");
+  if (since) {
+    const sinceDate = parseCursor(since);
+    result = result.filter((action) => new Date(action.date) > sinceDate);
+  }
+
+  const limit = Math.min(
+    parseInt(query.get("limit") || "", 10) || DEFAULT_ACTIONS_LIMIT,
+    MAX_ACTIONS_LIMIT
+  );
+
+  return result.slice(0, limit);
+}
+
+/**
+ * Find the board a request refers to
+ */
+function findBoard(boards: BoardSnapshot[], boardId: string): BoardSnapshot {
+  const board = boards.find((snapshot) => snapshot.board.id === boardId);
+  if (!board) {
+    throw new MockHttpError(404, "The requested resource was not found.");
+  }
+  return board;
+}
+
+/**
+ * Resolve a request path (without the /1 prefix) to a response body
+ */
+function route(boards: BoardSnapshot[], path: string[], query: URLSearchParams): unknown {
+  const [resource, id, collection] = path;
+
+  if (resource === "members" && id === "me" && collection === "boards") {
+    return boards.map((snapshot) => snapshot.board);
+  }
+
+  if (resource === "organizations" && collection === "boards") {
+    return boards
+      .filter((snapshot) => snapshot.board.idOrganization === id)
+      .map((snapshot) => snapshot.board);
+  }
+
+  if (resource === "cards" && id) {
+    const board = boards.find((snapshot) => snapshot.cards.some((card) => card.id === id));
+    if (!board) {
+      throw new MockHttpError(404, "The requested resource was not found.");
+    }
+
+    switch (collection) {
+      case undefined:
+        return board.cards.find((card) => card.id === id);
+      case "checklists":
+        return board.checklists.filter((checklist) => checklist.idCard === id);
+    }
+  }
+
+  if (resource === "boards" && id) {
+    const snapshot = findBoard(boards, id);
+    const listFilter = query.get("filter") === "all";
+
+    switch (collection) {
+      case undefined:
+        return snapshot.board;
+      case "lists":
+        return listFilter ? snapshot.lists : snapshot.lists.filter((list) => !list.closed);
+      case "cards":
+        return listFilter ? snapshot.cards : snapshot.cards.filter((card) => !card.closed);
+      case "members":
+        return snapshot.members;
+      case "labels":
+        return snapshot.labels;
+      case "checklists":
+        return snapshot.checklists;
+      case "customFields":
+        return snapshot.customFields || [];
+      case "actions":
+        return pageActions(snapshot.actions, query);
+    }
+  }
+
+  throw new MockHttpError(404, "The requested resource was not found.");
+}
+
+/**
+ * Handle a single HTTP request
+ */
+function handleRequest(
+  options: MockTrelloServerOptions,
+  boards: BoardSnapshot[],
+  request: IncomingMessage,
+  response: ServerResponse
+): void {
+  const url = new URL(request.url || "/", "http://localhost");
+  const { searchParams } = url;
+  let status = 200;
+  let body: unknown;
+
+  try {
+    if (request.method !== "GET") {
+      throw new MockHttpError(405, "Only GET requests are supported by the mock server.");
+    }
+
+    const key = searchParams.get("key");
+    const token = searchParams.get("token");
+    if (!key || (options.apiKey && key !== options.apiKey)) {
+      throw new MockHttpError(401, "invalid key");
+    }
+    if (!token || (options.apiToken && token !== options.apiToken)) {
+      throw new MockHttpError(401, "invalid token");
+    }
+
+    const segments = url.pathname.split("/").filter(Boolean);
+    if (segments[0] !== "1") {
+      throw new MockHttpError(404, "The requested resource was not found.");
+    }
+
+    body = route(boards, segments.slice(1), searchParams);
+  } catch (error) {
+    status = error instanceof MockHttpError ? error.status : 500;
+    body = { message: (error as Error).message };
+  }
+
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Start the mock Trello server. Resolves once it is listening.
+ */
+export function startMockTrelloServer(
+  options: MockTrelloServerOptions = {}
+): Promise<MockTrelloServer> {
+  const boards = options.boards || createFixtureBoards();
+  const server: Server = createServer((request, response) =>
+    handleRequest(options, boards, request, response)
+  );
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port || 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/1`,
+        boards,
+        close: () =>
+          new Promise<void>((resolveClose, rejectClose) =>
+            server.close((error) => (error ? rejectClose(error) : resolveClose()))
+          ),
+      });
+    });
+  });
+}
+
+/**
+ * Command line entry point: serve the snapshot files given as arguments, or the fixture boards
+ */
+async function main(): Promise<void> {
+  const snapshotPaths = process.argv.slice(2);
+  const boards =
+    snapshotPaths.length > 0
+      ? await Promise.all(snapshotPaths.map((path) => readSnapshot(path)))
+      : undefined;
+
+  const server = await startMockTrelloServer({
+    port: parseInt(process.env.MOCK_TRELLO_PORT || "", 10) || DEFAULT_PORT,
+    boards,
+  });
+
+  console.log(`Mock Trello API listening on ${server.url}`);
+  server.boards.forEach((snapshot) => {
+    console.log(`- ${snapshot.board.name} (${snapshot.board.id})`);
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
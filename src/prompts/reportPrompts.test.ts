@@ -0,0 +1,120 @@
+/**
+ * Tests for the report prompt templates, through an in-memory MCP client and the mock Trello server
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { MockTrelloServer, startMockTrelloServer } from "../mock/server.js";
+import { createFixtureBoards } from "../mock/fixtures.js";
+import { TrelloApiClient } from "../trello/api.js";
+import { registerReportPrompts } from "./reportPrompts.js";
+
+// Fixture boards are generated relative to this date, so every run sees the same data
+const ANCHOR = new Date("2024-06-30T12:00:00.000Z");
+
+/**
+ * Get the embedded report and the instructions of a report prompt
+ */
+function getPromptParts(result: GetPromptResult): { uri: string; report: string; instructions: string } {
+  const [reportMessage, instructionsMessage] = result.messages;
+  assert.equal(result.messages.length, 2);
+  assert.ok(reportMessage.content.type === "resource" && "text" in reportMessage.content.resource);
+  assert.ok(instructionsMessage.content.type === "text");
+
+  return {
+    uri: reportMessage.content.resource.uri,
+    report: reportMessage.content.resource.text,
+    instructions: instructionsMessage.content.text,
+  };
+}
+
+describe("report prompts", () => {
+  const boards = createFixtureBoards(ANCHOR);
+  const [roadmap] = boards;
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  let mock: MockTrelloServer;
+
+  before(async () => {
+    mock = await startMockTrelloServer({ boards });
+    const trello = new TrelloApiClient({ apiKey: "key", apiToken: "token", baseUrl: mock.url });
+    const server = new McpServer({ name: "test-server", version: "1.0.0" });
+    registerReportPrompts(server, () => trello);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  after(async () => {
+    await client.close();
+    await mock.close();
+  });
+
+  it("registers the three prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+
+    assert.deepEqual(
+      prompts.map((prompt) => [prompt.name, prompt.arguments?.map((argument) => argument.name)]),
+      [
+        ["quarterly_business_review", ["board", "quarter"]],
+        ["sprint_retrospective", ["board", "period", "sprintName"]],
+        ["stakeholder_update", ["board", "period", "audience"]],
+      ]
+    );
+  });
+
+  it("embeds the quarter's report, compared with the previous quarter, for a board given by name", async () => {
+    const result = await client.getPrompt({
+      name: "quarterly_business_review",
+      arguments: { board: "roadmap", quarter: "2024-Q1" },
+    });
+    const { uri, report, instructions } = getPromptParts(result);
+
+    assert.equal(result.description, "Quarterly business review");
+    assert.equal(uri, `trello://board/${roadmap.board.id}/report/2024-Q1`);
+    assert.match(report, /^# Trello Board Report: Product Roadmap$/m);
+    assert.match(report, /^## Comparison with Fourth Quarter 2023$/m);
+    assert.ok(instructions.includes('"Product Roadmap" board covering First Quarter 2024 (2024-01-01 to 2024-03-31)'));
+    assert.match(instructions, /^6\. \*\*Priorities for Next Quarter\*\*/m);
+  });
+
+  it("names the sprint and reports on the given period", async () => {
+    const { uri, instructions } = getPromptParts(
+      await client.getPrompt({
+        name: "sprint_retrospective",
+        arguments: { board: roadmap.board.id, period: "2024-06-01..2024-06-14", sprintName: "Sprint 12" },
+      })
+    );
+
+    assert.equal(uri, `trello://board/${roadmap.board.id}/report/2024-06-01..2024-06-14`);
+    assert.ok(instructions.includes('for the "Product Roadmap" board titled "Sprint 12", covering'));
+    assert.ok(instructions.includes("(2024-06-01 to 2024-06-14)"));
+  });
+
+  it("addresses the stakeholder update to the given audience", async () => {
+    const { instructions } = getPromptParts(
+      await client.getPrompt({
+        name: "stakeholder_update",
+        arguments: { board: "platform", period: "2024-06", audience: "executive team" },
+      })
+    );
+
+    assert.ok(instructions.includes('about the "Platform Team" board for executive team, covering June 2024'));
+  });
+
+  it("suggests board names and rejects unknown boards", async () => {
+    const { completion } = await client.complete({
+      ref: { type: "ref/prompt", name: "sprint_retrospective" },
+      argument: { name: "board", value: "PLAT" },
+    });
+
+    assert.deepEqual(completion.values, ["Platform Team"]);
+    await assert.rejects(
+      client.getPrompt({ name: "stakeholder_update", arguments: { board: "Missing Board" } }),
+      /Board with name "Missing Board" not found\./
+    );
+  });
+});
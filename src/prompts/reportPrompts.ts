@@ -0,0 +1,223 @@
+/**
+ * MCP prompt templates that turn board reports into recurring documents
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { subQuarters, getQuarter } from "date-fns";
+import { ComparisonMode, TrelloDataSource } from "../trello/types.js";
+import { formatDate, getPeriodDescription, parsePeriodString } from "../trello/utils.js";
+import { generateReport } from "../tools/generateReport.js";
+
+// Trello object IDs are 24 hex characters; anything else is treated as a board name
+const BOARD_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+// Default periods for each prompt, in the compact period syntax of the report resources
+const DEFAULT_RETROSPECTIVE_PERIOD = "last-14-days";
+const DEFAULT_STAKEHOLDER_PERIOD = "last-7-days";
+
+const PERIOD_ARGUMENT_HELP =
+  "e.g. 2024, 2024-Q1, 2024-03, 2024-W05, last-30-days or 2024-01-15..2024-02-15";
+
+/**
+ * Get the last completed calendar quarter, e.g. "2024-Q1" during the second quarter of 2024
+ */
+function getPreviousQuarter(): string {
+  const date = subQuarters(new Date(), 1);
+  return `${date.getFullYear()}-Q${getQuarter(date)}`;
+}
+
+/**
+ * Resolve a board given by ID or (partial) name
+ */
+async function resolveBoardId(client: TrelloDataSource, board: string): Promise<string> {
+  if (BOARD_ID_PATTERN.test(board)) {
+    return board;
+  }
+
+  const found = await client.findBoardByName(board);
+  if (!found) {
+    throw new Error(`Board with name "${board}" not found.`);
+  }
+  return found.id;
+}
+
+/**
+ * Build a prompt that embeds the full board report as a resource (the same document as the
+ * trello://board/{id}/report/{period} resource), followed by the instructions
+ */
+async function buildReportPrompt(
+  client: TrelloDataSource,
+  options: {
+    board: string;
+    period: string;
+    compareTo?: ComparisonMode;
+    description: string;
+    instructions: (context: { boardName: string; periodDesc: string; dateRange: string }) => string;
+  }
+): Promise<GetPromptResult> {
+  const boardId = await resolveBoardId(client, options.board);
+  const result = await generateReport(client, {
+    boardId,
+    period: parsePeriodString(options.period),
+    format: "full",
+    compareTo: options.compareTo,
+  });
+
+  const context = {
+    boardName: result.boardInfo.name,
+    periodDesc: getPeriodDescription(result.period),
+    dateRange: `${formatDate(result.dateRange.start)} to ${formatDate(result.dateRange.end)}`,
+  };
+
+  return {
+    description: options.description,
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: {
+            uri: `trello://board/${boardId}/report/${encodeURIComponent(options.period)}`,
+            mimeType: "text/markdown",
+            text: result.markdown,
+          },
+        },
+      },
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: options.instructions(context),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Register the report prompt templates on an MCP server
+ */
+export function registerReportPrompts(server: McpServer, getClient: () => TrelloDataSource): void {
+  // Suggest board names while the user types the board argument
+  const boardArgument = () =>
+    completable(
+      z.string().describe("Board ID or name"),
+      async (value) => {
+        const boards = await getClient().getBoards();
+        const normalizedValue = value.toLowerCase();
+        return boards
+          .filter((board) => !board.closed && board.name.toLowerCase().includes(normalizedValue))
+          .map((board) => board.name);
+      }
+    );
+
+  // Prompt: Quarterly Business Review
+  server.registerPrompt(
+    "quarterly_business_review",
+    {
+      title: "Quarterly Business Review",
+      description:
+        "Write a quarterly business review for a board, compared with the previous quarter",
+      argsSchema: {
+        board: boardArgument(),
+        quarter: z
+          .string()
+          .optional()
+          .describe(`Quarter to review, e.g. 2024-Q1 (default: the last completed quarter)`),
+      },
+    },
+    async ({ board, quarter }) =>
+      buildReportPrompt(getClient(), {
+        board,
+        period: quarter || getPreviousQuarter(),
+        compareTo: "previous",
+        description: "Quarterly business review",
+        instructions: ({ boardName, periodDesc, dateRange }) =>
+          `Using only the attached Trello report, write a Quarterly Business Review for the "${boardName}" board covering ${periodDesc} (${dateRange}).\n\n` +
+          `Use exactly these sections, in this order:\n\n` +
+          `1. **Executive Summary**: three to five sentences on what the team delivered and how the quarter went.\n` +
+          `2. **Key Metrics**: a table with cards created, cards completed, cards moved, comments and active members, with the change against the previous quarter.\n` +
+          `3. **Delivery Highlights**: the most significant completed work, grouped by label.\n` +
+          `4. **Flow and Delivery Speed**: lead and cycle time, bottleneck lists and work in progress trends.\n` +
+          `5. **Risks and Issues**: stalled or blocked work, truncated data warnings and anything trending the wrong way.\n` +
+          `6. **Priorities for Next Quarter**: three to five concrete recommendations grounded in the data.\n\n` +
+          `Quote numbers exactly as they appear in the report. Do not invent work or figures that are not in the report; say so when a section has no supporting data.`,
+      })
+  );
+
+  // Prompt: Sprint Retrospective
+  server.registerPrompt(
+    "sprint_retrospective",
+    {
+      title: "Sprint Retrospective",
+      description: "Prepare a sprint retrospective for a board from the sprint's activity",
+      argsSchema: {
+        board: boardArgument(),
+        period: z
+          .string()
+          .optional()
+          .describe(`Sprint period, ${PERIOD_ARGUMENT_HELP} (default: ${DEFAULT_RETROSPECTIVE_PERIOD})`),
+        sprintName: z.string().optional().describe("Name of the sprint, used as the document title"),
+      },
+    },
+    async ({ board, period, sprintName }) =>
+      buildReportPrompt(getClient(), {
+        board,
+        period: period || DEFAULT_RETROSPECTIVE_PERIOD,
+        compareTo: "previous",
+        description: "Sprint retrospective",
+        instructions: ({ boardName, periodDesc, dateRange }) =>
+          `Using only the attached Trello report, prepare a sprint retrospective for the "${boardName}" board` +
+          `${sprintName ? ` titled "${sprintName}"` : ""}, covering ${periodDesc} (${dateRange}).\n\n` +
+          `Use exactly these sections, in this order:\n\n` +
+          `1. **Sprint at a Glance**: cards completed, cards still in progress, and the change against the previous period of the same length.\n` +
+          `2. **What Went Well**: three to five points backed by completed cards or improving metrics.\n` +
+          `3. **What Didn't Go Well**: three to five points backed by stalled cards, long dwell times, bottleneck lists or declining metrics.\n` +
+          `4. **Flow Observations**: where cards waited longest and how work in progress evolved.\n` +
+          `5. **Action Items**: three concrete, owner-ready improvements for the next sprint, each tied to an observation above.\n\n` +
+          `Keep the tone blameless and refer to work by card name, not to individuals' performance. Do not invent work or figures that are not in the report.`,
+      })
+  );
+
+  // Prompt: Stakeholder Update
+  server.registerPrompt(
+    "stakeholder_update",
+    {
+      title: "Stakeholder Update",
+      description: "Draft a short status email for stakeholders from a board's recent activity",
+      argsSchema: {
+        board: boardArgument(),
+        period: z
+          .string()
+          .optional()
+          .describe(`Period to report on, ${PERIOD_ARGUMENT_HELP} (default: ${DEFAULT_STAKEHOLDER_PERIOD})`),
+        audience: z
+          .string()
+          .optional()
+          .describe("Who the update is for, e.g. 'executive team' or 'customer success' (default: stakeholders)"),
+      },
+    },
+    async ({ board, period, audience }) =>
+      buildReportPrompt(getClient(), {
+        board,
+        period: period || DEFAULT_STAKEHOLDER_PERIOD,
+        compareTo: "previous",
+        description: "Stakeholder update email",
+        instructions: ({ boardName, periodDesc, dateRange }) =>
+          `Using only the attached Trello report, draft a status update email about the "${boardName}" board for ${
+            audience || "stakeholders"
+          }, covering ${periodDesc} (${dateRange}).\n\n` +
+          `Use this structure:\n\n` +
+          `- **Subject line**: "${boardName} update: ${periodDesc}" followed by the single most important outcome.\n` +
+          `- **Summary**: two or three sentences in plain, non-technical language.\n` +
+          `- **Delivered**: a bulleted list of the most relevant completed work (at most five items).\n` +
+          `- **In Progress**: a bulleted list of what is being worked on now (at most five items).\n` +
+          `- **Risks and Asks**: blockers, delays or decisions needed, or "None" if the report shows none.\n` +
+          `- **By the Numbers**: cards completed and created, with the change against the previous period.\n\n` +
+          `Keep the email under 250 words, avoid internal jargon such as list names or card IDs, and do not invent work or figures that are not in the report.`,
+      })
+  );
+}
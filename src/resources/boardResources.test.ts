@@ -0,0 +1,192 @@
+/**
+ * Tests for the Trello MCP resources and resource subscriptions, through an in-memory MCP client
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { BoardBuilder } from "../mock/builders.js";
+import { SnapshotDataSource } from "../trello/snapshot.js";
+import { TrelloDataSource } from "../trello/types.js";
+import { registerBoardResources } from "./boardResources.js";
+import { ResourceSubscriptions } from "./subscriptions.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a board with open and archived cards, one of them with a checklist
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const bug = builder.label("Bug", "red");
+
+  const second = builder.card("Second", todo, new Date("2024-06-05T00:00:00.000Z"), { pos: 2048 });
+  const first = builder.card("First", todo, new Date("2024-06-03T00:00:00.000Z"), {
+    pos: 1024,
+    idLabels: [bug.id],
+    idMembers: [ana.id],
+  });
+  builder.checklist(first, "Definition of Done", [
+    ["Tests", "complete"],
+    ["Docs", "incomplete"],
+  ]);
+  const dropped = builder.card("Dropped", done, new Date("2024-06-07T00:00:00.000Z"));
+  builder.archive(dropped, new Date("2024-06-08T00:00:00.000Z"));
+
+  return { builder, todo, done, first, second };
+}
+
+describe("board resources", () => {
+  const { builder, todo, done, first, second } = createBoard();
+  const server = new McpServer({ name: "test-server", version: "1.0.0" });
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  let subscriptions: ResourceSubscriptions;
+
+  /**
+   * Read a text resource
+   */
+  async function readText(uri: string): Promise<{ mimeType?: string; text: string }> {
+    const {
+      contents: [content],
+    } = await client.readResource({ uri });
+    assert.ok("text" in content);
+    return content;
+  }
+
+  /**
+   * Read a JSON resource
+   */
+  async function readJson(uri: string) {
+    const { mimeType, text } = await readText(uri);
+    assert.equal(mimeType, "application/json");
+    return JSON.parse(text);
+  }
+
+  before(async () => {
+    subscriptions = registerBoardResources(server, () => new SnapshotDataSource(builder.build(JUNE)));
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  after(async () => {
+    subscriptions.stop();
+    await client.close();
+  });
+
+  it("lists the boards as resources", async () => {
+    const { resources } = await client.listResources();
+
+    assert.deepEqual(
+      resources.map((resource) => [resource.uri, resource.name]),
+      [
+        ["trello://boards", "boards"],
+        [`trello://board/${builder.board.id}`, "Team Board"],
+      ]
+    );
+  });
+
+  it("reads the open lists of a board with their open cards in order", async () => {
+    const lists = await readJson(`trello://board/${builder.board.id}/lists`);
+
+    assert.deepEqual(
+      lists.map((list: { id: string; cards: Array<{ id: string }> }) => [
+        list.id,
+        list.cards.map((card) => card.id),
+      ]),
+      [
+        [todo.id, [first.id, second.id]],
+        [done.id, []],
+      ]
+    );
+    assert.deepEqual(lists[0].cards[0].labels, ["Bug"]);
+    assert.deepEqual(lists[0].cards[0].members, ["Ana Souza"]);
+  });
+
+  it("reads a card with its checklists", async () => {
+    const card = await readJson(`trello://card/${first.id}`);
+
+    assert.equal(card.name, "First");
+    assert.equal(card.listId, todo.id);
+    assert.deepEqual(card.checklists, [
+      {
+        id: card.checklists[0].id,
+        name: "Definition of Done",
+        items: [
+          { name: "Tests", complete: true },
+          { name: "Docs", complete: false },
+        ],
+      },
+    ]);
+  });
+
+  it("reads a markdown report for a period", async () => {
+    const { mimeType, text } = await readText(`trello://board/${builder.board.id}/report/2024-06`);
+
+    assert.equal(mimeType, "text/markdown");
+    assert.match(text, /^# Trello Board Report: Team Board$/m);
+    assert.match(text, /- \*\*Cards Created\*\*: 3\n/);
+  });
+
+  it("notifies subscribers when the board shows new activity", async () => {
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+    const boardUri = `trello://board/${builder.board.id}`;
+
+    await client.subscribeResource({ uri: boardUri });
+    await client.subscribeResource({ uri: `${boardUri}/lists` });
+    await subscriptions.poll();
+    assert.deepEqual(updated, []);
+
+    builder.board.dateLastActivity = "2024-07-01T00:00:00.000Z";
+    await client.unsubscribeResource({ uri: `${boardUri}/lists` });
+    await subscriptions.poll();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.deepEqual(updated, [boardUri]);
+  });
+});
+
+describe("ResourceSubscriptions", () => {
+  it("fetches each board once per poll and reports every changed URI", async () => {
+    const { builder, first } = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE));
+    const requests: string[] = [];
+    const client: TrelloDataSource = Object.assign(Object.create(source), {
+      getBoard: (boardId: string) => {
+        requests.push(boardId);
+        return source.getBoard(boardId);
+      },
+    });
+    const updated: string[] = [];
+    const subscriptions = new ResourceSubscriptions(
+      () => client,
+      async (uri) => {
+        updated.push(uri);
+      }
+    );
+    const boardUri = `trello://board/${builder.board.id}`;
+
+    await subscriptions.subscribe(boardUri);
+    await subscriptions.subscribe(`${boardUri}/report/2024-06`);
+    await subscriptions.subscribe(`trello://card/${first.id}`);
+    requests.length = 0;
+
+    builder.board.dateLastActivity = "2024-07-01T00:00:00.000Z";
+    await subscriptions.poll();
+    await subscriptions.poll();
+    subscriptions.stop();
+
+    assert.deepEqual(requests, [builder.board.id, builder.board.id]);
+    assert.deepEqual(updated, [boardUri, `${boardUri}/report/2024-06`]);
+    await assert.rejects(subscriptions.subscribe("trello://lists"), /Unsupported resource URI "trello:\/\/lists"\./);
+  });
+});
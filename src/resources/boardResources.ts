@@ -0,0 +1,248 @@
+/**
+ * MCP resources exposing Trello boards, lists, cards and reports
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { TrelloCard, TrelloDataSource, TrelloLabel, TrelloMember } from "../trello/types.js";
+import { parsePeriodString } from "../trello/utils.js";
+import { generateReport } from "../tools/generateReport.js";
+import { toBoardOutput } from "../tools/structuredContent.js";
+import { ResourceSubscriptions } from "./subscriptions.js";
+
+/**
+ * Read a single template variable (variables may be exploded into arrays)
+ */
+function getVariable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Build a JSON resource result
+ */
+function jsonContents(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Summarize a card for resource listings, resolving label and member names
+ */
+function toCardSummary(card: TrelloCard, labels: TrelloLabel[], members: TrelloMember[]) {
+  return {
+    id: card.id,
+    name: card.name,
+    labels: card.idLabels
+      .map((id) => labels.find((label) => label.id === id))
+      .filter((label): label is TrelloLabel => !!label)
+      .map((label) => label.name || label.color)
+      .filter((name): name is string => !!name),
+    members: card.idMembers
+      .map((id) => members.find((member) => member.id === id)?.fullName)
+      .filter((name): name is string => !!name),
+    due: card.due || undefined,
+    dueComplete: card.due ? Boolean(card.dueComplete) : undefined,
+    lastActivity: card.dateLastActivity,
+    url: card.url,
+  };
+}
+
+/**
+ * Register the Trello resources and resource subscriptions on an MCP server
+ */
+export function registerBoardResources(
+  server: McpServer,
+  getClient: () => TrelloDataSource
+): ResourceSubscriptions {
+  // Resource: all boards
+  server.registerResource(
+    "boards",
+    "trello://boards",
+    {
+      title: "Trello Boards",
+      description: "All Trello boards of the authenticated user",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const boards = await getClient().getBoards();
+      return jsonContents(uri, boards.map(toBoardOutput));
+    }
+  );
+
+  // Resource: a board with its lists, labels and members
+  server.registerResource(
+    "board",
+    new ResourceTemplate("trello://board/{id}", {
+      list: async () => {
+        const boards = await getClient().getBoards();
+        return {
+          resources: boards
+            .filter((board) => !board.closed)
+            .map((board) => ({
+              uri: `trello://board/${board.id}`,
+              name: board.name,
+              description: board.desc || undefined,
+              mimeType: "application/json",
+            })),
+        };
+      },
+    }),
+    {
+      title: "Trello Board",
+      description: "A Trello board with its lists, labels and members",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const client = getClient();
+      const boardId = getVariable(variables, "id");
+      const [board, lists, labels, members] = await Promise.all([
+        client.getBoard(boardId),
+        client.getLists(boardId),
+        client.getLabels(boardId),
+        client.getMembers(boardId),
+      ]);
+
+      return jsonContents(uri, {
+        ...toBoardOutput(board),
+        lists: lists
+          .filter((list) => !list.closed)
+          .map((list) => ({ id: list.id, name: list.name, position: list.pos })),
+        labels: labels.map((label) => ({ id: label.id, name: label.name, color: label.color })),
+        members: members.map((member) => ({
+          id: member.id,
+          fullName: member.fullName,
+          username: member.username,
+        })),
+      });
+    }
+  );
+
+  // Resource: the open lists of a board and their cards
+  server.registerResource(
+    "board-lists",
+    new ResourceTemplate("trello://board/{id}/lists", { list: undefined }),
+    {
+      title: "Trello Board Lists",
+      description: "The open lists of a Trello board with their open cards",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const client = getClient();
+      const boardId = getVariable(variables, "id");
+      const [lists, cards, labels, members] = await Promise.all([
+        client.getLists(boardId),
+        client.getCards(boardId),
+        client.getLabels(boardId),
+        client.getMembers(boardId),
+      ]);
+
+      return jsonContents(
+        uri,
+        lists
+          .filter((list) => !list.closed)
+          .sort((a, b) => a.pos - b.pos)
+          .map((list) => ({
+            id: list.id,
+            name: list.name,
+            cards: cards
+              .filter((card) => !card.closed && card.idList === list.id)
+              .sort((a, b) => a.pos - b.pos)
+              .map((card) => toCardSummary(card, labels, members)),
+          }))
+      );
+    }
+  );
+
+  // Resource: a card with its checklists
+  server.registerResource(
+    "card",
+    new ResourceTemplate("trello://card/{id}", { list: undefined }),
+    {
+      title: "Trello Card",
+      description: "A Trello card with its description and checklists",
+      mimeType: "application/json",
+    },
+    async (uri, variables) => {
+      const client = getClient();
+      const cardId = getVariable(variables, "id");
+      const [card, checklists] = await Promise.all([
+        client.getCard(cardId),
+        client.getCardChecklists(cardId),
+      ]);
+
+      return jsonContents(uri, {
+        id: card.id,
+        name: card.name,
+        description: card.desc,
+        boardId: card.idBoard,
+        listId: card.idList,
+        closed: card.closed,
+        due: card.due || undefined,
+        dueComplete: card.due ? Boolean(card.dueComplete) : undefined,
+        labelIds: card.idLabels,
+        memberIds: card.idMembers,
+        lastActivity: card.dateLastActivity,
+        url: card.url,
+        checklists: checklists.map((checklist) => ({
+          id: checklist.id,
+          name: checklist.name,
+          items: checklist.checkItems.map((item) => ({
+            name: item.name,
+            complete: item.state === "complete",
+          })),
+        })),
+      });
+    }
+  );
+
+  // Resource: a markdown report for a board and period
+  server.registerResource(
+    "board-report",
+    new ResourceTemplate("trello://board/{id}/report/{period}", { list: undefined }),
+    {
+      title: "Trello Board Report",
+      description:
+        "Markdown activity report for a board. The period is e.g. 2024, 2024-Q1, 2024-03, 2024-W05, last-30-days or 2024-01-15..2024-02-15",
+      mimeType: "text/markdown",
+    },
+    async (uri, variables) => {
+      const result = await generateReport(getClient(), {
+        boardId: getVariable(variables, "id"),
+        period: parsePeriodString(getVariable(variables, "period")),
+        format: "full",
+      });
+
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: result.markdown }],
+      };
+    }
+  );
+
+  // Subscriptions: notify clients when a watched board or card shows new activity
+  const subscriptions = new ResourceSubscriptions(getClient, (uri) =>
+    server.server.sendResourceUpdated({ uri })
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return subscriptions;
+}
@@ -0,0 +1,144 @@
+/**
+ * Resource subscriptions: polls Trello for the resources a client subscribed to and
+ * reports the ones whose last activity changed
+ */
+
+import { TrelloDataSource } from "../trello/types.js";
+
+// Environment variable overriding the polling interval, in seconds
+const POLL_INTERVAL_ENV = "TRELLO_RESOURCE_POLL_INTERVAL";
+
+// Default polling interval for subscribed resources
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+
+/**
+ * Get the polling interval from the environment, falling back to the default
+ */
+export function getPollIntervalMs(): number {
+  const seconds = Number(process.env[POLL_INTERVAL_ENV]);
+  return seconds > 0 ? seconds * 1000 : DEFAULT_POLL_INTERVAL_MS;
+}
+
+/**
+ * Fetch the activity marker of a resource: the board's (or card's) dateLastActivity, or
+ * every board's for the board list. A changed marker means the resource changed.
+ */
+async function fetchActivityMarker(client: TrelloDataSource, uri: string): Promise<string> {
+  if (uri === "trello://boards") {
+    const boards = await client.getBoards();
+    return boards
+      .map((board) => `${board.id}:${board.dateLastActivity}`)
+      .sort()
+      .join(",");
+  }
+
+  const boardMatch = uri.match(/^trello:\/\/board\/([^/]+)/);
+  if (boardMatch) {
+    const board = await client.getBoard(decodeURIComponent(boardMatch[1]));
+    return board.dateLastActivity;
+  }
+
+  const cardMatch = uri.match(/^trello:\/\/card\/([^/]+)$/);
+  if (cardMatch) {
+    const card = await client.getCard(decodeURIComponent(cardMatch[1]));
+    return card.dateLastActivity;
+  }
+
+  throw new Error(`Unsupported resource URI "${uri}".`);
+}
+
+/**
+ * Tracks subscribed resource URIs and polls them while there is at least one subscription
+ */
+export class ResourceSubscriptions {
+  private getClient: () => TrelloDataSource;
+  private onUpdated: (uri: string) => Promise<void>;
+  private intervalMs: number;
+  private markers = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    getClient: () => TrelloDataSource,
+    onUpdated: (uri: string) => Promise<void>,
+    intervalMs: number = getPollIntervalMs()
+  ) {
+    this.getClient = getClient;
+    this.onUpdated = onUpdated;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Start watching a resource, recording its current activity marker
+   */
+  async subscribe(uri: string): Promise<void> {
+    this.markers.set(uri, await fetchActivityMarker(this.getClient(), uri));
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.poll().catch((error) => console.error("Error polling subscribed resources:", error));
+      }, this.intervalMs);
+      // Subscriptions alone should not keep the process alive
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop watching a resource, and stop polling when nothing is watched
+   */
+  unsubscribe(uri: string): void {
+    this.markers.delete(uri);
+    if (this.markers.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Check every subscribed resource once and notify the ones that changed.
+   * Resources on the same board share one request per poll.
+   */
+  async poll(): Promise<void> {
+    // Skip a tick if the previous poll is still running
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const client = this.getClient();
+      const fetched = new Map<string, Promise<string>>();
+
+      for (const [uri, previous] of [...this.markers]) {
+        // Several URIs of one board (board, lists, reports) resolve to the same marker
+        const key = uri.replace(/^(trello:\/\/board\/[^/]+).*$/, "$1");
+        if (!fetched.has(key)) {
+          fetched.set(key, fetchActivityMarker(client, key));
+        }
+
+        let marker: string;
+        try {
+          marker = await fetched.get(key)!;
+        } catch (error) {
+          console.error(`Error checking resource ${uri}:`, error);
+          continue;
+        }
+
+        if (marker !== previous && this.markers.has(uri)) {
+          this.markers.set(uri, marker);
+          await this.onUpdated(uri);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Stop polling and forget all subscriptions
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.markers.clear();
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for the member report and board listing, run against a board snapshot
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { SnapshotDataSource } from "../trello/snapshot.js";
+import { MemberReportOptions } from "../trello/types.js";
+import { generateMemberReport } from "./generateMemberReport.js";
+import { listBoards } from "./listBoards.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a snapshot of a board where Ana ships one card and comments on another
+ */
+function createTeamSnapshot(): SnapshotDataSource {
+  const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+
+  const shipped = builder.card("Shipped", todo, new Date("2024-06-03T00:00:00.000Z"), {}, ana);
+  builder.move(shipped, done, new Date("2024-06-05T00:00:00.000Z"), ana);
+  const open = builder.card("Open", todo, new Date("2024-06-07T00:00:00.000Z"), { idMembers: [ana.id] }, bruno);
+  builder.comment(open, new Date("2024-06-08T00:00:00.000Z"), "On it", ana);
+
+  return new SnapshotDataSource(builder.build(JUNE));
+}
+
+const options: MemberReportOptions = {
+  member: "@anasouza",
+  period: { type: "month", year: 2024, month: 6 },
+  timezone: "UTC",
+  locale: "en-US",
+};
+
+describe("listBoards", () => {
+  it("lists the boards of any data source, filtered by name", async () => {
+    const source = createTeamSnapshot();
+
+    assert.deepEqual((await listBoards(source)).map((board) => board.name), ["Team Board"]);
+    assert.deepEqual(await listBoards(source, "roadmap"), []);
+  });
+});
+
+describe("generateMemberReport", () => {
+  it("reports a member's activity from a snapshot", async () => {
+    const result = await generateMemberReport(createTeamSnapshot(), options);
+
+    assert.equal(result.member.fullName, "Ana Souza");
+    assert.equal(result.boards.length, 1);
+    assert.equal(result.totals.cardsCreated, 1);
+    assert.equal(result.totals.cardsCompleted, 1);
+    assert.equal(result.totals.comments, 1);
+    assert.equal(result.totals.assignedCards, 1);
+    assert.match(result.markdown, /^# Member Report: Ana Souza \(@anasouza\)$/m);
+  });
+
+  it("writes the report in the requested language", async () => {
+    const result = await generateMemberReport(createTeamSnapshot(), { ...options, language: "pt" });
+
+    assert.match(result.markdown, /^# Relatório do Membro: Ana Souza \(@anasouza\)$/m);
+    assert.match(result.markdown, /^## Período do Relatório: junho de 2024$/m);
+    assert.match(result.markdown, /Intervalo de Datas: 2024-06-01 a 2024-06-30/);
+    assert.match(result.markdown, /- \*\*Cartões Comentados\*\*: 1 \(1 comentário\)\n/);
+    assert.doesNotMatch(result.markdown, /Activity Summary|Cards Created/);
+  });
+
+  it("selects boards by organization", async () => {
+    const source = createTeamSnapshot();
+    const [board] = await source.getBoards();
+
+    const result = await generateMemberReport(source, { ...options, organizationId: board.idOrganization });
+    assert.equal(result.boards[0].board.id, board.id);
+
+    await assert.rejects(
+      generateMemberReport(source, { ...options, organizationId: "60000000000000000000ffff" }),
+      /No open boards matched/
+    );
+  });
+
+  it("rejects members who are not on the selected boards", async () => {
+    await assert.rejects(
+      generateMemberReport(createTeamSnapshot(), { ...options, member: "Carla" }),
+      /Member "Carla" not found on any of the selected boards/
+    );
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Tool for generating an individual contributor report across Trello boards
+ */
+
+import {
+  MemberBoardActivity,
+  MemberCardRef,
+  MemberLabelStats,
+  MemberReportOptions,
+  MemberReportResult,
+  TrelloBoard,
+  TrelloDataSource,
+  TrelloMember,
+} from "../trello/types.js";
+import {
+  getDateRangeForPeriod,
+  formatDate,
+  getPeriodDescription,
+  getTruncationWarning,
+} from "../trello/utils.js";
+import { formatLocaleDate, resolveDateSettings } from "../trello/timezone.js";
+import { loadWorkflowConfig, resolveBoardWorkflow } from "../trello/workflow.js";
+import { calculateMemberActivity, findMember } from "../trello/memberActivity.js";
+import { createTranslator, Translator } from "../trello/i18n.js";
+import { formatTableHeader } from "../trello/sections.js";
+import { resolveBoards } from "./generateWorkspaceReport.js";
+
+// Maximum number of cards listed per section of the markdown report
+const MAX_LISTED_CARDS = 10;
+
+/**
+ * Generate a report of one member's activity across boards: the cards they created, moved,
+ * completed and commented on, checklist items they completed and the cards assigned to them
+ */
+export async function generateMemberReport(
+  client: TrelloDataSource,
+  options: MemberReportOptions
+): Promise<MemberReportResult> {
+  const {
+    member: memberIdentifier,
+    organizationId,
+    boardIds,
+    boardNameFilter,
+    period,
+    maxActionPages,
+    language = "en",
+  } = options;
+
+  if (!period || !period.type || !period.year) {
+    throw new Error("Invalid period specified. Must include type and year.");
+  }
+
+  if (!memberIdentifier || !memberIdentifier.trim()) {
+    throw new Error("A member ID, username or full name must be provided.");
+  }
+
+  // Fail on an unsupported language before any board is fetched
+  createTranslator(language);
+
+  const dateSettings = resolveDateSettings(options.timezone, options.locale);
+
+  // Without a board selection, look at every open board of the authenticated user
+  let boards: TrelloBoard[];
+  if (organizationId || (boardIds && boardIds.length > 0) || boardNameFilter) {
+    boards = await resolveBoards(client, options);
+  } else {
+    boards = (await client.getBoards()).filter((board) => !board.closed);
+  }
+
+  if (boards.length === 0) {
+    throw new Error("No open boards matched the given organization, board IDs or name filter.");
+  }
+
+  // Find the member on each board, keeping only the boards they belong to
+  const boardMembers = await Promise.all(boards.map((board) => client.getMembers(board.id)));
+
+  let member: TrelloMember | undefined;
+  const memberBoards = boards.filter((board, index) => {
+    const found = findMember(boardMembers[index], memberIdentifier);
+    if (found && (!member || found.id === member.id)) {
+      member = found;
+      return true;
+    }
+    return false;
+  });
+
+  if (!member) {
+    throw new Error(`Member "${memberIdentifier}" not found on any of the selected boards.`);
+  }
+
+  const memberId = member.id;
+  const dateRange = getDateRangeForPeriod(period, dateSettings.timeZone);
+
+  // Boards are fetched in parallel; the client's limiter keeps requests within Trello's limits
+  const activities: MemberBoardActivity[] = await Promise.all(
+    memberBoards.map(async (board) => {
+      const [lists, cards, labels, { actions, truncated }, workflowConfig] = await Promise.all([
+        client.getLists(board.id),
+        client.getCards(board.id),
+        client.getLabels(board.id),
+        client.getActions(board.id, dateRange, maxActionPages),
+        loadWorkflowConfig(board.id),
+      ]);
+
+      return calculateMemberActivity(
+        memberId,
+        board,
+        lists,
+        cards,
+        labels,
+        actions,
+        truncated,
+        resolveBoardWorkflow(lists, workflowConfig)
+      );
+    })
+  );
+
+  // Merge label statistics by label name, since label IDs are board-specific
+  const labelStats = new Map<string, MemberLabelStats>();
+  activities.forEach((activity) => {
+    activity.labelStats.forEach((stats, key) => {
+      const merged = labelStats.get(key) || { name: stats.name, color: stats.color, cards: 0 };
+      merged.cards += stats.cards;
+      labelStats.set(key, merged);
+    });
+  });
+
+  const sum = (count: (activity: MemberBoardActivity) => number) =>
+    activities.reduce((total, activity) => total + count(activity), 0);
+
+  const result: MemberReportResult = {
+    member,
+    period,
+    dateRange,
+    dateSettings,
+    language,
+    boards: activities,
+    totals: {
+      actions: sum((activity) => activity.actionCount),
+      cardsCreated: sum((activity) => activity.cardsCreated.length),
+      cardsMoved: sum((activity) => activity.cardsMoved.length),
+      moves: sum((activity) => activity.moveCount),
+      cardsCompleted: sum((activity) => activity.cardsCompleted.length),
+      cardsCommented: sum((activity) => activity.cardsCommented.length),
+      comments: sum((activity) => activity.commentCount),
+      checkItemsCompleted: sum((activity) => activity.checkItemsCompleted),
+      assignedCards: sum((activity) => activity.assignedCards.length),
+    },
+    labels: [...labelStats.values()].sort((a, b) => b.cards - a.cards),
+    markdown: "",
+  };
+
+  result.markdown = generateMemberMarkdown(result);
+
+  return result;
+}
+
+/**
+ * Render a list of cards, linking the ones that are still on their board
+ */
+function formatCardList(cards: MemberCardRef[], boards: MemberBoardActivity[], t: Translator): string {
+  const showBoard = boards.length > 1;
+  let markdown = "";
+
+  cards.slice(0, MAX_LISTED_CARDS).forEach((card) => {
+    const name = card.url ? `[${card.name}](${card.url})` : card.name;
+    const details = [
+      showBoard ? boards.find((activity) => activity.board.id === card.boardId)?.board.name : undefined,
+      card.listName,
+    ].filter(Boolean);
+
+    markdown += `- ${name}${details.length > 0 ? ` (${details.join(", ")})` : ""}\n`;
+  });
+
+  if (cards.length > MAX_LISTED_CARDS) {
+    markdown += `- ${t("member.andMore", { count: cards.length - MAX_LISTED_CARDS })}\n`;
+  }
+
+  return markdown + `\n`;
+}
+
+/**
+ * Generate a markdown report of a member's activity
+ */
+function generateMemberMarkdown(result: MemberReportResult): string {
+  const { member, period, dateRange, dateSettings, boards, totals, labels } = result;
+  const { timeZone } = dateSettings;
+  const t = createTranslator(result.language);
+  const dateRangeStr = t("common.dateRange", {
+    start: formatDate(dateRange.start, timeZone),
+    end: formatDate(dateRange.end, timeZone),
+  });
+
+  let markdown = `# ${t("member.title", { name: member.fullName, username: member.username })}\n\n`;
+
+  markdown += `## ${t("report.reportPeriod", { period: getPeriodDescription(period, t) })}\n\n`;
+  markdown += `${t("report.dateRange", { range: dateRangeStr })}\n\n`;
+
+  const truncatedBoards = boards.filter((activity) => activity.actionsTruncated);
+  if (truncatedBoards.length > 0) {
+    markdown += getTruncationWarning(
+      truncatedBoards.reduce((total, activity) => total + activity.actionCount, 0),
+      t
+    );
+    markdown += `${t("rollup.affectedBoards", {
+      boards: truncatedBoards.map((activity) => activity.board.name).join(", "),
+    })}\n\n`;
+  }
+
+  // Totals
+  const moves = t("member.moveCount", { count: totals.moves });
+  const comments = t("common.commentCount", { count: totals.comments });
+  markdown += `## ${t("report.activitySummary")}\n\n`;
+  markdown += `- **${t("rollup.totalActions")}**: ${totals.actions}\n`;
+  markdown += `- **${t("report.cardsCreated")}**: ${totals.cardsCreated}\n`;
+  markdown += `- **${t("report.cardsMoved")}**: ${totals.cardsMoved} (${moves})\n`;
+  markdown += `- **${t("report.cardsCompleted")}**: ${totals.cardsCompleted}\n`;
+  markdown += `- **${t("member.cardsCommentedOn")}**: ${totals.cardsCommented} (${comments})\n`;
+  markdown += `- **${t("member.checklistItemsCompleted")}**: ${totals.checkItemsCompleted}\n`;
+  markdown += `- **${t("member.cardsAssigned")}**: ${totals.assignedCards}\n\n`;
+
+  // Per-board breakdown
+  if (boards.length > 1) {
+    markdown += `## ${t("rollup.boardBreakdown")}\n\n`;
+    markdown += formatTableHeader([
+      t("rollup.board"),
+      t("rollup.actions"),
+      t("rollup.created"),
+      t("rollup.moved"),
+      t("report.completed"),
+      t("report.comments"),
+      t("member.checklistItems"),
+      t("member.assigned"),
+    ]);
+
+    [...boards]
+      .sort((a, b) => b.actionCount - a.actionCount)
+      .forEach((activity) => {
+        markdown += `| [${activity.board.name}](${activity.board.url}) | ${activity.actionCount} | ${
+          activity.cardsCreated.length
+        } | ${activity.cardsMoved.length} | ${activity.cardsCompleted.length} | ${
+          activity.commentCount
+        } | ${activity.checkItemsCompleted} | ${activity.assignedCards.length} |\n`;
+      });
+
+    markdown += `\n`;
+  }
+
+  // Card lists
+  const sections: [string, (activity: MemberBoardActivity) => MemberCardRef[]][] = [
+    [t("report.cardsCompleted"), (activity) => activity.cardsCompleted],
+    [t("report.cardsCreated"), (activity) => activity.cardsCreated],
+    [t("member.cardsCommentedOn"), (activity) => activity.cardsCommented],
+    [t("member.currentlyAssigned"), (activity) => activity.assignedCards],
+  ];
+
+  sections.forEach(([title, getCards]) => {
+    const cards = boards.flatMap(getCards);
+    if (cards.length === 0) return;
+
+    markdown += `## ${title}\n\n`;
+    markdown += formatCardList(cards, boards, t);
+  });
+
+  // Top labels
+  if (labels.length > 0) {
+    markdown += `## ${t("member.topLabels")}\n\n`;
+    markdown += formatTableHeader([t("report.label"), t("report.color"), t("report.cards")]);
+
+    labels.slice(0, MAX_LISTED_CARDS).forEach((stats) => {
+      markdown += `| ${stats.name} | ${stats.color || "-"} | ${stats.cards} |\n`;
+    });
+
+    markdown += `\n`;
+  }
+
+  if (totals.actions === 0 && totals.assignedCards === 0) {
+    markdown += `${t("member.noActivity", { name: member.fullName })}\n\n`;
+  }
+
+  markdown += `*${t("report.generatedOn", { date: formatLocaleDate(new Date(), dateSettings) })}*\n`;
+
+  return markdown;
+}
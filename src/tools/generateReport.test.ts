@@ -0,0 +1,110 @@
+/**
+ * Tests for board report generation, run against the mock Trello server
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockTrelloServer, startMockTrelloServer } from "../mock/server.js";
+import { createFixtureBoards } from "../mock/fixtures.js";
+import { TrelloApiClient } from "../trello/api.js";
+import { REPORT_JSON_VERSION } from "../trello/export.js";
+import { formatMetricDelta } from "../trello/comparison.js";
+import { ReportOptions } from "../trello/types.js";
+import { generateReport } from "./generateReport.js";
+
+// Fixture boards are generated relative to this date, so every run sees the same data
+const ANCHOR = new Date("2024-06-30T12:00:00.000Z");
+
+describe("generateReport", () => {
+  const boards = createFixtureBoards(ANCHOR);
+  const [board] = boards;
+  let mock: MockTrelloServer;
+  let client: TrelloApiClient;
+
+  // Second quarter of 2024, in UTC, as of the fixture anchor
+  const options: ReportOptions = {
+    boardId: board.board.id,
+    period: { type: "Q2", year: 2024 },
+    timezone: "UTC",
+    locale: "en-US",
+    asOf: ANCHOR,
+  };
+
+  before(async () => {
+    mock = await startMockTrelloServer({ boards });
+    client = new TrelloApiClient({ apiKey: "key", apiToken: "token", baseUrl: mock.url });
+  });
+
+  after(() => mock.close());
+
+  it("reports the cards created in the period", async () => {
+    const start = new Date("2024-04-01T00:00:00.000Z");
+    const end = new Date("2024-06-30T23:59:59.999Z");
+    const created = board.actions.filter((action) => {
+      const date = new Date(action.date);
+      return action.type === "createCard" && date > start && date < end;
+    }).length;
+
+    const result = await generateReport(client, options);
+
+    assert.ok(created > 0);
+    assert.equal(result.activity.cardsCreated, created);
+    assert.equal(result.actionsTruncated, false);
+    assert.match(result.markdown, /^# Trello Board Report: Product Roadmap$/m);
+    assert.match(result.markdown, /Date Range: 2024-04-01 to 2024-06-30/);
+    assert.ok(result.markdown.includes(`- **Cards Created**: ${created}\n`));
+  });
+
+  it("finds the board by name", async () => {
+    const result = await generateReport(client, {
+      ...options,
+      boardId: undefined,
+      boardName: "platform team",
+      format: "summary",
+    });
+
+    assert.equal(result.boardInfo.id, boards[1].board.id);
+  });
+
+  it("writes the report in the requested language", async () => {
+    const result = await generateReport(client, { ...options, language: "pt" });
+
+    assert.match(result.markdown, /^# Relatório do Quadro do Trello: Product Roadmap$/m);
+    assert.match(result.markdown, /Intervalo de Datas: 2024-04-01 a 2024-06-30/);
+  });
+
+  it("exports the report as JSON", async () => {
+    const result = await generateReport(client, { ...options, format: "json" });
+    const [document] = result.documents;
+    const data = JSON.parse(document.content);
+
+    assert.equal(result.documents.length, 1);
+    assert.equal(document.mimeType, "application/json");
+    assert.equal(data.version, REPORT_JSON_VERSION);
+    assert.equal(data.boardInfo.id, board.board.id);
+    assert.equal(data.activity.cardsCreated, result.activity.cardsCreated);
+  });
+
+  it("compares with the previous period", async () => {
+    const result = await generateReport(client, { ...options, compareTo: "previous" });
+    const { cardsCreated } = result.comparison!.metrics;
+    const change = formatMetricDelta(cardsCreated, undefined, "en-US");
+
+    assert.deepEqual(result.comparison!.period, { type: "Q1", year: 2024 });
+    assert.match(result.markdown, /^## Comparison with First Quarter 2024$/m);
+    assert.doesNotMatch(result.markdown, /Compared with/);
+    assert.ok(
+      result.markdown.includes(`| Cards Created | ${cardsCreated.current} | ${cardsCreated.previous} | ${change} |`)
+    );
+
+    const summary = await generateReport(client, { ...options, compareTo: "previous", format: "summary" });
+    assert.match(summary.markdown, /- \*\*Cards created\*\*: \d+ \([+-]?\d+(, [^()]+)?\)\n/);
+  });
+
+  it("rejects unknown boards", async () => {
+    await assert.rejects(
+      generateReport(client, { ...options, boardId: undefined, boardName: "Missing Board" }),
+      /Board with name "Missing Board" not found/
+    );
+  });
+});
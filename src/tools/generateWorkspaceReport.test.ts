@@ -0,0 +1,150 @@
+/**
+ * Tests for the workspace rollup report, run against board snapshots and the mock Trello server
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { MockTrelloServer, startMockTrelloServer } from "../mock/server.js";
+import { TrelloApiClient } from "../trello/api.js";
+import { SnapshotDataSource } from "../trello/snapshot.js";
+import { WorkspaceReportOptions } from "../trello/types.js";
+import { generateWorkspaceReport } from "./generateWorkspaceReport.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a snapshot of a board where two cards were created and one was shipped
+ */
+function createSquadBoard(): BoardBuilder {
+  const builder = new BoardBuilder("Squad Board", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const feature = builder.label("Feature");
+
+  const shipped = builder.card("Shipped", todo, new Date("2024-06-03T00:00:00.000Z"), { idLabels: [feature.id] });
+  builder.move(shipped, done, new Date("2024-06-05T00:00:00.000Z"));
+  builder.card("Open", todo, new Date("2024-06-07T00:00:00.000Z"));
+
+  return builder;
+}
+
+/**
+ * Build a snapshot of the squad board
+ */
+function createSquadSnapshot(): SnapshotDataSource {
+  return new SnapshotDataSource(createSquadBoard().build(JUNE));
+}
+
+/**
+ * Build a second board in the same workspace, worked on by the squad board's member and another one
+ */
+function createPlatformBoard(squad: BoardBuilder): BoardBuilder {
+  const builder = new BoardBuilder("Platform Board", new Date("2024-05-02T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const feature = builder.label("feature", "blue");
+  const [shared] = squad.members;
+  builder.members.push(shared);
+  const bruno = builder.member("Bruno Lima");
+
+  const api = builder.card("API", todo, new Date("2024-06-04T00:00:00.000Z"), { idLabels: [feature.id] }, bruno);
+  builder.move(api, done, new Date("2024-06-06T00:00:00.000Z"), shared);
+  builder.comment(api, new Date("2024-06-08T00:00:00.000Z"), "Deployed", bruno);
+
+  return builder;
+}
+
+const options: WorkspaceReportOptions = {
+  boardNameFilter: "squad",
+  period: { type: "month", year: 2024, month: 6 },
+  timezone: "UTC",
+  locale: "en-US",
+};
+
+describe("generateWorkspaceReport", () => {
+  it("writes the report in the requested language", async () => {
+    const result = await generateWorkspaceReport(createSquadSnapshot(), { ...options, language: "pt" });
+
+    assert.equal(result.language, "pt");
+    assert.equal(result.boards[0].language, "pt");
+    assert.match(result.markdown, /^# Relatório do Workspace: 1 Quadro$/m);
+    assert.match(result.markdown, /^## Período do Relatório: junho de 2024$/m);
+    assert.match(result.markdown, /Intervalo de Datas: 2024-06-01 a 2024-06-30/);
+    assert.match(result.markdown, /- \*\*Cartões Criados\*\*: 2\n/);
+    assert.match(result.markdown, /^\| Quadro \| Ações \| Criados \| Concluídos \|/m);
+    assert.doesNotMatch(result.markdown, /Activity Summary|Board Breakdown/);
+  });
+
+  it("rejects unsupported languages before fetching boards", async () => {
+    await assert.rejects(
+      generateWorkspaceReport(createSquadSnapshot(), { ...options, language: "fr" as never }),
+      /Unsupported language "fr"/
+    );
+  });
+});
+
+describe("generateWorkspaceReport across boards", () => {
+  const squad = createSquadBoard();
+  const platform = createPlatformBoard(squad);
+  const archived = new BoardBuilder("Archived Board", new Date("2024-05-03T00:00:00.000Z"));
+  archived.board.closed = true;
+  let mock: MockTrelloServer;
+  let client: TrelloApiClient;
+
+  before(async () => {
+    mock = await startMockTrelloServer({ boards: [squad, platform, archived].map((board) => board.build(JUNE)) });
+    client = new TrelloApiClient({ apiKey: "key", apiToken: "token", baseUrl: mock.url });
+  });
+
+  after(() => mock.close());
+
+  const period = options.period;
+
+  it("adds up the open boards of an organization", async () => {
+    const result = await generateWorkspaceReport(client, {
+      organizationId: squad.board.idOrganization,
+      period,
+      timezone: "UTC",
+    });
+
+    assert.deepEqual(result.boards.map((report) => report.boardInfo.name).sort(), ["Platform Board", "Squad Board"]);
+    assert.deepEqual(result.totals, {
+      actions: 6,
+      cardsCreated: 3,
+      cardsCompleted: 2,
+      cardsMoved: 2,
+      commentsAdded: 1,
+      activeMembers: 2,
+    });
+    assert.match(result.markdown, /^\| \[Squad Board\]\(.*\) \| 3 \| 2 \| 1 \| 1 \| 0 \| 1 \|$/m);
+    assert.match(result.markdown, /^\| \[Platform Board\]\(.*\) \| 3 \| 1 \| 1 \| 1 \| 1 \| 2 \|$/m);
+  });
+
+  it("merges members by ID and labels by name across boards", async () => {
+    const result = await generateWorkspaceReport(client, { boardNameFilter: "board", period, timezone: "UTC" });
+    const [shared] = squad.members;
+
+    assert.equal(result.membersActive.get(shared.id), 4);
+    assert.equal(result.members.filter((member) => member.id === shared.id).length, 1);
+    assert.match(result.markdown, /^\| Bruno Lima \| 2 \| 1 \|$/m);
+    assert.deepEqual([...result.labelStats.values()], [
+      { name: "Feature", color: "green", cardsActive: 2, cardsCompleted: 2 },
+    ]);
+  });
+
+  it("keeps only the listed boards that are open and belong to the organization", async () => {
+    const result = await generateWorkspaceReport(client, {
+      boardIds: [platform.board.id, archived.board.id],
+      period,
+      timezone: "UTC",
+    });
+
+    assert.deepEqual(result.boards.map((report) => report.boardInfo.name), ["Platform Board"]);
+    await assert.rejects(
+      generateWorkspaceReport(client, { boardIds: [squad.board.id], organizationId: "elsewhere", period }),
+      /No open boards matched the given organization, board IDs or name filter\./
+    );
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Tool for generating a rollup report across several Trello boards
+ */
+
+import {
+  ReportResult,
+  TrelloBoard,
+  TrelloDataSource,
+  TrelloMember,
+  WorkspaceLabelStats,
+  WorkspaceReportOptions,
+  WorkspaceReportResult,
+} from "../trello/types.js";
+import {
+  getDateRangeForPeriod,
+  formatDate,
+  getPeriodDescription,
+  getTruncationWarning,
+} from "../trello/utils.js";
+import { formatLocaleDate, resolveDateSettings } from "../trello/timezone.js";
+import { createTranslator } from "../trello/i18n.js";
+import { formatTableHeader } from "../trello/sections.js";
+import { generateReport } from "./generateReport.js";
+
+/**
+ * Resolve the boards selected by organization, explicit IDs and/or a name filter
+ */
+export async function resolveBoards(
+  client: TrelloDataSource,
+  options: Pick<WorkspaceReportOptions, "organizationId" | "boardIds" | "boardNameFilter">
+): Promise<TrelloBoard[]> {
+  const { organizationId, boardIds, boardNameFilter } = options;
+
+  let boards: TrelloBoard[];
+  if (boardIds && boardIds.length > 0) {
+    boards = await Promise.all(boardIds.map((boardId) => client.getBoard(boardId)));
+    if (organizationId) {
+      boards = boards.filter((board) => board.idOrganization === organizationId);
+    }
+  } else if (organizationId) {
+    boards = await client.getOrganizationBoards(organizationId);
+  } else if (boardNameFilter) {
+    boards = await client.getBoards();
+  } else {
+    throw new Error("Provide an organizationId, a list of boardIds or a boardNameFilter.");
+  }
+
+  if (boardNameFilter) {
+    const normalizedFilter = boardNameFilter.toLowerCase();
+    boards = boards.filter((board) => board.name.toLowerCase().includes(normalizedFilter));
+  }
+
+  return boards.filter((board) => !board.closed);
+}
+
+/**
+ * Generate a rollup report for several boards by running the board report for each of them
+ */
+export async function generateWorkspaceReport(
+  client: TrelloDataSource,
+  options: WorkspaceReportOptions
+): Promise<WorkspaceReportResult> {
+  const { period, maxActionPages, language = "en" } = options;
+
+  if (!period || !period.type || !period.year) {
+    throw new Error("Invalid period specified. Must include type and year.");
+  }
+
+  // Fail on an unsupported language before any board is fetched
+  createTranslator(language);
+
+  // Every board is reported in the same time zone, so their periods line up
+  const dateSettings = resolveDateSettings(options.timezone, options.locale);
+  const { timeZone, locale } = dateSettings;
+
+  const boards = await resolveBoards(client, options);
+  if (boards.length === 0) {
+    throw new Error("No open boards matched the given organization, board IDs or name filter.");
+  }
+
+  // Boards are reported in parallel; the client's limiter keeps requests within Trello's limits
+  const reports: ReportResult[] = await Promise.all(
+    boards.map((board) =>
+      generateReport(client, {
+        boardId: board.id,
+        period,
+        format: "summary",
+        maxActionPages,
+        timezone: timeZone,
+        locale,
+        language,
+      })
+    )
+  );
+
+  // Merge member activity and member details across boards
+  const membersActive = new Map<string, number>();
+  const membersById = new Map<string, TrelloMember>();
+  reports.forEach((report) => {
+    report.members.forEach((member) => membersById.set(member.id, member));
+    report.activity.membersActive.forEach((count, memberId) => {
+      membersActive.set(memberId, (membersActive.get(memberId) || 0) + count);
+    });
+  });
+
+  // Merge label statistics by label name, since label IDs are board-specific
+  const labelStats = new Map<string, WorkspaceLabelStats>();
+  reports.forEach((report) => {
+    const activeCardIds = new Set<string>();
+    report.actions.forEach((action) => {
+      if (action.data.card?.id) {
+        activeCardIds.add(action.data.card.id);
+      }
+    });
+    const completedCardIds = new Set(report.activity.completedCards.map((card) => card.id));
+
+    report.labels.forEach((label) => {
+      if (!label.name) return;
+
+      const key = label.name.toLowerCase();
+      const stats = labelStats.get(key) || {
+        name: label.name,
+        color: label.color,
+        cardsActive: 0,
+        cardsCompleted: 0,
+      };
+
+      report.cards.forEach((card) => {
+        if (!card.idLabels.includes(label.id)) return;
+        if (activeCardIds.has(card.id)) stats.cardsActive++;
+        if (completedCardIds.has(card.id)) stats.cardsCompleted++;
+      });
+
+      labelStats.set(key, stats);
+    });
+  });
+
+  const totals = {
+    actions: reports.reduce((sum, report) => sum + report.actions.length, 0),
+    cardsCreated: reports.reduce((sum, report) => sum + report.activity.cardsCreated, 0),
+    cardsCompleted: reports.reduce((sum, report) => sum + report.activity.completedCards.length, 0),
+    cardsMoved: reports.reduce((sum, report) => sum + report.activity.cardsMoved, 0),
+    commentsAdded: reports.reduce((sum, report) => sum + report.activity.commentsAdded, 0),
+    activeMembers: membersActive.size,
+  };
+
+  const result: WorkspaceReportResult = {
+    boards: reports,
+    period,
+    dateRange: getDateRangeForPeriod(period, timeZone),
+    dateSettings,
+    language,
+    totals,
+    members: [...membersById.values()],
+    membersActive,
+    labelStats,
+    markdown: "",
+  };
+
+  result.markdown = generateWorkspaceMarkdown(result);
+
+  return result;
+}
+
+/**
+ * Generate a markdown rollup report from the per-board results
+ */
+function generateWorkspaceMarkdown(result: WorkspaceReportResult): string {
+  const { boards, period, dateRange, dateSettings, totals, members, membersActive, labelStats } = result;
+  const { timeZone } = dateSettings;
+  const t = createTranslator(result.language);
+  const dateRangeStr = t("common.dateRange", {
+    start: formatDate(dateRange.start, timeZone),
+    end: formatDate(dateRange.end, timeZone),
+  });
+
+  let markdown = `# ${t("workspace.title", { count: boards.length })}\n\n`;
+
+  markdown += `## ${t("report.reportPeriod", { period: getPeriodDescription(period, t) })}\n\n`;
+  markdown += `${t("report.dateRange", { range: dateRangeStr })}\n\n`;
+
+  const truncatedBoards = boards.filter((report) => report.actionsTruncated);
+  if (truncatedBoards.length > 0) {
+    markdown += getTruncationWarning(
+      truncatedBoards.reduce((sum, report) => sum + report.actions.length, 0),
+      t
+    );
+    markdown += `${t("rollup.affectedBoards", {
+      boards: truncatedBoards.map((report) => report.boardInfo.name).join(", "),
+    })}\n\n`;
+  }
+
+  // Totals
+  markdown += `## ${t("report.activitySummary")}\n\n`;
+  markdown += `- **${t("rollup.totalActions")}**: ${totals.actions}\n`;
+  markdown += `- **${t("report.cardsCreated")}**: ${totals.cardsCreated}\n`;
+  markdown += `- **${t("report.cardsCompleted")}**: ${totals.cardsCompleted}\n`;
+  markdown += `- **${t("report.cardsMoved")}**: ${totals.cardsMoved}\n`;
+  markdown += `- **${t("report.commentsAdded")}**: ${totals.commentsAdded}\n`;
+  markdown += `- **${t("report.activeMembers")}**: ${totals.activeMembers}\n\n`;
+
+  // Per-board breakdown
+  markdown += `## ${t("rollup.boardBreakdown")}\n\n`;
+  markdown += formatTableHeader([
+    t("rollup.board"),
+    t("rollup.actions"),
+    t("rollup.created"),
+    t("report.completed"),
+    t("rollup.moved"),
+    t("report.comments"),
+    t("report.activeMembers"),
+  ]);
+
+  [...boards]
+    .sort((a, b) => b.actions.length - a.actions.length)
+    .forEach((report) => {
+      const { activity } = report;
+      markdown += `| [${report.boardInfo.name}](${report.boardInfo.url}) | ${report.actions.length} | ${
+        activity.cardsCreated
+      } | ${activity.completedCards.length} | ${activity.cardsMoved} | ${activity.commentsAdded} | ${
+        activity.membersActive.size
+      } |\n`;
+    });
+
+  markdown += `\n`;
+
+  // Member activity
+  if (membersActive.size > 0) {
+    markdown += `## ${t("report.memberActivity")}\n\n`;
+    markdown += formatTableHeader([t("report.member"), t("report.activity"), t("rollup.boards")]);
+
+    [...membersActive.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([memberId, count]) => {
+        const member = members.find((m) => m.id === memberId);
+        if (!member) return;
+
+        const boardCount = boards.filter((report) => report.activity.membersActive.has(memberId)).length;
+        markdown += `| ${member.fullName} | ${count} | ${boardCount} |\n`;
+      });
+
+    markdown += `\n`;
+  }
+
+  // Label usage
+  const usedLabels = [...labelStats.values()]
+    .filter((stats) => stats.cardsActive > 0 || stats.cardsCompleted > 0)
+    .sort((a, b) => b.cardsActive - a.cardsActive);
+
+  if (usedLabels.length > 0) {
+    markdown += `## ${t("report.labelUsage")}\n\n`;
+    markdown += formatTableHeader([
+      t("report.label"),
+      t("report.color"),
+      t("workspace.activeCards"),
+      t("report.completed"),
+    ]);
+
+    usedLabels.forEach((stats) => {
+      markdown += `| ${stats.name} | ${stats.color || "-"} | ${stats.cardsActive} | ${stats.cardsCompleted} |\n`;
+    });
+
+    markdown += `\n`;
+  }
+
+  markdown += `*${t("report.generatedOn", { date: formatLocaleDate(new Date(), dateSettings) })}*\n`;
+
+  return markdown;
+}
@@ -2,15 +2,17 @@
  * Tool for listing all Trello boards
  */
 
-import { trelloApi } from "../trello/api.js";
-import { TrelloBoard } from "../trello/types.js";
+import { TrelloBoard, TrelloDataSource } from "../trello/types.js";
 
 /**
  * List all Trello boards with optional search filter
  */
-export async function listBoards(searchTerm?: string): Promise<TrelloBoard[]> {
+export async function listBoards(
+  client: TrelloDataSource,
+  searchTerm?: string
+): Promise<TrelloBoard[]> {
   // Get all boards
-  const boards = await trelloApi.getBoards();
+  const boards = await client.getBoards();
 
   // If no search term, return all boards
   if (!searchTerm) {
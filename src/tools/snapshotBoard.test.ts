@@ -0,0 +1,119 @@
+/**
+ * Tests for capturing boards to snapshot files and reporting from them, run against the mock Trello server
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MockTrelloServer, startMockTrelloServer } from "../mock/server.js";
+import { createFixtureBoards } from "../mock/fixtures.js";
+import { TrelloApiClient } from "../trello/api.js";
+import { SNAPSHOT_VERSION, SnapshotDataSource, readSnapshot, resolveSnapshotPeriod } from "../trello/snapshot.js";
+import { ReportPeriod } from "../trello/types.js";
+import { generateReport } from "./generateReport.js";
+import { snapshotBoard } from "./snapshotBoard.js";
+
+// Fixture boards are generated relative to this date, so every run sees the same data
+const ANCHOR = new Date("2024-06-30T12:00:00.000Z");
+
+const JUNE_2024: ReportPeriod = { type: "month", year: 2024, month: 6 };
+
+/**
+ * Drop the line with the generation time, the only part of a report that depends on when it is built
+ */
+function withoutGenerationTime(markdown: string): string {
+  return markdown.replace(/^\*Report generated on .*\*$/m, "");
+}
+
+describe("snapshotBoard", () => {
+  const boards = createFixtureBoards(ANCHOR);
+  const [board] = boards;
+  let mock: MockTrelloServer;
+  let client: TrelloApiClient;
+  let directory: string;
+
+  before(async () => {
+    mock = await startMockTrelloServer({ boards });
+    client = new TrelloApiClient({ apiKey: "key", apiToken: "token", baseUrl: mock.url });
+    directory = await mkdtemp(join(tmpdir(), "board-snapshots-"));
+  });
+
+  after(async () => {
+    mock.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("writes everything a report needs to a versioned file", async () => {
+    const outputPath = join(directory, "roadmap.json");
+    const { path, snapshot } = await snapshotBoard(client, {
+      boardName: "roadmap",
+      period: JUNE_2024,
+      outputPath,
+      timezone: "UTC",
+    });
+
+    assert.equal(path, outputPath);
+    assert.deepEqual(await readSnapshot(path), snapshot);
+    assert.equal(snapshot.version, SNAPSHOT_VERSION);
+    assert.equal(snapshot.board.id, board.board.id);
+    assert.deepEqual(snapshot.dateRange, {
+      start: "2024-06-01T00:00:00.000Z",
+      end: "2024-06-30T23:59:59.999Z",
+    });
+    assert.equal(snapshot.actionsEnd, snapshot.createdAt);
+    assert.deepEqual(
+      [snapshot.lists, snapshot.cards, snapshot.members, snapshot.labels, snapshot.checklists].map((items) =>
+        items.map((item) => item.id)
+      ),
+      [board.lists, board.cards, board.members, board.labels, board.checklists].map((items) =>
+        items.map((item) => item.id)
+      )
+    );
+    assert.ok(snapshot.actions.length > 0);
+    assert.ok(snapshot.actions.every((action) => new Date(action.date) > new Date(snapshot.dateRange.start)));
+  });
+
+  it("rebuilds the same report from the file without the Trello API", async () => {
+    const { path } = await snapshotBoard(client, {
+      boardId: board.board.id,
+      period: JUNE_2024,
+      outputPath: join(directory, "reproducible.json"),
+      timezone: "UTC",
+    });
+
+    const fromSnapshot = async () => {
+      const snapshot = await readSnapshot(path);
+      return generateReport(new SnapshotDataSource(snapshot), {
+        boardId: snapshot.board.id,
+        ...resolveSnapshotPeriod(snapshot),
+        timezone: snapshot.timeZone,
+        locale: "en-US",
+      });
+    };
+    const live = await generateReport(client, {
+      boardId: board.board.id,
+      period: JUNE_2024,
+      timezone: "UTC",
+      locale: "en-US",
+    });
+    const [first, second] = [await fromSnapshot(), await fromSnapshot()];
+
+    assert.equal(withoutGenerationTime(first.markdown), withoutGenerationTime(second.markdown));
+    assert.deepEqual(
+      first.actions.map((action) => action.id),
+      live.actions.map((action) => action.id)
+    );
+    assert.equal(first.activity.cardsCreated, live.activity.cardsCreated);
+    assert.equal(first.activity.completedCards.length, live.activity.completedCards.length);
+  });
+
+  it("rejects an unknown board name before writing anything", async () => {
+    await assert.rejects(
+      snapshotBoard(client, { boardName: "missing", period: JUNE_2024, outputPath: join(directory, "missing.json") }),
+      /Board with name "missing" not found\./
+    );
+    await assert.rejects(readSnapshot(join(directory, "missing.json")), /Could not read snapshot/);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tool for capturing a Trello board to a snapshot file
+ */
+
+import { BoardSnapshot, SnapshotOptions, TrelloDataSource } from "../trello/types.js";
+import {
+  SNAPSHOT_VERSION,
+  getDefaultSnapshotPath,
+  writeSnapshot,
+} from "../trello/snapshot.js";
+import { getDateRangeForPeriod, formatDate, getPeriodDescription } from "../trello/utils.js";
+import { resolveDateSettings } from "../trello/timezone.js";
+
+/**
+ * Capture everything a report needs for a board and period, and write it to disk
+ */
+export async function snapshotBoard(
+  client: TrelloDataSource,
+  options: SnapshotOptions
+): Promise<{ path: string; snapshot: BoardSnapshot }> {
+  const { boardId, boardName, period, outputPath, maxActionPages, timezone } = options;
+
+  if (!period || !period.type || !period.year) {
+    throw new Error("Invalid period specified. Must include type and year.");
+  }
+
+  // Get board ID (either directly or by searching for board name)
+  let targetBoardId = boardId;
+  if (!targetBoardId && boardName) {
+    const board = await client.findBoardByName(boardName);
+    if (!board) {
+      throw new Error(`Board with name "${boardName}" not found.`);
+    }
+    targetBoardId = board.id;
+  }
+
+  if (!targetBoardId) {
+    throw new Error("Either boardId or boardName must be provided.");
+  }
+
+  const { timeZone } = resolveDateSettings(timezone);
+  const dateRange = getDateRangeForPeriod(period, timeZone);
+
+  // Actions are captured up to the capture time, so reports can trace cards back to the period end
+  const createdAt = new Date();
+  const actionsRange = { start: dateRange.start, end: dateRange.end < createdAt ? createdAt : dateRange.end };
+
+  const [board, lists, cards, members, labels, { actions, truncated }, checklists, customFields] =
+    await Promise.all([
+      client.getBoard(targetBoardId),
+      client.getLists(targetBoardId),
+      client.getCards(targetBoardId),
+      client.getMembers(targetBoardId),
+      client.getLabels(targetBoardId),
+      client.getActions(targetBoardId, actionsRange, maxActionPages),
+      client.getBoardChecklists(targetBoardId),
+      client.getCustomFields(targetBoardId),
+    ]);
+
+  const snapshot: BoardSnapshot = {
+    version: SNAPSHOT_VERSION,
+    createdAt: createdAt.toISOString(),
+    period,
+    dateRange: {
+      start: dateRange.start.toISOString(),
+      end: dateRange.end.toISOString(),
+    },
+    timeZone,
+    board,
+    lists,
+    cards,
+    members,
+    labels,
+    actions,
+    actionsEnd: actionsRange.end.toISOString(),
+    actionsTruncated: truncated,
+    checklists,
+    customFields,
+  };
+
+  const path = outputPath || getDefaultSnapshotPath(snapshot);
+  await writeSnapshot(snapshot, path);
+
+  return { path, snapshot };
+}
+
+/**
+ * Format a snapshot capture result as markdown
+ */
+export function formatSnapshotAsMarkdown(path: string, snapshot: BoardSnapshot): string {
+  let markdown = `# Snapshot: ${snapshot.board.name}\n\n`;
+
+  markdown += `- **File**: \`${path}\`\n`;
+  markdown += `- **Captured**: ${snapshot.createdAt}\n`;
+  markdown += `- **Period**: ${getPeriodDescription(snapshot.period)} (${formatDate(
+    new Date(snapshot.dateRange.start),
+    snapshot.timeZone
+  )} to ${formatDate(new Date(snapshot.dateRange.end), snapshot.timeZone)})\n`;
+  markdown += `- **Lists**: ${snapshot.lists.length}\n`;
+  markdown += `- **Cards**: ${snapshot.cards.length}\n`;
+  markdown += `- **Members**: ${snapshot.members.length}\n`;
+  markdown += `- **Labels**: ${snapshot.labels.length}\n`;
+  markdown += `- **Actions**: ${snapshot.actions.length}${
+    snapshot.actionsTruncated ? " (truncated by the page limit)" : ""
+  }\n`;
+  markdown += `- **Checklists**: ${snapshot.checklists.length}\n`;
+  markdown += `- **Custom Fields**: ${snapshot.customFields?.length || 0}\n\n`;
+
+  markdown += `Pass this file as \`snapshotPath\` to \`generate_report\` to build reports for this period without calling the Trello API.\n`;
+
+  return markdown;
+}
@@ -0,0 +1,100 @@
+/**
+ * Tests for the structured content returned by the MCP tools, through an in-memory MCP client
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createTrelloMCPServer } from "../index.js";
+import { BoardBuilder } from "../mock/builders.js";
+import { SnapshotDataSource } from "../trello/snapshot.js";
+import { listBoardsOutputSchema, reportOutputSchema } from "./structuredContent.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a board with one card shipped and one in progress in June
+ */
+function createBoard(): BoardBuilder {
+  const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const doing = builder.list("Doing");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const feature = builder.label("Feature");
+
+  const shipped = builder.card("Shipped", todo, new Date("2024-06-03T00:00:00.000Z"), {
+    idLabels: [feature.id],
+    idMembers: [ana.id],
+  });
+  builder.move(shipped, doing, new Date("2024-06-04T00:00:00.000Z"));
+  builder.move(shipped, done, new Date("2024-06-06T00:00:00.000Z"));
+  builder.card("Started", doing, new Date("2024-06-10T00:00:00.000Z"), { idMembers: [ana.id] });
+
+  return builder;
+}
+
+describe("MCP tool structured content", () => {
+  const builder = createBoard();
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+
+  before(async () => {
+    const server = createTrelloMCPServer({ client: new SnapshotDataSource(builder.build(JUNE)) });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  after(() => client.close());
+
+  it("declares an output schema for every tool", async () => {
+    const { tools } = await client.listTools();
+
+    assert.ok(tools.length > 0);
+    tools.forEach((tool) => assert.equal(tool.outputSchema?.type, "object", tool.name));
+  });
+
+  it("returns the boards of list_boards", async () => {
+    const result = await client.callTool({ name: "list_boards", arguments: {} });
+    const content = z.object(listBoardsOutputSchema).parse(result.structuredContent);
+
+    assert.equal(content.count, 1);
+    assert.equal(content.boards[0].id, builder.board.id);
+    assert.equal(content.boards[0].name, "Team Board");
+  });
+
+  it("returns the report metadata, counters, cards and stats of generate_report", async () => {
+    const result = await client.callTool({
+      name: "generate_report",
+      arguments: { boardId: builder.board.id, period: { type: "month", year: 2024, month: 6 }, timezone: "UTC" },
+    });
+    const content = z.object(reportOutputSchema).parse(result.structuredContent);
+    const [ana] = builder.members;
+
+    assert.equal(result.isError, undefined);
+    assert.deepEqual(content.dateRange, { start: JUNE.start.toISOString(), end: JUNE.end.toISOString() });
+    assert.equal(content.actionCount, 4);
+    assert.deepEqual(content.activity, {
+      cardsCreated: 2,
+      cardsCompleted: 1,
+      cardsMoved: 2,
+      commentsAdded: 0,
+      activeMembers: 1,
+    });
+    assert.deepEqual(
+      content.completedCards.map((card) => [card.name, card.listName, card.labels, card.members]),
+      [["Shipped", "Done", ["Feature"], ["Ana Souza"]]]
+    );
+    assert.deepEqual(content.inProgressCards.map((card) => card.name), ["Started"]);
+    assert.deepEqual(content.members, [
+      { id: ana.id, fullName: "Ana Souza", username: "anasouza", activity: 4, cardsCompleted: 1 },
+    ]);
+    assert.deepEqual(
+      content.labels.map((label) => [label.name, label.activeCards, label.completedCards]),
+      [["Feature", 1, 1]]
+    );
+    assert.equal(content.cycleTimes.cards[0].cycleTimeDays, 2);
+  });
+});
@@ -0,0 +1,809 @@
+/**
+ * Output schemas and structured content for the MCP tools
+ */
+
+import { z } from "zod";
+import {
+  BoardSnapshot,
+  CardAge,
+  CardTiming,
+  CardDiscussion,
+  DueCardStatus,
+  DurationPercentiles,
+  MemberCardRef,
+  MemberReportResult,
+  ReportPeriod,
+  ReportResult,
+  TimingBreakdown,
+  TrelloBoard,
+  TrelloCard,
+  WorkspaceReportResult,
+} from "../trello/types.js";
+import { getListStage } from "../trello/workflow.js";
+
+const boardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  url: z.string(),
+  closed: z.boolean(),
+  lastActivity: z.string(),
+  organizationId: z.string().optional(),
+});
+
+const periodSchema = z.object({
+  type: z.string(),
+  year: z.number(),
+  month: z.number().optional(),
+  week: z.number().optional(),
+  days: z.number().optional(),
+  start: z.string().optional(),
+  end: z.string().optional(),
+  fiscalYearStartMonth: z.number().optional(),
+});
+
+const dateRangeSchema = z.object({
+  start: z.string().describe("ISO timestamp"),
+  end: z.string().describe("ISO timestamp"),
+});
+
+const cardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  listId: z.string(),
+  listName: z.string().optional(),
+  labels: z.array(z.string()),
+  members: z.array(z.string()),
+  due: z.string().optional(),
+  dueComplete: z.boolean().optional(),
+  url: z.string(),
+});
+
+const filterCriteriaSchema = z.object({
+  labels: z.array(z.string()).optional(),
+  members: z.array(z.string()).optional(),
+  lists: z.array(z.string()).optional(),
+  query: z.string().optional(),
+  customFields: z.record(z.string(), z.array(z.string())).optional(),
+});
+
+const cardDiscussionSchema = z.object({
+  cardId: z.string(),
+  cardName: z.string(),
+  comments: z.number(),
+  participants: z.array(z.string()).describe("Member IDs of the commenters"),
+  lastCommentAt: z.string(),
+});
+
+const cardAgeSchema = z.object({
+  cardId: z.string(),
+  cardName: z.string(),
+  listId: z.string(),
+  stage: z.string(),
+  enteredListAt: z.string(),
+  ageSource: z
+    .enum(["transition", "lastActivity"])
+    .describe("Whether the age runs from the last move into the list or from the card's last activity"),
+  ageDays: z.number(),
+  lastActivityAt: z.string(),
+  idleDays: z.number(),
+  stale: z.boolean(),
+});
+
+const percentilesSchema = z.object({
+  count: z.number(),
+  p50: z.number(),
+  p85: z.number(),
+  p95: z.number(),
+});
+
+const timingBreakdownSchema = z.object({
+  leadTime: percentilesSchema,
+  cycleTime: percentilesSchema,
+});
+
+const cardTimingSchema = z.object({
+  cardId: z.string(),
+  cardName: z.string(),
+  createdAt: z.string(),
+  startedAt: z.string().optional().describe("First move into an in-progress list, if observed"),
+  completedAt: z.string(),
+  leadTimeDays: z.number(),
+  cycleTimeDays: z.number().optional(),
+});
+
+const listDwellSchema = z.object({
+  listId: z.string(),
+  stays: z.number().describe("Card stays in the list that overlap the period"),
+  averageDays: z.number(),
+  medianDays: z.number(),
+  maxDays: z.number(),
+  totalDays: z.number(),
+});
+
+const metricDeltaSchema = z.object({
+  current: z.number(),
+  previous: z.number(),
+  change: z.number(),
+  percentChange: z.number().nullable(),
+});
+
+const activityCountersSchema = z.object({
+  cardsCreated: z.number(),
+  cardsCompleted: z.number(),
+  cardsMoved: z.number(),
+  commentsAdded: z.number(),
+  activeMembers: z.number(),
+});
+
+const dueCardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  due: z.string().describe("ISO timestamp"),
+  completedAt: z.string().optional().describe("ISO timestamp"),
+  slipDays: z.number().optional().describe("Days past due, at completion or until now"),
+});
+
+const dueDateBreakdownSchema = z.object({
+  dueInPeriod: z.number(),
+  completedOnTime: z.number(),
+  completedLate: z.number(),
+  overdue: z.number(),
+});
+
+const checklistProgressSchema = z.object({
+  cardId: z.string(),
+  cardName: z.string(),
+  listId: z.string(),
+  totalItems: z.number(),
+  completedItems: z.number(),
+  openItems: z.array(z.string()),
+});
+
+// Output schema of list_boards
+export const listBoardsOutputSchema = {
+  count: z.number(),
+  boards: z.array(boardSchema),
+};
+
+// Output schema of generate_report
+export const reportOutputSchema = {
+  board: boardSchema,
+  period: periodSchema,
+  dateRange: dateRangeSchema,
+  timezone: z.string().describe("Time zone of the period boundaries and rendered dates"),
+  locale: z.string().describe("Locale of the rendered dates"),
+  language: z.enum(["en", "pt", "es"]).describe("Language of the report text"),
+  actionCount: z.number(),
+  actionsTruncated: z.boolean(),
+  activity: activityCountersSchema,
+  lists: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      stage: z.string(),
+      openCards: z.number(),
+      activity: z.number(),
+      dwell: z
+        .object({
+          stays: z.number(),
+          averageDays: z.number(),
+          medianDays: z.number(),
+          maxDays: z.number(),
+        })
+        .optional(),
+    })
+  ),
+  topCards: z.array(cardSchema),
+  completedCards: z.array(cardSchema),
+  inProgressCards: z.array(cardSchema),
+  members: z.array(
+    z.object({
+      id: z.string(),
+      fullName: z.string(),
+      username: z.string(),
+      activity: z.number(),
+      cardsCompleted: z.number(),
+    })
+  ),
+  labels: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      color: z.string().nullable(),
+      activeCards: z.number(),
+      completedCards: z.number(),
+    })
+  ),
+  workflowStages: z.record(z.string(), z.string()).describe("Workflow stage of each list, keyed by list ID"),
+  cycleTimes: timingBreakdownSchema.extend({
+    byLabel: z.record(z.string(), timingBreakdownSchema).describe("Keyed by label ID"),
+    byMember: z.record(z.string(), timingBreakdownSchema).describe("Keyed by member ID"),
+    cards: z.array(cardTimingSchema).describe("Lead and cycle time of each completed card, longest lead time first"),
+  }),
+  listDwell: z
+    .record(z.string(), listDwellSchema)
+    .describe("Time cards spent in each list, keyed by list ID, including archived lists"),
+  cumulativeFlow: z.array(
+    z.object({
+      date: z.string(),
+      counts: z.record(z.string(), z.number()).describe("Cards per list ID at the end of the day"),
+    })
+  ),
+  dueDates: z.object({
+    dueInPeriod: z.number(),
+    completedOnTime: z.number(),
+    completedLate: z.array(dueCardSchema),
+    onTimeRate: z.number().nullable().describe("Share of completions with a due date that were on time"),
+    averageSlipDays: z.number().nullable().describe("Average days late of late completions"),
+    overdue: z.array(dueCardSchema),
+    dueSoon: z.array(dueCardSchema),
+    dueSoonDays: z.number(),
+    byMember: z.record(z.string(), dueDateBreakdownSchema).describe("Keyed by member ID"),
+    byLabel: z.record(z.string(), dueDateBreakdownSchema).describe("Keyed by label ID"),
+  }),
+  checklists: z.object({
+    itemsCompletedInPeriod: z.number(),
+    itemsCompletedByMember: z.record(z.string(), z.number()).describe("Keyed by member ID"),
+    totalItems: z.number().describe("Checklist items on open cards"),
+    completedItems: z.number(),
+    cards: z.array(checklistProgressSchema).describe("Open cards with checklists, least complete first"),
+    doneWithOpenItems: z.array(checklistProgressSchema),
+  }),
+  comments: z.object({
+    commentsAdded: z.number(),
+    byMember: z.record(z.string(), z.number()).describe("Comments per member ID"),
+    discussions: z.array(cardDiscussionSchema).describe("Most discussed cards first"),
+    unresolvedThreads: z
+      .array(cardDiscussionSchema)
+      .describe("Open cards outside done lists with long comment threads"),
+    digest: z
+      .array(
+        z.object({
+          cardId: z.string(),
+          cardName: z.string(),
+          comments: z.array(
+            z.object({
+              author: z.string(),
+              date: z.string(),
+              text: z.string(),
+            })
+          ),
+        })
+      )
+      .optional()
+      .describe("Recent comments on the key cards, most recent first"),
+  }),
+  agingWip: z.object({
+    staleDays: z.number(),
+    asOf: z.string().describe("ISO timestamp ages and idle days are measured at"),
+    cards: z
+      .array(cardAgeSchema)
+      .describe("Open cards past the backlog and not done, oldest in their current list first"),
+    staleCards: z.array(cardAgeSchema).describe("Cards without activity for staleDays or more, most idle first"),
+    histogram: z.array(
+      z.object({
+        label: z.string(),
+        minDays: z.number(),
+        maxDays: z.number().nullable(),
+        cards: z.number(),
+      })
+    ),
+  }),
+  storyPoints: z
+    .object({
+      fieldId: z.string(),
+      fieldName: z.string(),
+      pointsCompleted: z.number(),
+      cardsCompleted: z.number().describe("Completed cards with a points value"),
+      unestimatedCompleted: z.number().describe("Completed cards without a points value"),
+      velocityPerWeek: z.number(),
+      openPoints: z.number().describe("Points on open cards outside done lists"),
+      byLabel: z.record(z.string(), z.number()).describe("Points completed, keyed by label ID"),
+      byMember: z.record(z.string(), z.number()).describe("Points completed, keyed by member ID"),
+    })
+    .optional()
+    .describe("Point-based velocity, present when the board has a story points field"),
+  fieldGrouping: z
+    .object({
+      fieldId: z.string(),
+      fieldName: z.string(),
+      groups: z.array(
+        z.object({
+          optionId: z.string().optional(),
+          value: z.string(),
+          color: z.string().optional(),
+          openCards: z.number(),
+          completedCards: z.number(),
+          pointsCompleted: z.number().optional(),
+        })
+      ),
+    })
+    .optional()
+    .describe("Cards grouped by the options of a dropdown custom field"),
+  comparison: z
+    .object({
+      mode: z.string(),
+      period: periodSchema,
+      dateRange: dateRangeSchema,
+      actionsTruncated: z.boolean(),
+      metrics: z.object({
+        cardsCreated: metricDeltaSchema,
+        cardsCompleted: metricDeltaSchema,
+        cardsMoved: metricDeltaSchema,
+        commentsAdded: metricDeltaSchema,
+        activeMembers: metricDeltaSchema,
+        labelCompletions: z.record(z.string(), metricDeltaSchema).describe("Keyed by label ID"),
+      }),
+    })
+    .optional(),
+  filter: z
+    .object({
+      include: filterCriteriaSchema.optional(),
+      exclude: filterCriteriaSchema.optional(),
+      match: z.string().optional(),
+    })
+    .optional()
+    .describe("The card filter the report was restricted to"),
+  outputPaths: z.array(z.string()).optional().describe("Files the report was written to"),
+};
+
+// Output schema of snapshot_board
+export const snapshotOutputSchema = {
+  path: z.string(),
+  version: z.number(),
+  createdAt: z.string(),
+  board: boardSchema,
+  period: periodSchema,
+  dateRange: dateRangeSchema,
+  listCount: z.number(),
+  cardCount: z.number(),
+  actionCount: z.number(),
+  actionsTruncated: z.boolean(),
+  checklistCount: z.number(),
+  customFieldCount: z.number(),
+};
+
+// Output schema of generate_workspace_report
+export const workspaceReportOutputSchema = {
+  period: periodSchema,
+  dateRange: dateRangeSchema,
+  timezone: z.string().describe("Time zone of the period boundaries and rendered dates"),
+  locale: z.string().describe("Locale of the rendered dates"),
+  language: z.enum(["en", "pt", "es"]).describe("Language of the report text"),
+  totals: activityCountersSchema.extend({ actions: z.number() }),
+  boards: z.array(
+    activityCountersSchema.extend({
+      board: boardSchema,
+      actionCount: z.number(),
+      actionsTruncated: z.boolean(),
+    })
+  ),
+  members: z.array(
+    z.object({
+      id: z.string(),
+      fullName: z.string(),
+      username: z.string(),
+      activity: z.number(),
+      boards: z.number(),
+    })
+  ),
+  labels: z.array(
+    z.object({
+      name: z.string(),
+      color: z.string().nullable(),
+      cardsActive: z.number(),
+      cardsCompleted: z.number(),
+    })
+  ),
+};
+
+const memberCardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  boardId: z.string(),
+  listName: z.string().optional(),
+  url: z.string().optional(),
+});
+
+// Output schema of generate_member_report
+export const memberReportOutputSchema = {
+  member: z.object({
+    id: z.string(),
+    fullName: z.string(),
+    username: z.string(),
+  }),
+  period: periodSchema,
+  dateRange: dateRangeSchema,
+  timezone: z.string().describe("Time zone of the period boundaries and rendered dates"),
+  locale: z.string().describe("Locale of the rendered dates"),
+  language: z.enum(["en", "pt", "es"]).describe("Language of the report text"),
+  totals: z.object({
+    actions: z.number(),
+    cardsCreated: z.number(),
+    cardsMoved: z.number(),
+    moves: z.number(),
+    cardsCompleted: z.number(),
+    cardsCommented: z.number(),
+    comments: z.number(),
+    checkItemsCompleted: z.number(),
+    assignedCards: z.number(),
+  }),
+  boards: z.array(
+    z.object({
+      board: boardSchema,
+      actionCount: z.number(),
+      actionsTruncated: z.boolean(),
+      moveCount: z.number(),
+      commentCount: z.number(),
+      checkItemsCompleted: z.number(),
+      cardsCreated: z.array(memberCardSchema),
+      cardsMoved: z.array(memberCardSchema),
+      cardsCompleted: z.array(memberCardSchema),
+      cardsCommented: z.array(memberCardSchema),
+      assignedCards: z.array(memberCardSchema),
+    })
+  ),
+  labels: z.array(
+    z.object({
+      name: z.string(),
+      color: z.string().nullable(),
+      cards: z.number(),
+    })
+  ),
+};
+
+type BoardOutput = z.infer<typeof boardSchema>;
+type PeriodOutput = z.infer<typeof periodSchema>;
+type CardOutput = z.infer<typeof cardSchema>;
+type ReportOutput = z.infer<z.ZodObject<typeof reportOutputSchema>>;
+
+/**
+ * Convert a board to its structured form
+ */
+export function toBoardOutput(board: TrelloBoard): BoardOutput {
+  return {
+    id: board.id,
+    name: board.name,
+    description: board.desc || "",
+    url: board.url,
+    closed: board.closed,
+    lastActivity: board.dateLastActivity,
+    organizationId: board.idOrganization || undefined,
+  };
+}
+
+/**
+ * Convert a report period to its structured form
+ */
+function toPeriodOutput(period: ReportPeriod): PeriodOutput {
+  return { ...period };
+}
+
+/**
+ * Convert a date range to ISO strings
+ */
+function toDateRangeOutput(dateRange: { start: Date; end: Date }): { start: string; end: string } {
+  return { start: dateRange.start.toISOString(), end: dateRange.end.toISOString() };
+}
+
+/**
+ * Convert duration percentiles and breakdowns to plain objects
+ */
+function toPercentilesOutput(percentiles: DurationPercentiles): DurationPercentiles {
+  return { count: percentiles.count, p50: percentiles.p50, p85: percentiles.p85, p95: percentiles.p95 };
+}
+
+function toBreakdownOutput(breakdown: TimingBreakdown): TimingBreakdown {
+  return {
+    leadTime: toPercentilesOutput(breakdown.leadTime),
+    cycleTime: toPercentilesOutput(breakdown.cycleTime),
+  };
+}
+
+/**
+ * Convert a completed card's lead and cycle time to its structured form
+ */
+function toCardTimingOutput(timing: CardTiming) {
+  return {
+    ...timing,
+    createdAt: timing.createdAt.toISOString(),
+    startedAt: timing.startedAt?.toISOString(),
+    completedAt: timing.completedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a card's due date status to its structured form
+ */
+function toDueCardOutput(status: DueCardStatus) {
+  return {
+    id: status.cardId,
+    name: status.cardName,
+    due: status.due.toISOString(),
+    completedAt: status.completedAt?.toISOString(),
+    slipDays: status.slipDays,
+  };
+}
+
+/**
+ * Convert a card's age in its current list to its structured form
+ */
+function toCardAgeOutput(age: CardAge) {
+  return {
+    ...age,
+    enteredListAt: age.enteredListAt.toISOString(),
+    lastActivityAt: age.lastActivityAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a card discussion to its structured form
+ */
+function toDiscussionOutput(discussion: CardDiscussion) {
+  return { ...discussion, lastCommentAt: discussion.lastCommentAt.toISOString() };
+}
+
+/**
+ * Build the structured content of list_boards
+ */
+export function toBoardListContent(boards: TrelloBoard[]) {
+  return { count: boards.length, boards: boards.map(toBoardOutput) };
+}
+
+/**
+ * Build the structured content of generate_report
+ */
+export function toReportContent(result: ReportResult): ReportOutput {
+  const { lists, cards, members, labels, actions, activity, comparison, workflow } = result;
+  const listNames = new Map(lists.map((list) => [list.id, list.name]));
+  const labelNames = new Map(labels.map((label) => [label.id, label.name || label.color]));
+  const memberNames = new Map(members.map((member) => [member.id, member.fullName]));
+
+  const toCardOutput = (card: TrelloCard): CardOutput => ({
+    id: card.id,
+    name: card.name,
+    listId: card.idList,
+    listName: listNames.get(card.idList),
+    labels: card.idLabels.map((id) => labelNames.get(id)).filter((name): name is string => !!name),
+    members: card.idMembers.map((id) => memberNames.get(id)).filter((name): name is string => !!name),
+    due: card.due || undefined,
+    dueComplete: card.due ? Boolean(card.dueComplete) : undefined,
+    url: card.url,
+  });
+
+  const activeCardIds = new Set<string>();
+  actions.forEach((action) => {
+    if (action.data.card?.id) {
+      activeCardIds.add(action.data.card.id);
+    }
+  });
+
+  const writtenPaths = result.documents
+    .map((document) => document.path)
+    .filter((path): path is string => !!path);
+
+  return {
+    board: toBoardOutput(result.boardInfo),
+    period: toPeriodOutput(result.period),
+    dateRange: toDateRangeOutput(result.dateRange),
+    timezone: result.dateSettings.timeZone,
+    locale: result.dateSettings.locale,
+    language: result.language,
+    actionCount: actions.length,
+    actionsTruncated: result.actionsTruncated,
+    activity: {
+      cardsCreated: activity.cardsCreated,
+      cardsCompleted: activity.completedCards.length,
+      cardsMoved: activity.cardsMoved,
+      commentsAdded: activity.commentsAdded,
+      activeMembers: activity.membersActive.size,
+    },
+    workflowStages: Object.fromEntries(workflow.stagesByListId),
+    lists: lists.map((list) => {
+      const dwell = activity.listDwell.get(list.id);
+      return {
+        id: list.id,
+        name: list.name,
+        stage: getListStage(workflow, list),
+        openCards: cards.filter((card) => !card.closed && card.idList === list.id).length,
+        activity: activity.listActivity.get(list.id) || 0,
+        dwell: dwell && {
+          stays: dwell.stays,
+          averageDays: dwell.averageDays,
+          medianDays: dwell.medianDays,
+          maxDays: dwell.maxDays,
+        },
+      };
+    }),
+    topCards: activity.topCards.map(toCardOutput),
+    completedCards: activity.completedCards.map(toCardOutput),
+    inProgressCards: activity.inProgressCards.map(toCardOutput),
+    members: members.map((member) => ({
+      id: member.id,
+      fullName: member.fullName,
+      username: member.username,
+      activity: activity.membersActive.get(member.id) || 0,
+      cardsCompleted: activity.completedCards.filter((card) => card.idMembers.includes(member.id)).length,
+    })),
+    labels: labels.map((label) => ({
+      id: label.id,
+      name: label.name,
+      color: label.color,
+      activeCards: cards.filter((card) => card.idLabels.includes(label.id) && activeCardIds.has(card.id))
+        .length,
+      completedCards: activity.completedCards.filter((card) => card.idLabels.includes(label.id)).length,
+    })),
+    cycleTimes: {
+      ...toBreakdownOutput(activity.cycleTimes),
+      byLabel: Object.fromEntries(
+        [...activity.cycleTimes.byLabel].map(([id, breakdown]) => [id, toBreakdownOutput(breakdown)])
+      ),
+      byMember: Object.fromEntries(
+        [...activity.cycleTimes.byMember].map(([id, breakdown]) => [id, toBreakdownOutput(breakdown)])
+      ),
+      cards: activity.cycleTimes.cards.map(toCardTimingOutput),
+    },
+    listDwell: Object.fromEntries([...activity.listDwell].map(([id, dwell]) => [id, { ...dwell }])),
+    cumulativeFlow: activity.cumulativeFlow.map((point) => ({ date: point.date, counts: { ...point.counts } })),
+    dueDates: {
+      dueInPeriod: activity.dueDates.dueInPeriod.length,
+      completedOnTime: activity.dueDates.completedOnTime.length,
+      completedLate: activity.dueDates.completedLate.map(toDueCardOutput),
+      onTimeRate: activity.dueDates.onTimeRate,
+      averageSlipDays: activity.dueDates.averageSlipDays,
+      overdue: activity.dueDates.overdue.map(toDueCardOutput),
+      dueSoon: activity.dueDates.dueSoon.map(toDueCardOutput),
+      dueSoonDays: activity.dueDates.dueSoonDays,
+      byMember: Object.fromEntries(activity.dueDates.byMember),
+      byLabel: Object.fromEntries(activity.dueDates.byLabel),
+    },
+    checklists: {
+      itemsCompletedInPeriod: activity.checklists.itemsCompletedInPeriod,
+      itemsCompletedByMember: Object.fromEntries(activity.checklists.itemsCompletedByMember),
+      totalItems: activity.checklists.totalItems,
+      completedItems: activity.checklists.completedItems,
+      cards: activity.checklists.cards.map((progress) => ({ ...progress })),
+      doneWithOpenItems: activity.checklists.doneWithOpenItems.map((progress) => ({ ...progress })),
+    },
+    comments: {
+      commentsAdded: activity.comments.comments.length,
+      byMember: Object.fromEntries(activity.comments.byMember),
+      discussions: activity.comments.discussions.slice(0, 20).map(toDiscussionOutput),
+      unresolvedThreads: activity.comments.unresolvedThreads.map(toDiscussionOutput),
+      digest: activity.comments.digest?.map((digest) => ({
+        cardId: digest.cardId,
+        cardName: digest.cardName,
+        comments: digest.comments.map((comment) => ({
+          author: comment.memberCreator.fullName,
+          date: comment.date,
+          text: comment.data.text,
+        })),
+      })),
+    },
+    agingWip: {
+      staleDays: activity.agingWip.staleDays,
+      asOf: activity.agingWip.asOf.toISOString(),
+      cards: activity.agingWip.cards.map(toCardAgeOutput),
+      staleCards: activity.agingWip.staleCards.map(toCardAgeOutput),
+      histogram: activity.agingWip.histogram.map((bucket) => ({ ...bucket })),
+    },
+    storyPoints: activity.storyPoints && {
+      ...activity.storyPoints,
+      byLabel: Object.fromEntries(activity.storyPoints.byLabel),
+      byMember: Object.fromEntries(activity.storyPoints.byMember),
+    },
+    fieldGrouping: activity.fieldGrouping && {
+      ...activity.fieldGrouping,
+      groups: activity.fieldGrouping.groups.map((group) => ({ ...group })),
+    },
+    comparison: comparison && {
+      mode: comparison.mode,
+      period: toPeriodOutput(comparison.period),
+      dateRange: toDateRangeOutput(comparison.dateRange),
+      actionsTruncated: comparison.actionsTruncated,
+      metrics: {
+        cardsCreated: comparison.metrics.cardsCreated,
+        cardsCompleted: comparison.metrics.cardsCompleted,
+        cardsMoved: comparison.metrics.cardsMoved,
+        commentsAdded: comparison.metrics.commentsAdded,
+        activeMembers: comparison.metrics.activeMembers,
+        labelCompletions: Object.fromEntries(comparison.metrics.labelCompletions),
+      },
+    },
+    filter: result.filter,
+    outputPaths: writtenPaths.length > 0 ? writtenPaths : undefined,
+  };
+}
+
+/**
+ * Build the structured content of snapshot_board
+ */
+export function toSnapshotContent(path: string, snapshot: BoardSnapshot) {
+  return {
+    path,
+    version: snapshot.version,
+    createdAt: snapshot.createdAt,
+    board: toBoardOutput(snapshot.board),
+    period: toPeriodOutput(snapshot.period),
+    dateRange: snapshot.dateRange,
+    listCount: snapshot.lists.length,
+    cardCount: snapshot.cards.length,
+    actionCount: snapshot.actions.length,
+    actionsTruncated: snapshot.actionsTruncated,
+    checklistCount: snapshot.checklists.length,
+    customFieldCount: snapshot.customFields?.length || 0,
+  };
+}
+
+/**
+ * Build the structured content of generate_workspace_report
+ */
+export function toWorkspaceReportContent(result: WorkspaceReportResult) {
+  return {
+    period: toPeriodOutput(result.period),
+    dateRange: toDateRangeOutput(result.dateRange),
+    timezone: result.dateSettings.timeZone,
+    locale: result.dateSettings.locale,
+    language: result.language,
+    totals: result.totals,
+    boards: result.boards.map((report) => ({
+      board: toBoardOutput(report.boardInfo),
+      actionCount: report.actions.length,
+      actionsTruncated: report.actionsTruncated,
+      cardsCreated: report.activity.cardsCreated,
+      cardsCompleted: report.activity.completedCards.length,
+      cardsMoved: report.activity.cardsMoved,
+      commentsAdded: report.activity.commentsAdded,
+      activeMembers: report.activity.membersActive.size,
+    })),
+    members: [...result.membersActive.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([memberId, activity]) => {
+        const member = result.members.find((m) => m.id === memberId);
+        return {
+          id: memberId,
+          fullName: member?.fullName || memberId,
+          username: member?.username || "",
+          activity,
+          boards: result.boards.filter((report) => report.activity.membersActive.has(memberId)).length,
+        };
+      }),
+    labels: [...result.labelStats.values()],
+  };
+}
+
+/**
+ * Build the structured content of generate_member_report
+ */
+export function toMemberReportContent(result: MemberReportResult) {
+  const toCards = (cards: MemberCardRef[]) => cards.map((card) => ({ ...card }));
+
+  return {
+    member: {
+      id: result.member.id,
+      fullName: result.member.fullName,
+      username: result.member.username,
+    },
+    period: toPeriodOutput(result.period),
+    dateRange: toDateRangeOutput(result.dateRange),
+    timezone: result.dateSettings.timeZone,
+    locale: result.dateSettings.locale,
+    language: result.language,
+    totals: result.totals,
+    boards: result.boards.map((activity) => ({
+      board: toBoardOutput(activity.board),
+      actionCount: activity.actionCount,
+      actionsTruncated: activity.actionsTruncated,
+      moveCount: activity.moveCount,
+      commentCount: activity.commentCount,
+      checkItemsCompleted: activity.checkItemsCompleted,
+      cardsCreated: toCards(activity.cardsCreated),
+      cardsMoved: toCards(activity.cardsMoved),
+      cardsCompleted: toCards(activity.cardsCompleted),
+      cardsCommented: toCards(activity.cardsCommented),
+      assignedCards: toCards(activity.assignedCards),
+    })),
+    labels: result.labels,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Tests for aging work in progress and stale cards
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { calculateAgingWip, describeCardAges, getAgeBucketLabel } from "./aging.js";
+import { createTranslator } from "./i18n.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { resolveBoardWorkflow } from "./workflow.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Get noon UTC of a day in 2024
+ */
+function date(month: number, day: number): Date {
+  return new Date(Date.UTC(2024, month - 1, day, 12));
+}
+
+// When the board is looked at
+const NOW = date(6, 30);
+
+/**
+ * Build a board with cards waiting in every stage, and some that are left out of aging
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Aging", new Date("2024-04-01T00:00:00.000Z"));
+  const backlog = builder.list("Backlog");
+  const todo = builder.list("To Do");
+  const inProgress = builder.list("In Progress");
+  const review = builder.list("Review");
+  const done = builder.list("Done");
+
+  // Moved into its list before June
+  const legacy = builder.card("Legacy", todo, date(5, 10));
+  builder.move(legacy, inProgress, date(5, 20));
+
+  const login = builder.card("Login", todo, date(6, 1));
+  builder.move(login, inProgress, date(6, 2));
+
+  // Commented on without bumping its last activity date
+  const search = builder.card("Search", todo, date(6, 10));
+  builder.move(search, review, date(6, 20));
+  builder.comment(search, date(6, 28), "Almost there.");
+
+  builder.card("Docs", todo, date(6, 25));
+
+  builder.card("Idea", backlog, date(6, 3));
+  const shipped = builder.card("Shipped", todo, date(6, 4));
+  builder.move(shipped, done, date(6, 5));
+  const dropped = builder.card("Dropped", inProgress, date(6, 6));
+  builder.archive(dropped, date(6, 7));
+
+  return { builder };
+}
+
+/**
+ * Calculate aging for the board from the actions in June only
+ */
+function calculateJuneAging(builder: BoardBuilder, staleDays?: number) {
+  const actions = builder.actions.filter((action) => new Date(action.date) >= JUNE.start);
+  return calculateAgingWip(
+    builder.lists,
+    builder.cards,
+    actions,
+    resolveBoardWorkflow(builder.lists),
+    staleDays,
+    NOW
+  );
+}
+
+describe("calculateAgingWip", () => {
+  it("ages open cards between the backlog and done from their move into their list", () => {
+    const { builder } = createBoard();
+    const metrics = calculateJuneAging(builder);
+
+    assert.deepEqual(
+      metrics.cards.map((age) => [age.cardName, age.stage, age.ageSource, age.ageDays, age.idleDays]),
+      [
+        ["Legacy", "inProgress", "lastActivity", 41, 41],
+        ["Login", "inProgress", "transition", 28, 28],
+        ["Search", "review", "transition", 10, 2],
+        ["Docs", "todo", "transition", 5, 5],
+      ]
+    );
+    assert.deepEqual(metrics.asOf, NOW);
+  });
+
+  it("flags cards idle for the stale threshold, longest idle first", () => {
+    const { builder } = createBoard();
+
+    assert.deepEqual(calculateJuneAging(builder).staleCards.map((age) => age.cardName), ["Legacy", "Login"]);
+    assert.deepEqual(
+      calculateJuneAging(builder, 5).staleCards.map((age) => age.cardName),
+      ["Legacy", "Login", "Docs"]
+    );
+  });
+
+  it("counts the cards in each age bucket", () => {
+    const { builder } = createBoard();
+    const { histogram } = calculateJuneAging(builder);
+
+    assert.deepEqual(
+      histogram.map((bucket) => [bucket.label, bucket.cards]),
+      [
+        ["Under 3 days", 0],
+        ["3-7 days", 1],
+        ["1-2 weeks", 1],
+        ["2-4 weeks", 0],
+        ["4 weeks or more", 2],
+      ]
+    );
+    assert.equal(getAgeBucketLabel(histogram[4], createTranslator("pt")), "4 semanas ou mais");
+  });
+
+  it("names the oldest cards with their age or idle time", () => {
+    const { builder } = createBoard();
+    const metrics = calculateJuneAging(builder);
+
+    assert.equal(
+      describeCardAges(metrics.cards, builder.lists, "age", 2),
+      '"Legacy" (41.0d in "In Progress"), "Login" (28.0d in "In Progress") and 2 more'
+    );
+    assert.equal(
+      describeCardAges(metrics.cards.slice(2, 3), builder.lists, "idle"),
+      '"Search" (2.0d without activity, in "Review")'
+    );
+  });
+});
+
+describe("aging report section", () => {
+  it("renders the oldest and stale cards in the full report and the summary", async () => {
+    const { builder } = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE));
+    const options = {
+      boardId: builder.board.id,
+      period: { type: "month" as const, year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      asOf: NOW,
+      sections: ["aging" as const],
+    };
+
+    const report = await generateReport(source, options);
+    const summary = await generateReport(source, { ...options, format: "summary" });
+
+    assert.ok(report.markdown.includes("as of 2024-06-30.\n"));
+    assert.ok(report.markdown.includes("| 1-2 weeks | 1 |\n| 2-4 weeks | 0 |\n| 4 weeks or more | 2 |\n"));
+    assert.ok(report.markdown.includes("| Search | Review | 2024-06-20 | 10.0d | 2.0d |\n"));
+    assert.ok(report.markdown.includes("- **Login** (In Progress): last activity 2024-06-02, 28.0d ago\n"));
+    assert.ok(
+      summary.markdown.includes(
+        'The oldest work in progress is "Legacy" (41.0d in "In Progress"), "Login" (28.0d in "In Progress") ' +
+          'and "Search" (10.0d in "Review"). 2 open cards have had no activity for 14 days or more.'
+      )
+    );
+  });
+});
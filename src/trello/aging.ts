@@ -0,0 +1,152 @@
+/**
+ * Aging work in progress: how long open cards have been in their current list, stale cards
+ * and an age histogram
+ */
+
+import {
+  AgeBucket,
+  AgingWipMetrics,
+  BoardWorkflow,
+  CardAge,
+  TrelloAction,
+  TrelloCard,
+  TrelloList,
+} from "./types.js";
+import { differenceInDaysPrecise, formatDays, sortActionsByDate } from "./flowMetrics.js";
+import { DEFAULT_BOARD_WORKFLOW, getListStage } from "./workflow.js";
+import { DEFAULT_TRANSLATOR, joinList, MessageKey, Translator } from "./i18n.js";
+
+// Default number of days without activity after which an open card counts as stale
+export const DEFAULT_STALE_DAYS = 14;
+
+// Age histogram buckets: lower bound (inclusive) and upper bound (exclusive) in days
+const AGE_BUCKETS: Array<{ labelKey: MessageKey; minDays: number; maxDays: number | null }> = [
+  { labelKey: "aging.under3Days", minDays: 0, maxDays: 3 },
+  { labelKey: "aging.3to7Days", minDays: 3, maxDays: 7 },
+  { labelKey: "aging.1to2Weeks", minDays: 7, maxDays: 14 },
+  { labelKey: "aging.2to4Weeks", minDays: 14, maxDays: 28 },
+  { labelKey: "aging.4WeeksOrMore", minDays: 28, maxDays: null },
+];
+
+/**
+ * Find the latest move of each card into a list, and the latest action on each card
+ */
+function findLatestCardActions(actions: TrelloAction[]): {
+  entries: Map<string, { listId: string; date: Date }>;
+  lastActions: Map<string, Date>;
+} {
+  const entries = new Map<string, { listId: string; date: Date }>();
+  const lastActions = new Map<string, Date>();
+
+  sortActionsByDate(actions).forEach((action) => {
+    const cardId = action.data.card?.id;
+    if (!cardId) return;
+
+    const date = new Date(action.date);
+    lastActions.set(cardId, date);
+
+    if (action.type === "createCard" && action.data.list) {
+      entries.set(cardId, { listId: action.data.list.id, date });
+    } else if (action.type === "updateCard" && action.data.listAfter) {
+      entries.set(cardId, { listId: action.data.listAfter.id, date });
+    }
+  });
+
+  return { entries, lastActions };
+}
+
+/**
+ * Calculate the age of the open cards that are past the backlog and not yet done. A card's age
+ * runs from its last move into its current list, or from its dateLastActivity when that move
+ * is outside the fetched actions. Like overdue cards, ages describe the board as it is at `now`.
+ */
+export function calculateAgingWip(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  staleDays: number = DEFAULT_STALE_DAYS,
+  now: Date = new Date()
+): AgingWipMetrics {
+  const { entries, lastActions } = findLatestCardActions(actions);
+  const ages: CardAge[] = [];
+
+  cards.forEach((card) => {
+    if (card.closed) return;
+
+    const list = lists.find((l) => l.id === card.idList) || { id: card.idList };
+    const stage = getListStage(workflow, list);
+    if (stage === "backlog" || stage === "done") return;
+
+    // Trello does not always bump dateLastActivity, so the latest action counts too
+    const lastActivityAt = new Date(
+      Math.max(new Date(card.dateLastActivity).getTime(), lastActions.get(card.id)?.getTime() || 0)
+    );
+    const entry = entries.get(card.id);
+    const enteredListAt =
+      entry && entry.listId === card.idList ? entry.date : new Date(card.dateLastActivity);
+    const idleDays = differenceInDaysPrecise(now, lastActivityAt);
+
+    ages.push({
+      cardId: card.id,
+      cardName: card.name,
+      listId: card.idList,
+      stage,
+      enteredListAt,
+      ageSource: entry && entry.listId === card.idList ? "transition" : "lastActivity",
+      ageDays: Math.max(0, differenceInDaysPrecise(now, enteredListAt)),
+      lastActivityAt,
+      idleDays: Math.max(0, idleDays),
+      stale: idleDays >= staleDays,
+    });
+  });
+
+  ages.sort((a, b) => b.ageDays - a.ageDays);
+
+  return {
+    cards: ages,
+    staleCards: ages.filter((age) => age.stale).sort((a, b) => b.idleDays - a.idleDays),
+    staleDays,
+    asOf: now,
+    histogram: AGE_BUCKETS.map(({ labelKey, minDays, maxDays }) => ({
+      label: DEFAULT_TRANSLATOR(labelKey),
+      minDays,
+      maxDays,
+      cards: ages.filter(
+        (age) => age.ageDays >= minDays && (maxDays === null || age.ageDays < maxDays)
+      ).length,
+    })),
+  };
+}
+
+/**
+ * Get the label of an age histogram bucket in the report's language
+ */
+export function getAgeBucketLabel(bucket: AgeBucket, t: Translator = DEFAULT_TRANSLATOR): string {
+  const definition = AGE_BUCKETS.find((b) => b.minDays === bucket.minDays);
+  return definition ? t(definition.labelKey) : bucket.label;
+}
+
+/**
+ * Name cards with their age for recommendations, e.g. "Fix login" (12.0d in "Review")
+ */
+export function describeCardAges(
+  ages: CardAge[],
+  lists: TrelloList[],
+  measure: "age" | "idle" = "age",
+  limit: number = 3,
+  t: Translator = DEFAULT_TRANSLATOR,
+  locale?: string
+): string {
+  const described = ages.slice(0, limit).map((age) => {
+    const list = lists.find((l) => l.id === age.listId)?.name || t("common.unknown");
+    return measure === "age"
+      ? t("aging.cardAge", { card: age.cardName, age: formatDays(age.ageDays, locale), list })
+      : t("aging.cardIdle", { card: age.cardName, idle: formatDays(age.idleDays, locale), list });
+  });
+  if (ages.length > limit) {
+    described.push(t("aging.more", { count: ages.length - limit }));
+  }
+
+  return joinList(described, t);
+}
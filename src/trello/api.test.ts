@@ -0,0 +1,240 @@
+/**
+ * Tests for action pagination in the Trello API client, run against the mock Trello server,
+ * and for its retries and typed errors, run against scripted responses
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AxiosAdapter, AxiosError, InternalAxiosRequestConfig } from "axios";
+import { MockTrelloServer, startMockTrelloServer } from "../mock/server.js";
+import { createFixtureBoards } from "../mock/fixtures.js";
+import { TrelloApiClient } from "./api.js";
+import {
+  TrelloApiError,
+  TrelloAuthError,
+  TrelloNetworkError,
+  TrelloNotFoundError,
+  TrelloRateLimitError,
+} from "./errors.js";
+import { BoardSnapshot, DateRange, TrelloAction } from "./types.js";
+
+// Fixture boards are generated relative to this date, so every run sees the same data
+const ANCHOR = new Date("2024-06-30T12:00:00.000Z");
+
+// Comments added to the busy board: enough for three pages of 1000 actions
+const BUSY_COMMENTS = 2500;
+
+// June 2024, in UTC
+const JUNE: DateRange = {
+  start: new Date("2024-06-01T00:00:00.000Z"),
+  end: new Date("2024-06-30T23:59:59.999Z"),
+};
+
+/**
+ * Build a fixture board with a comment every minute from the start of June 2024
+ */
+function createBusyBoard(): BoardSnapshot {
+  const [fixture] = createFixtureBoards(ANCHOR);
+  const card = fixture.cards[0];
+  const member = fixture.members[0];
+
+  const comments: TrelloAction[] = Array.from({ length: BUSY_COMMENTS }, (_, index) => ({
+    id: `c0ffee${index.toString(16).padStart(18, "0")}`,
+    idMemberCreator: member.id,
+    type: "commentCard",
+    date: new Date(JUNE.start.getTime() + (index + 1) * 60 * 1000).toISOString(),
+    data: { card: { id: card.id, name: card.name }, text: `Comment ${index + 1}` },
+    memberCreator: { id: member.id, fullName: member.fullName, username: member.username },
+  }));
+
+  return { ...fixture, actions: [...fixture.actions, ...comments] };
+}
+
+/**
+ * Get the board's actions inside a range, newest first, as Trello returns them
+ */
+function getExpectedActions(board: BoardSnapshot, dateRange: DateRange): TrelloAction[] {
+  return board.actions
+    .filter((action) => {
+      const date = new Date(action.date);
+      return date > dateRange.start && date < dateRange.end;
+    })
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+describe("TrelloApiClient.getActions", () => {
+  const board = createBusyBoard();
+  let mock: MockTrelloServer;
+  let client: TrelloApiClient;
+
+  before(async () => {
+    mock = await startMockTrelloServer({ boards: [board] });
+    client = new TrelloApiClient({ apiKey: "key", apiToken: "token", baseUrl: mock.url });
+  });
+
+  after(() => mock.close());
+
+  it("follows the before cursor until the whole range is fetched", async () => {
+    const expected = getExpectedActions(board, JUNE);
+    const { actions, truncated } = await client.getActions(board.board.id, JUNE);
+
+    assert.ok(expected.length > 2000);
+    assert.equal(truncated, false);
+    assert.deepEqual(
+      actions.map((action) => action.id),
+      expected.map((action) => action.id)
+    );
+  });
+
+  it("stops at the page cap and flags the history as truncated", async () => {
+    const expected = getExpectedActions(board, JUNE);
+    const { actions, truncated } = await client.getActions(board.board.id, JUNE, 2);
+
+    assert.equal(truncated, true);
+    assert.deepEqual(
+      actions.map((action) => action.id),
+      expected.slice(0, 2000).map((action) => action.id)
+    );
+  });
+
+  it("does not flag the history as truncated when the last page ends it", async () => {
+    const june = getExpectedActions(board, JUNE);
+    assert.notEqual(june[1999].date, june[2000].date);
+
+    // Exactly two full pages: since is exclusive, so the 2001st newest action is left out
+    const range: DateRange = { start: new Date(june[2000].date), end: JUNE.end };
+    const { actions, truncated } = await client.getActions(board.board.id, range, 2);
+
+    assert.equal(actions.length, 2000);
+    assert.equal(truncated, false);
+  });
+
+  it("returns a short history in a single page", async () => {
+    const range: DateRange = {
+      start: new Date("2024-01-01T00:00:00.000Z"),
+      end: new Date("2024-05-31T23:59:59.999Z"),
+    };
+    const expected = getExpectedActions(board, range);
+    const { actions, truncated } = await client.getActions(board.board.id, range);
+
+    assert.ok(expected.length > 0 && expected.length < 1000);
+    assert.equal(truncated, false);
+    assert.equal(actions.length, expected.length);
+  });
+});
+
+// A scripted reply: an HTTP status with a body and headers, or a failure with no response at all
+type ScriptedReply = { status: number; data?: unknown; headers?: Record<string, string> } | "network";
+
+/**
+ * Build an axios adapter answering requests with the given replies in turn, repeating the last one
+ */
+function createScriptedAdapter(replies: ScriptedReply[]): { adapter: AxiosAdapter; calls: () => number } {
+  let calls = 0;
+
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const reply = replies[Math.min(calls++, replies.length - 1)];
+    if (reply === "network") {
+      throw new AxiosError("connect ECONNREFUSED", "ECONNREFUSED", config);
+    }
+
+    const response = {
+      data: reply.data ?? {},
+      status: reply.status,
+      statusText: "",
+      headers: reply.headers || {},
+      config,
+    };
+    if (reply.status >= 400) {
+      const message = `Request failed with status code ${reply.status}`;
+      throw new AxiosError(message, "ERR_BAD_RESPONSE", config, null, response);
+    }
+    return response;
+  };
+
+  return { adapter, calls: () => calls };
+}
+
+/**
+ * Create a client answered by scripted replies, with backoff delays short enough for tests
+ */
+function createScriptedClient(replies: ScriptedReply[], maxRetries = 3) {
+  const { adapter, calls } = createScriptedAdapter(replies);
+  const client = new TrelloApiClient({ apiKey: "key", apiToken: "token", adapter, maxRetries, retryBaseDelayMs: 1 });
+  return { client, calls };
+}
+
+describe("TrelloApiClient retries", () => {
+  const board = { id: "board", name: "Board" };
+
+  it("retries 5xx and rate limited responses until one succeeds", async () => {
+    const { client, calls } = createScriptedClient([
+      { status: 503, data: "Service Unavailable" },
+      { status: 429, data: { message: "API_TOKEN_LIMIT_EXCEEDED" }, headers: { "retry-after": "0" } },
+      { status: 200, data: board },
+    ]);
+
+    assert.deepEqual(await client.getBoard("board"), board);
+    assert.equal(calls(), 3);
+  });
+
+  it("gives up after maxRetries and raises the last error", async () => {
+    const { client, calls } = createScriptedClient([{ status: 500, data: { message: "Internal error" } }], 2);
+
+    await assert.rejects(client.getBoard("board"), (error: unknown) => {
+      assert.ok(error instanceof TrelloApiError);
+      assert.equal(error.status, 500);
+      assert.equal(error.endpoint, "/boards/board");
+      assert.equal(error.message, "Trello API error: Internal error");
+      return true;
+    });
+    assert.equal(calls(), 3);
+  });
+
+  it("raises a rate limit error with Trello's Retry-After", async () => {
+    const { client } = createScriptedClient(
+      [{ status: 429, data: "Too many requests", headers: { "retry-after": "0" } }],
+      0
+    );
+
+    await assert.rejects(client.getBoard("board"), (error: unknown) => {
+      assert.ok(error instanceof TrelloRateLimitError);
+      assert.equal(error.retryAfterMs, 0);
+      return true;
+    });
+  });
+
+  it("retries network failures", async () => {
+    const { client, calls } = createScriptedClient(["network"], 1);
+
+    await assert.rejects(client.getBoard("board"), TrelloNetworkError);
+    assert.equal(calls(), 2);
+  });
+
+  it("does not retry authentication and not found errors", async () => {
+    const unauthorized = createScriptedClient([{ status: 401, data: "invalid token" }]);
+    const missing = createScriptedClient([{ status: 404, data: "The requested resource was not found." }]);
+
+    await assert.rejects(unauthorized.client.getBoard("board"), TrelloAuthError);
+    await assert.rejects(missing.client.getBoard("board"), TrelloNotFoundError);
+    assert.equal(unauthorized.calls(), 1);
+    assert.equal(missing.calls(), 1);
+  });
+
+  it("keeps at most maxConcurrentRequests requests in flight", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const adapter: AxiosAdapter = async (config) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return { data: board, status: 200, statusText: "OK", headers: {}, config };
+    };
+    const client = new TrelloApiClient({ apiKey: "key", apiToken: "token", adapter, maxConcurrentRequests: 3 });
+
+    await Promise.all(Array.from({ length: 10 }, () => client.getBoard("board")));
+
+    assert.equal(maxActive, 3);
+  });
+});
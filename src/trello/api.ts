@@ -2,7 +2,7 @@
  * Trello API client for interacting with Trello boards, lists, cards, and actions
  */
 
-import axios from "axios";
+import axios, { AxiosAdapter, AxiosInstance } from "axios";
 import {
   TrelloBoard,
   TrelloList,
@@ -12,25 +12,85 @@ import {
   TrelloAction,
   TrelloComment,
   TrelloChecklist,
+  TrelloCustomField,
   DateRange,
+  ActionHistory,
+  TrelloDataSource,
 } from "./types.js";
+import { isRetryableError, toTrelloApiError, TrelloRateLimitError } from "./errors.js";
+import {
+  API_KEY_REQUEST_LIMIT,
+  API_TOKEN_REQUEST_LIMIT,
+  RATE_LIMIT_INTERVAL_MS,
+  RequestLimiter,
+  getSharedWindow,
+  sleep,
+} from "./rateLimiter.js";
 
 // Trello API base URL
 const TRELLO_API_BASE_URL = "https://api.trello.com/1";
 
-export class TrelloApiClient {
+// Maximum number of actions Trello returns per request
+const ACTIONS_PAGE_SIZE = 1000;
+
+// Default safety cap on the number of action pages fetched per report
+export const DEFAULT_MAX_ACTION_PAGES = 20;
+
+// Default number of requests a client keeps in flight at once
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 5;
+
+// Default number of retries for rate limited, network and 5xx failures
+const DEFAULT_MAX_RETRIES = 3;
+
+// Base delay for exponential backoff between retries
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+
+// Upper bound for a single backoff delay
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface TrelloApiClientOptions {
+  baseUrl?: string; // Defaults to TRELLO_API_BASE_URL from the environment, then the public API
+  apiKey?: string; // Defaults to TRELLO_API_KEY from the environment
+  apiToken?: string; // Defaults to TRELLO_API_TOKEN from the environment
+  adapter?: AxiosAdapter; // Custom HTTP adapter, e.g. for tests
+  maxConcurrentRequests?: number; // Requests kept in flight at once (default: 5)
+  maxRetries?: number; // Retries for rate limited, network and 5xx failures (default: 3)
+  retryBaseDelayMs?: number; // Base delay for exponential backoff (default: 500)
+}
+
+export class TrelloApiClient implements TrelloDataSource {
   private apiKey: string;
   private apiToken: string;
+  private http: AxiosInstance;
+  private limiter: RequestLimiter;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
 
-  constructor() {
-    this.apiKey = process.env.TRELLO_API_KEY || "";
-    this.apiToken = process.env.TRELLO_API_TOKEN || "";
+  constructor(options: TrelloApiClientOptions = {}) {
+    this.apiKey = options.apiKey || process.env.TRELLO_API_KEY || "";
+    this.apiToken = options.apiToken || process.env.TRELLO_API_TOKEN || "";
 
     if (!this.apiKey || !this.apiToken) {
       throw new Error(
         "Trello API credentials not found. Please set TRELLO_API_KEY and TRELLO_API_TOKEN in your environment."
       );
     }
+
+    this.http = axios.create({
+      baseURL: options.baseUrl || process.env.TRELLO_API_BASE_URL || TRELLO_API_BASE_URL,
+      adapter: options.adapter,
+    });
+
+    // Trello counts requests per key and per token, across every client using them
+    this.limiter = new RequestLimiter(
+      options.maxConcurrentRequests || DEFAULT_MAX_CONCURRENT_REQUESTS,
+      [
+        getSharedWindow(`key:${this.apiKey}`, API_KEY_REQUEST_LIMIT, RATE_LIMIT_INTERVAL_MS),
+        getSharedWindow(`token:${this.apiToken}`, API_TOKEN_REQUEST_LIMIT, RATE_LIMIT_INTERVAL_MS),
+      ]
+    );
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
   }
 
   /**
@@ -44,22 +104,38 @@ export class TrelloApiClient {
   }
 
   /**
-   * Make a GET request to the Trello API
+   * Get the delay before retrying a failed request: Trello's Retry-After when given,
+   * otherwise exponential backoff with full jitter
+   */
+  private getRetryDelay(error: unknown, attempt: number): number {
+    if (error instanceof TrelloRateLimitError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs + Math.random() * this.retryBaseDelayMs;
+    }
+    return Math.random() * Math.min(MAX_RETRY_DELAY_MS, this.retryBaseDelayMs * 2 ** attempt);
+  }
+
+  /**
+   * Make a GET request to the Trello API, within the rate limits and retrying transient failures
    */
   private async get<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
-    try {
-      const response = await axios.get(`${TRELLO_API_BASE_URL}${endpoint}`, {
-        params: {
-          ...this.getAuthParams(),
-          ...params,
-        },
-      });
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        throw new Error(`Trello API error: ${error.response?.data?.message || error.message}`);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.limiter.schedule(async () => {
+          const response = await this.http.get(endpoint, {
+            params: {
+              ...this.getAuthParams(),
+              ...params,
+            },
+          });
+          return response.data;
+        });
+      } catch (error) {
+        const apiError = toTrelloApiError(error, endpoint);
+        if (attempt >= this.maxRetries || !isRetryableError(apiError)) {
+          throw apiError;
+        }
+        await sleep(this.getRetryDelay(apiError, attempt));
       }
-      throw error;
     }
   }
 
@@ -70,6 +146,13 @@ export class TrelloApiClient {
     return this.get<TrelloBoard[]>("/members/me/boards");
   }
 
+  /**
+   * Get all boards in a Trello workspace (organization)
+   */
+  async getOrganizationBoards(organizationId: string): Promise<TrelloBoard[]> {
+    return this.get<TrelloBoard[]>(`/organizations/${organizationId}/boards`);
+  }
+
   /**
    * Find a board by name (case-insensitive partial match)
    */
@@ -104,6 +187,17 @@ export class TrelloApiClient {
       filter: "all",
       fields: "all",
       badges: "true",
+      customFieldItems: "true",
+    });
+  }
+
+  /**
+   * Get a card by ID
+   */
+  async getCard(cardId: string): Promise<TrelloCard> {
+    return this.get<TrelloCard>(`/cards/${cardId}`, {
+      fields: "all",
+      badges: "true",
     });
   }
 
@@ -114,6 +208,20 @@ export class TrelloApiClient {
     return this.get<TrelloChecklist[]>(`/cards/${cardId}/checklists`);
   }
 
+  /**
+   * Get all checklists on a board
+   */
+  async getBoardChecklists(boardId: string): Promise<TrelloChecklist[]> {
+    return this.get<TrelloChecklist[]>(`/boards/${boardId}/checklists`);
+  }
+
+  /**
+   * Get the custom field definitions of a board
+   */
+  async getCustomFields(boardId: string): Promise<TrelloCustomField[]> {
+    return this.get<TrelloCustomField[]>(`/boards/${boardId}/customFields`);
+  }
+
   /**
    * Get all members of a board
    */
@@ -129,21 +237,43 @@ export class TrelloApiClient {
   }
 
   /**
-   * Get actions for a board within a date range
+   * Get all actions for a board within a date range.
+   *
+   * Trello returns actions newest first, at most 1000 per request, so pages are
+   * fetched by moving the `before` cursor to the oldest action of the previous
+   * page until the start of the range is reached or `maxPages` is exhausted.
    */
   async getActions(
     boardId: string,
     dateRange: DateRange,
-    limit: number = 1000
-  ): Promise<TrelloAction[]> {
-    return this.get<TrelloAction[]>(`/boards/${boardId}/actions`, {
-      limit,
+    maxPages: number = DEFAULT_MAX_ACTION_PAGES
+  ): Promise<ActionHistory> {
+    const actions: TrelloAction[] = [];
+    let before = dateRange.end.toISOString();
+
+    for (let page = 0; page < maxPages; page++) {
+      const batch = await this.get<TrelloAction[]>(`/boards/${boardId}/actions`, {
+        limit: ACTIONS_PAGE_SIZE,
+        since: dateRange.start.toISOString(),
+        before,
+        filter: "all",
+      });
+      actions.push(...batch);
+
+      if (batch.length < ACTIONS_PAGE_SIZE) {
+        return { actions, truncated: false };
+      }
+
+      before = batch[batch.length - 1].id;
+    }
+
+    // The cap was reached on a full page: the history is only cut short if Trello has more
+    const next = await this.get<TrelloAction[]>(`/boards/${boardId}/actions`, {
+      limit: 1,
       since: dateRange.start.toISOString(),
-      before: dateRange.end.toISOString(),
+      before,
       filter: "all",
     });
+    return { actions, truncated: next.length > 0 };
   }
 }
-
-// Export a singleton instance
-export const trelloApi = new TrelloApiClient();
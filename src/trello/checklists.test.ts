@@ -0,0 +1,147 @@
+/**
+ * Tests for checklist progress in reports
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { calculateChecklistMetrics, groupChecklistsByCard } from "./checklists.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { TrelloDataSource } from "./types.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Get noon UTC of a day in June 2024
+ */
+function june(day: number): Date {
+  return new Date(Date.UTC(2024, 5, day, 12));
+}
+
+/**
+ * Build a board with checklists on open, done and archived cards, and items checked in June
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Checklists", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+
+  const spec = builder.card("Spec", todo, june(1));
+  const specList = builder.checklist(spec, "Writing", [
+    ["Draft", "complete"],
+    ["Review", "complete"],
+    ["Sign-off", "incomplete"],
+  ]);
+  const qaList = builder.checklist(spec, "QA", [["Test", "incomplete"]]);
+
+  const release = builder.card("Release", done, june(2));
+  const releaseList = builder.checklist(release, "Launch", [
+    ["Deploy", "complete"],
+    ["Announce", "incomplete"],
+  ]);
+
+  const archived = builder.card("Archived", todo, june(3));
+  builder.checklist(archived, "Leftovers", [["Old item", "incomplete"]]);
+  builder.archive(archived, june(4));
+  builder.checklist(builder.card("Empty", todo, june(3)), "Nothing yet", []);
+
+  const [draft, review] = specList.checkItems;
+  builder.checkItem(spec, draft, "complete", june(5), ana);
+  builder.checkItem(spec, review, "complete", june(6), ana);
+  builder.checkItem(release, releaseList.checkItems[0], "complete", june(7), bruno);
+
+  // Checked and unchecked again: not completed
+  builder.checkItem(spec, qaList.checkItems[0], "complete", june(8), bruno);
+  builder.checkItem(spec, qaList.checkItems[0], "incomplete", june(9), bruno);
+
+  return { builder, ana, bruno };
+}
+
+describe("calculateChecklistMetrics", () => {
+  it("measures progress on open cards and flags done cards with open items", () => {
+    const { builder } = createBoard();
+    const metrics = calculateChecklistMetrics(
+      builder.lists,
+      builder.cards,
+      groupChecklistsByCard(builder.checklists),
+      builder.actions
+    );
+
+    assert.deepEqual(
+      metrics.cards.map((progress) => [progress.cardName, progress.completedItems, progress.totalItems]),
+      [
+        ["Spec", 2, 4],
+        ["Release", 1, 2],
+      ]
+    );
+    assert.deepEqual(metrics.cards[0].openItems, ["Sign-off", "Test"]);
+    assert.equal(metrics.totalItems, 6);
+    assert.equal(metrics.completedItems, 3);
+    assert.deepEqual(
+      metrics.doneWithOpenItems.map((progress) => [progress.cardName, progress.openItems]),
+      [["Release", ["Announce"]]]
+    );
+  });
+
+  it("counts items by their last state change in the period", () => {
+    const { builder, ana, bruno } = createBoard();
+    const metrics = calculateChecklistMetrics(
+      builder.lists,
+      builder.cards,
+      groupChecklistsByCard(builder.checklists),
+      builder.actions
+    );
+
+    assert.equal(metrics.itemsCompletedInPeriod, 3);
+    assert.deepEqual(
+      [...metrics.itemsCompletedByMember],
+      [
+        [ana.id, 2],
+        [bruno.id, 1],
+      ]
+    );
+  });
+});
+
+describe("checklist report section", () => {
+  it("fetches the board's checklists in one request and renders them in both formats", async () => {
+    const { builder } = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE));
+    const requests: string[] = [];
+    const client: TrelloDataSource = Object.assign(Object.create(source), {
+      getBoardChecklists: (boardId: string) => {
+        requests.push("board");
+        return source.getBoardChecklists(boardId);
+      },
+      getCardChecklists: (cardId: string) => {
+        requests.push("card");
+        return source.getCardChecklists(cardId);
+      },
+    });
+    const options = {
+      boardId: builder.board.id,
+      period: { type: "month" as const, year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      sections: ["checklists" as const],
+    };
+
+    const report = await generateReport(client, options);
+    const summary = await generateReport(client, { ...options, format: "summary" });
+
+    assert.deepEqual(requests, ["board", "board"]);
+    assert.ok(report.markdown.includes("- **Items Done on Open Cards**: 3 of 6 (50%)\n"));
+    assert.ok(report.markdown.includes("| Spec | To Do | 2/4 | 2 |\n"));
+    assert.ok(report.markdown.includes("| Ana Souza | 2 |\n| Bruno Lima | 1 |\n"));
+    assert.ok(
+      summary.markdown.includes(
+        "3 checklist items were completed in this period. Across open cards, 3 of 6 items are done (50%), " +
+          "and 1 card in a done list still has open items."
+      )
+    );
+  });
+});
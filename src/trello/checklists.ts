@@ -0,0 +1,108 @@
+/**
+ * Checklist progress: completion per card, done cards with open items and items completed
+ * during a period
+ */
+
+import {
+  BoardWorkflow,
+  CardChecklistProgress,
+  ChecklistMetrics,
+  TrelloAction,
+  TrelloCard,
+  TrelloChecklist,
+  TrelloList,
+} from "./types.js";
+import { sortActionsByDate } from "./flowMetrics.js";
+import { DEFAULT_BOARD_WORKFLOW, isListInStage } from "./workflow.js";
+
+/**
+ * Group checklists by the card they belong to
+ */
+export function groupChecklistsByCard(checklists: TrelloChecklist[]): Map<string, TrelloChecklist[]> {
+  const byCard = new Map<string, TrelloChecklist[]>();
+
+  checklists.forEach((checklist) => {
+    const cardChecklists = byCard.get(checklist.idCard) || [];
+    cardChecklists.push(checklist);
+    byCard.set(checklist.idCard, cardChecklists);
+  });
+
+  return byCard;
+}
+
+/**
+ * Get the last state change of each checklist item. Only the last change counts, so items
+ * checked and unchecked again are not counted as completed.
+ */
+export function getLastCheckItemChanges(actions: TrelloAction[]): Map<string, TrelloAction> {
+  const lastChanges = new Map<string, TrelloAction>();
+  sortActionsByDate(actions).forEach((action) => {
+    if (action.type === "updateCheckItemStateOnCard" && action.data.checkItem) {
+      lastChanges.set(action.data.checkItem.id, action);
+    }
+  });
+  return lastChanges;
+}
+
+/**
+ * Calculate checklist progress for the open cards of a board, and the checklist items
+ * completed during the period from updateCheckItemStateOnCard actions
+ */
+export function calculateChecklistMetrics(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  cardChecklists: Map<string, TrelloChecklist[]>,
+  actions: TrelloAction[],
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW
+): ChecklistMetrics {
+  const metrics: ChecklistMetrics = {
+    cards: [],
+    totalItems: 0,
+    completedItems: 0,
+    doneWithOpenItems: [],
+    itemsCompletedInPeriod: 0,
+    itemsCompletedByMember: new Map<string, number>(),
+  };
+
+  cards.forEach((card) => {
+    const checklists = cardChecklists.get(card.id);
+    if (card.closed || !checklists) return;
+
+    const items = checklists.flatMap((checklist) => checklist.checkItems);
+    if (items.length === 0) return;
+
+    const progress: CardChecklistProgress = {
+      cardId: card.id,
+      cardName: card.name,
+      listId: card.idList,
+      totalItems: items.length,
+      completedItems: items.filter((item) => item.state === "complete").length,
+      openItems: items.filter((item) => item.state !== "complete").map((item) => item.name),
+    };
+
+    metrics.cards.push(progress);
+    metrics.totalItems += progress.totalItems;
+    metrics.completedItems += progress.completedItems;
+
+    const list = lists.find((l) => l.id === card.idList) || { id: card.idList };
+    if (progress.openItems.length > 0 && isListInStage(workflow, list, "done")) {
+      metrics.doneWithOpenItems.push(progress);
+    }
+  });
+
+  metrics.cards.sort(
+    (a, b) => a.completedItems / a.totalItems - b.completedItems / b.totalItems || b.totalItems - a.totalItems
+  );
+
+  getLastCheckItemChanges(actions).forEach((action) => {
+    if (action.data.checkItem?.state !== "complete") return;
+
+    metrics.itemsCompletedInPeriod++;
+    metrics.itemsCompletedByMember.set(
+      action.idMemberCreator,
+      (metrics.itemsCompletedByMember.get(action.idMemberCreator) || 0) + 1
+    );
+  });
+
+  return metrics;
+}
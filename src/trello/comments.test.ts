@@ -0,0 +1,173 @@
+/**
+ * Tests for comment discussions and the comment digest
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { buildCommentDigest, calculateCommentMetrics, excerptComment, getComments } from "./comments.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { resolveBoardWorkflow } from "./workflow.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Get noon UTC of a day in June 2024
+ */
+function june(day: number): Date {
+  return new Date(Date.UTC(2024, 5, day, 12));
+}
+
+/**
+ * Build a board with long threads on open, done and archived cards, and a short one
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Discussions", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+
+  const design = builder.card("API design", todo, june(1));
+  builder.comment(design, june(3), "Should we version the endpoints?", ana);
+  builder.comment(design, june(4), "Yes, in the path.", bruno);
+  builder.comment(design, june(5), "  Agreed.\n\n  I'll update   the spec.  ", ana);
+
+  const release = builder.card("Release", done, june(1));
+  builder.comment(release, june(6), "Deployed to staging.", ana);
+  builder.comment(release, june(7), "Looks good.", bruno);
+  builder.comment(release, june(8), "Deployed to production.", ana);
+
+  // A long thread on a card that was dropped afterwards
+  const legacy = builder.card("Legacy", todo, june(1));
+  builder.comment(legacy, june(2), "Is this still needed?", bruno);
+  builder.comment(legacy, june(2), "Probably not.", bruno);
+  builder.comment(legacy, june(2), "Archiving it.", bruno);
+  builder.archive(legacy, june(2));
+
+  const typo = builder.card("Typo", todo, june(1));
+  builder.comment(typo, june(9), "Fixed in the next build.", bruno);
+  builder.card("Quiet", todo, june(1));
+
+  return { builder, ana, bruno, design, typo };
+}
+
+describe("calculateCommentMetrics", () => {
+  it("ranks the discussed cards and counts comments per member", () => {
+    const { builder, ana, bruno } = createBoard();
+    const metrics = calculateCommentMetrics(
+      builder.lists,
+      builder.cards,
+      builder.actions,
+      resolveBoardWorkflow(builder.lists)
+    );
+
+    assert.equal(metrics.comments.length, 10);
+    assert.deepEqual(
+      metrics.discussions.map((discussion) => [discussion.cardName, discussion.comments, discussion.participants]),
+      [
+        ["Release", 3, [ana.id, bruno.id]],
+        ["API design", 3, [ana.id, bruno.id]],
+        ["Legacy", 3, [bruno.id]],
+        ["Typo", 1, [bruno.id]],
+      ]
+    );
+    assert.deepEqual(metrics.discussions[1].lastCommentAt, june(5));
+    assert.deepEqual(
+      [...metrics.byMember],
+      [
+        [bruno.id, 6],
+        [ana.id, 4],
+      ]
+    );
+  });
+
+  it("only counts long threads on open cards outside the done lists as unresolved", () => {
+    const { builder } = createBoard();
+    const metrics = calculateCommentMetrics(
+      builder.lists,
+      builder.cards,
+      builder.actions,
+      resolveBoardWorkflow(builder.lists)
+    );
+
+    assert.deepEqual(metrics.unresolvedThreads.map((discussion) => discussion.cardName), ["API design"]);
+  });
+});
+
+describe("comment excerpts and digest", () => {
+  it("shortens comments to a single line", () => {
+    assert.equal(excerptComment("  Agreed.\n\n  I'll update   the spec.  "), "Agreed. I'll update the spec.");
+    assert.equal(excerptComment("Deploy tonight", 7), "Deploy...");
+    assert.equal(excerptComment("Short", 7), "Short");
+  });
+
+  it("collects the most recent comments of each card that has any", () => {
+    const { builder, design, typo } = createBoard();
+    const [quiet] = builder.cards.slice(-1);
+    const digest = buildCommentDigest(getComments(builder.actions), [design, quiet, typo], 2);
+
+    assert.deepEqual(
+      digest.map((card) => [card.cardName, card.comments.map((comment) => comment.date)]),
+      [
+        ["API design", [june(5).toISOString(), june(4).toISOString()]],
+        ["Typo", [june(9).toISOString()]],
+      ]
+    );
+  });
+});
+
+describe("comment report sections", () => {
+  it("renders the discussions in the full report and the summary", async () => {
+    const { builder } = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE));
+    const options = {
+      boardId: builder.board.id,
+      period: { type: "month" as const, year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      sections: ["comments" as const],
+    };
+
+    const report = await generateReport(source, options);
+    const summary = await generateReport(source, { ...options, format: "summary" });
+
+    assert.ok(report.markdown.includes("- **Commenters**: 2\n- **Unresolved Threads**: 1\n"));
+    assert.ok(report.markdown.includes("| Release | Done | 3 | 2 | 2024-06-08 |\n"));
+    assert.ok(report.markdown.includes("| Bruno Lima | 6 |\n| Ana Souza | 4 |\n"));
+    assert.ok(report.markdown.includes("- **API design**: 3 comments from 2 people, last on 2024-06-05\n"));
+    assert.ok(
+      summary.markdown.includes(
+        '10 comments were added across 4 cards. The most discussed card was "Release" with 3 comments. ' +
+          '1 open card has long threads still to resolve: "API design".'
+      )
+    );
+  });
+
+  it("adds recent comment excerpts to the key cards when asked", async () => {
+    const { builder } = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE));
+    const options = {
+      boardId: builder.board.id,
+      period: { type: "month" as const, year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      sections: ["keyCards" as const],
+    };
+
+    const withDigest = await generateReport(source, { ...options, commentDigest: true });
+    const withoutDigest = await generateReport(source, options);
+
+    assert.ok(
+      withDigest.markdown.includes(
+        "**Recent Comments**:\n\n" +
+          "- **Ana Souza** (2024-06-05): Agreed. I'll update the spec.\n" +
+          "- **Bruno Lima** (2024-06-04): Yes, in the path.\n" +
+          "- **Ana Souza** (2024-06-03): Should we version the endpoints?\n"
+      )
+    );
+    assert.ok(!withoutDigest.markdown.includes("**Recent Comments**"));
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Comment discussions: most-discussed cards, comments per member, long unresolved threads and
+ * recent comment excerpts for key cards
+ */
+
+import {
+  BoardWorkflow,
+  CardCommentDigest,
+  CardDiscussion,
+  CommentMetrics,
+  TrelloAction,
+  TrelloCard,
+  TrelloComment,
+  TrelloList,
+} from "./types.js";
+import { DEFAULT_BOARD_WORKFLOW, isListInStage } from "./workflow.js";
+
+// Minimum number of comments in the period for a thread on an open card to count as unresolved
+export const LONG_THREAD_MIN_COMMENTS = 3;
+
+// Number of recent comments shown per card in the comment digest
+export const DIGEST_COMMENTS_PER_CARD = 3;
+
+// Maximum length of a comment excerpt in the digest
+const EXCERPT_MAX_LENGTH = 200;
+
+/**
+ * Convert the commentCard actions of a period into comments, most recent first
+ */
+export function getComments(actions: TrelloAction[]): TrelloComment[] {
+  return actions
+    .filter((action) => action.type === "commentCard" && action.data.card && action.data.text !== undefined)
+    .map((action) => ({
+      id: action.id,
+      idMemberCreator: action.idMemberCreator,
+      data: { text: action.data.text!, card: action.data.card! },
+      date: action.date,
+      memberCreator: action.memberCreator,
+    }))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * Shorten a comment to a single-line excerpt
+ */
+export function excerptComment(text: string, maxLength: number = EXCERPT_MAX_LENGTH): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength ? singleLine.substring(0, maxLength).trimEnd() + "..." : singleLine;
+}
+
+/**
+ * Calculate comment metrics for a period: comments per member, the cards with the most comments
+ * and the long threads on cards that are still open
+ */
+export function calculateCommentMetrics(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW
+): CommentMetrics {
+  const comments = getComments(actions);
+  const byMember = new Map<string, number>();
+  const discussionsByCard = new Map<string, CardDiscussion>();
+
+  // Comments are most recent first, so the first comment seen on a card is its latest
+  comments.forEach((comment) => {
+    byMember.set(comment.idMemberCreator, (byMember.get(comment.idMemberCreator) || 0) + 1);
+
+    const cardId = comment.data.card.id;
+    const discussion = discussionsByCard.get(cardId) || {
+      cardId,
+      cardName: cards.find((card) => card.id === cardId)?.name || comment.data.card.name,
+      comments: 0,
+      participants: [],
+      lastCommentAt: new Date(comment.date),
+    };
+    discussion.comments++;
+    if (!discussion.participants.includes(comment.idMemberCreator)) {
+      discussion.participants.push(comment.idMemberCreator);
+    }
+    discussionsByCard.set(cardId, discussion);
+  });
+
+  const discussions = [...discussionsByCard.values()].sort(
+    (a, b) => b.comments - a.comments || b.lastCommentAt.getTime() - a.lastCommentAt.getTime()
+  );
+
+  // Threads count as unresolved while their card is open and outside the done stage
+  const unresolvedThreads = discussions.filter((discussion) => {
+    const card = cards.find((c) => c.id === discussion.cardId);
+    if (!card || card.closed || discussion.comments < LONG_THREAD_MIN_COMMENTS) return false;
+
+    const list = lists.find((l) => l.id === card.idList) || { id: card.idList };
+    return !isListInStage(workflow, list, "done");
+  });
+
+  return { comments, byMember, discussions, unresolvedThreads };
+}
+
+/**
+ * Collect the most recent comments on each of the given cards, skipping cards without comments
+ */
+export function buildCommentDigest(
+  comments: TrelloComment[],
+  cards: TrelloCard[],
+  commentsPerCard: number = DIGEST_COMMENTS_PER_CARD
+): CardCommentDigest[] {
+  return cards
+    .map((card) => ({
+      cardId: card.id,
+      cardName: card.name,
+      comments: comments.filter((comment) => comment.data.card.id === card.id).slice(0, commentsPerCard),
+    }))
+    .filter((digest) => digest.comments.length > 0);
+}
@@ -0,0 +1,95 @@
+/**
+ * Tests for period-over-period comparison
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateMetricDelta, formatMetricDelta, getComparisonPeriod } from "./comparison.js";
+import { getDateRangeForPeriod } from "./utils.js";
+import { createTranslator } from "./i18n.js";
+import { ComparisonMode, ReportPeriod } from "./types.js";
+
+/**
+ * Get the comparison period of a period, with its range computed in UTC
+ */
+function compare(period: ReportPeriod, mode: ComparisonMode): ReportPeriod {
+  return getComparisonPeriod(period, getDateRangeForPeriod(period, "UTC"), mode, "UTC");
+}
+
+describe("getComparisonPeriod", () => {
+  it("steps back one period, across year boundaries", () => {
+    assert.deepEqual(compare({ type: "Q1", year: 2024 }, "previous"), { type: "Q4", year: 2023 });
+    assert.deepEqual(compare({ type: "Q3", year: 2024 }, "previous"), { type: "Q2", year: 2024 });
+    assert.deepEqual(compare({ type: "month", year: 2024, month: 1 }, "previous"), {
+      type: "month",
+      year: 2023,
+      month: 12,
+    });
+    assert.deepEqual(compare({ type: "week", year: 2021, week: 1 }, "previous"), {
+      type: "week",
+      year: 2020,
+      week: 53,
+    });
+    assert.deepEqual(compare({ type: "year", year: 2024, fiscalYearStartMonth: 4 }, "previous"), {
+      type: "year",
+      year: 2023,
+      fiscalYearStartMonth: 4,
+    });
+  });
+
+  it("compares custom periods with the same number of days right before them", () => {
+    const period: ReportPeriod = { type: "custom", year: 2024, start: "2024-03-01", end: "2024-03-10" };
+
+    assert.deepEqual(compare(period, "previous"), {
+      type: "custom",
+      year: 2024,
+      start: "2024-02-20",
+      end: "2024-02-29",
+      fiscalYearStartMonth: undefined,
+    });
+  });
+
+  it("compares with the same period a year earlier", () => {
+    assert.deepEqual(compare({ type: "Q2", year: 2024 }, "yearAgo"), { type: "Q2", year: 2023 });
+    assert.deepEqual(compare({ type: "week", year: 2021, week: 10 }, "yearAgo"), {
+      type: "week",
+      year: 2020,
+      week: 10,
+    });
+    // 2019 has no week 53
+    assert.deepEqual(compare({ type: "week", year: 2020, week: 53 }, "yearAgo"), {
+      type: "week",
+      year: 2019,
+      week: 52,
+    });
+
+    const custom = compare({ type: "custom", year: 2024, start: "2024-01-15", end: "2024-02-15" }, "yearAgo");
+    assert.equal(custom.start, "2023-01-15");
+    assert.equal(custom.end, "2023-02-15");
+  });
+});
+
+describe("calculateMetricDelta", () => {
+  it("computes the absolute and relative change", () => {
+    assert.deepEqual(calculateMetricDelta(12, 8), { current: 12, previous: 8, change: 4, percentChange: 50 });
+    assert.deepEqual(calculateMetricDelta(3, 0), { current: 3, previous: 0, change: 3, percentChange: null });
+  });
+});
+
+describe("formatMetricDelta", () => {
+  it("formats the change and percentage without nested parentheses", () => {
+    assert.equal(formatMetricDelta(calculateMetricDelta(12, 8), undefined, "en-US"), "+4, +50.0%");
+    assert.equal(formatMetricDelta(calculateMetricDelta(29, 30), undefined, "en-US"), "-1, -3.3%");
+    assert.equal(formatMetricDelta(calculateMetricDelta(5, 5), undefined, "en-US"), "0, 0.0%");
+  });
+
+  it("marks metrics that were zero before as new, and leaves out the percentage when both are zero", () => {
+    assert.equal(formatMetricDelta(calculateMetricDelta(3, 0)), "+3, new");
+    assert.equal(formatMetricDelta(calculateMetricDelta(3, 0), createTranslator("pt")), "+3, novo");
+    assert.equal(formatMetricDelta(calculateMetricDelta(0, 0)), "0");
+  });
+
+  it("formats the percentage for the locale", () => {
+    assert.equal(formatMetricDelta(calculateMetricDelta(29, 30), undefined, "pt-BR"), "-1, -3,3%");
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Period-over-period comparison of board activity
+ */
+
+import { format, subDays, subYears, differenceInCalendarDays, getISOWeeksInYear } from "date-fns";
+import {
+  BoardActivity,
+  ComparisonMode,
+  DateRange,
+  MetricDelta,
+  PeriodComparisonMetrics,
+  ReportPeriod,
+  TrelloLabel,
+} from "./types.js";
+import { toWallClock } from "./timezone.js";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18n.js";
+
+/**
+ * Get the number of ISO weeks in a year
+ */
+function weeksInYear(year: number): number {
+  return getISOWeeksInYear(new Date(year, 0, 4));
+}
+
+/**
+ * Build a custom period from a date range
+ */
+function toCustomPeriod(period: ReportPeriod, start: Date, end: Date): ReportPeriod {
+  return {
+    type: "custom",
+    year: start.getFullYear(),
+    start: format(start, "yyyy-MM-dd"),
+    end: format(end, "yyyy-MM-dd"),
+    fiscalYearStartMonth: period.fiscalYearStartMonth,
+  };
+}
+
+/**
+ * Get the period to compare against: the one immediately before, or the same period a year earlier.
+ * Custom periods are built from the calendar days of the range in the given time zone.
+ */
+export function getComparisonPeriod(
+  period: ReportPeriod,
+  range: DateRange,
+  mode: ComparisonMode,
+  timeZone?: string
+): ReportPeriod {
+  const { type, year } = period;
+  // Shift calendar days as seen in the report's time zone
+  const dateRange = { start: toWallClock(range.start, timeZone), end: toWallClock(range.end, timeZone) };
+
+  if (mode === "yearAgo") {
+    switch (type) {
+      case "lastDays":
+      case "custom":
+        return toCustomPeriod(period, subYears(dateRange.start, 1), subYears(dateRange.end, 1));
+      case "week":
+        return {
+          ...period,
+          year: year - 1,
+          week: Math.min(period.week || 1, weeksInYear(year - 1)),
+        };
+      default:
+        return { ...period, year: year - 1 };
+    }
+  }
+
+  switch (type) {
+    case "year":
+      return { ...period, year: year - 1 };
+
+    case "Q1":
+    case "Q2":
+    case "Q3":
+    case "Q4": {
+      const quarter = Number(type.slice(1));
+      return quarter === 1
+        ? { ...period, type: "Q4", year: year - 1 }
+        : { ...period, type: `Q${quarter - 1}` as ReportPeriod["type"] };
+    }
+
+    case "month": {
+      const month = period.month || 1;
+      return month === 1
+        ? { ...period, month: 12, year: year - 1 }
+        : { ...period, month: month - 1 };
+    }
+
+    case "week": {
+      const week = period.week || 1;
+      return week === 1
+        ? { ...period, week: weeksInYear(year - 1), year: year - 1 }
+        : { ...period, week: week - 1 };
+    }
+
+    default: {
+      // Same number of days, ending the day before the current period starts
+      const lengthInDays = differenceInCalendarDays(dateRange.end, dateRange.start) + 1;
+      const end = subDays(dateRange.start, 1);
+      return toCustomPeriod(period, subDays(end, lengthInDays - 1), end);
+    }
+  }
+}
+
+/**
+ * Calculate the change between two values
+ */
+export function calculateMetricDelta(current: number, previous: number): MetricDelta {
+  return {
+    current,
+    previous,
+    change: current - previous,
+    percentChange: previous === 0 ? null : ((current - previous) / previous) * 100,
+  };
+}
+
+/**
+ * Count completed cards per label
+ */
+function countCompletionsByLabel(activity: BoardActivity): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  activity.completedCards.forEach((card) => {
+    card.idLabels.forEach((labelId) => {
+      counts.set(labelId, (counts.get(labelId) || 0) + 1);
+    });
+  });
+
+  return counts;
+}
+
+/**
+ * Compare the headline activity metrics of two periods
+ */
+export function comparePeriodActivity(
+  current: BoardActivity,
+  previous: BoardActivity,
+  labels: TrelloLabel[]
+): PeriodComparisonMetrics {
+  const currentByLabel = countCompletionsByLabel(current);
+  const previousByLabel = countCompletionsByLabel(previous);
+  const labelCompletions = new Map<string, MetricDelta>();
+
+  labels.forEach((label) => {
+    const currentCount = currentByLabel.get(label.id) || 0;
+    const previousCount = previousByLabel.get(label.id) || 0;
+    if (currentCount > 0 || previousCount > 0) {
+      labelCompletions.set(label.id, calculateMetricDelta(currentCount, previousCount));
+    }
+  });
+
+  return {
+    cardsCreated: calculateMetricDelta(current.cardsCreated, previous.cardsCreated),
+    cardsCompleted: calculateMetricDelta(current.completedCards.length, previous.completedCards.length),
+    cardsMoved: calculateMetricDelta(current.cardsMoved, previous.cardsMoved),
+    commentsAdded: calculateMetricDelta(current.commentsAdded, previous.commentsAdded),
+    activeMembers: calculateMetricDelta(current.membersActive.size, previous.membersActive.size),
+    labelCompletions,
+  };
+}
+
+/**
+ * Format a delta as "+3, +25.0%", with the percentage in the locale's number format
+ * (the server's when none is given). The percentage is left out when both values are zero.
+ */
+export function formatMetricDelta(
+  delta: MetricDelta,
+  t: Translator = DEFAULT_TRANSLATOR,
+  locale?: string
+): string {
+  const sign = delta.change > 0 ? "+" : "";
+  if (delta.percentChange === null && delta.current === 0) {
+    return `${sign}${delta.change}`;
+  }
+
+  const percent =
+    delta.percentChange === null
+      ? t("comparison.new")
+      : new Intl.NumberFormat(locale, {
+          style: "percent",
+          signDisplay: "exceptZero",
+          minimumFractionDigits: 1,
+          maximumFractionDigits: 1,
+        }).format(delta.percentChange / 100);
+  return `${sign}${delta.change}, ${percent}`;
+}
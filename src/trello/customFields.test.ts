@@ -0,0 +1,208 @@
+/**
+ * Tests for custom field values, story points and grouping by dropdown fields
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import {
+  calculateStoryPoints,
+  getCardFieldText,
+  groupCardsByCustomField,
+  resolveDropdownField,
+  resolvePointsField,
+} from "./customFields.js";
+import { createTranslator } from "./i18n.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { resolveBoardWorkflow } from "./workflow.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+// When the board is looked at, two weeks after June
+const JULY_15 = new Date("2024-07-15T00:00:00.000Z");
+
+/**
+ * Get noon UTC of a day in June 2024
+ */
+function june(day: number): Date {
+  return new Date(Date.UTC(2024, 5, day, 12));
+}
+
+/**
+ * Build a board with story points and priorities on cards completed, open and archived in June
+ */
+function createEstimatedBoard() {
+  const builder = new BoardBuilder("Estimates", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+  const bug = builder.label("Bug", "red");
+  const points = builder.customField("Story Points", "number");
+  const priority = builder.customField("Priority", "list", ["High", "Low"]);
+  const reviewed = builder.customField("Reviewed", "checkbox");
+
+  const login = builder.card("Login", todo, june(2), { idLabels: [bug.id], idMembers: [ana.id] });
+  builder.fieldValue(login, points, "5");
+  builder.fieldValue(login, priority, "High");
+  builder.fieldValue(login, reviewed, "true");
+  builder.move(login, done, june(10));
+
+  const search = builder.card("Search", todo, june(3), { idMembers: [ana.id, bruno.id] });
+  builder.fieldValue(search, points, "3");
+  builder.fieldValue(search, priority, "Low");
+  builder.move(search, done, june(12));
+
+  const docs = builder.card("Docs", todo, june(4));
+  builder.move(docs, done, june(14));
+
+  const payments = builder.card("Payments", todo, june(5));
+  builder.fieldValue(payments, points, "8");
+  builder.fieldValue(payments, priority, "High");
+
+  const legacy = builder.card("Legacy", todo, june(6));
+  builder.fieldValue(legacy, points, "13");
+  builder.archive(legacy, june(7));
+
+  return { builder, ana, bruno, bug, points, priority, reviewed, completed: [login, search, docs] };
+}
+
+describe("custom field definitions", () => {
+  it("finds the story points field by name, or by the configured name or ID", () => {
+    const { builder, points, priority } = createEstimatedBoard();
+    const estimate = { ...points, id: "estimate", name: "Estimate" };
+
+    assert.equal(resolvePointsField(builder.customFields), points);
+    assert.equal(resolvePointsField([priority, estimate]), estimate);
+    assert.equal(resolvePointsField([priority]), undefined);
+    assert.equal(resolvePointsField(builder.customFields, points.id), points);
+    assert.throws(() => resolvePointsField(builder.customFields, "priority"), /is a list field, but story points need/);
+    assert.throws(() => resolvePointsField(builder.customFields, "Size"), /Custom field "Size" not found/);
+  });
+
+  it("only groups by dropdown fields", () => {
+    const { builder, priority } = createEstimatedBoard();
+
+    assert.equal(resolveDropdownField(builder.customFields, "PRIORITY"), priority);
+    assert.throws(() => resolveDropdownField(builder.customFields, "Reviewed"), /is a checkbox field, not a dropdown/);
+  });
+
+  it("reads card values of every field type as text", () => {
+    const { points, priority, reviewed, completed } = createEstimatedBoard();
+    const [login, , docs] = completed;
+
+    assert.deepEqual(
+      [points, priority, reviewed].map((field) => getCardFieldText(login, field)),
+      ["5", "High", "true"]
+    );
+    assert.equal(getCardFieldText(docs, points), undefined);
+  });
+});
+
+describe("calculateStoryPoints", () => {
+  it("adds up completed points by label and member, and the points still open", () => {
+    const { builder, ana, bruno, bug, points, completed } = createEstimatedBoard();
+    const workflow = resolveBoardWorkflow(builder.lists);
+    const metrics = calculateStoryPoints(builder.lists, builder.cards, completed, points, JUNE, workflow, JULY_15);
+
+    assert.equal(metrics.pointsCompleted, 8);
+    assert.equal(metrics.cardsCompleted, 2);
+    assert.equal(metrics.unestimatedCompleted, 1);
+    assert.equal(metrics.openPoints, 8);
+    assert.deepEqual([...metrics.byLabel], [[bug.id, 5]]);
+    assert.deepEqual(
+      [...metrics.byMember],
+      [
+        [ana.id, 8],
+        [bruno.id, 3],
+      ]
+    );
+    assert.equal(Math.round(metrics.velocityPerWeek * 100) / 100, 1.87);
+  });
+
+  it("measures velocity over the weeks elapsed in a running period, at least one", () => {
+    const { builder, points, completed } = createEstimatedBoard();
+    const workflow = resolveBoardWorkflow(builder.lists);
+    const velocity = (now: Date) =>
+      calculateStoryPoints(builder.lists, builder.cards, completed, points, JUNE, workflow, now).velocityPerWeek;
+
+    assert.equal(velocity(new Date("2024-06-15T00:00:00.000Z")), 4);
+    assert.equal(velocity(new Date("2024-06-04T00:00:00.000Z")), 8);
+  });
+});
+
+describe("groupCardsByCustomField", () => {
+  it("groups cards by option, with cards without a value last in the report's language", () => {
+    const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+    const todo = builder.list("To Do");
+    const done = builder.list("Done");
+    const priority = builder.customField("Priority", "list", ["High", "Low"]);
+
+    const urgent = builder.card("Urgent", todo, new Date("2024-06-03T00:00:00.000Z"));
+    builder.fieldValue(urgent, priority, "High");
+    const shipped = builder.card("Shipped", done, new Date("2024-06-04T00:00:00.000Z"));
+    builder.fieldValue(shipped, priority, "High");
+    builder.card("Unsorted", todo, new Date("2024-06-05T00:00:00.000Z"));
+
+    const { lists, cards } = builder;
+    const workflow = resolveBoardWorkflow(lists);
+    const grouping = groupCardsByCustomField(lists, cards, [shipped], priority, undefined, workflow);
+
+    assert.deepEqual(
+      grouping.groups.map(({ value, openCards, completedCards }) => [value, openCards, completedCards]),
+      [
+        ["High", 1, 1],
+        ["Low", 0, 0],
+        ["(none)", 1, 0],
+      ]
+    );
+
+    const t = createTranslator("pt");
+    const translated = groupCardsByCustomField(lists, cards, [shipped], priority, undefined, workflow, t);
+    assert.equal(translated.groups[2].value, "(nenhum)");
+  });
+});
+
+describe("custom field reports", () => {
+  it("reports velocity and a breakdown by the grouping field", async () => {
+    const { builder } = createEstimatedBoard();
+    const result = await generateReport(new SnapshotDataSource(builder.build(JUNE, JULY_15)), {
+      boardId: builder.board.id,
+      period: { type: "month", year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      asOf: JULY_15,
+      groupByField: "priority",
+      sections: ["storyPoints"],
+    });
+
+    assert.ok(result.markdown.includes("- **Points Completed**: 8 across 2 cards\n- **Velocity**: 1.9 points/week\n"));
+    assert.deepEqual(
+      result.activity.fieldGrouping!.groups.map((group) => [group.value, group.openCards, group.pointsCompleted]),
+      [
+        ["High", 1, 5],
+        ["Low", 0, 3],
+        ["(none)", 0, 0],
+      ]
+    );
+  });
+
+  it("filters the report by a dropdown value", async () => {
+    const { builder } = createEstimatedBoard();
+    const result = await generateReport(new SnapshotDataSource(builder.build(JUNE, JULY_15)), {
+      boardId: builder.board.id,
+      period: { type: "month", year: 2024, month: 6 },
+      timezone: "UTC",
+      asOf: JULY_15,
+      filter: { include: { customFields: { Priority: ["high"] } } },
+    });
+
+    assert.deepEqual(
+      result.cards.map((card) => card.name),
+      ["Login", "Payments"]
+    );
+    assert.equal(result.activity.storyPoints!.pointsCompleted, 5);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Custom field values: story points, point-based velocity and grouping by dropdown fields
+ */
+
+import {
+  BoardWorkflow,
+  CustomFieldGrouping,
+  CustomFieldGroupStats,
+  DateRange,
+  StoryPointMetrics,
+  TrelloCard,
+  TrelloCustomField,
+  TrelloCustomFieldOption,
+  TrelloList,
+} from "./types.js";
+import { differenceInDaysPrecise, getEffectivePeriodEnd } from "./flowMetrics.js";
+import { DEFAULT_BOARD_WORKFLOW, isListInStage } from "./workflow.js";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18n.js";
+
+// Names of number fields used for story points when no field is configured (case-insensitive)
+const DEFAULT_POINTS_FIELD_NAMES = ["story points", "points", "estimate", "effort"];
+
+// Key of the group for cards without a value in the grouping field
+const NO_VALUE_GROUP = "";
+
+/**
+ * Find a custom field by ID or name (case-insensitive)
+ */
+export function findCustomField(
+  fields: TrelloCustomField[],
+  identifier: string
+): TrelloCustomField | undefined {
+  const normalized = identifier.trim().toLowerCase();
+  return (
+    fields.find((field) => field.id === identifier.trim()) ||
+    fields.find((field) => field.name.toLowerCase() === normalized)
+  );
+}
+
+/**
+ * Resolve the story points field: the configured field, which must be a number field, or the
+ * first number field with a common story points name
+ */
+export function resolvePointsField(
+  fields: TrelloCustomField[],
+  identifier?: string
+): TrelloCustomField | undefined {
+  if (identifier) {
+    const field = findCustomField(fields, identifier);
+    if (!field) {
+      throw new Error(`Custom field "${identifier}" not found on this board.`);
+    }
+    if (field.type !== "number") {
+      throw new Error(`Custom field "${field.name}" is a ${field.type} field, but story points need a number field.`);
+    }
+    return field;
+  }
+
+  for (const name of DEFAULT_POINTS_FIELD_NAMES) {
+    const field = fields.find((f) => f.type === "number" && f.name.toLowerCase() === name);
+    if (field) return field;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a dropdown field to group or filter by
+ */
+export function resolveDropdownField(fields: TrelloCustomField[], identifier: string): TrelloCustomField {
+  const field = findCustomField(fields, identifier);
+  if (!field) {
+    throw new Error(`Custom field "${identifier}" not found on this board.`);
+  }
+  if (field.type !== "list") {
+    throw new Error(`Custom field "${field.name}" is a ${field.type} field, not a dropdown.`);
+  }
+  return field;
+}
+
+/**
+ * Get the numeric value of a number field on a card
+ */
+export function getCardNumberValue(card: TrelloCard, field: TrelloCustomField): number | undefined {
+  const item = card.customFieldItems?.find((i) => i.idCustomField === field.id);
+  const value = item?.value?.number !== undefined ? parseFloat(item.value.number) : NaN;
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Get the selected option of a dropdown field on a card
+ */
+export function getCardOption(
+  card: TrelloCard,
+  field: TrelloCustomField
+): TrelloCustomFieldOption | undefined {
+  const item = card.customFieldItems?.find((i) => i.idCustomField === field.id);
+  return item?.idValue ? field.options?.find((option) => option.id === item.idValue) : undefined;
+}
+
+/**
+ * Get the value of any custom field on a card as text
+ */
+export function getCardFieldText(card: TrelloCard, field: TrelloCustomField): string | undefined {
+  const item = card.customFieldItems?.find((i) => i.idCustomField === field.id);
+  if (!item) return undefined;
+
+  switch (field.type) {
+    case "list":
+      return getCardOption(card, field)?.value.text;
+    case "checkbox":
+      return item.value?.checked === "true" ? "true" : "false";
+    case "number":
+      return item.value?.number;
+    case "date":
+      return item.value?.date;
+    default:
+      return item.value?.text;
+  }
+}
+
+/**
+ * Format a point total, keeping at most one decimal place
+ */
+export function formatPoints(points: number): string {
+  return `${Math.round(points * 10) / 10}`;
+}
+
+/**
+ * Add points to a breakdown entry for each key
+ */
+function addPoints(breakdown: Map<string, number>, keys: string[], points: number): void {
+  keys.forEach((key) => breakdown.set(key, (breakdown.get(key) || 0) + points));
+}
+
+/**
+ * Calculate point-based velocity: points completed in the period, per week and broken down by
+ * label and member, plus the points still open on the board
+ */
+export function calculateStoryPoints(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  completedCards: TrelloCard[],
+  field: TrelloCustomField,
+  dateRange: DateRange,
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  now: Date = new Date()
+): StoryPointMetrics {
+  const metrics: StoryPointMetrics = {
+    fieldId: field.id,
+    fieldName: field.name,
+    pointsCompleted: 0,
+    cardsCompleted: 0,
+    unestimatedCompleted: 0,
+    velocityPerWeek: 0,
+    openPoints: 0,
+    byLabel: new Map<string, number>(),
+    byMember: new Map<string, number>(),
+  };
+
+  completedCards.forEach((card) => {
+    const points = getCardNumberValue(card, field);
+    if (points === undefined) {
+      metrics.unestimatedCompleted++;
+      return;
+    }
+
+    metrics.pointsCompleted += points;
+    metrics.cardsCompleted++;
+    addPoints(metrics.byLabel, card.idLabels, points);
+    addPoints(metrics.byMember, card.idMembers, points);
+  });
+
+  cards.forEach((card) => {
+    const list = lists.find((l) => l.id === card.idList) || { id: card.idList };
+    if (card.closed || isListInStage(workflow, list, "done")) return;
+    metrics.openPoints += getCardNumberValue(card, field) || 0;
+  });
+
+  // Periods that are still running only count the weeks elapsed so far
+  const weeks = differenceInDaysPrecise(getEffectivePeriodEnd(dateRange, now), dateRange.start) / 7;
+  metrics.velocityPerWeek = weeks > 0 ? metrics.pointsCompleted / Math.max(weeks, 1) : 0;
+
+  return metrics;
+}
+
+/**
+ * Break cards down by the options of a dropdown field: open and completed cards per option,
+ * and points completed when a story points field is in use
+ */
+export function groupCardsByCustomField(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  completedCards: TrelloCard[],
+  field: TrelloCustomField,
+  pointsField?: TrelloCustomField,
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  t: Translator = DEFAULT_TRANSLATOR
+): CustomFieldGrouping {
+  const groups = new Map<string, CustomFieldGroupStats>();
+  [...(field.options || [])]
+    .sort((a, b) => a.pos - b.pos)
+    .forEach((option) => {
+      groups.set(option.id, {
+        optionId: option.id,
+        value: option.value.text,
+        color: option.color,
+        openCards: 0,
+        completedCards: 0,
+        pointsCompleted: pointsField ? 0 : undefined,
+      });
+    });
+  groups.set(NO_VALUE_GROUP, {
+    value: t("customField.noValue"),
+    openCards: 0,
+    completedCards: 0,
+    pointsCompleted: pointsField ? 0 : undefined,
+  });
+
+  const getGroup = (card: TrelloCard) => groups.get(getCardOption(card, field)?.id || NO_VALUE_GROUP)!;
+
+  cards.forEach((card) => {
+    const list = lists.find((l) => l.id === card.idList) || { id: card.idList };
+    if (!card.closed && !isListInStage(workflow, list, "done")) {
+      getGroup(card).openCards++;
+    }
+  });
+
+  completedCards.forEach((card) => {
+    const group = getGroup(card);
+    group.completedCards++;
+    if (pointsField && group.pointsCompleted !== undefined) {
+      group.pointsCompleted += getCardNumberValue(card, pointsField) || 0;
+    }
+  });
+
+  return {
+    fieldId: field.id,
+    fieldName: field.name,
+    groups: [...groups.values()].filter(
+      (group) => group.optionId || group.openCards > 0 || group.completedCards > 0
+    ),
+  };
+}
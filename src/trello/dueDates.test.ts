@@ -0,0 +1,140 @@
+/**
+ * Tests for due date compliance
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { calculateDueDateMetrics } from "./dueDates.js";
+import { SnapshotDataSource } from "./snapshot.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Get noon UTC of a day in 2024
+ */
+function date(month: number, day: number): Date {
+  return new Date(Date.UTC(2024, month - 1, day, 12));
+}
+
+// When the board is looked at
+const NOW = date(6, 25);
+
+/**
+ * Build a board with cards completed on time and late, overdue and due soon
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Deadlines", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+  const client = builder.label("Client");
+
+  const onTime = builder.card("On time", todo, date(6, 1), {
+    due: date(6, 10).toISOString(),
+    idMembers: [ana.id],
+    idLabels: [client.id],
+  });
+  builder.move(onTime, done, date(6, 8));
+
+  const late = builder.card("Late", todo, date(6, 2), { due: date(6, 12).toISOString(), idMembers: [ana.id] });
+  builder.move(late, done, date(6, 15));
+
+  // Completed by marking the due date complete, without leaving its list
+  const marked = builder.card("Marked", todo, date(6, 3), {
+    due: date(6, 14).toISOString(),
+    dueComplete: true,
+    idLabels: [client.id],
+  });
+  builder.action("updateCard", date(6, 13), {
+    card: { id: marked.id, name: marked.name, dueComplete: true },
+    old: { dueComplete: false },
+  });
+
+  builder.card("Overdue", todo, date(6, 4), { due: date(6, 20).toISOString(), idMembers: [bruno.id] });
+  builder.card("Soon", todo, date(6, 5), { due: date(6, 28).toISOString() });
+  builder.card("Later", todo, date(6, 6), { due: date(7, 15).toISOString() });
+
+  // Archived without being completed
+  const dropped = builder.card("Dropped", todo, date(6, 7), { due: date(6, 16).toISOString() });
+  builder.archive(dropped, date(6, 9));
+
+  return { builder, ana, bruno, client };
+}
+
+describe("calculateDueDateMetrics", () => {
+  it("splits cards with a due date into on time, late, overdue and due soon", () => {
+    const { builder } = createBoard();
+    const metrics = calculateDueDateMetrics(builder.lists, builder.cards, builder.actions, JUNE, undefined, 7, NOW);
+    const names = (statuses: Array<{ cardName: string }>) => statuses.map((status) => status.cardName);
+
+    assert.deepEqual(names(metrics.dueInPeriod), ["On time", "Late", "Marked", "Overdue", "Soon"]);
+    assert.deepEqual(names(metrics.completedOnTime), ["On time", "Marked"]);
+    assert.deepEqual(metrics.completedLate.map((status) => [status.cardName, status.slipDays]), [["Late", 3]]);
+    assert.deepEqual(metrics.overdue.map((status) => [status.cardName, status.slipDays]), [["Overdue", 5]]);
+    assert.deepEqual(names(metrics.dueSoon), ["Soon"]);
+    assert.equal(metrics.onTimeRate, 2 / 3);
+    assert.equal(metrics.averageSlipDays, 3);
+  });
+
+  it("breaks the outcomes down by member and label", () => {
+    const { builder, ana, bruno, client } = createBoard();
+    const metrics = calculateDueDateMetrics(builder.lists, builder.cards, builder.actions, JUNE, undefined, 7, NOW);
+
+    const counts = (breakdown = { dueInPeriod: 0, completedOnTime: 0, completedLate: 0, overdue: 0 }) => [
+      breakdown.dueInPeriod,
+      breakdown.completedOnTime,
+      breakdown.completedLate,
+      breakdown.overdue,
+    ];
+
+    assert.deepEqual(counts(metrics.byMember.get(ana.id)), [2, 1, 1, 0]);
+    assert.deepEqual(counts(metrics.byMember.get(bruno.id)), [1, 0, 0, 1]);
+    assert.deepEqual(counts(metrics.byLabel.get(client.id)), [2, 2, 0, 0]);
+  });
+
+  it("dates reopened cards by their last completion and leaves cards due after the window out", () => {
+    const { builder } = createBoard();
+    const [todo, done] = builder.lists;
+    const [onTime] = builder.cards;
+    builder.move(onTime, todo, date(6, 9));
+    builder.move(onTime, done, date(6, 11));
+
+    const metrics = calculateDueDateMetrics(builder.lists, builder.cards, builder.actions, JUNE, undefined, 2, NOW);
+
+    assert.deepEqual(
+      metrics.completedLate.map((status) => [status.cardName, status.slipDays]),
+      [
+        ["Late", 3],
+        ["On time", 1],
+      ]
+    );
+    assert.deepEqual(metrics.dueSoon, []);
+  });
+});
+
+describe("due date report section", () => {
+  it("renders the compliance figures in the full report and the summary", async () => {
+    const { builder } = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE));
+    const options = {
+      boardId: builder.board.id,
+      period: { type: "month" as const, year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      asOf: NOW,
+      sections: ["dueDates" as const],
+    };
+
+    const report = await generateReport(source, options);
+    const summary = await generateReport(source, { ...options, format: "summary" });
+
+    assert.ok(report.markdown.includes("- **On-Time Rate**: 67%\n- **Average Slip (late cards)**: 3.0d\n"));
+    assert.ok(report.markdown.includes("- **Currently Overdue**: 1\n- **Due in the Next 7 Days**: 1\n"));
+    assert.ok(summary.markdown.includes("2 of the 3 cards with a due date completed in this period (67%)"));
+    assert.ok(summary.markdown.includes("Late cards slipped by 3.0d on average."));
+  });
+});
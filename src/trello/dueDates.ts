@@ -0,0 +1,158 @@
+/**
+ * Due date compliance: cards due in a period, on-time versus late completion and overdue cards
+ */
+
+import { addDays } from "date-fns";
+import {
+  BoardWorkflow,
+  DateRange,
+  DueCardStatus,
+  DueDateBreakdown,
+  DueDateMetrics,
+  TrelloAction,
+  TrelloCard,
+  TrelloList,
+} from "./types.js";
+import { differenceInDaysPrecise, sortActionsByDate } from "./flowMetrics.js";
+import { DEFAULT_BOARD_WORKFLOW, getListStage, isListInStage } from "./workflow.js";
+
+// Default window for the cards due soon list
+export const DEFAULT_DUE_SOON_DAYS = 7;
+
+/**
+ * Find when each card was completed: the first move into a done list or the due date being
+ * marked complete, whichever came first. Reopening the card clears the completion.
+ */
+function findCompletionDates(actions: TrelloAction[], workflow: BoardWorkflow): Map<string, Date> {
+  const completedAt = new Map<string, Date>();
+
+  sortActionsByDate(actions).forEach((action) => {
+    const cardId = action.data.card?.id;
+    if (!cardId || action.type !== "updateCard") return;
+
+    const date = new Date(action.date);
+    let completed: boolean | undefined;
+
+    if (action.data.listAfter) {
+      completed = getListStage(workflow, action.data.listAfter) === "done";
+    } else if (action.data.card?.dueComplete !== undefined && action.data.old?.dueComplete !== undefined) {
+      completed = action.data.card.dueComplete;
+    }
+
+    if (completed === true && !completedAt.has(cardId)) {
+      completedAt.set(cardId, date);
+    } else if (completed === false) {
+      completedAt.delete(cardId);
+    }
+  });
+
+  return completedAt;
+}
+
+/**
+ * Add a card's due date outcome to the breakdown of each of its members or labels
+ */
+function addToBreakdown(
+  breakdown: Map<string, DueDateBreakdown>,
+  keys: string[],
+  field: keyof DueDateBreakdown
+): void {
+  keys.forEach((key) => {
+    const entry = breakdown.get(key) || { dueInPeriod: 0, completedOnTime: 0, completedLate: 0, overdue: 0 };
+    entry[field]++;
+    breakdown.set(key, entry);
+  });
+}
+
+/**
+ * Calculate due date compliance for a period. Overdue and due soon cards are measured
+ * against the current time, since they describe the board as it is now.
+ */
+export function calculateDueDateMetrics(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  dateRange: DateRange,
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  dueSoonDays: number = DEFAULT_DUE_SOON_DAYS,
+  now: Date = new Date()
+): DueDateMetrics {
+  const completionDates = findCompletionDates(actions, workflow);
+  const dueSoonEnd = addDays(now, dueSoonDays);
+
+  const metrics: DueDateMetrics = {
+    dueInPeriod: [],
+    completedOnTime: [],
+    completedLate: [],
+    overdue: [],
+    dueSoon: [],
+    dueSoonDays,
+    onTimeRate: null,
+    averageSlipDays: null,
+    byMember: new Map<string, DueDateBreakdown>(),
+    byLabel: new Map<string, DueDateBreakdown>(),
+  };
+
+  cards.forEach((card) => {
+    if (!card.due) return;
+
+    const due = new Date(card.due);
+    const list = lists.find((l) => l.id === card.idList) || { id: card.idList };
+    const isComplete = Boolean(card.dueComplete) || isListInStage(workflow, list, "done");
+
+    // Archived cards only count when they were completed
+    if (card.closed && !isComplete) return;
+
+    const completedAt = isComplete ? completionDates.get(card.id) : undefined;
+    const status: DueCardStatus = { cardId: card.id, cardName: card.name, due, completedAt };
+    const count = (field: keyof DueDateBreakdown) => {
+      addToBreakdown(metrics.byMember, card.idMembers, field);
+      addToBreakdown(metrics.byLabel, card.idLabels, field);
+    };
+
+    if (due >= dateRange.start && due <= dateRange.end) {
+      metrics.dueInPeriod.push(status);
+      count("dueInPeriod");
+    }
+
+    if (completedAt) {
+      if (completedAt <= due) {
+        metrics.completedOnTime.push(status);
+        count("completedOnTime");
+      } else {
+        status.slipDays = differenceInDaysPrecise(completedAt, due);
+        metrics.completedLate.push(status);
+        count("completedLate");
+      }
+      return;
+    }
+
+    if (isComplete) return;
+
+    if (due < now) {
+      status.slipDays = differenceInDaysPrecise(now, due);
+      metrics.overdue.push(status);
+      count("overdue");
+    } else if (due <= dueSoonEnd) {
+      metrics.dueSoon.push(status);
+    }
+  });
+
+  const completions = metrics.completedOnTime.length + metrics.completedLate.length;
+  if (completions > 0) {
+    metrics.onTimeRate = metrics.completedOnTime.length / completions;
+  }
+
+  if (metrics.completedLate.length > 0) {
+    metrics.averageSlipDays =
+      metrics.completedLate.reduce((sum, status) => sum + (status.slipDays || 0), 0) /
+      metrics.completedLate.length;
+  }
+
+  metrics.dueInPeriod.sort((a, b) => a.due.getTime() - b.due.getTime());
+  metrics.completedLate.sort((a, b) => (b.slipDays || 0) - (a.slipDays || 0));
+  metrics.overdue.sort((a, b) => (b.slipDays || 0) - (a.slipDays || 0));
+  metrics.dueSoon.sort((a, b) => a.due.getTime() - b.due.getTime());
+
+  return metrics;
+}
@@ -0,0 +1,123 @@
+/**
+ * Typed errors raised by the Trello API client
+ */
+
+import axios from "axios";
+
+/**
+ * Base class for failed Trello API requests
+ */
+export class TrelloApiError extends Error {
+  endpoint: string;
+  status?: number;
+
+  constructor(message: string, endpoint: string, status?: number) {
+    super(`Trello API error: ${message}`);
+    this.name = "TrelloApiError";
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+/**
+ * The API key or token is missing, invalid or lacks access (401/403)
+ */
+export class TrelloAuthError extends TrelloApiError {
+  constructor(message: string, endpoint: string, status: number) {
+    super(`${message} (check TRELLO_API_KEY and TRELLO_API_TOKEN)`, endpoint, status);
+    this.name = "TrelloAuthError";
+  }
+}
+
+/**
+ * The board, list or card does not exist or is not visible to the token (404)
+ */
+export class TrelloNotFoundError extends TrelloApiError {
+  constructor(message: string, endpoint: string) {
+    super(message, endpoint, 404);
+    this.name = "TrelloNotFoundError";
+  }
+}
+
+/**
+ * Trello rejected the request because a per-key or per-token rate limit was exceeded (429)
+ */
+export class TrelloRateLimitError extends TrelloApiError {
+  retryAfterMs?: number; // Delay requested by Trello's Retry-After header, if any
+
+  constructor(message: string, endpoint: string, retryAfterMs?: number) {
+    super(message, endpoint, 429);
+    this.name = "TrelloRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The request never got a response (connection refused, DNS failure, timeout)
+ */
+export class TrelloNetworkError extends TrelloApiError {
+  constructor(message: string, endpoint: string) {
+    super(message, endpoint);
+    this.name = "TrelloNetworkError";
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value === "") return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+  return Math.max(0, date.getTime() - Date.now());
+}
+
+/**
+ * Convert an error thrown by axios into the matching typed Trello error
+ */
+export function toTrelloApiError(error: unknown, endpoint: string): Error {
+  if (error instanceof TrelloApiError || !axios.isAxiosError(error)) {
+    return error as Error;
+  }
+
+  const { response } = error;
+  if (!response) {
+    return new TrelloNetworkError(error.message, endpoint);
+  }
+
+  // Trello answers with either a JSON body carrying a message or a plain text body
+  const message =
+    response.data?.message ||
+    (typeof response.data === "string" && response.data) ||
+    error.message;
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new TrelloAuthError(message, endpoint, response.status);
+    case 404:
+      return new TrelloNotFoundError(message, endpoint);
+    case 429:
+      return new TrelloRateLimitError(
+        message,
+        endpoint,
+        parseRetryAfter(response.headers["retry-after"])
+      );
+    default:
+      return new TrelloApiError(message, endpoint, response.status);
+  }
+}
+
+/**
+ * Check whether a failed request is worth retrying: rate limits, network failures and 5xx responses
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TrelloRateLimitError || error instanceof TrelloNetworkError) {
+    return true;
+  }
+  return error instanceof TrelloApiError && error.status !== undefined && error.status >= 500;
+}
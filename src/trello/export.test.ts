@@ -0,0 +1,127 @@
+/**
+ * Tests for JSON, CSV and HTML report exports
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { REPORT_JSON_VERSION, toSerializable } from "./export.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { ReportFormat } from "./types.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a board whose card names need escaping in CSV and HTML
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Export Board", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const ana = builder.member("Ana Souza");
+  const bug = builder.label("Bug", "red");
+
+  const quoted = builder.card('Fix "login", again', todo, new Date("2024-06-03T00:00:00.000Z"), {
+    idLabels: [bug.id],
+    idMembers: [ana.id],
+  });
+  builder.move(quoted, done, new Date("2024-06-05T00:00:00.000Z"));
+  builder.card("<script>alert(1)</script>", todo, new Date("2024-06-07T00:00:00.000Z"));
+
+  return { builder, ana };
+}
+
+/**
+ * Generate the June report of the board in an export format
+ */
+async function exportReport(format: ReportFormat, outputPath?: string) {
+  const { builder } = createBoard();
+  return generateReport(new SnapshotDataSource(builder.build(JUNE)), {
+    boardId: builder.board.id,
+    period: { type: "month", year: 2024, month: 6 },
+    timezone: "UTC",
+    locale: "en-US",
+    format,
+    outputPath,
+  });
+}
+
+describe("toSerializable", () => {
+  it("turns Maps into objects, Sets into arrays and Dates into ISO strings", () => {
+    const value = {
+      flow: new Map([["a", new Map([["b", 2]])]]),
+      ids: new Set(["x", "y"]),
+      at: new Date("2024-06-01T00:00:00.000Z"),
+      items: [{ count: 1 }],
+    };
+
+    assert.deepEqual(toSerializable(value), {
+      flow: { a: { b: 2 } },
+      ids: ["x", "y"],
+      at: "2024-06-01T00:00:00.000Z",
+      items: [{ count: 1 }],
+    });
+  });
+});
+
+describe("report exports", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "report-exports-"));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("exports the whole result as JSON, with the activity maps as objects", async () => {
+    const { ana } = createBoard();
+    const result = await exportReport("json");
+    const data = JSON.parse(result.documents[0].content);
+    const [todo, done] = result.lists;
+
+    assert.equal(data.version, REPORT_JSON_VERSION);
+    assert.equal(data.markdown, undefined);
+    assert.deepEqual(data.activity.membersActive, { [ana.id]: 3 });
+    assert.equal(data.activity.cardFlow[todo.id][done.id], 1);
+    assert.equal(data.activity.cycleTimes.cards[0].completedAt, "2024-06-05T00:00:00.000Z");
+  });
+
+  it("writes one CSV file per table, quoting cells that need it", async () => {
+    const outputPath = join(directory, "june.csv");
+    const result = await exportReport("csv", outputPath);
+
+    assert.deepEqual(
+      result.documents.map((document) => document.path),
+      ["cards", "members", "labels", "listFlow"].map((name) => join(directory, `june-${name}.csv`))
+    );
+
+    const cards = await readFile(join(directory, "june-cards.csv"), "utf-8");
+    const [header, first] = cards.split("\r\n");
+    assert.match(header, /^Card ID,Name,List,Stage,Labels,Members,Due,/);
+    assert.match(first, /^[0-9a-f]{24},"Fix ""login"", again",Done,done,Bug,Ana Souza,,,false,true,2024-06-05,2\.0,,/);
+    assert.equal(
+      await readFile(join(directory, "june-listFlow.csv"), "utf-8"),
+      "From List,To List,Cards\r\nTo Do,Done,1\r\n"
+    );
+  });
+
+  it("renders a self-contained HTML page with escaped content", async () => {
+    const outputPath = join(directory, "june.html");
+    const result = await exportReport("html", outputPath);
+    const html = await readFile(outputPath, "utf-8");
+
+    assert.equal(result.documents[0].mimeType, "text/html");
+    assert.match(html, /^<!DOCTYPE html>\n<html lang="en">/);
+    assert.match(html, /<style>[^<]*table \{/);
+    assert.doesNotMatch(html, /<link|<script/);
+    assert.ok(html.includes("&lt;script&gt;alert(1)&lt;/script&gt;"));
+    assert.ok(html.includes("Fix &quot;login&quot;, again"));
+  });
+});
@@ -0,0 +1,656 @@
+/**
+ * Export of report results as JSON, CSV and HTML documents
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, extname } from "path";
+import { ReportDocument, ReportFormat, ReportResult } from "./types.js";
+import { formatDate, getPeriodDescription } from "./utils.js";
+import { formatDays } from "./flowMetrics.js";
+import { getListStage } from "./workflow.js";
+import { formatMetricDelta } from "./comparison.js";
+import { describeReportFilter } from "./filters.js";
+import { formatPoints, getCardFieldText } from "./customFields.js";
+import { excerptComment } from "./comments.js";
+import { getAgeBucketLabel } from "./aging.js";
+import { formatLocaleDate } from "./timezone.js";
+import { createTranslator } from "./i18n.js";
+import { describeDateRange } from "./sections.js";
+
+// Version of the JSON export document, bumped on breaking changes to its shape
+export const REPORT_JSON_VERSION = 1;
+
+// File extension and MIME type of each document kind
+const DOCUMENT_TYPES = {
+  markdown: { extension: ".md", mimeType: "text/markdown" },
+  json: { extension: ".json", mimeType: "application/json" },
+  csv: { extension: ".csv", mimeType: "text/csv" },
+  html: { extension: ".html", mimeType: "text/html" },
+};
+
+/**
+ * Recursively convert a value into plain JSON data: Maps become objects, Sets become arrays
+ * and Dates become ISO strings
+ */
+export function toSerializable(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Map) {
+    const obj: Record<string, unknown> = {};
+    value.forEach((entry, key) => {
+      obj[String(key)] = toSerializable(entry);
+    });
+    return obj;
+  }
+  if (value instanceof Set) {
+    return [...value].map(toSerializable);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toSerializable);
+  }
+  if (value && typeof value === "object") {
+    const obj: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      obj[key] = toSerializable(entry);
+    });
+    return obj;
+  }
+  return value;
+}
+
+/**
+ * Build the JSON export document for a report: the whole result except the rendered output
+ */
+export function serializeReportResult(result: ReportResult): Record<string, unknown> {
+  const { markdown, documents, ...data } = result;
+
+  return {
+    version: REPORT_JSON_VERSION,
+    generatedAt: new Date().toISOString(),
+    ...(toSerializable(data) as Record<string, unknown>),
+  };
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or line break
+ */
+function escapeCsvValue(value: string | number | boolean | undefined | null): string {
+  if (value === undefined || value === null) return "";
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as a CSV table with a header line
+ */
+function toCsv(
+  headers: string[],
+  rows: Array<Array<string | number | boolean | undefined | null>>
+): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Count the actions on each card in the report period
+ */
+function countCardActions(result: ReportResult): Map<string, number> {
+  const counts = new Map<string, number>();
+  result.actions.forEach((action) => {
+    const cardId = action.data.card?.id;
+    if (cardId) {
+      counts.set(cardId, (counts.get(cardId) || 0) + 1);
+    }
+  });
+  return counts;
+}
+
+/**
+ * Generate the CSV tables of a report: cards, members, labels and list flow
+ */
+export function generateCsvTables(result: ReportResult): { name: string; content: string }[] {
+  const { lists, cards, members, labels, customFields, activity, workflow } = result;
+  const { timeZone } = result.dateSettings;
+  const listsById = new Map(lists.map((list) => [list.id, list]));
+  const labelsById = new Map(labels.map((label) => [label.id, label]));
+  const membersById = new Map(members.map((member) => [member.id, member]));
+  const timingsByCard = new Map(activity.cycleTimes.cards.map((timing) => [timing.cardId, timing]));
+  const completedCardIds = new Set(activity.completedCards.map((card) => card.id));
+  const cardActions = countCardActions(result);
+
+  const cardRows = cards.map((card) => {
+    const list = listsById.get(card.idList);
+    const timing = timingsByCard.get(card.id);
+    return [
+      card.id,
+      card.name,
+      list?.name,
+      list ? getListStage(workflow, list) : undefined,
+      card.idLabels.map((id) => labelsById.get(id)?.name || labelsById.get(id)?.color).join("; "),
+      card.idMembers.map((id) => membersById.get(id)?.fullName).join("; "),
+      card.due ? formatDate(new Date(card.due), timeZone) : undefined,
+      card.due ? Boolean(card.dueComplete) : undefined,
+      card.closed,
+      completedCardIds.has(card.id),
+      timing ? formatDate(timing.completedAt, timeZone) : undefined,
+      timing?.leadTimeDays.toFixed(1),
+      timing?.cycleTimeDays?.toFixed(1),
+      cardActions.get(card.id) || 0,
+      card.url,
+      ...customFields.map((field) => getCardFieldText(card, field)),
+    ];
+  });
+
+  const memberRows = members.map((member) => [
+    member.id,
+    member.fullName,
+    member.username,
+    activity.membersActive.get(member.id) || 0,
+    cards.filter((card) => !card.closed && card.idMembers.includes(member.id)).length,
+    activity.completedCards.filter((card) => card.idMembers.includes(member.id)).length,
+  ]);
+
+  const labelRows = labels.map((label) => {
+    const labelCards = cards.filter((card) => card.idLabels.includes(label.id));
+    return [
+      label.id,
+      label.name,
+      label.color,
+      labelCards.filter((card) => !card.closed).length,
+      labelCards.filter((card) => cardActions.has(card.id)).length,
+      labelCards.filter((card) => completedCardIds.has(card.id)).length,
+    ];
+  });
+
+  const flowRows: Array<Array<string | number>> = [];
+  activity.cardFlow.forEach((targets, fromListId) => {
+    targets.forEach((count, toListId) => {
+      if (count > 0) {
+        flowRows.push([
+          listsById.get(fromListId)?.name || fromListId,
+          listsById.get(toListId)?.name || toListId,
+          count,
+        ]);
+      }
+    });
+  });
+
+  return [
+    {
+      name: "cards",
+      content: toCsv(
+        [
+          "Card ID",
+          "Name",
+          "List",
+          "Stage",
+          "Labels",
+          "Members",
+          "Due",
+          "Due Complete",
+          "Archived",
+          "Completed In Period",
+          "Completed At",
+          "Lead Time (days)",
+          "Cycle Time (days)",
+          "Actions In Period",
+          "URL",
+          ...customFields.map((field) => field.name),
+        ],
+        cardRows
+      ),
+    },
+    {
+      name: "members",
+      content: toCsv(
+        ["Member ID", "Name", "Username", "Activity", "Open Cards", "Cards Completed"],
+        memberRows
+      ),
+    },
+    {
+      name: "labels",
+      content: toCsv(
+        ["Label ID", "Name", "Color", "Open Cards", "Active Cards", "Cards Completed"],
+        labelRows
+      ),
+    },
+    {
+      name: "listFlow",
+      content: toCsv(["From List", "To List", "Cards"], flowRows),
+    },
+  ];
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render an HTML table; cells are escaped
+ */
+function htmlTable(headers: string[], rows: Array<Array<string | number>>): string {
+  let html = `<table>\n<thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead>\n<tbody>\n`;
+  rows.forEach((row) => {
+    html += `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>\n`;
+  });
+  html += `</tbody>\n</table>\n`;
+  return html;
+}
+
+// Inline stylesheet, so the HTML report has no external dependencies
+const HTML_STYLES = `
+body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #172b4d; margin: 2rem auto; max-width: 1100px; padding: 0 1rem; }
+h1 { border-bottom: 3px solid #0079bf; padding-bottom: 0.5rem; }
+h2 { color: #0079bf; margin-top: 2rem; }
+.meta { color: #5e6c84; }
+.warning { background: #fff4e5; border-left: 4px solid #ff991f; padding: 0.75rem 1rem; }
+.summary { display: flex; flex-wrap: wrap; gap: 1rem; }
+.metric { background: #f4f5f7; border-radius: 6px; padding: 0.75rem 1.25rem; min-width: 140px; }
+.metric .value { font-size: 1.75rem; font-weight: 600; }
+.metric .label { color: #5e6c84; font-size: 0.85rem; }
+table { border-collapse: collapse; width: 100%; margin: 0.5rem 0 1rem; font-size: 0.9rem; }
+th { background: #0079bf; color: #fff; text-align: left; }
+th, td { border: 1px solid #dfe1e6; padding: 0.4rem 0.6rem; }
+tbody tr:nth-child(even) { background: #f4f5f7; }
+`;
+
+/**
+ * Generate a self-contained HTML report with styled tables, in the report's language
+ */
+export function generateHtmlReport(result: ReportResult): string {
+  const { boardInfo, period, lists, cards, members, labels, actions, activity, comparison } = result;
+  const { timeZone, locale } = result.dateSettings;
+  const t = createTranslator(result.language);
+  const listsById = new Map(lists.map((list) => [list.id, list]));
+  const cardActions = countCardActions(result);
+  const title = t("report.title", { board: boardInfo.name });
+
+  let html = `<!DOCTYPE html>\n<html lang="${result.language}">\n<head>\n<meta charset="utf-8">\n`;
+  html += `<title>${escapeHtml(title)}</title>\n<style>${HTML_STYLES}</style>\n</head>\n<body>\n`;
+
+  html += `<h1>${escapeHtml(title)}</h1>\n`;
+  html += `<p class="meta">${escapeHtml(getPeriodDescription(period, t))}: ${escapeHtml(
+    describeDateRange(result, t)
+  )} &middot; <a href="${escapeHtml(boardInfo.url)}">${escapeHtml(t("html.openBoard"))}</a></p>\n`;
+
+  if (result.filter) {
+    html += `<p class="warning"><strong>${escapeHtml(t("notice.filteredTitle"))}</strong>: ${escapeHtml(
+      t("notice.filtered", { description: describeReportFilter(result.filter, lists, members, labels, t) })
+    )}</p>\n`;
+  }
+
+  if (result.actionsTruncated) {
+    // The notice marks option names as markdown code
+    html += `<p class="warning"><strong>${escapeHtml(t("notice.truncatedTitle"))}</strong>: ${escapeHtml(
+      t("notice.truncated", { count: actions.length })
+    ).replace(/`([^`]+)`/g, "<code>$1</code>")}</p>\n`;
+  }
+
+  // Activity summary
+  const summary: Array<[string, number]> = [
+    [t("report.cardsCreated"), activity.cardsCreated],
+    [t("report.cardsCompleted"), activity.cardsCompleted],
+    [t("report.cardsMoved"), activity.cardsMoved],
+    [t("report.commentsAdded"), activity.commentsAdded],
+    [t("report.activeMembers"), activity.membersActive.size],
+  ];
+  html += `<h2>${escapeHtml(t("report.activitySummary"))}</h2>\n<div class="summary">\n`;
+  summary.forEach(([label, value]) => {
+    html += `<div class="metric"><div class="value">${value}</div><div class="label">${escapeHtml(label)}</div></div>\n`;
+  });
+  html += `</div>\n`;
+
+  // Period comparison
+  if (comparison) {
+    const { metrics } = comparison;
+    html += `<h2>${escapeHtml(t("report.comparisonTitle", { period: getPeriodDescription(comparison.period, t) }))}</h2>\n`;
+    html += htmlTable(
+      [t("report.metric"), t("report.thisPeriod"), t("report.previous"), t("report.change")],
+      (
+        [
+          [t("report.cardsCreated"), metrics.cardsCreated],
+          [t("report.cardsCompleted"), metrics.cardsCompleted],
+          [t("report.cardsMoved"), metrics.cardsMoved],
+          [t("report.commentsAdded"), metrics.commentsAdded],
+          [t("report.activeMembers"), metrics.activeMembers],
+        ] as const
+      ).map(([name, delta]) => [name, delta.current, delta.previous, formatMetricDelta(delta, t, locale)])
+    );
+  }
+
+  // Lists
+  html += `<h2>${escapeHtml(t("report.lists"))}</h2>\n`;
+  html += htmlTable(
+    [t("report.list"), t("html.stage"), t("report.openCards"), t("report.activity"), t("html.averageTimeInList")],
+    lists.map((list) => {
+      const dwell = activity.listDwell.get(list.id);
+      return [
+        list.name,
+        t(`stage.${getListStage(result.workflow, list)}`),
+        cards.filter((card) => !card.closed && card.idList === list.id).length,
+        activity.listActivity.get(list.id) || 0,
+        dwell && dwell.stays > 0 ? formatDays(dwell.averageDays, locale) : "-",
+      ];
+    })
+  );
+
+  // Members
+  if (activity.membersActive.size > 0) {
+    html += `<h2>${escapeHtml(t("report.memberActivity"))}</h2>\n`;
+    html += htmlTable(
+      [t("report.member"), t("report.activity"), t("report.cardsCompleted")],
+      [...activity.membersActive.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([memberId, count]) => [
+          members.find((member) => member.id === memberId)?.fullName || memberId,
+          count,
+          activity.completedCards.filter((card) => card.idMembers.includes(memberId)).length,
+        ])
+    );
+  }
+
+  // Labels
+  const labelRows = labels
+    .map((label) => {
+      const labelCards = cards.filter((card) => card.idLabels.includes(label.id));
+      return [
+        label.name || label.color || "",
+        label.color || "",
+        labelCards.filter((card) => cardActions.has(card.id)).length,
+        activity.completedCards.filter((card) => card.idLabels.includes(label.id)).length,
+      ];
+    })
+    .filter((row) => (row[2] as number) > 0 || (row[3] as number) > 0);
+  if (labelRows.length > 0) {
+    html += `<h2>${escapeHtml(t("report.labelUsage"))}</h2>\n`;
+    html += htmlTable(
+      [t("report.label"), t("report.color"), t("html.activeCards"), t("report.completed")],
+      labelRows
+    );
+  }
+
+  // Card flow
+  const flowRows: Array<Array<string | number>> = [];
+  activity.cardFlow.forEach((targets, fromListId) => {
+    targets.forEach((count, toListId) => {
+      if (count > 0) {
+        flowRows.push([
+          listsById.get(fromListId)?.name || fromListId,
+          listsById.get(toListId)?.name || toListId,
+          count,
+        ]);
+      }
+    });
+  });
+  if (flowRows.length > 0) {
+    html += `<h2>${escapeHtml(t("report.cardFlow"))}</h2>\n`;
+    html += htmlTable(
+      [t("html.from"), t("html.to"), t("report.cards")],
+      flowRows.sort((a, b) => (b[2] as number) - (a[2] as number))
+    );
+  }
+
+  // Delivery speed
+  const { leadTime, cycleTime } = activity.cycleTimes;
+  if (leadTime.count > 0) {
+    html += `<h2>${escapeHtml(t("report.cycleLeadTime"))}</h2>\n`;
+    html += htmlTable(
+      [t("html.measure"), t("report.cards"), "p50", "p85", "p95"],
+      [
+        [t("report.leadTime"), leadTime.count, ...[leadTime.p50, leadTime.p85, leadTime.p95].map((days) => formatDays(days, locale))],
+        cycleTime.count > 0
+          ? [t("report.cycleTime"), cycleTime.count, ...[cycleTime.p50, cycleTime.p85, cycleTime.p95].map((days) => formatDays(days, locale))]
+          : [t("report.cycleTime"), 0, "-", "-", "-"],
+      ]
+    );
+  }
+
+  // Due dates
+  const { dueDates } = activity;
+  const completedWithDue = dueDates.completedOnTime.length + dueDates.completedLate.length;
+  if (
+    dueDates.dueInPeriod.length > 0 ||
+    completedWithDue > 0 ||
+    dueDates.overdue.length > 0 ||
+    dueDates.dueSoon.length > 0
+  ) {
+    html += `<h2>${escapeHtml(t("report.dueDates"))}</h2>\n`;
+    html += htmlTable(
+      [t("html.measure"), t("html.value")],
+      [
+        [t("report.cardsDueInPeriod"), dueDates.dueInPeriod.length],
+        [t("report.completedOnTime"), dueDates.completedOnTime.length],
+        [t("report.completedLate"), dueDates.completedLate.length],
+        [t("report.onTimeRate"), dueDates.onTimeRate !== null ? `${Math.round(dueDates.onTimeRate * 100)}%` : "-"],
+        [t("report.averageSlip"), dueDates.averageSlipDays !== null ? formatDays(dueDates.averageSlipDays, locale) : "-"],
+        [t("report.currentlyOverdue"), dueDates.overdue.length],
+        [t("report.dueSoon", { count: dueDates.dueSoonDays }), dueDates.dueSoon.length],
+      ]
+    );
+
+    if (dueDates.overdue.length > 0) {
+      html += htmlTable(
+        [t("report.overdueCards"), t("report.due"), t("report.overdue")],
+        dueDates.overdue.map((status) => [
+          status.cardName,
+          formatDate(status.due, timeZone),
+          formatDays(status.slipDays || 0, locale),
+        ])
+      );
+    }
+  }
+
+  // Checklists
+  const { checklists } = activity;
+  if (checklists.totalItems > 0 || checklists.itemsCompletedInPeriod > 0) {
+    html += `<h2>${escapeHtml(t("report.checklists"))}</h2>\n`;
+    html += htmlTable(
+      [t("html.measure"), t("html.value")],
+      [
+        [t("report.itemsCompletedInPeriod"), checklists.itemsCompletedInPeriod],
+        [
+          t("report.itemsDoneOnOpenCards"),
+          t("report.itemsDoneOf", {
+            done: checklists.completedItems,
+            total: checklists.totalItems,
+            percent: checklists.totalItems > 0 ? Math.round((checklists.completedItems / checklists.totalItems) * 100) : 0,
+          }),
+        ],
+        [t("report.doneCardsWithOpenItems"), checklists.doneWithOpenItems.length],
+      ]
+    );
+
+    if (checklists.doneWithOpenItems.length > 0) {
+      html += htmlTable(
+        [t("report.doneCardsWithOpenItems"), t("report.progress"), t("report.openItems")],
+        checklists.doneWithOpenItems.map((progress) => [
+          progress.cardName,
+          `${progress.completedItems}/${progress.totalItems}`,
+          progress.openItems.join(", "),
+        ])
+      );
+    }
+  }
+
+  // Aging work in progress
+  const { agingWip } = activity;
+  if (agingWip.cards.length > 0) {
+    html += `<h2>${escapeHtml(t("report.agingWork"))}</h2>\n`;
+    html += htmlTable(
+      [t("report.ageInList"), t("report.cards")],
+      agingWip.histogram.map((bucket) => [getAgeBucketLabel(bucket, t), bucket.cards])
+    );
+
+    if (agingWip.staleCards.length > 0) {
+      html += htmlTable(
+        [t("report.staleCards"), t("report.list"), t("report.lastActivity"), t("report.idle")],
+        agingWip.staleCards.map((age) => [
+          age.cardName,
+          lists.find((l) => l.id === age.listId)?.name || t("common.unknown"),
+          formatDate(age.lastActivityAt, timeZone),
+          formatDays(age.idleDays, locale),
+        ])
+      );
+    }
+  }
+
+  // Comments
+  const { comments } = activity;
+  if (comments.discussions.length > 0) {
+    html += `<h2>${escapeHtml(t("report.comments"))}</h2>\n`;
+    html += htmlTable(
+      [t("report.mostDiscussedCards"), t("report.comments"), t("report.participants"), t("report.lastComment")],
+      comments.discussions
+        .slice(0, 10)
+        .map((discussion) => [
+          discussion.cardName,
+          discussion.comments,
+          discussion.participants.length,
+          formatDate(discussion.lastCommentAt, timeZone),
+        ])
+    );
+
+    if (comments.unresolvedThreads.length > 0) {
+      html += htmlTable(
+        [t("report.unresolvedThreads"), t("report.comments"), t("report.participants"), t("report.lastComment")],
+        comments.unresolvedThreads.map((discussion) => [
+          discussion.cardName,
+          discussion.comments,
+          discussion.participants.length,
+          formatDate(discussion.lastCommentAt, timeZone),
+        ])
+      );
+    }
+
+    if (comments.digest && comments.digest.length > 0) {
+      html += htmlTable(
+        [t("report.keyCards"), t("html.author"), t("report.date"), t("report.recentComments")],
+        comments.digest.flatMap((digest) =>
+          digest.comments.map((comment) => [
+            digest.cardName,
+            comment.memberCreator.fullName,
+            formatDate(new Date(comment.date), timeZone),
+            excerptComment(comment.data.text),
+          ])
+        )
+      );
+    }
+  }
+
+  // Story points
+  const { storyPoints } = activity;
+  if (storyPoints) {
+    html += `<h2>${escapeHtml(t("report.storyPoints"))}</h2>\n`;
+    html += htmlTable(
+      [t("html.measure"), t("html.value")],
+      [
+        [t("report.pointsCompleted"), formatPoints(storyPoints.pointsCompleted)],
+        [t("report.velocity"), t("report.pointsPerWeek", { points: formatPoints(storyPoints.velocityPerWeek) })],
+        [t("report.completedWithoutPoints"), storyPoints.unestimatedCompleted],
+        [t("report.openPoints"), formatPoints(storyPoints.openPoints)],
+      ]
+    );
+  }
+
+  // Custom field grouping
+  const { fieldGrouping } = activity;
+  if (fieldGrouping) {
+    html += `<h2>${escapeHtml(t("report.byField", { name: fieldGrouping.fieldName }))}</h2>\n`;
+    html += htmlTable(
+      [fieldGrouping.fieldName, t("report.openCards"), t("report.completed"), t("report.pointsCompleted")],
+      fieldGrouping.groups.map((group) => [
+        group.value,
+        group.openCards,
+        group.completedCards,
+        group.pointsCompleted !== undefined ? formatPoints(group.pointsCompleted) : "-",
+      ])
+    );
+  }
+
+  // Completed cards
+  if (activity.completedCards.length > 0) {
+    html += `<h2>${escapeHtml(t("report.cardsCompleted"))}</h2>\n`;
+    html += htmlTable(
+      [t("report.card"), t("report.labels"), t("report.members")],
+      activity.completedCards.map((card) => [
+        card.name,
+        card.idLabels.map((id) => labels.find((label) => label.id === id)?.name || "").filter(Boolean).join(", "),
+        card.idMembers.map((id) => members.find((member) => member.id === id)?.fullName || "").filter(Boolean).join(", "),
+      ])
+    );
+  }
+
+  // Work in progress
+  if (activity.inProgressCards.length > 0) {
+    html += `<h2>${escapeHtml(t("report.workInProgress"))}</h2>\n`;
+    html += htmlTable(
+      [t("report.card"), t("report.list"), t("report.lastActivity")],
+      activity.inProgressCards.map((card) => [
+        card.name,
+        listsById.get(card.idList)?.name || "",
+        formatDate(new Date(card.dateLastActivity), timeZone),
+      ])
+    );
+  }
+
+  html += `<p class="meta">${escapeHtml(
+    t("report.generatedOn", { date: formatLocaleDate(new Date(), result.dateSettings) })
+  )}</p>\n`;
+  html += `</body>\n</html>\n`;
+
+  return html;
+}
+
+/**
+ * Render a report in the requested format. Markdown, JSON and HTML produce one document;
+ * CSV produces one document per table.
+ */
+export function renderReportDocuments(result: ReportResult, format: ReportFormat): ReportDocument[] {
+  switch (format) {
+    case "json":
+      return [
+        {
+          name: "report",
+          ...DOCUMENT_TYPES.json,
+          content: JSON.stringify(serializeReportResult(result), null, 2),
+        },
+      ];
+    case "csv":
+      return generateCsvTables(result).map((table) => ({ ...table, ...DOCUMENT_TYPES.csv }));
+    case "html":
+      return [{ name: "report", ...DOCUMENT_TYPES.html, content: generateHtmlReport(result) }];
+    default:
+      return [{ name: "report", ...DOCUMENT_TYPES.markdown, content: result.markdown }];
+  }
+}
+
+/**
+ * Write report documents to disk. A single document is written to `outputPath` as given;
+ * several documents (CSV tables) get their name appended, e.g. report-cards.csv.
+ */
+export async function writeReportDocuments(
+  documents: ReportDocument[],
+  outputPath: string
+): Promise<void> {
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  for (const document of documents) {
+    let path = outputPath;
+    if (documents.length > 1) {
+      const extension = extname(outputPath);
+      const stem = extension ? outputPath.slice(0, -extension.length) : outputPath;
+      path = `${stem}-${document.name}${extension || document.extension}`;
+    }
+
+    await writeFile(path, document.content, "utf-8");
+    document.path = path;
+  }
+}
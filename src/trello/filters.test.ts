@@ -0,0 +1,143 @@
+/**
+ * Tests for report filters by label, member, list and text
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { applyReportFilter, describeReportFilter, isFilterActive } from "./filters.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { ReportFilter } from "./types.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a board with cards of two epics and two members
+ */
+function createBoard() {
+  const builder = new BoardBuilder("Squad Board", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const doing = builder.list("Doing");
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+  const epic = builder.label("Epic A", "purple");
+  const bug = builder.label("Bug", "red");
+
+  builder.card("Login page", todo, new Date("2024-06-03T00:00:00.000Z"), {
+    desc: "OAuth with Google",
+    idLabels: [epic.id],
+    idMembers: [ana.id],
+  });
+  const crash = builder.card("Fix crash", todo, new Date("2024-06-04T00:00:00.000Z"), {
+    idLabels: [bug.id],
+    idMembers: [bruno.id],
+  });
+  builder.move(crash, doing, new Date("2024-06-05T00:00:00.000Z"), bruno);
+  const signup = builder.card("Signup flow", todo, new Date("2024-06-06T00:00:00.000Z"), {
+    desc: "Reuses the login form",
+    idLabels: [epic.id],
+    idMembers: [bruno.id],
+  });
+  builder.move(signup, doing, new Date("2024-06-07T00:00:00.000Z"), bruno);
+  builder.action("updateBoard", new Date("2024-06-08T00:00:00.000Z"), {});
+
+  return { builder, todo, doing, epic, signup };
+}
+
+/**
+ * Get the names of the cards a filter keeps
+ */
+function filterCardNames(filter: ReportFilter): string[] {
+  const { builder } = createBoard();
+  const { cards } = applyReportFilter(filter, { ...builder, customFields: [] }, []);
+  return cards.map((card) => card.name);
+}
+
+describe("applyReportFilter", () => {
+  it("matches labels by name or ID and members by username, full name or ID", () => {
+    const { epic } = createBoard();
+
+    assert.deepEqual(filterCardNames({ include: { labels: ["EPIC A"] } }), ["Login page", "Signup flow"]);
+    assert.deepEqual(filterCardNames({ include: { labels: [epic.id] } }), ["Login page", "Signup flow"]);
+    assert.deepEqual(filterCardNames({ include: { members: ["@brunolima"] } }), ["Fix crash", "Signup flow"]);
+    assert.deepEqual(filterCardNames({ include: { members: ["ana souza"] } }), ["Login page"]);
+  });
+
+  it("requires all include criteria by default, or any of them", () => {
+    const include = { labels: ["Epic A"], members: ["brunolima"] };
+
+    assert.deepEqual(filterCardNames({ include }), ["Signup flow"]);
+    assert.deepEqual(filterCardNames({ include, match: "any" }), ["Login page", "Fix crash", "Signup flow"]);
+  });
+
+  it("searches card names and descriptions, and leaves out excluded cards", () => {
+    const { doing } = createBoard();
+
+    assert.deepEqual(filterCardNames({ include: { query: "  LOGIN " } }), ["Login page", "Signup flow"]);
+    assert.deepEqual(filterCardNames({ include: { query: "login" }, exclude: { lists: [doing.id] } }), [
+      "Login page",
+    ]);
+    assert.deepEqual(filterCardNames({ exclude: { labels: ["bug"], query: "oauth" } }), ["Signup flow"]);
+  });
+
+  it("keeps only the actions on matching cards", () => {
+    const { builder, signup } = createBoard();
+    const { actionHistories } = applyReportFilter(
+      { include: { query: "signup" } },
+      { ...builder, customFields: [] },
+      [builder.actions, []]
+    );
+
+    assert.deepEqual(
+      actionHistories.map((actions) => actions.map((action) => [action.type, action.data.card?.id])),
+      [
+        [
+          ["createCard", signup.id],
+          ["updateCard", signup.id],
+        ],
+        [],
+      ]
+    );
+  });
+
+  it("rejects values that match nothing on the board", () => {
+    assert.throws(() => filterCardNames({ include: { labels: ["Epic B"] } }), /Label "Epic B" not found/);
+    assert.throws(() => filterCardNames({ exclude: { members: ["carla"] } }), /Member "carla" not found/);
+    assert.throws(() => filterCardNames({ include: { lists: ["missing"] } }), /List "missing" not found/);
+  });
+});
+
+describe("filtered reports", () => {
+  it("describes the filter with board names", () => {
+    const { builder, todo } = createBoard();
+    const filter: ReportFilter = {
+      include: { labels: ["epic a"], members: ["brunolima", "ana souza"] },
+      exclude: { lists: [todo.id], query: "draft" },
+    };
+
+    assert.equal(isFilterActive({ include: { labels: [], query: " " } }), false);
+    assert.equal(
+      describeReportFilter(filter, builder.lists, builder.members, builder.labels),
+      'cards with label Epic A and member Bruno Lima or Ana Souza, excluding cards with list To Do or text "draft"'
+    );
+  });
+
+  it("computes every section from the matching cards only", async () => {
+    const { builder } = createBoard();
+    const result = await generateReport(new SnapshotDataSource(builder.build(JUNE)), {
+      boardId: builder.board.id,
+      period: { type: "month", year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      filter: { include: { members: ["brunolima"] } },
+    });
+
+    assert.deepEqual(result.cards.map((card) => card.name), ["Fix crash", "Signup flow"]);
+    assert.equal(result.actions.length, 4);
+    assert.equal(result.activity.cardsCreated, 2);
+    assert.equal(result.activity.cardsMoved, 2);
+    assert.ok(result.markdown.includes("> **Filtered report**: This report only covers cards with member Bruno Lima."));
+  });
+});
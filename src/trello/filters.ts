@@ -0,0 +1,260 @@
+/**
+ * Card filters that restrict a report to part of a board
+ */
+
+import {
+  CardFilterCriteria,
+  ReportFilter,
+  TrelloAction,
+  TrelloCard,
+  TrelloCustomField,
+  TrelloLabel,
+  TrelloList,
+  TrelloMember,
+} from "./types.js";
+import { findMember } from "./memberActivity.js";
+import { getCardOption, resolveDropdownField } from "./customFields.js";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18n.js";
+
+// Filter criteria resolved to board object IDs
+interface ResolvedCriteria {
+  labelIds?: Set<string>;
+  memberIds?: Set<string>;
+  listIds?: Set<string>;
+  query?: string;
+  fieldOptions?: Array<{ field: TrelloCustomField; optionIds: Set<string> }>;
+}
+
+/**
+ * Check whether a filter has any criteria
+ */
+export function isFilterActive(filter?: ReportFilter): filter is ReportFilter {
+  return !!filter && (hasCriteria(filter.include) || hasCriteria(filter.exclude));
+}
+
+function hasCriteria(criteria?: CardFilterCriteria): criteria is CardFilterCriteria {
+  return (
+    !!criteria &&
+    (!!criteria.labels?.length ||
+      !!criteria.members?.length ||
+      !!criteria.lists?.length ||
+      !!criteria.query?.trim() ||
+      Object.values(criteria.customFields || {}).some((values) => values.length > 0))
+  );
+}
+
+/**
+ * Resolve label names, member usernames, list IDs and dropdown values to the IDs on this board.
+ * Throws when a value does not match anything, since a typo would otherwise silently
+ * produce an empty report.
+ */
+function resolveCriteria(
+  criteria: CardFilterCriteria,
+  lists: TrelloList[],
+  members: TrelloMember[],
+  labels: TrelloLabel[],
+  customFields: TrelloCustomField[]
+): ResolvedCriteria {
+  const resolved: ResolvedCriteria = {};
+
+  if (criteria.labels?.length) {
+    resolved.labelIds = new Set();
+    criteria.labels.forEach((value) => {
+      const normalized = value.trim().toLowerCase();
+      const matches = labels.filter(
+        (label) => label.id === value.trim() || (label.name && label.name.toLowerCase() === normalized)
+      );
+      if (matches.length === 0) {
+        throw new Error(`Label "${value}" not found on this board.`);
+      }
+      matches.forEach((label) => resolved.labelIds!.add(label.id));
+    });
+  }
+
+  if (criteria.members?.length) {
+    resolved.memberIds = new Set();
+    criteria.members.forEach((value) => {
+      const member = findMember(members, value);
+      if (!member) {
+        throw new Error(`Member "${value}" not found on this board.`);
+      }
+      resolved.memberIds!.add(member.id);
+    });
+  }
+
+  if (criteria.lists?.length) {
+    resolved.listIds = new Set();
+    criteria.lists.forEach((value) => {
+      const list = lists.find((l) => l.id === value.trim());
+      if (!list) {
+        throw new Error(`List "${value}" not found on this board.`);
+      }
+      resolved.listIds!.add(list.id);
+    });
+  }
+
+  if (criteria.query?.trim()) {
+    resolved.query = criteria.query.trim().toLowerCase();
+  }
+
+  Object.entries(criteria.customFields || {}).forEach(([fieldIdentifier, values]) => {
+    if (values.length === 0) return;
+
+    const field = resolveDropdownField(customFields, fieldIdentifier);
+    const optionIds = new Set<string>();
+    values.forEach((value) => {
+      const option = field.options?.find(
+        (o) => o.id === value.trim() || o.value.text.toLowerCase() === value.trim().toLowerCase()
+      );
+      if (!option) {
+        throw new Error(`Option "${value}" not found in custom field "${field.name}".`);
+      }
+      optionIds.add(option.id);
+    });
+
+    resolved.fieldOptions = [...(resolved.fieldOptions || []), { field, optionIds }];
+  });
+
+  return resolved;
+}
+
+/**
+ * Evaluate each criterion of a resolved filter against a card. A criterion matches when the
+ * card has any of its labels, members or lists, or contains the query text.
+ */
+function matchCriteria(card: TrelloCard, criteria: ResolvedCriteria): boolean[] {
+  const results: boolean[] = [];
+
+  if (criteria.labelIds) {
+    results.push(card.idLabels.some((id) => criteria.labelIds!.has(id)));
+  }
+  if (criteria.memberIds) {
+    results.push(card.idMembers.some((id) => criteria.memberIds!.has(id)));
+  }
+  if (criteria.listIds) {
+    results.push(criteria.listIds.has(card.idList));
+  }
+  if (criteria.query) {
+    const text = `${card.name}\n${card.desc || ""}`.toLowerCase();
+    results.push(text.includes(criteria.query));
+  }
+  criteria.fieldOptions?.forEach(({ field, optionIds }) => {
+    const option = getCardOption(card, field);
+    results.push(!!option && optionIds.has(option.id));
+  });
+
+  return results;
+}
+
+/**
+ * Apply a report filter to the cards of a board and to action histories. Only actions on
+ * matching cards are kept; board-level actions and actions on cards that are no longer on
+ * the board are dropped, since they cannot be matched.
+ */
+export function applyReportFilter(
+  filter: ReportFilter,
+  board: {
+    lists: TrelloList[];
+    members: TrelloMember[];
+    labels: TrelloLabel[];
+    customFields: TrelloCustomField[];
+    cards: TrelloCard[];
+  },
+  actionHistories: TrelloAction[][]
+): { cards: TrelloCard[]; actionHistories: TrelloAction[][] } {
+  const { lists, members, labels, customFields } = board;
+  const include = filter.include
+    ? resolveCriteria(filter.include, lists, members, labels, customFields)
+    : undefined;
+  const exclude = filter.exclude
+    ? resolveCriteria(filter.exclude, lists, members, labels, customFields)
+    : undefined;
+  const matchAll = (filter.match || "all") === "all";
+
+  const cards = board.cards.filter((card) => {
+    if (include) {
+      const results = matchCriteria(card, include);
+      if (results.length > 0 && !(matchAll ? results.every(Boolean) : results.some(Boolean))) {
+        return false;
+      }
+    }
+
+    if (exclude && matchCriteria(card, exclude).some(Boolean)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  const cardIds = new Set(cards.map((card) => card.id));
+
+  return {
+    cards,
+    actionHistories: actionHistories.map((actions) =>
+      actions.filter((action) => !!action.data.card && cardIds.has(action.data.card.id))
+    ),
+  };
+}
+
+/**
+ * Describe a filter in words, using board names rather than IDs
+ */
+export function describeReportFilter(
+  filter: ReportFilter,
+  lists: TrelloList[],
+  members: TrelloMember[],
+  labels: TrelloLabel[],
+  t: Translator = DEFAULT_TRANSLATOR
+): string {
+  const or = ` ${t("list.or")} `;
+  const describeCriteria = (criteria: CardFilterCriteria, joiner: string): string => {
+    const parts: string[] = [];
+
+    if (criteria.labels?.length) {
+      const names = criteria.labels.map(
+        (value) =>
+          labels.find((label) => label.id === value || label.name?.toLowerCase() === value.toLowerCase())
+            ?.name || value
+      );
+      parts.push(t("filter.label", { names: names.join(or) }));
+    }
+    if (criteria.members?.length) {
+      const names = criteria.members.map((value) => findMember(members, value)?.fullName || value);
+      parts.push(t("filter.member", { names: names.join(or) }));
+    }
+    if (criteria.lists?.length) {
+      const names = criteria.lists.map((value) => lists.find((list) => list.id === value)?.name || value);
+      parts.push(t("filter.list", { names: names.join(or) }));
+    }
+    if (criteria.query?.trim()) {
+      parts.push(t("filter.text", { query: criteria.query.trim() }));
+    }
+    Object.entries(criteria.customFields || {}).forEach(([field, values]) => {
+      if (values.length > 0) {
+        parts.push(`${field} ${values.join(or)}`);
+      }
+    });
+
+    return parts.join(joiner);
+  };
+
+  const descriptions: string[] = [
+    hasCriteria(filter.include)
+      ? t("filter.cardsWith", {
+          criteria: describeCriteria(filter.include, (filter.match || "all") === "all" ? ` ${t("list.and")} ` : or),
+        })
+      : t("filter.allCards"),
+  ];
+  if (hasCriteria(filter.exclude)) {
+    descriptions.push(t("filter.excluding", { criteria: describeCriteria(filter.exclude, or) }));
+  }
+
+  return descriptions.join(", ");
+}
+
+/**
+ * Build the markdown notice shown on filtered reports
+ */
+export function getFilterNotice(description: string, t: Translator = DEFAULT_TRANSLATOR): string {
+  return `> **${t("notice.filteredTitle")}**: ${t("notice.filtered", { description })}\n\n`;
+}
@@ -0,0 +1,240 @@
+/**
+ * Tests for flow metrics derived from card list transitions
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import {
+  calculateCumulativeFlow,
+  calculateCycleTimes,
+  calculateListDwellTimes,
+  findBottleneckLists,
+} from "./flowMetrics.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { resolveBoardWorkflow } from "./workflow.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+// When the board is looked at, two weeks after June
+const JULY_15 = new Date("2024-07-15T00:00:00.000Z");
+
+/**
+ * Get noon UTC of a day in 2024
+ */
+function date(month: number, day: number): Date {
+  return new Date(Date.UTC(2024, month - 1, day, 12));
+}
+
+/**
+ * Build a board where one card moves on and another is archived after June
+ */
+function createBoardChangedAfterJune() {
+  const builder = new BoardBuilder("Flow", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const doing = builder.list("Doing");
+  const done = builder.list("Done");
+
+  // Waited in To Do all June, started in July
+  const waiting = builder.card("Waiting", todo, date(5, 20));
+  builder.move(waiting, doing, date(7, 5));
+
+  // Worked on in June, archived in July
+  const dropped = builder.card("Dropped", todo, date(6, 3));
+  builder.move(dropped, doing, date(6, 10));
+  builder.archive(dropped, date(7, 10));
+
+  // Finished in June, moved back in July
+  const reopened = builder.card("Reopened", doing, date(6, 4));
+  builder.move(reopened, done, date(6, 20));
+  builder.move(reopened, doing, date(7, 2));
+
+  const { actions } = builder;
+  const inJune = actions.filter((action) => new Date(action.date) >= JUNE.start && new Date(action.date) <= JUNE.end);
+  const afterJune = actions.filter((action) => new Date(action.date) > JUNE.end);
+
+  return { builder, todo, doing, done, inJune, afterJune };
+}
+
+/**
+ * Round a number of days to one decimal
+ */
+function roundDays(days: number): number {
+  return Math.round(days * 10) / 10;
+}
+
+describe("calculateCycleTimes", () => {
+  /**
+   * Build a board with cards finished in June through different paths
+   */
+  function createFinishedCards() {
+    const builder = new BoardBuilder("Cycle", new Date("2024-05-01T00:00:00.000Z"));
+    const todo = builder.list("To Do");
+    const doing = builder.list("Doing");
+    const done = builder.list("Done");
+    const bug = builder.label("Bug", "red");
+    const ana = builder.member("Ana Souza");
+
+    // Waited two days, then worked on for eight
+    const planned = builder.card("Planned", todo, date(6, 1), { idLabels: [bug.id], idMembers: [ana.id] });
+    builder.move(planned, doing, date(6, 3));
+    builder.move(planned, done, date(6, 11));
+
+    // Started right away
+    const urgent = builder.card("Urgent", doing, date(6, 5), { idMembers: [ana.id] });
+    builder.move(urgent, done, date(6, 9));
+
+    // Never went through an in-progress list
+    const skipped = builder.card("Skipped", todo, date(6, 2), { idLabels: [bug.id] });
+    builder.move(skipped, done, date(6, 22));
+
+    // Finished, then reopened
+    const reopened = builder.card("Reopened", todo, date(6, 4));
+    builder.move(reopened, doing, date(6, 6));
+    builder.move(reopened, done, date(6, 10));
+    builder.move(reopened, doing, date(6, 12));
+
+    return { builder, bug, ana };
+  }
+
+  it("measures lead time from creation and cycle time from the first in-progress list", () => {
+    const { builder } = createFinishedCards();
+    const stats = calculateCycleTimes(builder.cards, builder.actions);
+
+    assert.deepEqual(
+      stats.cards.map((timing) => [timing.cardName, timing.leadTimeDays, timing.cycleTimeDays]),
+      [
+        ["Skipped", 20, undefined],
+        ["Planned", 10, 8],
+        ["Urgent", 4, 4],
+      ]
+    );
+    assert.deepEqual(stats.leadTime, { count: 3, p50: 10, p85: 20, p95: 20 });
+    assert.deepEqual(stats.cycleTime, { count: 2, p50: 4, p85: 8, p95: 8 });
+  });
+
+  it("breaks percentiles down by label and member", () => {
+    const { builder, bug, ana } = createFinishedCards();
+    const stats = calculateCycleTimes(builder.cards, builder.actions);
+
+    assert.deepEqual(stats.byLabel.get(bug.id), {
+      leadTime: { count: 2, p50: 10, p85: 20, p95: 20 },
+      cycleTime: { count: 1, p50: 8, p85: 8, p95: 8 },
+    });
+    assert.deepEqual(stats.byMember.get(ana.id), {
+      leadTime: { count: 2, p50: 4, p85: 10, p95: 10 },
+      cycleTime: { count: 2, p50: 4, p85: 8, p95: 8 },
+    });
+  });
+
+  it("reports cycle and lead time in the markdown and summary", async () => {
+    const { builder } = createFinishedCards();
+    const source = new SnapshotDataSource(builder.build(JUNE, JULY_15));
+    const options = {
+      boardId: builder.board.id,
+      period: { type: "month" as const, year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      asOf: JULY_15,
+      sections: ["cycleTime" as const],
+    };
+
+    const report = await generateReport(source, options);
+    const summary = await generateReport(source, { ...options, format: "summary" });
+
+    assert.equal(report.activity.cycleTimes.cards.length, 3);
+    assert.match(report.markdown, /## Cycle & Lead Time/);
+    assert.match(report.markdown, /\| Lead Time \| 3 \| 10\.0d \| 20\.0d \| 20\.0d \|/);
+    assert.match(summary.markdown, /the median cycle time was 4\.0d \(85th percentile: 8\.0d\)/);
+  });
+});
+
+describe("calculateListDwellTimes", () => {
+  it("counts the time cards spent in the lists they were in during the period", () => {
+    const { builder, todo, doing, done, inJune, afterJune } = createBoardChangedAfterJune();
+    const dwell = calculateListDwellTimes(builder.cards, inJune, JUNE, JULY_15, afterJune);
+
+    assert.deepEqual(
+      [todo, doing, done].map((list) => {
+        const stats = dwell.get(list.id)!;
+        return [list.name, stats.stays, roundDays(stats.maxDays), roundDays(stats.totalDays)];
+      }),
+      [
+        ["To Do", 2, 30, 37],
+        ["Doing", 2, 20.5, 36.5],
+        ["Done", 1, 10.5, 10.5],
+      ]
+    );
+  });
+
+  it("finds the bottleneck among the lists cards were in during the period", async () => {
+    const builder = new BoardBuilder("Bottleneck", new Date("2024-05-01T00:00:00.000Z"));
+    const doing = builder.list("Doing");
+    const review = builder.list("Review");
+    const done = builder.list("Done");
+
+    // In progress all June, moved on in July
+    const first = builder.card("First", doing, date(5, 20));
+    builder.move(first, done, date(7, 3));
+    const second = builder.card("Second", doing, date(5, 25));
+    builder.move(second, review, date(7, 2));
+
+    // Waited two weeks for review in June
+    [8, 12].forEach((day) => {
+      const card = builder.card(`Reviewed ${day}`, review, date(6, day));
+      builder.move(card, done, date(6, day + 15));
+    });
+
+    const result = await generateReport(new SnapshotDataSource(builder.build(JUNE, JULY_15)), {
+      boardId: builder.board.id,
+      period: { type: "month", year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      asOf: JULY_15,
+      format: "summary",
+      sections: ["recommendations"],
+    });
+    const workflow = resolveBoardWorkflow(builder.lists);
+    const [bottleneck] = findBottleneckLists(result.activity.listDwell, builder.lists, workflow);
+
+    assert.equal(bottleneck.list.id, doing.id);
+    assert.equal(roundDays(bottleneck.dwell.medianDays), 30);
+    assert.match(
+      result.markdown,
+      /"Doing" is the main bottleneck: cards waited a median of 30\.0d there, compared with 15\.0d in "Review"\./
+    );
+  });
+});
+
+describe("calculateCumulativeFlow", () => {
+  it("places cards in the lists they were in during the period, not their current ones", () => {
+    const { builder, todo, doing, done, inJune, afterJune } = createBoardChangedAfterJune();
+    const { lists, cards } = builder;
+
+    const flow = calculateCumulativeFlow(lists, cards, inJune, JUNE, "UTC", JULY_15, afterJune);
+    const countsOn = (day: string) => flow.find((point) => point.date === day)!.counts;
+
+    assert.equal(flow.length, 30);
+    assert.deepEqual(countsOn("2024-06-01"), { [todo.id]: 1, [doing.id]: 0, [done.id]: 0 });
+    assert.deepEqual(countsOn("2024-06-15"), { [todo.id]: 1, [doing.id]: 2, [done.id]: 0 });
+    assert.deepEqual(countsOn("2024-06-30"), { [todo.id]: 1, [doing.id]: 1, [done.id]: 1 });
+  });
+
+  it("is reconstructed from a snapshot captured after the period", async () => {
+    const { builder, todo, doing, done } = createBoardChangedAfterJune();
+
+    const result = await generateReport(new SnapshotDataSource(builder.build(JUNE, JULY_15)), {
+      boardId: builder.board.id,
+      period: { type: "month", year: 2024, month: 6 },
+      timezone: "UTC",
+      locale: "en-US",
+      asOf: JULY_15,
+    });
+    const last = result.activity.cumulativeFlow[result.activity.cumulativeFlow.length - 1];
+
+    assert.equal(result.actions.length, 4);
+    assert.deepEqual(last, { date: "2024-06-30", counts: { [todo.id]: 1, [doing.id]: 1, [done.id]: 1 } });
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Flow metrics derived from card list transitions (lead time, cycle time, time in list)
+ */
+
+import {
+  DateRange,
+  TrelloAction,
+  TrelloCard,
+  TrelloList,
+  ListDwellStats,
+  CumulativeFlowPoint,
+  CardTiming,
+  CycleTimeStats,
+  DurationPercentiles,
+  TimingBreakdown,
+  BoardWorkflow,
+  WorkflowStage,
+} from "./types.js";
+import { format, addDays, startOfDay, endOfDay } from "date-fns";
+import { fromWallClock, toWallClock } from "./timezone.js";
+import { DEFAULT_BOARD_WORKFLOW, getListStage, isListInStage } from "./workflow.js";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18n.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the creation date of a card from its ID (the first 8 hex characters are a Unix timestamp)
+ */
+export function getCardCreationDate(cardId: string): Date {
+  return new Date(parseInt(cardId.substring(0, 8), 16) * 1000);
+}
+
+/**
+ * Sort actions chronologically (Trello returns them newest first)
+ */
+export function sortActionsByDate(actions: TrelloAction[]): TrelloAction[] {
+  return [...actions].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Get the difference between two dates in fractional days
+ */
+export function differenceInDaysPrecise(later: Date, earlier: Date): number {
+  return (later.getTime() - earlier.getTime()) / MS_PER_DAY;
+}
+
+/**
+ * Format a duration in days for display, with one decimal in the locale's number format
+ * (the server's when none is given)
+ */
+export function formatDays(days: number, locale?: string): string {
+  return `${new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 }).format(days)}d`;
+}
+
+/**
+ * Get a percentile from ascending-sorted values using the nearest-rank method
+ */
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.max(0, rank - 1)];
+}
+
+/**
+ * Calculate p50/p85/p95 for a set of durations
+ */
+export function calculatePercentiles(values: number[]): DurationPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+    p95: percentile(sorted, 95),
+  };
+}
+
+/**
+ * Calculate lead and cycle time percentiles for a group of card timings
+ */
+function calculateTimingBreakdown(timings: CardTiming[]): TimingBreakdown {
+  return {
+    leadTime: calculatePercentiles(timings.map((timing) => timing.leadTimeDays)),
+    cycleTime: calculatePercentiles(
+      timings
+        .filter((timing) => timing.cycleTimeDays !== undefined)
+        .map((timing) => timing.cycleTimeDays as number)
+    ),
+  };
+}
+
+/**
+ * Group card timings by a key extracted from each card and compute percentiles per group
+ */
+function groupTimings(
+  timings: CardTiming[],
+  cardsById: Map<string, TrelloCard>,
+  getKeys: (card: TrelloCard) => string[]
+): Map<string, TimingBreakdown> {
+  const groups = new Map<string, CardTiming[]>();
+
+  timings.forEach((timing) => {
+    const card = cardsById.get(timing.cardId);
+    if (!card) return;
+
+    getKeys(card).forEach((key) => {
+      const group = groups.get(key) || [];
+      group.push(timing);
+      groups.set(key, group);
+    });
+  });
+
+  const breakdown = new Map<string, TimingBreakdown>();
+  groups.forEach((group, key) => {
+    breakdown.set(key, calculateTimingBreakdown(group));
+  });
+
+  return breakdown;
+}
+
+/**
+ * Calculate per-card lead time (created to done) and cycle time (first in-progress list to done)
+ * for cards completed during the period, with percentiles overall, by label and by member
+ */
+export function calculateCycleTimes(
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW
+): CycleTimeStats {
+  const cardsById = new Map(cards.map((card) => [card.id, card]));
+  const createdAt = new Map<string, Date>();
+  const startedAt = new Map<string, Date>();
+  const completedAt = new Map<string, Date>();
+
+  // Replay card transitions in chronological order
+  sortActionsByDate(actions).forEach((action) => {
+    const cardId = action.data.card?.id;
+    if (!cardId) return;
+
+    const date = new Date(action.date);
+
+    if (action.type === "createCard") {
+      createdAt.set(cardId, date);
+      if (action.data.list && isListInStage(workflow, action.data.list, "inProgress")) {
+        startedAt.set(cardId, date);
+      }
+      return;
+    }
+
+    if (action.type === "updateCard" && action.data.listAfter) {
+      const targetStage = getListStage(workflow, action.data.listAfter);
+
+      if (targetStage === "inProgress" && !startedAt.has(cardId)) {
+        startedAt.set(cardId, date);
+      }
+
+      if (targetStage === "done") {
+        // Moves between several "done" lists keep the first completion date
+        if (!completedAt.has(cardId)) {
+          completedAt.set(cardId, date);
+        }
+      } else {
+        // Card was reopened after being completed
+        completedAt.delete(cardId);
+      }
+    }
+  });
+
+  const timings: CardTiming[] = [];
+
+  completedAt.forEach((doneDate, cardId) => {
+    const card = cardsById.get(cardId);
+    if (!card) return;
+
+    const created = createdAt.get(cardId) || getCardCreationDate(cardId);
+    const started = startedAt.get(cardId);
+
+    timings.push({
+      cardId,
+      cardName: card.name,
+      createdAt: created,
+      startedAt: started,
+      completedAt: doneDate,
+      leadTimeDays: differenceInDaysPrecise(doneDate, created),
+      cycleTimeDays: started ? differenceInDaysPrecise(doneDate, started) : undefined,
+    });
+  });
+
+  timings.sort((a, b) => b.leadTimeDays - a.leadTimeDays);
+
+  return {
+    cards: timings,
+    ...calculateTimingBreakdown(timings),
+    byLabel: groupTimings(timings, cardsById, (card) => card.idLabels),
+    byMember: groupTimings(timings, cardsById, (card) => card.idMembers),
+  };
+}
+
+/**
+ * A card entering or leaving the board's lists. fromListId is undefined when the card was
+ * created or restored, toListId is undefined when it was archived.
+ */
+interface ListTransition {
+  date: Date;
+  fromListId?: string;
+  toListId?: string;
+}
+
+/**
+ * A continuous stay of a card in one list, clipped to the period
+ */
+interface ListStay {
+  listId: string;
+  enteredAt: number;
+  leftAt: number;
+}
+
+/**
+ * A card's list at the end of the period, and whether it was archived then
+ */
+interface CardStateAtPeriodEnd {
+  listId: string;
+  closed: boolean;
+}
+
+/**
+ * Work out each card's list and archived state at the end of the period from its current state,
+ * by undoing the list moves, archiving and restoring that happened after the period, newest first
+ */
+function getCardStatesAtPeriodEnd(
+  cards: TrelloCard[],
+  laterActions: TrelloAction[],
+  periodEnd: Date
+): Map<string, CardStateAtPeriodEnd> {
+  const states = new Map<string, CardStateAtPeriodEnd>(
+    cards.map((card) => [card.id, { listId: card.idList, closed: card.closed }])
+  );
+
+  sortActionsByDate(laterActions)
+    .reverse()
+    .forEach((action) => {
+      const state = action.data.card?.id ? states.get(action.data.card.id) : undefined;
+      if (!state || action.type !== "updateCard" || new Date(action.date) <= periodEnd) return;
+
+      if (action.data.listBefore) {
+        state.listId = action.data.listBefore.id;
+      }
+      if (action.data.old?.closed !== undefined) {
+        state.closed = action.data.old.closed;
+      }
+    });
+
+  return states;
+}
+
+/**
+ * Collect each card's list transitions in chronological order, including archiving and
+ * restoring when `trackArchiving` is set
+ */
+function collectListTransitions(
+  actions: TrelloAction[],
+  trackArchiving: boolean
+): Map<string, ListTransition[]> {
+  const transitionsByCard = new Map<string, ListTransition[]>();
+
+  sortActionsByDate(actions).forEach((action) => {
+    const cardId = action.data.card?.id;
+    if (!cardId) return;
+
+    const date = new Date(action.date);
+    let transition: ListTransition | null = null;
+
+    if (action.type === "createCard" && action.data.list) {
+      transition = { date, toListId: action.data.list.id };
+    } else if (action.type === "updateCard" && action.data.listBefore && action.data.listAfter) {
+      transition = {
+        date,
+        fromListId: action.data.listBefore.id,
+        toListId: action.data.listAfter.id,
+      };
+    } else if (
+      trackArchiving &&
+      action.type === "updateCard" &&
+      action.data.old?.closed !== undefined &&
+      action.data.list
+    ) {
+      // Archiving removes the card from its list, restoring puts it back
+      transition = action.data.old.closed
+        ? { date, toListId: action.data.list.id }
+        : { date, fromListId: action.data.list.id };
+    }
+
+    if (transition) {
+      const transitions = transitionsByCard.get(cardId) || [];
+      transitions.push(transition);
+      transitionsByCard.set(cardId, transitions);
+    }
+  });
+
+  return transitionsByCard;
+}
+
+/**
+ * Replay each card's list transitions into list stays clipped to the period.
+ *
+ * A card's list at the start of the period is taken from its first transition. Cards with no
+ * transitions in the period are assumed to have been in their list at the end of the period
+ * since creation, and cards that were archived at the end of the period are left out. The
+ * state at the end of the period is the card's current one, with `laterActions` (the actions
+ * after the period) undone.
+ *
+ * With `trackArchiving`, archiving ends a card's stay and restoring starts a new one. Without
+ * it, only list moves count and the last stay of archived cards is left out.
+ */
+function collectListStays(
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  laterActions: TrelloAction[],
+  periodStart: Date,
+  periodEnd: Date,
+  trackArchiving: boolean
+): ListStay[] {
+  const transitionsByCard = collectListTransitions(actions, trackArchiving);
+  const statesAtEnd = getCardStatesAtPeriodEnd(cards, laterActions, periodEnd);
+  const stays: ListStay[] = [];
+
+  const addStay = (listId: string, enteredAt: Date, leftAt: Date) => {
+    const start = Math.max(enteredAt.getTime(), periodStart.getTime());
+    const end = Math.min(leftAt.getTime(), periodEnd.getTime());
+    if (end > start) {
+      stays.push({ listId, enteredAt: start, leftAt: end });
+    }
+  };
+
+  cards.forEach((card) => {
+    const createdAt = getCardCreationDate(card.id);
+    const transitions = transitionsByCard.get(card.id) || [];
+    const stateAtEnd = statesAtEnd.get(card.id)!;
+
+    // Untouched cards sat in the same list for the whole period
+    if (transitions.length === 0) {
+      if (!stateAtEnd.closed) {
+        addStay(stateAtEnd.listId, createdAt, periodEnd);
+      }
+      return;
+    }
+
+    let currentListId = transitions[0].fromListId;
+    let enteredAt = createdAt;
+
+    transitions.forEach((transition) => {
+      if (currentListId) {
+        addStay(currentListId, enteredAt, transition.date);
+      }
+      currentListId = transition.toListId;
+      enteredAt = transition.date;
+    });
+
+    if (currentListId && (trackArchiving || !stateAtEnd.closed)) {
+      addStay(currentListId, enteredAt, periodEnd);
+    }
+  });
+
+  return stays;
+}
+
+/**
+ * Get the end of the period, capped at the current time (or `now`) for periods that are still running
+ */
+export function getEffectivePeriodEnd(dateRange: DateRange, now: Date = new Date()): Date {
+  return new Date(Math.min(dateRange.end.getTime(), now.getTime()));
+}
+
+/**
+ * Calculate how long cards sat in each list during the period by replaying their list transitions.
+ *
+ * Every stay is clipped to the period, so a card that entered a list before the period started
+ * only counts from the period start, and a card still in a list counts until the period end.
+ * For past periods, `laterActions` (the actions up to `now`) tell which list a card was in then.
+ */
+export function calculateListDwellTimes(
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  dateRange: DateRange,
+  now: Date = new Date(),
+  laterActions: TrelloAction[] = []
+): Map<string, ListDwellStats> {
+  const staysByList = new Map<string, number[]>();
+  const periodEnd = getEffectivePeriodEnd(dateRange, now);
+
+  // Dwell times only follow list moves: an archived card's time in its last list is not counted
+  collectListStays(cards, actions, laterActions, dateRange.start, periodEnd, false).forEach((stay) => {
+    const durations = staysByList.get(stay.listId) || [];
+    durations.push((stay.leftAt - stay.enteredAt) / MS_PER_DAY);
+    staysByList.set(stay.listId, durations);
+  });
+
+  const dwellByList = new Map<string, ListDwellStats>();
+  staysByList.forEach((stays, listId) => {
+    const totalDays = stays.reduce((sum, days) => sum + days, 0);
+    dwellByList.set(listId, {
+      listId,
+      stays: stays.length,
+      averageDays: totalDays / stays.length,
+      medianDays: calculatePercentiles(stays).p50,
+      maxDays: Math.max(...stays),
+      totalDays,
+    });
+  });
+
+  return dwellByList;
+}
+
+// Stages where cards are not expected to be actively worked on
+const IDLE_STAGES: WorkflowStage[] = ["backlog", "todo", "done"];
+
+/**
+ * Rank the lists where cards wait longest once work has started.
+ *
+ * Candidates are open lists outside the backlog, to-do and done stages, from the first
+ * in-progress list onwards (or every list but the leftmost one when the board has no
+ * in-progress list), ordered by median dwell time.
+ */
+export function findBottleneckLists(
+  dwellByList: Map<string, ListDwellStats>,
+  lists: TrelloList[],
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  minStays: number = 2
+): Array<{ list: TrelloList; dwell: ListDwellStats }> {
+  const openLists = lists.filter((list) => !list.closed).sort((a, b) => a.pos - b.pos);
+  const firstInProgress = openLists.find((list) => isListInStage(workflow, list, "inProgress"));
+  const firstCandidatePos = firstInProgress
+    ? firstInProgress.pos
+    : openLists.length > 1
+      ? openLists[1].pos
+      : -Infinity;
+
+  return openLists
+    .filter(
+      (list) =>
+        list.pos >= firstCandidatePos && !IDLE_STAGES.includes(getListStage(workflow, list))
+    )
+    .map((list) => ({ list, dwell: dwellByList.get(list.id) }))
+    .filter(
+      (entry): entry is { list: TrelloList; dwell: ListDwellStats } =>
+        !!entry.dwell && entry.dwell.stays >= minStays
+    )
+    .sort((a, b) => b.dwell.medianDays - a.dwell.medianDays);
+}
+
+/**
+ * Reconstruct the number of cards in each list at the end of every day of the period. Days
+ * run from midnight to midnight in the given time zone, or the server's when none is given.
+ *
+ * For past periods, `laterActions` are the actions from the end of the period up to `now`:
+ * cards are traced back from their current list through the moves and archiving in them.
+ */
+export function calculateCumulativeFlow(
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  actions: TrelloAction[],
+  dateRange: DateRange,
+  timeZone?: string,
+  now: Date = new Date(),
+  laterActions: TrelloAction[] = []
+): CumulativeFlowPoint[] {
+  const periodEnd = getEffectivePeriodEnd(dateRange, now);
+  if (periodEnd <= dateRange.start) return [];
+
+  // Snapshot times: the end of each day, with the last one capped at the period end
+  const snapshots: number[] = [];
+  const days: string[] = [];
+  for (
+    let day = startOfDay(toWallClock(dateRange.start, timeZone));
+    fromWallClock(day, timeZone) <= periodEnd;
+    day = addDays(day, 1)
+  ) {
+    snapshots.push(Math.min(fromWallClock(endOfDay(day), timeZone).getTime(), periodEnd.getTime()));
+    days.push(format(day, "yyyy-MM-dd"));
+  }
+
+  const countsByList = new Map<string, number[]>();
+  lists
+    .filter((list) => !list.closed)
+    .forEach((list) => countsByList.set(list.id, new Array(snapshots.length).fill(0)));
+
+  // Archived cards leave the counts on the day they are archived
+  collectListStays(cards, actions, laterActions, dateRange.start, periodEnd, true).forEach((stay) => {
+    const counts = countsByList.get(stay.listId) || new Array(snapshots.length).fill(0);
+    countsByList.set(stay.listId, counts);
+
+    // Stays still open at the period end include the final snapshot
+    const stillInList = stay.leftAt === periodEnd.getTime();
+    snapshots.forEach((snapshot, index) => {
+      if (snapshot >= stay.enteredAt && (snapshot < stay.leftAt || stillInList)) {
+        counts[index]++;
+      }
+    });
+  });
+
+  return snapshots.map((snapshot, index) => {
+    const counts: Record<string, number> = {};
+    countsByList.forEach((listCounts, listId) => {
+      counts[listId] = listCounts[index];
+    });
+    return { date: days[index], counts };
+  });
+}
+
+/**
+ * Pick at most `maxPoints` evenly spaced points from a cumulative flow series, always keeping the last day
+ */
+export function sampleCumulativeFlow(
+  points: CumulativeFlowPoint[],
+  maxPoints: number
+): CumulativeFlowPoint[] {
+  if (points.length <= maxPoints) return points;
+
+  const step = Math.ceil(points.length / maxPoints);
+  const sampled = points.filter((_, index) => index % step === 0);
+  if (sampled[sampled.length - 1] !== points[points.length - 1]) {
+    sampled.push(points[points.length - 1]);
+  }
+  return sampled;
+}
+
+/**
+ * Describe notable cumulative flow trends: open lists whose WIP grew sharply, and downstream lists
+ * that were empty for most of the period
+ */
+export function describeCumulativeFlowTrends(
+  points: CumulativeFlowPoint[],
+  lists: TrelloList[],
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  t: Translator = DEFAULT_TRANSLATOR
+): string[] {
+  if (points.length < 2) return [];
+
+  const trends: string[] = [];
+  const first = points[0];
+  const last = points[points.length - 1];
+  const orderedLists = lists.filter((list) => !list.closed).sort((a, b) => a.pos - b.pos);
+
+  orderedLists.forEach((list, index) => {
+    const stage = getListStage(workflow, list);
+    if (stage === "done") return;
+
+    const startCount = first.counts[list.id] || 0;
+    const endCount = last.counts[list.id] || 0;
+    if (endCount - startCount >= 3 && endCount >= 1.5 * Math.max(startCount, 1)) {
+      trends.push(t("flow.grew", { list: list.name, start: startCount, end: endCount }));
+    }
+
+    const emptyDays = points.filter((point) => (point.counts[list.id] || 0) === 0).length;
+    const isUpstream = index === 0 || stage === "backlog" || stage === "todo";
+    if (!isUpstream && emptyDays < points.length && emptyDays >= points.length / 2) {
+      trends.push(t("flow.starved", { list: list.name, empty: emptyDays, total: points.length }));
+    }
+  });
+
+  return trends;
+}
@@ -0,0 +1,95 @@
+/**
+ * Report localization: message catalogs with plural forms, and the translator that renders
+ * report text in the requested language
+ */
+
+import { ReportLanguage } from "./types.js";
+import { en } from "./locales/en.js";
+import { pt } from "./locales/pt.js";
+import { es } from "./locales/es.js";
+
+/**
+ * A catalog message: a template with {name} placeholders, or one template per plural category
+ * (selected by the "count" parameter)
+ */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Render a catalog message in the report's language
+ */
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  language: ReportLanguage;
+}
+
+// Languages reports can be written in
+export const REPORT_LANGUAGES: ReportLanguage[] = ["en", "pt", "es"];
+
+const CATALOGS: Record<ReportLanguage, MessageCatalog> = { en, pt, es };
+
+// Plural rules per language, e.g. Portuguese treats 0 like 1 ("0 cartão")
+const pluralRules = new Map<ReportLanguage, Intl.PluralRules>();
+
+/**
+ * Get the plural rules of a language
+ */
+function getPluralRules(language: ReportLanguage): Intl.PluralRules {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(language);
+    pluralRules.set(language, rules);
+  }
+  return rules;
+}
+
+/**
+ * Create the translator for a report language
+ */
+export function createTranslator(language: ReportLanguage = "en"): Translator {
+  const catalog = CATALOGS[language];
+  if (!catalog) {
+    throw new Error(`Unsupported language "${language}". Use one of: ${REPORT_LANGUAGES.join(", ")}.`);
+  }
+
+  const translate = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = catalog[key];
+    const template =
+      typeof message === "string"
+        ? message
+        : message[getPluralRules(language).select(Number(params.count ?? 0))] ?? message.other;
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      params[name] !== undefined ? String(params[name]) : placeholder
+    );
+  };
+
+  return Object.assign(translate, { language });
+}
+
+// English translator, the default for callers that do not pick a language
+export const DEFAULT_TRANSLATOR = createTranslator("en");
+
+/**
+ * Join items into a sentence list, e.g. "A, B and C"
+ */
+export function joinList(items: string[], t: Translator = DEFAULT_TRANSLATOR): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(", ")} ${t("list.and")} ${items[items.length - 1]}`
+    : items.join("");
+}
+
+/**
+ * Get the name of a month (1-12) with its year, e.g. "March 2024" or "março de 2024"
+ */
+export function formatMonthYear(month: number, year: number, t: Translator = DEFAULT_TRANSLATOR): string {
+  const monthName = new Intl.DateTimeFormat(t.language, { month: "long", timeZone: "UTC" }).format(
+    new Date(Date.UTC(year, month - 1, 1))
+  );
+  return t("period.month", { month: monthName, year });
+}
@@ -0,0 +1,368 @@
+/**
+ * English report messages, the reference catalog every other language must cover
+ */
+
+import { Message } from "../i18n.js";
+
+export const en = {
+  // Shared words
+  "common.unknown": "Unknown",
+  "common.unknownList": "Unknown List",
+  "common.unknownMember": "Unknown Member",
+  "common.noName": "(no name)",
+  "common.dateRange": "{start} to {end}",
+  "common.cardCount": { one: "{count} card", other: "{count} cards" },
+  "common.commentCount": { one: "{count} comment", other: "{count} comments" },
+  "list.and": "and",
+  "list.or": "or",
+
+  // Report periods
+  "period.year": "Year {year}",
+  "period.fiscalYear": "Fiscal Year {year}",
+  "period.fiscalYearLabel": "FY{year}",
+  "period.firstQuarter": "First Quarter",
+  "period.secondQuarter": "Second Quarter",
+  "period.thirdQuarter": "Third Quarter",
+  "period.fourthQuarter": "Fourth Quarter",
+  "period.quarter": "{quarter} {year}",
+  "period.month": "{month} {year}",
+  "period.week": "Week {week} of {year}",
+  "period.lastDays": { one: "Last Day", other: "Last {count} Days" },
+  "period.custom": "Custom Period",
+
+  // Notices at the top of reports
+  "notice.truncatedTitle": "Warning",
+  "notice.truncated":
+    "This report is based on the most recent {count} actions only. The action history for the period was truncated by the page limit, so counts may be lower than actual. Increase `maxActionPages` to fetch the full history.",
+  "notice.filteredTitle": "Filtered report",
+  "notice.filtered": "This report only covers {description}. Board-level actions are left out.",
+
+  // Filter descriptions
+  "filter.label": "label {names}",
+  "filter.member": "member {names}",
+  "filter.list": "list {names}",
+  "filter.text": 'text "{query}"',
+  "filter.cardsWith": "cards with {criteria}",
+  "filter.allCards": "all cards",
+  "filter.excluding": "excluding cards with {criteria}",
+
+  // Period comparison, cumulative flow and aging descriptions
+  "comparison.new": "new",
+  "flow.grew": 'Work in "{list}" grew from {start} to {end} cards.',
+  "flow.starved": '"{list}" was empty on {empty} of {total} days, so it may be starved of work.',
+  "aging.cardAge": '"{card}" ({age} in "{list}")',
+  "aging.cardIdle": '"{card}" ({idle} without activity, in "{list}")',
+  "aging.more": "{count} more",
+  "aging.under3Days": "Under 3 days",
+  "aging.3to7Days": "3-7 days",
+  "aging.1to2Weeks": "1-2 weeks",
+  "aging.2to4Weeks": "2-4 weeks",
+  "aging.4WeeksOrMore": "4 weeks or more",
+  "customField.noValue": "(none)",
+
+  // Full report
+  "report.title": "Trello Board Report: {board}",
+  "report.reportPeriod": "Report Period: {period}",
+  "report.dateRange": "Date Range: {range}",
+  "report.boardOverview": "Board Overview",
+  "report.boardName": "Board Name",
+  "report.description": "Description",
+  "report.url": "URL",
+  "report.lastActivity": "Last Activity",
+  "report.lists": "Lists",
+  "report.cards": "Cards",
+  "report.members": "Members",
+  "report.cardsTotal": "{total} total, {active} active in this period",
+  "report.activitySummary": "Activity Summary",
+  "report.cardsCreated": "Cards Created",
+  "report.cardsCompleted": "Cards Completed",
+  "report.cardsMoved": "Cards Moved",
+  "report.commentsAdded": "Comments Added",
+  "report.activeMembers": "Active Members",
+  "report.mostActiveList": "Most Active List",
+  "report.comparisonTitle": "Comparison with {period}",
+  "report.metric": "Metric",
+  "report.thisPeriod": "This Period",
+  "report.previous": "Previous",
+  "report.change": "Change",
+  "report.completionsByLabel": "Completions by Label",
+  "report.label": "Label",
+  "report.listBreakdown": "List Breakdown",
+  "report.listName": "List Name",
+  "report.activity": "Activity",
+  "report.memberActivity": "Member Activity",
+  "report.member": "Member",
+  "report.labelUsage": "Label Usage",
+  "report.color": "Color",
+  "report.usage": "Usage",
+  "report.cardFlow": "Card Flow",
+  "report.cardFlowIntro": "This section shows how cards moved between lists during the period.",
+  "report.fromList": 'From "{list}"',
+  "report.toList": 'To "{list}"',
+  "report.noCardFlow": "No significant card flow detected in this period.",
+  "report.timeInList": "Time in List",
+  "report.timeInListIntro":
+    "How long cards sat in each list during the period, based on their list transitions.",
+  "report.list": "List",
+  "report.stays": "Stays",
+  "report.average": "Average",
+  "report.median": "Median",
+  "report.max": "Max",
+  "report.slowestList": "Once work started, cards waited longest in **{list}** (median {median}).",
+  "report.cumulativeFlow": "Cumulative Flow",
+  "report.cumulativeFlowIntro": "Cards in each list at the end of the day, sampled across the period.",
+  "report.date": "Date",
+  "report.cycleLeadTime": "Cycle & Lead Time",
+  "report.cycleLeadTimeIntro":
+    "Lead time runs from card creation to completion. Cycle time runs from the first move into an in-progress list to completion.",
+  "report.leadTime": "Lead Time",
+  "report.cycleTime": "Cycle Time",
+  "report.leadPercentile": "Lead {percentile}",
+  "report.cyclePercentile": "Cycle {percentile}",
+  "report.byField": "By {name}",
+  "report.longestLeadTimes": "Longest Lead Times",
+  "report.leadTimeOf": "lead time {days}",
+  "report.cycleTimeOf": "cycle time {days}",
+  "report.dueDates": "Due Dates",
+  "report.cardsDueInPeriod": "Cards Due in Period",
+  "report.completedOnTime": "Completed On Time",
+  "report.completedLate": "Completed Late",
+  "report.onTimeRate": "On-Time Rate",
+  "report.averageSlip": "Average Slip (late cards)",
+  "report.currentlyOverdue": "Currently Overdue",
+  "report.dueSoon": { one: "Due in the Next Day", other: "Due in the Next {count} Days" },
+  "report.dueInPeriod": "Due in Period",
+  "report.onTime": "On Time",
+  "report.late": "Late",
+  "report.overdue": "Overdue",
+  "report.overdueCards": "Overdue Cards",
+  "report.dueOn": "due {date}",
+  "report.overdueBy": "{days} overdue",
+  "report.checklists": "Checklists",
+  "report.itemsCompletedInPeriod": "Items Completed in Period",
+  "report.openCardsWithChecklists": "Open Cards with Checklists",
+  "report.itemsDoneOnOpenCards": "Items Done on Open Cards",
+  "report.itemsDoneOf": "{done} of {total} ({percent}%)",
+  "report.doneCardsWithOpenItems": "Done Cards with Open Items",
+  "report.itemsCompletedByMember": "Items Completed by Member",
+  "report.itemsCompleted": "Items Completed",
+  "report.checklistProgress": "Checklist Progress",
+  "report.card": "Card",
+  "report.progress": "Progress",
+  "report.openItems": "Open Items",
+  "report.doneWithOpenItems": "{done}/{total} done, open: {items}",
+  "report.moreItems": "+{count} more",
+  "report.comments": "Comments",
+  "report.cardsDiscussed": "Cards Discussed",
+  "report.commenters": "Commenters",
+  "report.unresolvedThreads": "Unresolved Threads",
+  "report.mostDiscussedCards": "Most Discussed Cards",
+  "report.participants": "Participants",
+  "report.lastComment": "Last Comment",
+  "report.commentsByMember": "Comments by Member",
+  "report.unresolvedThreadsIntro": "Open cards with {count} or more comments in the period:",
+  "report.personCount": { one: "{count} person", other: "{count} people" },
+  "report.threadSummary": "{comments} from {people}, last on {date}",
+  "report.storyPoints": "Story Points",
+  "report.pointsField": 'Points are read from the "{field}" custom field.',
+  "report.pointsCompleted": "Points Completed",
+  "report.pointsAcross": "{points} across {cards}",
+  "report.velocity": "Velocity",
+  "report.pointsPerWeek": "{points} points/week",
+  "report.completedWithoutPoints": "Completed Cards Without Points",
+  "report.openPoints": "Open Points on Board",
+  "report.pointsBy": "Points by {name}",
+  "report.openCards": "Open Cards",
+  "report.completed": "Completed",
+  "report.workSummary": "Work Summary",
+  "report.completedFeatures": "Completed Features",
+  "report.viewCard": "View Card",
+  "report.keyCards": "Key Cards",
+  "report.keyCardsIntro": "These cards had the most activity during this period:",
+  "report.assignedTo": "Assigned to",
+  "report.labels": "Labels",
+  "report.due": "Due",
+  "report.dueCompleted": "(Completed)",
+  "report.checklistItemsComplete": "{done}/{total} items complete",
+  "report.recentComments": "Recent Comments",
+  "report.viewOnTrello": "View Card on Trello",
+  "report.workInProgress": "Work In Progress",
+  "report.dueDate": "Due: {date}",
+  "report.daysInList": "{days} in list",
+  "report.stale": "stale",
+  "report.agingWork": "Aging Work",
+  "report.agingWorkIntro":
+    "How long open cards past the backlog have been in their current list, as of {date}.",
+  "report.ageInList": "Age in List",
+  "report.oldestCards": "Oldest Cards",
+  "report.inListSince": "In List Since",
+  "report.age": "Age",
+  "report.idle": "Idle",
+  "report.lastActivityFallback":
+    "The move into the list is outside the report period, so the card's last activity is used.",
+  "report.staleCards": "Stale Cards",
+  "report.staleCardsIntro": {
+    one: "Open cards with no activity for {count} day or more:",
+    other: "Open cards with no activity for {count} days or more:",
+  },
+  "report.staleSince": "last activity {date}, {days} ago",
+  "report.summary": "Summary",
+  "report.summaryCovers": "This report covers Trello board activity for {board} during {period} ({range}).",
+  "report.totalActivity": {
+    one: "Total activity: {count} action recorded.",
+    other: "Total activity: {count} actions recorded.",
+  },
+  "report.generatedOn": "Report generated on {date}",
+
+  // Workspace and member reports
+  "rollup.affectedBoards": "Affected boards: {boards}",
+  "rollup.totalActions": "Total Actions",
+  "rollup.boardBreakdown": "Board Breakdown",
+  "rollup.board": "Board",
+  "rollup.boards": "Boards",
+  "rollup.actions": "Actions",
+  "rollup.created": "Created",
+  "rollup.moved": "Moved",
+  "workspace.title": {
+    one: "Workspace Report: {count} Board",
+    other: "Workspace Report: {count} Boards",
+  },
+  "workspace.activeCards": "Active Cards",
+  "member.title": "Member Report: {name} (@{username})",
+  "member.moveCount": { one: "{count} move", other: "{count} moves" },
+  "member.cardsCommentedOn": "Cards Commented On",
+  "member.checklistItemsCompleted": "Checklist Items Completed",
+  "member.cardsAssigned": "Cards Currently Assigned",
+  "member.checklistItems": "Checklist Items",
+  "member.assigned": "Assigned",
+  "member.currentlyAssigned": "Currently Assigned",
+  "member.topLabels": "Top Labels",
+  "member.andMore": "...and {count} more",
+  "member.noActivity": "No activity by {name} was found in this period.",
+
+  // HTML report
+  "html.openBoard": "Open board",
+  "html.stage": "Stage",
+  "html.averageTimeInList": "Avg. Time in List",
+  "html.activeCards": "Active Cards",
+  "html.from": "From",
+  "html.to": "To",
+  "html.measure": "Measure",
+  "html.value": "Value",
+  "html.author": "Author",
+  "stage.backlog": "Backlog",
+  "stage.todo": "To Do",
+  "stage.inProgress": "In Progress",
+  "stage.review": "Review",
+  "stage.blocked": "Blocked",
+  "stage.done": "Done",
+  "stage.other": "Other",
+
+  // Work summary
+  "work.noneCompleted": "No work was completed during this period.",
+  "work.completed": "During this period, the team completed {cards}.",
+  "work.labelItems": { one: "{count} {label} item", other: "{count} {label} items" },
+  "work.included": "This included {items}.",
+  "work.keyItems": "Key completed items include: {cards}.",
+
+  // Summary report
+  "summary.title": "{board} - {period} Summary",
+  "summary.overallActivity": "Overall Activity",
+  "summary.recorded": "During {period} ({range}), the team recorded {activities} across {cards}.",
+  "summary.activityCount": { one: "{count} activity", other: "{count} activities" },
+  "summary.activityBreakdown": "There were {created}, {moves}, and {comments}.",
+  "summary.cardsCreated": { one: "{count} new card created", other: "{count} new cards created" },
+  "summary.cardMoves": { one: "{count} card movement", other: "{count} card movements" },
+  "summary.commentsAdded": { one: "{count} comment added", other: "{count} comments added" },
+  "summary.comparedWith": "Compared with {period}",
+  "summary.cardsCreatedMetric": "Cards created",
+  "summary.cardsCompletedMetric": "Cards completed",
+  "summary.cardMovesMetric": "Card movements",
+  "summary.commentsMetric": "Comments",
+  "summary.activeMembersMetric": "Active members",
+  "summary.completionsByLabel": "Completions by label",
+  "summary.teamActivity": "Team Activity",
+  "summary.mostActiveMembers": "The most active team members were: {members}.",
+  "summary.workCompleted": "Work Completed",
+  "summary.deliverySpeed": "Delivery Speed",
+  "summary.leadTime": {
+    one: "The card completed in this period was delivered {p50} after it was created.",
+    other:
+      "Half of the {count} cards completed in this period were delivered within {p50} of being created, and 85% within {p85}.",
+  },
+  "summary.cycleTime": "Once work started, the median cycle time was {p50} (85th percentile: {p85}).",
+  "summary.dueDates": "Due Dates",
+  "summary.onTime": {
+    one: "On-time delivery: {onTime} of {count} card with a due date completed in this period ({percent}%).",
+    other: "On-time delivery: {onTime} of the {count} cards with a due date completed in this period ({percent}%).",
+  },
+  "summary.averageSlip": "Late cards slipped by {days} on average.",
+  "summary.overdueAndDueSoon": "{overdue} and {dueSoon}.",
+  "summary.overdue": { one: "{count} card is currently overdue", other: "{count} cards are currently overdue" },
+  "summary.dueSoon": {
+    one: "{count} is due in the next {days} days",
+    other: "{count} are due in the next {days} days",
+  },
+  "summary.checklists": "Checklists",
+  "summary.checklistItemsCompleted": {
+    one: "{count} checklist item was completed in this period.",
+    other: "{count} checklist items were completed in this period.",
+  },
+  "summary.checklistProgress": "Across open cards, {done} of {total} items are done ({percent}%)",
+  "summary.checklistDoneWithOpenItems": {
+    one: ", and {count} card in a done list still has open items.",
+    other: ", and {count} cards in a done list still have open items.",
+  },
+  "summary.storyPoints": "Story Points",
+  "summary.pointsCompleted":
+    "The team completed {points} points ({velocity} per week), with {open} points still open on the board.",
+  "summary.discussions": "Discussions",
+  "summary.commentsAcross": {
+    one: "{count} comment was added across {cards}.",
+    other: "{count} comments were added across {cards}.",
+  },
+  "summary.mostDiscussed": 'The most discussed card was "{card}" with {comments}.',
+  "summary.unresolvedThreads": {
+    one: "{count} open card has long threads still to resolve: {cards}.",
+    other: "{count} open cards have long threads still to resolve: {cards}.",
+  },
+  "summary.keyFocusAreas": "Key Focus Areas",
+  "summary.keyFocusIntro": "The team focused primarily on these items:",
+  "summary.workflowAnalysis": "Workflow Analysis",
+  "summary.slowestList":
+    'Once work started, cards spent the most time in "{list}" (median {median}, up to {max} across {stays}).',
+  "summary.stayCount": { one: "{count} stay", other: "{count} stays" },
+  "summary.nextSlowestList": '"{list}" followed with a median of {median}.',
+  "summary.currentWork": "Current Work",
+  "summary.inProgress": {
+    one: "There is currently {count} card in progress.",
+    other: "There are currently {count} cards in progress.",
+  },
+  "summary.inList": '{count} in "{list}"',
+  "summary.includes": "This includes {items}.",
+  "summary.agingWork": "Aging Work",
+  "summary.oldestWork": "The oldest work in progress is {cards}.",
+  "summary.staleCards": {
+    one: "{count} open card has had no activity for {days} days or more.",
+    other: "{count} open cards have had no activity for {days} days or more.",
+  },
+  "summary.noStaleCards": "No open card has gone {days} days without activity.",
+  "summary.recommendations": "Recommendations",
+  "summary.oldestInProgress": "The oldest cards in progress are {cards}.",
+  "summary.noneCompleted": "No cards were completed during this period.",
+  "summary.investigate": "Consider investigating why.",
+  "summary.lowCompletion": "The completion rate appears to be lower than optimal.",
+  "summary.reviewWorkflow": "Consider reviewing the workflow for potential bottlenecks.",
+  "summary.followUp": "Follow up on {cards}: check whether they are blocked, or move them back to the backlog.",
+  "summary.mainBottleneck":
+    '"{list}" is the main bottleneck: cards waited a median of {median} there{comparison}. Consider limiting work in progress or adding capacity at this stage.',
+  "summary.bottleneckComparison": ', compared with {median} in "{list}"',
+  "summary.outliers": 'Some cards sat in "{list}" for up to {max}, against a median of {median}.',
+  "summary.checkStuckCards": "Check {cards} for blockers.",
+  "summary.checkOutliers": "Check these outliers for blockers.",
+  "summary.doneWithOpenItems": {
+    one: '{count} card was marked done with open checklist items (e.g. "{card}"). Confirm the remaining items were dropped on purpose.',
+    other:
+      '{count} cards were marked done with open checklist items (e.g. "{card}"). Confirm the remaining items were dropped on purpose.',
+  },
+} satisfies Record<string, Message>;
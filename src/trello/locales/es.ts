@@ -0,0 +1,374 @@
+/**
+ * Spanish report messages
+ */
+
+import { MessageCatalog } from "../i18n.js";
+
+export const es: MessageCatalog = {
+  // Shared words
+  "common.unknown": "Desconocido",
+  "common.unknownList": "Lista Desconocida",
+  "common.unknownMember": "Miembro Desconocido",
+  "common.noName": "(sin nombre)",
+  "common.dateRange": "{start} a {end}",
+  "common.cardCount": { one: "{count} tarjeta", other: "{count} tarjetas" },
+  "common.commentCount": { one: "{count} comentario", other: "{count} comentarios" },
+  "list.and": "y",
+  "list.or": "o",
+
+  // Report periods
+  "period.year": "Año {year}",
+  "period.fiscalYear": "Año Fiscal {year}",
+  "period.fiscalYearLabel": "AF{year}",
+  "period.firstQuarter": "Primer Trimestre",
+  "period.secondQuarter": "Segundo Trimestre",
+  "period.thirdQuarter": "Tercer Trimestre",
+  "period.fourthQuarter": "Cuarto Trimestre",
+  "period.quarter": "{quarter} de {year}",
+  "period.month": "{month} de {year}",
+  "period.week": "Semana {week} de {year}",
+  "period.lastDays": { one: "Último Día", other: "Últimos {count} Días" },
+  "period.custom": "Período Personalizado",
+
+  // Notices at the top of reports
+  "notice.truncatedTitle": "Advertencia",
+  "notice.truncated":
+    "Este informe se basa solo en las {count} acciones más recientes. El historial de acciones del período se cortó por el límite de páginas, así que los recuentos pueden ser menores que los reales. Aumenta `maxActionPages` para obtener el historial completo.",
+  "notice.filteredTitle": "Informe filtrado",
+  "notice.filtered": "Este informe solo cubre {description}. Las acciones a nivel de tablero quedan fuera.",
+
+  // Filter descriptions
+  "filter.label": "etiqueta {names}",
+  "filter.member": "miembro {names}",
+  "filter.list": "lista {names}",
+  "filter.text": 'texto "{query}"',
+  "filter.cardsWith": "tarjetas con {criteria}",
+  "filter.allCards": "todas las tarjetas",
+  "filter.excluding": "excepto tarjetas con {criteria}",
+
+  // Period comparison, cumulative flow and aging descriptions
+  "comparison.new": "nuevo",
+  "flow.grew": 'El trabajo en "{list}" creció de {start} a {end} tarjetas.',
+  "flow.starved": '"{list}" estuvo vacía {empty} de {total} días, así que puede estar quedándose sin trabajo.',
+  "aging.cardAge": '"{card}" ({age} en "{list}")',
+  "aging.cardIdle": '"{card}" ({idle} sin actividad, en "{list}")',
+  "aging.more": "{count} más",
+  "aging.under3Days": "Menos de 3 días",
+  "aging.3to7Days": "3-7 días",
+  "aging.1to2Weeks": "1-2 semanas",
+  "aging.2to4Weeks": "2-4 semanas",
+  "aging.4WeeksOrMore": "4 semanas o más",
+  "customField.noValue": "(ninguno)",
+
+  // Full report
+  "report.title": "Informe del Tablero de Trello: {board}",
+  "report.reportPeriod": "Período del Informe: {period}",
+  "report.dateRange": "Rango de Fechas: {range}",
+  "report.boardOverview": "Resumen del Tablero",
+  "report.boardName": "Nombre del Tablero",
+  "report.description": "Descripción",
+  "report.url": "URL",
+  "report.lastActivity": "Última Actividad",
+  "report.lists": "Listas",
+  "report.cards": "Tarjetas",
+  "report.members": "Miembros",
+  "report.cardsTotal": "{total} en total, {active} activas en este período",
+  "report.activitySummary": "Resumen de Actividad",
+  "report.cardsCreated": "Tarjetas Creadas",
+  "report.cardsCompleted": "Tarjetas Completadas",
+  "report.cardsMoved": "Tarjetas Movidas",
+  "report.commentsAdded": "Comentarios Añadidos",
+  "report.activeMembers": "Miembros Activos",
+  "report.mostActiveList": "Lista Más Activa",
+  "report.comparisonTitle": "Comparación con {period}",
+  "report.metric": "Métrica",
+  "report.thisPeriod": "Este Período",
+  "report.previous": "Anterior",
+  "report.change": "Cambio",
+  "report.completionsByLabel": "Completadas por Etiqueta",
+  "report.label": "Etiqueta",
+  "report.listBreakdown": "Desglose por Lista",
+  "report.listName": "Nombre de la Lista",
+  "report.activity": "Actividad",
+  "report.memberActivity": "Actividad de los Miembros",
+  "report.member": "Miembro",
+  "report.labelUsage": "Uso de Etiquetas",
+  "report.color": "Color",
+  "report.usage": "Uso",
+  "report.cardFlow": "Flujo de Tarjetas",
+  "report.cardFlowIntro": "Esta sección muestra cómo se movieron las tarjetas entre listas durante el período.",
+  "report.fromList": 'Desde "{list}"',
+  "report.toList": 'Hacia "{list}"',
+  "report.noCardFlow": "No se detectó un flujo de tarjetas significativo en este período.",
+  "report.timeInList": "Tiempo en Lista",
+  "report.timeInListIntro":
+    "Cuánto tiempo pasaron las tarjetas en cada lista durante el período, según sus transiciones entre listas.",
+  "report.list": "Lista",
+  "report.stays": "Estancias",
+  "report.average": "Promedio",
+  "report.median": "Mediana",
+  "report.max": "Máximo",
+  "report.slowestList":
+    "Una vez iniciado el trabajo, las tarjetas esperaron más en **{list}** (mediana de {median}).",
+  "report.cumulativeFlow": "Flujo Acumulado",
+  "report.cumulativeFlowIntro": "Tarjetas en cada lista al final del día, muestreadas a lo largo del período.",
+  "report.date": "Fecha",
+  "report.cycleLeadTime": "Tiempo de Ciclo y Lead Time",
+  "report.cycleLeadTimeIntro":
+    "El lead time va desde la creación de la tarjeta hasta su finalización. El tiempo de ciclo va desde la primera entrada en una lista en curso hasta la finalización.",
+  "report.leadTime": "Lead Time",
+  "report.cycleTime": "Tiempo de Ciclo",
+  "report.leadPercentile": "Lead {percentile}",
+  "report.cyclePercentile": "Ciclo {percentile}",
+  "report.byField": "Por {name}",
+  "report.longestLeadTimes": "Lead Times Más Largos",
+  "report.leadTimeOf": "lead time de {days}",
+  "report.cycleTimeOf": "tiempo de ciclo de {days}",
+  "report.dueDates": "Fechas de Vencimiento",
+  "report.cardsDueInPeriod": "Tarjetas que Vencen en el Período",
+  "report.completedOnTime": "Completadas a Tiempo",
+  "report.completedLate": "Completadas con Retraso",
+  "report.onTimeRate": "Tasa de Entrega a Tiempo",
+  "report.averageSlip": "Retraso Promedio (tarjetas atrasadas)",
+  "report.currentlyOverdue": "Vencidas Actualmente",
+  "report.dueSoon": { one: "Vencen en el Próximo Día", other: "Vencen en los Próximos {count} Días" },
+  "report.dueInPeriod": "Vencen en el Período",
+  "report.onTime": "A Tiempo",
+  "report.late": "Con Retraso",
+  "report.overdue": "Vencidas",
+  "report.overdueCards": "Tarjetas Vencidas",
+  "report.dueOn": "vence {date}",
+  "report.overdueBy": "{days} de retraso",
+  "report.checklists": "Checklists",
+  "report.itemsCompletedInPeriod": "Elementos Completados en el Período",
+  "report.openCardsWithChecklists": "Tarjetas Abiertas con Checklists",
+  "report.itemsDoneOnOpenCards": "Elementos Hechos en Tarjetas Abiertas",
+  "report.itemsDoneOf": "{done} de {total} ({percent}%)",
+  "report.doneCardsWithOpenItems": "Tarjetas Terminadas con Elementos Pendientes",
+  "report.itemsCompletedByMember": "Elementos Completados por Miembro",
+  "report.itemsCompleted": "Elementos Completados",
+  "report.checklistProgress": "Progreso de los Checklists",
+  "report.card": "Tarjeta",
+  "report.progress": "Progreso",
+  "report.openItems": "Elementos Pendientes",
+  "report.doneWithOpenItems": "{done}/{total} hechos, pendientes: {items}",
+  "report.moreItems": "+{count} más",
+  "report.comments": "Comentarios",
+  "report.cardsDiscussed": "Tarjetas Comentadas",
+  "report.commenters": "Autores de Comentarios",
+  "report.unresolvedThreads": "Conversaciones sin Resolver",
+  "report.mostDiscussedCards": "Tarjetas Más Comentadas",
+  "report.participants": "Participantes",
+  "report.lastComment": "Último Comentario",
+  "report.commentsByMember": "Comentarios por Miembro",
+  "report.unresolvedThreadsIntro": "Tarjetas abiertas con {count} o más comentarios en el período:",
+  "report.personCount": { one: "{count} persona", other: "{count} personas" },
+  "report.threadSummary": "{comments} de {people}, el último el {date}",
+  "report.storyPoints": "Story Points",
+  "report.pointsField": 'Los puntos se leen del campo personalizado "{field}".',
+  "report.pointsCompleted": "Puntos Completados",
+  "report.pointsAcross": "{points} en {cards}",
+  "report.velocity": "Velocidad",
+  "report.pointsPerWeek": "{points} puntos/semana",
+  "report.completedWithoutPoints": "Tarjetas Completadas sin Puntos",
+  "report.openPoints": "Puntos Abiertos en el Tablero",
+  "report.pointsBy": "Puntos por {name}",
+  "report.openCards": "Tarjetas Abiertas",
+  "report.completed": "Completadas",
+  "report.workSummary": "Resumen del Trabajo",
+  "report.completedFeatures": "Funcionalidades Completadas",
+  "report.viewCard": "Ver Tarjeta",
+  "report.keyCards": "Tarjetas Clave",
+  "report.keyCardsIntro": "Estas tarjetas tuvieron más actividad durante este período:",
+  "report.assignedTo": "Asignada a",
+  "report.labels": "Etiquetas",
+  "report.due": "Vencimiento",
+  "report.dueCompleted": "(Completada)",
+  "report.checklistItemsComplete": "{done}/{total} elementos completados",
+  "report.recentComments": "Comentarios Recientes",
+  "report.viewOnTrello": "Ver Tarjeta en Trello",
+  "report.workInProgress": "Trabajo en Curso",
+  "report.dueDate": "Vence: {date}",
+  "report.daysInList": "{days} en la lista",
+  "report.stale": "estancada",
+  "report.agingWork": "Antigüedad del Trabajo",
+  "report.agingWorkIntro":
+    "Cuánto tiempo llevan en su lista actual las tarjetas abiertas que ya salieron del backlog, a fecha de {date}.",
+  "report.ageInList": "Antigüedad en Lista",
+  "report.oldestCards": "Tarjetas Más Antiguas",
+  "report.inListSince": "En la Lista Desde",
+  "report.age": "Antigüedad",
+  "report.idle": "Sin Actividad",
+  "report.lastActivityFallback":
+    "La entrada en la lista quedó fuera del período del informe, así que se usa la última actividad de la tarjeta.",
+  "report.staleCards": "Tarjetas Estancadas",
+  "report.staleCardsIntro": {
+    one: "Tarjetas abiertas sin actividad desde hace {count} día o más:",
+    other: "Tarjetas abiertas sin actividad desde hace {count} días o más:",
+  },
+  "report.staleSince": "última actividad el {date}, hace {days}",
+  "report.summary": "Resumen",
+  "report.summaryCovers":
+    "Este informe cubre la actividad del tablero de Trello {board} durante {period} ({range}).",
+  "report.totalActivity": {
+    one: "Actividad total: {count} acción registrada.",
+    other: "Actividad total: {count} acciones registradas.",
+  },
+  "report.generatedOn": "Informe generado el {date}",
+
+  // Workspace and member reports
+  "rollup.affectedBoards": "Tableros afectados: {boards}",
+  "rollup.totalActions": "Total de Acciones",
+  "rollup.boardBreakdown": "Desglose por Tablero",
+  "rollup.board": "Tablero",
+  "rollup.boards": "Tableros",
+  "rollup.actions": "Acciones",
+  "rollup.created": "Creadas",
+  "rollup.moved": "Movidas",
+  "workspace.title": {
+    one: "Informe del Espacio de Trabajo: {count} Tablero",
+    other: "Informe del Espacio de Trabajo: {count} Tableros",
+  },
+  "workspace.activeCards": "Tarjetas Activas",
+  "member.title": "Informe del Miembro: {name} (@{username})",
+  "member.moveCount": { one: "{count} movimiento", other: "{count} movimientos" },
+  "member.cardsCommentedOn": "Tarjetas Comentadas",
+  "member.checklistItemsCompleted": "Elementos de Checklist Completados",
+  "member.cardsAssigned": "Tarjetas Asignadas Actualmente",
+  "member.checklistItems": "Elementos de Checklist",
+  "member.assigned": "Asignadas",
+  "member.currentlyAssigned": "Asignadas Actualmente",
+  "member.topLabels": "Etiquetas Principales",
+  "member.andMore": "...y {count} más",
+  "member.noActivity": "No se encontró actividad de {name} en este período.",
+
+  // HTML report
+  "html.openBoard": "Abrir tablero",
+  "html.stage": "Etapa",
+  "html.averageTimeInList": "Tiempo Medio en la Lista",
+  "html.activeCards": "Tarjetas Activas",
+  "html.from": "Desde",
+  "html.to": "Hacia",
+  "html.measure": "Medida",
+  "html.value": "Valor",
+  "html.author": "Autor",
+  "stage.backlog": "Backlog",
+  "stage.todo": "Por Hacer",
+  "stage.inProgress": "En Curso",
+  "stage.review": "Revisión",
+  "stage.blocked": "Bloqueado",
+  "stage.done": "Hecho",
+  "stage.other": "Otro",
+
+  // Work summary
+  "work.noneCompleted": "No se completó trabajo durante este período.",
+  "work.completed": "Durante este período, el equipo completó {cards}.",
+  "work.labelItems": { one: "{count} elemento de {label}", other: "{count} elementos de {label}" },
+  "work.included": "Esto incluyó {items}.",
+  "work.keyItems": "Entre los elementos completados destacan: {cards}.",
+
+  // Summary report
+  "summary.title": "{board} - Resumen de {period}",
+  "summary.overallActivity": "Actividad General",
+  "summary.recorded": "Durante {period} ({range}), el equipo registró {activities} en {cards}.",
+  "summary.activityCount": { one: "{count} actividad", other: "{count} actividades" },
+  "summary.activityBreakdown": "Hubo {created}, {moves} y {comments}.",
+  "summary.cardsCreated": { one: "{count} tarjeta nueva creada", other: "{count} tarjetas nuevas creadas" },
+  "summary.cardMoves": { one: "{count} movimiento de tarjetas", other: "{count} movimientos de tarjetas" },
+  "summary.commentsAdded": { one: "{count} comentario añadido", other: "{count} comentarios añadidos" },
+  "summary.comparedWith": "Comparado con {period}",
+  "summary.cardsCreatedMetric": "Tarjetas creadas",
+  "summary.cardsCompletedMetric": "Tarjetas completadas",
+  "summary.cardMovesMetric": "Movimientos de tarjetas",
+  "summary.commentsMetric": "Comentarios",
+  "summary.activeMembersMetric": "Miembros activos",
+  "summary.completionsByLabel": "Completadas por etiqueta",
+  "summary.teamActivity": "Actividad del Equipo",
+  "summary.mostActiveMembers": "Los miembros más activos del equipo fueron: {members}.",
+  "summary.workCompleted": "Trabajo Completado",
+  "summary.deliverySpeed": "Velocidad de Entrega",
+  "summary.leadTime": {
+    one: "La tarjeta completada en este período se entregó {p50} después de su creación.",
+    other:
+      "La mitad de las {count} tarjetas completadas en este período se entregó en {p50} o menos desde su creación, y el 85% en {p85} o menos.",
+  },
+  "summary.cycleTime":
+    "Una vez iniciado el trabajo, el tiempo de ciclo mediano fue de {p50} (percentil 85: {p85}).",
+  "summary.dueDates": "Fechas de Vencimiento",
+  "summary.onTime": {
+    one: "Entregas a tiempo: {onTime} de {count} tarjeta con vencimiento completada en este período ({percent}%).",
+    other:
+      "Entregas a tiempo: {onTime} de las {count} tarjetas con vencimiento completadas en este período ({percent}%).",
+  },
+  "summary.averageSlip": "Las tarjetas atrasadas se retrasaron {days} en promedio.",
+  "summary.overdueAndDueSoon": "{overdue} y {dueSoon}.",
+  "summary.overdue": { one: "{count} tarjeta está vencida", other: "{count} tarjetas están vencidas" },
+  "summary.dueSoon": {
+    one: "{count} vence en los próximos {days} días",
+    other: "{count} vencen en los próximos {days} días",
+  },
+  "summary.checklists": "Checklists",
+  "summary.checklistItemsCompleted": {
+    one: "Se completó {count} elemento de checklist en este período.",
+    other: "Se completaron {count} elementos de checklist en este período.",
+  },
+  "summary.checklistProgress":
+    "En las tarjetas abiertas, {done} de {total} elementos están hechos ({percent}%)",
+  "summary.checklistDoneWithOpenItems": {
+    one: ", y {count} tarjeta en una lista de terminadas todavía tiene elementos pendientes.",
+    other: ", y {count} tarjetas en una lista de terminadas todavía tienen elementos pendientes.",
+  },
+  "summary.storyPoints": "Story Points",
+  "summary.pointsCompleted":
+    "El equipo completó {points} puntos ({velocity} por semana), con {open} puntos todavía abiertos en el tablero.",
+  "summary.discussions": "Conversaciones",
+  "summary.commentsAcross": {
+    one: "Se añadió {count} comentario en {cards}.",
+    other: "Se añadieron {count} comentarios en {cards}.",
+  },
+  "summary.mostDiscussed": 'La tarjeta más comentada fue "{card}", con {comments}.',
+  "summary.unresolvedThreads": {
+    one: "{count} tarjeta abierta tiene conversaciones largas sin resolver: {cards}.",
+    other: "{count} tarjetas abiertas tienen conversaciones largas sin resolver: {cards}.",
+  },
+  "summary.keyFocusAreas": "Áreas de Enfoque",
+  "summary.keyFocusIntro": "El equipo se centró principalmente en estos elementos:",
+  "summary.workflowAnalysis": "Análisis del Flujo de Trabajo",
+  "summary.slowestList":
+    'Una vez iniciado el trabajo, las tarjetas pasaron más tiempo en "{list}" (mediana de {median}, hasta {max} en {stays}).',
+  "summary.stayCount": { one: "{count} estancia", other: "{count} estancias" },
+  "summary.nextSlowestList": 'Le siguió "{list}", con una mediana de {median}.',
+  "summary.currentWork": "Trabajo Actual",
+  "summary.inProgress": {
+    one: "Actualmente hay {count} tarjeta en curso.",
+    other: "Actualmente hay {count} tarjetas en curso.",
+  },
+  "summary.inList": '{count} en "{list}"',
+  "summary.includes": "Esto incluye {items}.",
+  "summary.agingWork": "Antigüedad del Trabajo",
+  "summary.oldestWork": "El trabajo en curso más antiguo es {cards}.",
+  "summary.staleCards": {
+    one: "{count} tarjeta abierta lleva {days} días o más sin actividad.",
+    other: "{count} tarjetas abiertas llevan {days} días o más sin actividad.",
+  },
+  "summary.noStaleCards": "Ninguna tarjeta abierta ha pasado {days} días sin actividad.",
+  "summary.recommendations": "Recomendaciones",
+  "summary.oldestInProgress": "Las tarjetas en curso más antiguas son {cards}.",
+  "summary.noneCompleted": "No se completaron tarjetas durante este período.",
+  "summary.investigate": "Conviene investigar por qué.",
+  "summary.lowCompletion": "La tasa de finalización parece inferior a la óptima.",
+  "summary.reviewWorkflow": "Conviene revisar el flujo de trabajo en busca de cuellos de botella.",
+  "summary.followUp":
+    "Haz seguimiento de {cards}: comprueba si están bloqueadas o devuélvelas al backlog.",
+  "summary.mainBottleneck":
+    '"{list}" es el principal cuello de botella: las tarjetas esperaron allí una mediana de {median}{comparison}. Considera limitar el trabajo en curso o añadir capacidad en esta etapa.',
+  "summary.bottleneckComparison": ', frente a {median} en "{list}"',
+  "summary.outliers": 'Algunas tarjetas pasaron hasta {max} en "{list}", frente a una mediana de {median}.',
+  "summary.checkStuckCards": "Revisa si {cards} tienen bloqueos.",
+  "summary.checkOutliers": "Revisa si estos casos atípicos tienen bloqueos.",
+  "summary.doneWithOpenItems": {
+    one: '{count} tarjeta se marcó como terminada con elementos de checklist pendientes (p. ej. "{card}"). Confirma que los elementos restantes se descartaron a propósito.',
+    other:
+      '{count} tarjetas se marcaron como terminadas con elementos de checklist pendientes (p. ej. "{card}"). Confirma que los elementos restantes se descartaron a propósito.',
+  },
+};
@@ -0,0 +1,372 @@
+/**
+ * Portuguese (Brazil) report messages
+ */
+
+import { MessageCatalog } from "../i18n.js";
+
+export const pt: MessageCatalog = {
+  // Shared words
+  "common.unknown": "Desconhecido",
+  "common.unknownList": "Lista Desconhecida",
+  "common.unknownMember": "Membro Desconhecido",
+  "common.noName": "(sem nome)",
+  "common.dateRange": "{start} a {end}",
+  "common.cardCount": { one: "{count} cartão", other: "{count} cartões" },
+  "common.commentCount": { one: "{count} comentário", other: "{count} comentários" },
+  "list.and": "e",
+  "list.or": "ou",
+
+  // Report periods
+  "period.year": "Ano {year}",
+  "period.fiscalYear": "Ano Fiscal {year}",
+  "period.fiscalYearLabel": "AF{year}",
+  "period.firstQuarter": "Primeiro Trimestre",
+  "period.secondQuarter": "Segundo Trimestre",
+  "period.thirdQuarter": "Terceiro Trimestre",
+  "period.fourthQuarter": "Quarto Trimestre",
+  "period.quarter": "{quarter} de {year}",
+  "period.month": "{month} de {year}",
+  "period.week": "Semana {week} de {year}",
+  "period.lastDays": { one: "Último Dia", other: "Últimos {count} Dias" },
+  "period.custom": "Período Personalizado",
+
+  // Notices at the top of reports
+  "notice.truncatedTitle": "Atenção",
+  "notice.truncated":
+    "Este relatório se baseia apenas nas {count} ações mais recentes. O histórico de ações do período foi cortado pelo limite de páginas, então as contagens podem estar abaixo do real. Aumente `maxActionPages` para buscar o histórico completo.",
+  "notice.filteredTitle": "Relatório filtrado",
+  "notice.filtered": "Este relatório cobre apenas {description}. Ações no nível do quadro ficam de fora.",
+
+  // Filter descriptions
+  "filter.label": "etiqueta {names}",
+  "filter.member": "membro {names}",
+  "filter.list": "lista {names}",
+  "filter.text": 'texto "{query}"',
+  "filter.cardsWith": "cartões com {criteria}",
+  "filter.allCards": "todos os cartões",
+  "filter.excluding": "exceto cartões com {criteria}",
+
+  // Period comparison, cumulative flow and aging descriptions
+  "comparison.new": "novo",
+  "flow.grew": 'O trabalho em "{list}" cresceu de {start} para {end} cartões.',
+  "flow.starved": '"{list}" ficou vazia em {empty} de {total} dias, então pode estar sem trabalho chegando.',
+  "aging.cardAge": '"{card}" ({age} em "{list}")',
+  "aging.cardIdle": '"{card}" ({idle} sem atividade, em "{list}")',
+  "aging.more": "mais {count}",
+  "aging.under3Days": "Menos de 3 dias",
+  "aging.3to7Days": "3-7 dias",
+  "aging.1to2Weeks": "1-2 semanas",
+  "aging.2to4Weeks": "2-4 semanas",
+  "aging.4WeeksOrMore": "4 semanas ou mais",
+  "customField.noValue": "(nenhum)",
+
+  // Full report
+  "report.title": "Relatório do Quadro do Trello: {board}",
+  "report.reportPeriod": "Período do Relatório: {period}",
+  "report.dateRange": "Intervalo de Datas: {range}",
+  "report.boardOverview": "Visão Geral do Quadro",
+  "report.boardName": "Nome do Quadro",
+  "report.description": "Descrição",
+  "report.url": "URL",
+  "report.lastActivity": "Última Atividade",
+  "report.lists": "Listas",
+  "report.cards": "Cartões",
+  "report.members": "Membros",
+  "report.cardsTotal": "{total} no total, {active} ativos neste período",
+  "report.activitySummary": "Resumo de Atividades",
+  "report.cardsCreated": "Cartões Criados",
+  "report.cardsCompleted": "Cartões Concluídos",
+  "report.cardsMoved": "Cartões Movidos",
+  "report.commentsAdded": "Comentários Adicionados",
+  "report.activeMembers": "Membros Ativos",
+  "report.mostActiveList": "Lista Mais Ativa",
+  "report.comparisonTitle": "Comparação com {period}",
+  "report.metric": "Métrica",
+  "report.thisPeriod": "Este Período",
+  "report.previous": "Anterior",
+  "report.change": "Variação",
+  "report.completionsByLabel": "Conclusões por Etiqueta",
+  "report.label": "Etiqueta",
+  "report.listBreakdown": "Detalhamento por Lista",
+  "report.listName": "Nome da Lista",
+  "report.activity": "Atividade",
+  "report.memberActivity": "Atividade dos Membros",
+  "report.member": "Membro",
+  "report.labelUsage": "Uso de Etiquetas",
+  "report.color": "Cor",
+  "report.usage": "Uso",
+  "report.cardFlow": "Fluxo de Cartões",
+  "report.cardFlowIntro": "Esta seção mostra como os cartões se moveram entre listas durante o período.",
+  "report.fromList": 'De "{list}"',
+  "report.toList": 'Para "{list}"',
+  "report.noCardFlow": "Nenhum fluxo de cartões relevante detectado neste período.",
+  "report.timeInList": "Tempo na Lista",
+  "report.timeInListIntro":
+    "Quanto tempo os cartões ficaram em cada lista durante o período, com base nas suas transições entre listas.",
+  "report.list": "Lista",
+  "report.stays": "Passagens",
+  "report.average": "Média",
+  "report.median": "Mediana",
+  "report.max": "Máximo",
+  "report.slowestList":
+    "Depois de iniciado o trabalho, os cartões esperaram mais em **{list}** (mediana de {median}).",
+  "report.cumulativeFlow": "Fluxo Cumulativo",
+  "report.cumulativeFlowIntro": "Cartões em cada lista ao fim do dia, amostrados ao longo do período.",
+  "report.date": "Data",
+  "report.cycleLeadTime": "Tempo de Ciclo e Lead Time",
+  "report.cycleLeadTimeIntro":
+    "O lead time vai da criação do cartão até a conclusão. O tempo de ciclo vai da primeira entrada em uma lista em andamento até a conclusão.",
+  "report.leadTime": "Lead Time",
+  "report.cycleTime": "Tempo de Ciclo",
+  "report.leadPercentile": "Lead {percentile}",
+  "report.cyclePercentile": "Ciclo {percentile}",
+  "report.byField": "Por {name}",
+  "report.longestLeadTimes": "Maiores Lead Times",
+  "report.leadTimeOf": "lead time de {days}",
+  "report.cycleTimeOf": "tempo de ciclo de {days}",
+  "report.dueDates": "Prazos",
+  "report.cardsDueInPeriod": "Cartões com Prazo no Período",
+  "report.completedOnTime": "Concluídos no Prazo",
+  "report.completedLate": "Concluídos com Atraso",
+  "report.onTimeRate": "Taxa de Entrega no Prazo",
+  "report.averageSlip": "Atraso Médio (cartões atrasados)",
+  "report.currentlyOverdue": "Atrasados Agora",
+  "report.dueSoon": { one: "Vencem no Próximo Dia", other: "Vencem nos Próximos {count} Dias" },
+  "report.dueInPeriod": "Prazo no Período",
+  "report.onTime": "No Prazo",
+  "report.late": "Com Atraso",
+  "report.overdue": "Atrasados",
+  "report.overdueCards": "Cartões Atrasados",
+  "report.dueOn": "prazo {date}",
+  "report.overdueBy": "{days} de atraso",
+  "report.checklists": "Checklists",
+  "report.itemsCompletedInPeriod": "Itens Concluídos no Período",
+  "report.openCardsWithChecklists": "Cartões Abertos com Checklists",
+  "report.itemsDoneOnOpenCards": "Itens Feitos em Cartões Abertos",
+  "report.itemsDoneOf": "{done} de {total} ({percent}%)",
+  "report.doneCardsWithOpenItems": "Cartões Concluídos com Itens Pendentes",
+  "report.itemsCompletedByMember": "Itens Concluídos por Membro",
+  "report.itemsCompleted": "Itens Concluídos",
+  "report.checklistProgress": "Progresso dos Checklists",
+  "report.card": "Cartão",
+  "report.progress": "Progresso",
+  "report.openItems": "Itens Pendentes",
+  "report.doneWithOpenItems": "{done}/{total} feitos, pendentes: {items}",
+  "report.moreItems": "+{count} outros",
+  "report.comments": "Comentários",
+  "report.cardsDiscussed": "Cartões Discutidos",
+  "report.commenters": "Autores de Comentários",
+  "report.unresolvedThreads": "Discussões em Aberto",
+  "report.mostDiscussedCards": "Cartões Mais Discutidos",
+  "report.participants": "Participantes",
+  "report.lastComment": "Último Comentário",
+  "report.commentsByMember": "Comentários por Membro",
+  "report.unresolvedThreadsIntro": "Cartões abertos com {count} ou mais comentários no período:",
+  "report.personCount": { one: "{count} pessoa", other: "{count} pessoas" },
+  "report.threadSummary": "{comments} de {people}, o último em {date}",
+  "report.storyPoints": "Story Points",
+  "report.pointsField": 'Os pontos vêm do campo personalizado "{field}".',
+  "report.pointsCompleted": "Pontos Concluídos",
+  "report.pointsAcross": "{points} em {cards}",
+  "report.velocity": "Velocidade",
+  "report.pointsPerWeek": "{points} pontos/semana",
+  "report.completedWithoutPoints": "Cartões Concluídos sem Pontos",
+  "report.openPoints": "Pontos em Aberto no Quadro",
+  "report.pointsBy": "Pontos por {name}",
+  "report.openCards": "Cartões Abertos",
+  "report.completed": "Concluídos",
+  "report.workSummary": "Resumo do Trabalho",
+  "report.completedFeatures": "Funcionalidades Concluídas",
+  "report.viewCard": "Ver Cartão",
+  "report.keyCards": "Cartões em Destaque",
+  "report.keyCardsIntro": "Estes cartões tiveram mais atividade durante este período:",
+  "report.assignedTo": "Responsáveis",
+  "report.labels": "Etiquetas",
+  "report.due": "Prazo",
+  "report.dueCompleted": "(Concluído)",
+  "report.checklistItemsComplete": "{done}/{total} itens concluídos",
+  "report.recentComments": "Comentários Recentes",
+  "report.viewOnTrello": "Ver Cartão no Trello",
+  "report.workInProgress": "Trabalho em Andamento",
+  "report.dueDate": "Prazo: {date}",
+  "report.daysInList": "{days} na lista",
+  "report.stale": "parado",
+  "report.agingWork": "Envelhecimento do Trabalho",
+  "report.agingWorkIntro":
+    "Há quanto tempo os cartões abertos que já saíram do backlog estão na lista atual, em {date}.",
+  "report.ageInList": "Idade na Lista",
+  "report.oldestCards": "Cartões Mais Antigos",
+  "report.inListSince": "Na Lista Desde",
+  "report.age": "Idade",
+  "report.idle": "Sem Atividade",
+  "report.lastActivityFallback":
+    "A entrada na lista ficou fora do período do relatório, então é usada a última atividade do cartão.",
+  "report.staleCards": "Cartões Parados",
+  "report.staleCardsIntro": {
+    one: "Cartões abertos sem atividade há {count} dia ou mais:",
+    other: "Cartões abertos sem atividade há {count} dias ou mais:",
+  },
+  "report.staleSince": "última atividade em {date}, há {days}",
+  "report.summary": "Resumo",
+  "report.summaryCovers":
+    "Este relatório cobre a atividade do quadro do Trello {board} durante {period} ({range}).",
+  "report.totalActivity": {
+    one: "Atividade total: {count} ação registrada.",
+    other: "Atividade total: {count} ações registradas.",
+  },
+  "report.generatedOn": "Relatório gerado em {date}",
+
+  // Workspace and member reports
+  "rollup.affectedBoards": "Quadros afetados: {boards}",
+  "rollup.totalActions": "Total de Ações",
+  "rollup.boardBreakdown": "Detalhamento por Quadro",
+  "rollup.board": "Quadro",
+  "rollup.boards": "Quadros",
+  "rollup.actions": "Ações",
+  "rollup.created": "Criados",
+  "rollup.moved": "Movidos",
+  "workspace.title": {
+    one: "Relatório do Workspace: {count} Quadro",
+    other: "Relatório do Workspace: {count} Quadros",
+  },
+  "workspace.activeCards": "Cartões Ativos",
+  "member.title": "Relatório do Membro: {name} (@{username})",
+  "member.moveCount": { one: "{count} movimentação", other: "{count} movimentações" },
+  "member.cardsCommentedOn": "Cartões Comentados",
+  "member.checklistItemsCompleted": "Itens de Checklist Concluídos",
+  "member.cardsAssigned": "Cartões Atribuídos Atualmente",
+  "member.checklistItems": "Itens de Checklist",
+  "member.assigned": "Atribuídos",
+  "member.currentlyAssigned": "Atribuídos Atualmente",
+  "member.topLabels": "Principais Etiquetas",
+  "member.andMore": "...e mais {count}",
+  "member.noActivity": "Nenhuma atividade de {name} foi encontrada neste período.",
+
+  // HTML report
+  "html.openBoard": "Abrir quadro",
+  "html.stage": "Etapa",
+  "html.averageTimeInList": "Tempo Médio na Lista",
+  "html.activeCards": "Cartões Ativos",
+  "html.from": "De",
+  "html.to": "Para",
+  "html.measure": "Medida",
+  "html.value": "Valor",
+  "html.author": "Autor",
+  "stage.backlog": "Backlog",
+  "stage.todo": "A Fazer",
+  "stage.inProgress": "Em Andamento",
+  "stage.review": "Revisão",
+  "stage.blocked": "Bloqueado",
+  "stage.done": "Concluído",
+  "stage.other": "Outro",
+
+  // Work summary
+  "work.noneCompleted": "Nenhum trabalho foi concluído durante este período.",
+  "work.completed": "Durante este período, a equipe concluiu {cards}.",
+  "work.labelItems": { one: "{count} item de {label}", other: "{count} itens de {label}" },
+  "work.included": "Isso incluiu {items}.",
+  "work.keyItems": "Entre os principais itens concluídos estão: {cards}.",
+
+  // Summary report
+  "summary.title": "{board} - Resumo de {period}",
+  "summary.overallActivity": "Atividade Geral",
+  "summary.recorded": "Durante {period} ({range}), a equipe registrou {activities} em {cards}.",
+  "summary.activityCount": { one: "{count} atividade", other: "{count} atividades" },
+  "summary.activityBreakdown": "Foram {created}, {moves} e {comments}.",
+  "summary.cardsCreated": { one: "{count} cartão novo criado", other: "{count} cartões novos criados" },
+  "summary.cardMoves": { one: "{count} movimentação de cartão", other: "{count} movimentações de cartões" },
+  "summary.commentsAdded": { one: "{count} comentário adicionado", other: "{count} comentários adicionados" },
+  "summary.comparedWith": "Comparado com {period}",
+  "summary.cardsCreatedMetric": "Cartões criados",
+  "summary.cardsCompletedMetric": "Cartões concluídos",
+  "summary.cardMovesMetric": "Movimentações de cartões",
+  "summary.commentsMetric": "Comentários",
+  "summary.activeMembersMetric": "Membros ativos",
+  "summary.completionsByLabel": "Conclusões por etiqueta",
+  "summary.teamActivity": "Atividade da Equipe",
+  "summary.mostActiveMembers": "Os membros mais ativos da equipe foram: {members}.",
+  "summary.workCompleted": "Trabalho Concluído",
+  "summary.deliverySpeed": "Velocidade de Entrega",
+  "summary.leadTime": {
+    one: "O cartão concluído neste período foi entregue {p50} após a criação.",
+    other:
+      "Metade dos {count} cartões concluídos neste período foi entregue em até {p50} após a criação, e 85% em até {p85}.",
+  },
+  "summary.cycleTime":
+    "Depois de iniciado o trabalho, o tempo de ciclo mediano foi de {p50} (percentil 85: {p85}).",
+  "summary.dueDates": "Prazos",
+  "summary.onTime": {
+    one: "Entregas no prazo: {onTime} de {count} cartão com prazo concluído neste período ({percent}%).",
+    other: "Entregas no prazo: {onTime} dos {count} cartões com prazo concluídos neste período ({percent}%).",
+  },
+  "summary.averageSlip": "Os cartões atrasados atrasaram {days} em média.",
+  "summary.overdueAndDueSoon": "{overdue} e {dueSoon}.",
+  "summary.overdue": { one: "{count} cartão está atrasado agora", other: "{count} cartões estão atrasados agora" },
+  "summary.dueSoon": {
+    one: "{count} vence nos próximos {days} dias",
+    other: "{count} vencem nos próximos {days} dias",
+  },
+  "summary.checklists": "Checklists",
+  "summary.checklistItemsCompleted": {
+    one: "{count} item de checklist foi concluído neste período.",
+    other: "{count} itens de checklist foram concluídos neste período.",
+  },
+  "summary.checklistProgress": "Nos cartões abertos, {done} de {total} itens estão feitos ({percent}%)",
+  "summary.checklistDoneWithOpenItems": {
+    one: ", e {count} cartão em uma lista de concluídos ainda tem itens pendentes.",
+    other: ", e {count} cartões em uma lista de concluídos ainda têm itens pendentes.",
+  },
+  "summary.storyPoints": "Story Points",
+  "summary.pointsCompleted":
+    "A equipe concluiu {points} pontos ({velocity} por semana), com {open} pontos ainda em aberto no quadro.",
+  "summary.discussions": "Discussões",
+  "summary.commentsAcross": {
+    one: "{count} comentário foi adicionado em {cards}.",
+    other: "{count} comentários foram adicionados em {cards}.",
+  },
+  "summary.mostDiscussed": 'O cartão mais discutido foi "{card}", com {comments}.',
+  "summary.unresolvedThreads": {
+    one: "{count} cartão aberto tem discussões longas ainda por resolver: {cards}.",
+    other: "{count} cartões abertos têm discussões longas ainda por resolver: {cards}.",
+  },
+  "summary.keyFocusAreas": "Principais Focos",
+  "summary.keyFocusIntro": "A equipe se concentrou principalmente nestes itens:",
+  "summary.workflowAnalysis": "Análise do Fluxo de Trabalho",
+  "summary.slowestList":
+    'Depois de iniciado o trabalho, os cartões passaram mais tempo em "{list}" (mediana de {median}, até {max} em {stays}).',
+  "summary.stayCount": { one: "{count} passagem", other: "{count} passagens" },
+  "summary.nextSlowestList": '"{list}" veio em seguida, com mediana de {median}.',
+  "summary.currentWork": "Trabalho Atual",
+  "summary.inProgress": {
+    one: "Há {count} cartão em andamento no momento.",
+    other: "Há {count} cartões em andamento no momento.",
+  },
+  "summary.inList": '{count} em "{list}"',
+  "summary.includes": "Isso inclui {items}.",
+  "summary.agingWork": "Envelhecimento do Trabalho",
+  "summary.oldestWork": "O trabalho em andamento mais antigo é {cards}.",
+  "summary.staleCards": {
+    one: "{count} cartão aberto está sem atividade há {days} dias ou mais.",
+    other: "{count} cartões abertos estão sem atividade há {days} dias ou mais.",
+  },
+  "summary.noStaleCards": "Nenhum cartão aberto ficou {days} dias sem atividade.",
+  "summary.recommendations": "Recomendações",
+  "summary.oldestInProgress": "Os cartões em andamento mais antigos são {cards}.",
+  "summary.noneCompleted": "Nenhum cartão foi concluído durante este período.",
+  "summary.investigate": "Vale investigar o motivo.",
+  "summary.lowCompletion": "A taxa de conclusão parece abaixo do ideal.",
+  "summary.reviewWorkflow": "Vale revisar o fluxo de trabalho em busca de gargalos.",
+  "summary.followUp":
+    "Acompanhe {cards}: verifique se estão bloqueados ou devolva-os ao backlog.",
+  "summary.mainBottleneck":
+    '"{list}" é o principal gargalo: os cartões esperaram ali uma mediana de {median}{comparison}. Considere limitar o trabalho em andamento ou reforçar a capacidade nesta etapa.',
+  "summary.bottleneckComparison": ', contra {median} em "{list}"',
+  "summary.outliers": 'Alguns cartões ficaram em "{list}" por até {max}, contra uma mediana de {median}.',
+  "summary.checkStuckCards": "Verifique bloqueios em {cards}.",
+  "summary.checkOutliers": "Verifique bloqueios nesses casos fora da curva.",
+  "summary.doneWithOpenItems": {
+    one: '{count} cartão foi marcado como concluído com itens de checklist pendentes (ex.: "{card}"). Confirme que os itens restantes foram descartados de propósito.',
+    other:
+      '{count} cartões foram marcados como concluídos com itens de checklist pendentes (ex.: "{card}"). Confirme que os itens restantes foram descartados de propósito.',
+  },
+};
@@ -0,0 +1,102 @@
+/**
+ * Tests for the activity metrics of an individual board member
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { calculateMemberActivity, findMember } from "./memberActivity.js";
+import { resolveBoardWorkflow } from "./workflow.js";
+
+/**
+ * Get midnight UTC of a day in June 2024
+ */
+function day(dayOfMonth: number): Date {
+  return new Date(Date.UTC(2024, 5, dayOfMonth));
+}
+
+/**
+ * Build a board where Ana and Bruno share the work
+ */
+function createTeamBoard() {
+  const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+  const ana = builder.member("Ana Souza");
+  const bruno = builder.member("Bruno Lima");
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+  const label = builder.label("Feature");
+
+  const shipped = builder.card("Shipped", todo, day(3), { idLabels: [label.id] }, ana);
+  builder.move(shipped, done, day(5), ana);
+
+  // Assigned to Ana, completed by Bruno
+  const assigned = builder.card("Assigned", todo, day(4), { idMembers: [ana.id] }, bruno);
+  builder.move(assigned, done, day(6), bruno);
+
+  const open = builder.card("Open", todo, day(7), { idMembers: [ana.id] }, bruno);
+  builder.comment(open, day(8), "On it", ana);
+  builder.comment(open, day(9), "Almost there", ana);
+
+  return { builder, ana, bruno, open };
+}
+
+describe("findMember", () => {
+  it("finds members by ID, username or full name", () => {
+    const { builder, ana } = createTeamBoard();
+
+    assert.equal(findMember(builder.members, ana.id), ana);
+    assert.equal(findMember(builder.members, "@anasouza"), ana);
+    assert.equal(findMember(builder.members, "ana souza"), ana);
+    assert.equal(findMember(builder.members, "Carla"), undefined);
+  });
+});
+
+describe("calculateMemberActivity", () => {
+  it("counts the member's own actions and the cards assigned to them", () => {
+    const { builder, ana } = createTeamBoard();
+    const { board, lists, cards, labels, actions } = builder;
+
+    const activity = calculateMemberActivity(
+      ana.id,
+      board,
+      lists,
+      cards,
+      labels,
+      actions,
+      false,
+      resolveBoardWorkflow(lists)
+    );
+
+    assert.equal(activity.actionCount, 4);
+    assert.deepEqual(activity.cardsCreated.map((card) => card.name), ["Shipped"]);
+    assert.equal(activity.moveCount, 1);
+    assert.deepEqual(activity.cardsCompleted.map((card) => card.name).sort(), ["Assigned", "Shipped"]);
+    assert.equal(activity.commentCount, 2);
+    assert.deepEqual(activity.cardsCommented.map((card) => card.name), ["Open"]);
+    assert.deepEqual(activity.assignedCards.map((card) => card.name).sort(), ["Assigned", "Open"]);
+    assert.equal(activity.labelStats.get("feature")?.cards, 1);
+  });
+
+  it("counts each checklist item once, by its last state in the period", () => {
+    const { builder, ana, bruno, open } = createTeamBoard();
+    const [toggled, unchecked, byBruno] = builder.checklist(open, "Definition of Done", [
+      ["Design", "complete"],
+      ["Implement", "incomplete"],
+      ["Test", "complete"],
+    ]).checkItems;
+
+    builder.checkItem(open, toggled, "complete", day(10), ana);
+    builder.checkItem(open, toggled, "incomplete", day(11), ana);
+    builder.checkItem(open, toggled, "complete", day(12), ana);
+    builder.checkItem(open, unchecked, "complete", day(10), ana);
+    builder.checkItem(open, unchecked, "incomplete", day(11), ana);
+    builder.checkItem(open, byBruno, "complete", day(10), ana);
+    builder.checkItem(open, byBruno, "incomplete", day(11), bruno);
+    builder.checkItem(open, byBruno, "complete", day(12), bruno);
+
+    const { board, lists, cards, labels, actions } = builder;
+    const activity = calculateMemberActivity(ana.id, board, lists, cards, labels, actions, false);
+
+    assert.equal(activity.checkItemsCompleted, 1);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Activity metrics for an individual board member
+ */
+
+import {
+  BoardWorkflow,
+  MemberBoardActivity,
+  MemberCardRef,
+  MemberLabelStats,
+  TrelloAction,
+  TrelloBoard,
+  TrelloCard,
+  TrelloLabel,
+  TrelloList,
+  TrelloMember,
+} from "./types.js";
+import { DEFAULT_BOARD_WORKFLOW, isListInStage } from "./workflow.js";
+import { getLastCheckItemChanges } from "./checklists.js";
+
+/**
+ * Find a member by ID, username (with or without a leading @) or full name (case-insensitive)
+ */
+export function findMember(members: TrelloMember[], identifier: string): TrelloMember | undefined {
+  const normalized = identifier.trim().replace(/^@/, "").toLowerCase();
+
+  return (
+    members.find((member) => member.id === identifier.trim()) ||
+    members.find((member) => member.username.toLowerCase() === normalized) ||
+    members.find((member) => member.fullName.toLowerCase() === normalized)
+  );
+}
+
+/**
+ * Calculate what a member did on a board from the actions they created, plus the cards
+ * currently assigned to them
+ */
+export function calculateMemberActivity(
+  memberId: string,
+  board: TrelloBoard,
+  lists: TrelloList[],
+  cards: TrelloCard[],
+  labels: TrelloLabel[],
+  actions: TrelloAction[],
+  actionsTruncated: boolean,
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW
+): MemberBoardActivity {
+  const cardsById = new Map(cards.map((card) => [card.id, card]));
+  const listNames = new Map(lists.map((list) => [list.id, list.name]));
+
+  // Reference a card, falling back to the name recorded in the action for deleted cards
+  const toCardRef = (cardId: string, name?: string): MemberCardRef => {
+    const card = cardsById.get(cardId);
+    return {
+      id: cardId,
+      name: card?.name || name || cardId,
+      boardId: board.id,
+      listName: card ? listNames.get(card.idList) : undefined,
+      url: card?.url,
+    };
+  };
+
+  const created = new Map<string, MemberCardRef>();
+  const moved = new Map<string, MemberCardRef>();
+  const completed = new Map<string, MemberCardRef>();
+  const commented = new Map<string, MemberCardRef>();
+  const touchedCardIds = new Set<string>();
+  const completedByAnyone = new Set<string>();
+  let actionCount = 0;
+  let moveCount = 0;
+  let commentCount = 0;
+
+  actions.forEach((action) => {
+    const card = action.data.card;
+    const movedToDone =
+      action.type === "updateCard" &&
+      !!action.data.listAfter &&
+      isListInStage(workflow, action.data.listAfter, "done");
+
+    if (card && movedToDone) {
+      completedByAnyone.add(card.id);
+    }
+
+    if (action.idMemberCreator !== memberId) return;
+
+    actionCount++;
+    if (!card) return;
+    touchedCardIds.add(card.id);
+
+    switch (action.type) {
+      case "createCard":
+        created.set(card.id, toCardRef(card.id, card.name));
+        break;
+
+      case "updateCard":
+        if (action.data.listBefore && action.data.listAfter) {
+          moveCount++;
+          moved.set(card.id, toCardRef(card.id, card.name));
+          if (movedToDone) {
+            completed.set(card.id, toCardRef(card.id, card.name));
+          }
+        }
+        break;
+
+      case "commentCard":
+        commentCount++;
+        commented.set(card.id, toCardRef(card.id, card.name));
+        break;
+    }
+  });
+
+  // Checklist items the member left complete, counting each item once
+  let checkItemsCompleted = 0;
+  getLastCheckItemChanges(actions).forEach((action) => {
+    if (action.idMemberCreator === memberId && action.data.checkItem?.state === "complete") {
+      checkItemsCompleted++;
+    }
+  });
+
+  // Cards completed by someone else still count for the member they are assigned to
+  completedByAnyone.forEach((cardId) => {
+    const card = cardsById.get(cardId);
+    if (card && card.idMembers.includes(memberId) && !completed.has(cardId)) {
+      completed.set(cardId, toCardRef(cardId));
+      touchedCardIds.add(cardId);
+    }
+  });
+
+  const assignedCards = cards
+    .filter((card) => !card.closed && card.idMembers.includes(memberId))
+    .map((card) => toCardRef(card.id));
+
+  // Labels of the cards the member worked on
+  const labelStats = new Map<string, MemberLabelStats>();
+  touchedCardIds.forEach((cardId) => {
+    const card = cardsById.get(cardId);
+    if (!card) return;
+
+    card.idLabels.forEach((labelId) => {
+      const label = labels.find((l) => l.id === labelId);
+      if (!label || !label.name) return;
+
+      const key = label.name.toLowerCase();
+      const stats = labelStats.get(key) || { name: label.name, color: label.color, cards: 0 };
+      stats.cards++;
+      labelStats.set(key, stats);
+    });
+  });
+
+  return {
+    board,
+    actionCount,
+    actionsTruncated,
+    cardsCreated: [...created.values()],
+    cardsMoved: [...moved.values()],
+    moveCount,
+    cardsCompleted: [...completed.values()],
+    cardsCommented: [...commented.values()],
+    commentCount,
+    checkItemsCompleted,
+    assignedCards,
+    labelStats,
+  };
+}
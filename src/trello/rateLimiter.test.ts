@@ -0,0 +1,56 @@
+/**
+ * Tests for request concurrency and rate limit windows
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RequestLimiter, RequestWindow, sleep } from "./rateLimiter.js";
+
+describe("RequestLimiter", () => {
+  it("keeps at most maxConcurrent tasks in flight and returns every result", async () => {
+    const limiter = new RequestLimiter(2);
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await Promise.all(
+      [1, 2, 3, 4, 5, 6].map((value) =>
+        limiter.schedule(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await sleep(5);
+          active--;
+          return value * 10;
+        })
+      )
+    );
+
+    assert.equal(maxActive, 2);
+    assert.deepEqual(results, [10, 20, 30, 40, 50, 60]);
+  });
+
+  it("frees the slot of a failed task", async () => {
+    const limiter = new RequestLimiter(1);
+
+    await assert.rejects(
+      limiter.schedule(async () => {
+        throw new Error("failed");
+      }),
+      /failed/
+    );
+    assert.equal(await limiter.schedule(async () => "next"), "next");
+  });
+});
+
+describe("RequestWindow", () => {
+  it("delays requests past the limit until the window moves on", async () => {
+    const window = new RequestWindow(2, 100);
+    const start = Date.now();
+
+    await window.acquire();
+    await window.acquire();
+    assert.ok(Date.now() - start < 50);
+
+    await window.acquire();
+    assert.ok(Date.now() - start >= 95);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Concurrency and rate limiting for Trello API requests
+ */
+
+// Trello allows 300 requests per 10 seconds for each API key...
+export const API_KEY_REQUEST_LIMIT = 300;
+
+// ...and 100 requests per 10 seconds for each token
+export const API_TOKEN_REQUEST_LIMIT = 100;
+
+// Length of Trello's rate limit window
+export const RATE_LIMIT_INTERVAL_MS = 10000;
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sliding window allowing at most `limit` requests to start per `intervalMs`
+ */
+export class RequestWindow {
+  private limit: number;
+  private intervalMs: number;
+  private startTimes: number[] = [];
+
+  constructor(limit: number, intervalMs: number) {
+    this.limit = limit;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Wait until a request may start within the window, and record it
+   */
+  async acquire(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.startTimes = this.startTimes.filter((time) => time > now - this.intervalMs);
+
+      if (this.startTimes.length < this.limit) {
+        this.startTimes.push(now);
+        return;
+      }
+
+      await sleep(this.startTimes[0] + this.intervalMs - now);
+    }
+  }
+}
+
+// Windows shared by every client using the same key or token, since Trello counts them globally
+const sharedWindows = new Map<string, RequestWindow>();
+
+/**
+ * Get the window shared by all requests made with a given API key or token
+ */
+export function getSharedWindow(id: string, limit: number, intervalMs: number): RequestWindow {
+  let window = sharedWindows.get(id);
+  if (!window) {
+    window = new RequestWindow(limit, intervalMs);
+    sharedWindows.set(id, window);
+  }
+  return window;
+}
+
+/**
+ * Runs tasks with at most `maxConcurrent` in flight, each also waiting for room in every window
+ */
+export class RequestLimiter {
+  private maxConcurrent: number;
+  private windows: RequestWindow[];
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(maxConcurrent: number, windows: RequestWindow[] = []) {
+    this.maxConcurrent = maxConcurrent;
+    this.windows = windows;
+  }
+
+  /**
+   * Run a task once a concurrency slot and room in every window are available
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      for (const window of this.windows) {
+        await window.acquire();
+      }
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiting task, if any
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
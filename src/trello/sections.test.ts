@@ -0,0 +1,91 @@
+/**
+ * Tests for report section selection and rendering
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { REPORT_LAYOUTS, resolveSectionSelection } from "./sections.js";
+import { SnapshotDataSource } from "./snapshot.js";
+import { ReportOptions } from "./types.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+/**
+ * Build a board where three cards went from To Do to Done during June
+ */
+function createShippedBoard(): BoardBuilder {
+  const builder = new BoardBuilder("Shipping", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const done = builder.list("Done");
+
+  [3, 10, 17].forEach((day, index) => {
+    const card = builder.card(`Card ${index + 1}`, todo, new Date(Date.UTC(2024, 5, day)));
+    builder.move(card, done, new Date(Date.UTC(2024, 5, day + 2)));
+  });
+
+  return builder;
+}
+
+/**
+ * Generate a June report for a hand-made board
+ */
+function generate(builder: BoardBuilder, options: Partial<ReportOptions> = {}) {
+  return generateReport(new SnapshotDataSource(builder.build(JUNE)), {
+    boardId: builder.board.id,
+    period: { type: "month", year: 2024, month: 6 },
+    timezone: "UTC",
+    locale: "en-US",
+    asOf: JUNE.end,
+    ...options,
+  });
+}
+
+describe("resolveSectionSelection", () => {
+  it("uses the format's layout when no sections are given", () => {
+    assert.deepEqual(
+      resolveSectionSelection(undefined, "summary").map((selection) => selection.id),
+      REPORT_LAYOUTS.summary
+    );
+  });
+
+  it("normalizes section IDs and validates limits", () => {
+    assert.deepEqual(resolveSectionSelection(["activity", { id: "keyCards", limit: 5 }], "full"), [
+      { id: "activity" },
+      { id: "keyCards", limit: 5 },
+    ]);
+    assert.throws(() => resolveSectionSelection(["velocity" as never], "full"), /Unknown report section "velocity"/);
+    assert.throws(() => resolveSectionSelection([{ id: "keyCards", limit: 0 }], "full"), /Invalid limit/);
+  });
+});
+
+describe("report sections", () => {
+  it("renders only the selected sections, in order", async () => {
+    const result = await generate(createShippedBoard(), {
+      format: "summary",
+      sections: ["workSummary", "activity"],
+    });
+    const headings = result.markdown.match(/^## .*$/gm);
+
+    assert.deepEqual(headings, ["## Work Completed", "## Overall Activity"]);
+  });
+
+  it("leaves out recommendations when none apply", async () => {
+    const result = await generate(createShippedBoard(), { format: "summary" });
+
+    assert.equal(result.activity.completedCards.length, 3);
+    assert.doesNotMatch(result.markdown, /## Recommendations/);
+  });
+
+  it("recommends looking into the workflow when nothing was completed", async () => {
+    const builder = new BoardBuilder("Idle", new Date("2024-05-01T00:00:00.000Z"));
+    builder.card("Waiting", builder.list("To Do"), new Date("2024-06-03T00:00:00.000Z"));
+    builder.list("Done");
+
+    const result = await generate(builder, { format: "summary", sections: ["recommendations"] });
+
+    assert.match(result.markdown, /## Recommendations\n\n- No cards were completed during this period\./);
+  });
+});
@@ -0,0 +1,1587 @@
+/**
+ * Report sections: the named building blocks of full and summary markdown reports, the default
+ * layouts that order them and the per-call selection of sections
+ */
+
+import {
+  DueDateBreakdown,
+  DurationPercentiles,
+  PeriodComparisonMetrics,
+  ReportResult,
+  ReportSectionId,
+  ReportSectionSelection,
+  TimingBreakdown,
+  TrelloCard,
+  TrelloList,
+} from "./types.js";
+import {
+  findMostActiveList,
+  findMostActiveMembers,
+  formatDate,
+  generateWorkSummary,
+  getPeriodDescription,
+  getTruncationWarning,
+} from "./utils.js";
+import {
+  describeCumulativeFlowTrends,
+  findBottleneckLists,
+  formatDays,
+  sampleCumulativeFlow,
+} from "./flowMetrics.js";
+import { formatMetricDelta } from "./comparison.js";
+import { getFilterNotice } from "./filters.js";
+import { formatPoints } from "./customFields.js";
+import { excerptComment, LONG_THREAD_MIN_COMMENTS } from "./comments.js";
+import { describeCardAges, getAgeBucketLabel } from "./aging.js";
+import { formatLocaleDate } from "./timezone.js";
+import { MessageKey, Translator } from "./i18n.js";
+
+export type ReportStyle = "full" | "summary";
+
+/**
+ * Everything a section needs to render itself
+ */
+export interface SectionContext {
+  result: ReportResult; // The report data; its markdown is not rendered yet
+  t: Translator;
+  filterDescription?: string;
+  limit?: number; // Maximum number of rows or cards, from the section selection
+}
+
+type SectionRenderer = (context: SectionContext) => string;
+
+// Headline metrics shown in the period comparison table
+const COMPARISON_METRICS: Array<[Exclude<keyof PeriodComparisonMetrics, "labelCompletions">, MessageKey]> = [
+  ["cardsCreated", "report.cardsCreated"],
+  ["cardsCompleted", "report.cardsCompleted"],
+  ["cardsMoved", "report.cardsMoved"],
+  ["commentsAdded", "report.commentsAdded"],
+  ["activeMembers", "report.activeMembers"],
+];
+
+// Maximum number of rows in the cumulative flow table
+const CUMULATIVE_FLOW_MAX_ROWS = 12;
+
+// A list counts as the main bottleneck when its median dwell is this many times the next slowest
+const BOTTLENECK_DWELL_RATIO = 1.5;
+
+// A stay is an outlier when it is this many times the list median and at least this many days
+const OUTLIER_DWELL_RATIO = 3;
+const OUTLIER_MIN_DAYS = 7;
+
+/**
+ * Find the cards with activity in the period
+ */
+function findActiveCards(result: ReportResult): TrelloCard[] {
+  const activeCardIds = new Set<string>();
+  result.actions.forEach((action) => {
+    if (action.data.card?.id) {
+      activeCardIds.add(action.data.card.id);
+    }
+  });
+
+  return result.cards.filter((card) => activeCardIds.has(card.id));
+}
+
+/**
+ * Get the name of a list, or a placeholder for lists that are not on the board
+ */
+function getListName(lists: TrelloList[], listId: string, t: Translator): string {
+  return lists.find((l) => l.id === listId)?.name || t("common.unknown");
+}
+
+/**
+ * Describe the report's date range, e.g. "2024-01-01 to 2024-03-31"
+ */
+export function describeDateRange(result: ReportResult, t: Translator): string {
+  const { dateRange, dateSettings } = result;
+  return t("common.dateRange", {
+    start: formatDate(dateRange.start, dateSettings.timeZone),
+    end: formatDate(dateRange.end, dateSettings.timeZone),
+  });
+}
+
+/**
+ * Format the header and separator rows of a markdown table
+ */
+export function formatTableHeader(columns: string[]): string {
+  return `| ${columns.join(" | ")} |\n|${columns.map((column) => "-".repeat(column.length + 2)).join("|")}|\n`;
+}
+
+/**
+ * Format the header of a lead/cycle time breakdown table
+ */
+function formatBreakdownHeader(name: string, t: Translator): string {
+  const percentiles = ["p50", "p85", "p95"];
+  return formatTableHeader([
+    name,
+    t("report.cards"),
+    ...percentiles.map((percentile) => t("report.leadPercentile", { percentile })),
+    ...percentiles.map((percentile) => t("report.cyclePercentile", { percentile })),
+  ]);
+}
+
+/**
+ * Format the count and percentile cells of a duration table row
+ */
+function formatPercentileCells(percentiles: DurationPercentiles, locale: string, includeCount = true): string {
+  const values =
+    percentiles.count > 0
+      ? [percentiles.p50, percentiles.p85, percentiles.p95].map((days) => formatDays(days, locale))
+      : ["-", "-", "-"];
+  return (includeCount ? [percentiles.count, ...values] : values).join(" | ");
+}
+
+/**
+ * Format a lead/cycle time breakdown table row
+ */
+function formatBreakdownRow(name: string, breakdown: TimingBreakdown, locale: string): string {
+  return `| ${name} | ${formatPercentileCells(breakdown.leadTime, locale)} | ${formatPercentileCells(
+    breakdown.cycleTime,
+    locale,
+    false
+  )} |\n`;
+}
+
+/**
+ * Format a due date breakdown table (by member or label), skipping unknown IDs
+ */
+function formatDueDateBreakdown(
+  title: string,
+  breakdown: Map<string, DueDateBreakdown>,
+  getName: (id: string) => string | undefined,
+  t: Translator
+): string {
+  const rows: string[] = [];
+  [...breakdown.entries()]
+    .sort((a, b) => b[1].dueInPeriod - a[1].dueInPeriod)
+    .forEach(([id, counts]) => {
+      const name = getName(id);
+      if (name) {
+        rows.push(
+          `| ${name} | ${counts.dueInPeriod} | ${counts.completedOnTime} | ${counts.completedLate} | ${counts.overdue} |\n`
+        );
+      }
+    });
+
+  if (rows.length === 0) return "";
+
+  return (
+    `### ${t("report.byField", { name: title })}\n\n` +
+    formatTableHeader([title, t("report.dueInPeriod"), t("report.onTime"), t("report.late"), t("report.overdue")]) +
+    rows.join("") +
+    `\n`
+  );
+}
+
+/**
+ * Format a story points breakdown table (by label or member), skipping unknown IDs
+ */
+function formatPointsBreakdown(
+  title: string,
+  breakdown: Map<string, number>,
+  getName: (id: string) => string | undefined,
+  t: Translator
+): string {
+  const rows = [...breakdown.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, points]) => [getName(id), points] as const)
+    .filter(([name]) => !!name)
+    .map(([name, points]) => `| ${name} | ${formatPoints(points)} |\n`);
+
+  if (rows.length === 0) return "";
+
+  return (
+    `### ${t("report.pointsBy", { name: title })}\n\n` +
+    formatTableHeader([title, t("report.pointsCompleted")]) +
+    rows.join("") +
+    `\n`
+  );
+}
+
+/**
+ * Board overview: name, description, URL and counts
+ */
+function renderOverview({ result, t }: SectionContext): string {
+  const { boardInfo: board, lists, cards, members, dateSettings } = result;
+
+  let markdown = `## ${t("report.boardOverview")}\n\n`;
+  markdown += `- **${t("report.boardName")}**: ${board.name}\n`;
+  if (board.desc) {
+    markdown += `- **${t("report.description")}**: ${board.desc}\n`;
+  }
+  markdown += `- **${t("report.url")}**: ${board.url}\n`;
+  markdown += `- **${t("report.lastActivity")}**: ${formatLocaleDate(new Date(board.dateLastActivity), dateSettings)}\n`;
+  markdown += `- **${t("report.lists")}**: ${lists.length}\n`;
+  markdown += `- **${t("report.cards")}**: ${t("report.cardsTotal", {
+    total: cards.length,
+    active: findActiveCards(result).length,
+  })}\n`;
+  markdown += `- **${t("report.members")}**: ${members.length}\n\n`;
+
+  return markdown;
+}
+
+/**
+ * Activity summary: cards created and moved, comments and the most active list
+ */
+function renderActivity({ result, t }: SectionContext): string {
+  const { activity, lists } = result;
+  const mostActiveList = findMostActiveList(activity, lists);
+
+  let markdown = `## ${t("report.activitySummary")}\n\n`;
+  markdown += `- **${t("report.cardsCreated")}**: ${activity.cardsCreated}\n`;
+  markdown += `- **${t("report.cardsMoved")}**: ${activity.cardsMoved}\n`;
+  markdown += `- **${t("report.commentsAdded")}**: ${activity.commentsAdded}\n`;
+
+  if (mostActiveList) {
+    markdown += `- **${t("report.mostActiveList")}**: ${mostActiveList.name}\n`;
+  }
+
+  return markdown + `\n`;
+}
+
+/**
+ * Overall activity in prose, for summaries
+ */
+function renderActivitySummary({ result, t }: SectionContext): string {
+  const { activity, actions } = result;
+
+  let summary = `## ${t("summary.overallActivity")}\n\n`;
+  summary += `${t("summary.recorded", {
+    period: getPeriodDescription(result.period, t),
+    range: describeDateRange(result, t),
+    activities: t("summary.activityCount", { count: actions.length }),
+    cards: t("common.cardCount", { count: findActiveCards(result).length }),
+  })} `;
+  summary += `${t("summary.activityBreakdown", {
+    created: t("summary.cardsCreated", { count: activity.cardsCreated }),
+    moves: t("summary.cardMoves", { count: activity.cardsMoved }),
+    comments: t("summary.commentsAdded", { count: activity.commentsAdded }),
+  })}\n\n`;
+
+  return summary;
+}
+
+/**
+ * Period comparison table
+ */
+function renderComparison({ result, t }: SectionContext): string {
+  const { comparison, labels, dateSettings } = result;
+  const { locale } = dateSettings;
+  if (!comparison) return "";
+
+  const { metrics } = comparison;
+  let markdown = `## ${t("report.comparisonTitle", { period: getPeriodDescription(comparison.period, t) })}\n\n`;
+
+  if (comparison.actionsTruncated) {
+    markdown += getTruncationWarning(comparison.actionCount, t);
+  }
+
+  markdown += formatTableHeader([t("report.metric"), t("report.thisPeriod"), t("report.previous"), t("report.change")]);
+  COMPARISON_METRICS.forEach(([key, nameKey]) => {
+    const delta = metrics[key];
+    markdown += `| ${t(nameKey)} | ${delta.current} | ${delta.previous} | ${formatMetricDelta(delta, t, locale)} |\n`;
+  });
+  markdown += `\n`;
+
+  if (metrics.labelCompletions.size > 0) {
+    markdown += `### ${t("report.completionsByLabel")}\n\n`;
+    markdown += formatTableHeader([t("report.label"), t("report.thisPeriod"), t("report.previous"), t("report.change")]);
+    metrics.labelCompletions.forEach((delta, labelId) => {
+      const label = labels.find((l) => l.id === labelId);
+      if (label) {
+        markdown += `| ${label.name || label.color || t("common.noName")} | ${delta.current} | ${delta.previous} | ${formatMetricDelta(
+          delta,
+          t,
+          locale
+        )} |\n`;
+      }
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Period comparison as a list of deltas, for summaries
+ */
+function renderComparisonSummary({ result, t }: SectionContext): string {
+  const { comparison, labels } = result;
+  const { locale } = result.dateSettings;
+  if (!comparison) return "";
+
+  const { metrics } = comparison;
+  let summary = `## ${t("summary.comparedWith", { period: getPeriodDescription(comparison.period, t) })}\n\n`;
+  summary += `- **${t("summary.cardsCreatedMetric")}**: ${metrics.cardsCreated.current} (${formatMetricDelta(
+    metrics.cardsCreated,
+    t,
+    locale
+  )})\n`;
+  summary += `- **${t("summary.cardsCompletedMetric")}**: ${metrics.cardsCompleted.current} (${formatMetricDelta(
+    metrics.cardsCompleted,
+    t,
+    locale
+  )})\n`;
+  summary += `- **${t("summary.cardMovesMetric")}**: ${metrics.cardsMoved.current} (${formatMetricDelta(
+    metrics.cardsMoved,
+    t,
+    locale
+  )})\n`;
+  summary += `- **${t("summary.commentsMetric")}**: ${metrics.commentsAdded.current} (${formatMetricDelta(
+    metrics.commentsAdded,
+    t,
+    locale
+  )})\n`;
+  summary += `- **${t("summary.activeMembersMetric")}**: ${metrics.activeMembers.current} (${formatMetricDelta(
+    metrics.activeMembers,
+    t,
+    locale
+  )})\n`;
+
+  const labelChanges: string[] = [];
+  metrics.labelCompletions.forEach((delta, labelId) => {
+    const label = labels.find((l) => l.id === labelId);
+    if (label?.name && delta.change !== 0) {
+      labelChanges.push(`${label.name} (${formatMetricDelta(delta, t, locale)})`);
+    }
+  });
+
+  if (labelChanges.length > 0) {
+    summary += `- **${t("summary.completionsByLabel")}**: ${labelChanges.join(", ")}\n`;
+  }
+
+  return comparison.actionsTruncated
+    ? `${summary}\n${getTruncationWarning(comparison.actionCount, t)}`
+    : `${summary}\n`;
+}
+
+/**
+ * Active cards and activity per list
+ */
+function renderLists({ result, t, limit }: SectionContext): string {
+  const { lists, activity } = result;
+  const activeCards = findActiveCards(result);
+
+  let markdown = `## ${t("report.listBreakdown")}\n\n`;
+  markdown += formatTableHeader([t("report.listName"), t("report.cards"), t("report.activity")]);
+
+  lists.slice(0, limit).forEach((list) => {
+    const cardCount = activeCards.filter((card) => card.idList === list.id).length;
+    const activityCount = activity.listActivity.get(list.id) || 0;
+    markdown += `| ${list.name} | ${cardCount} | ${activityCount} |\n`;
+  });
+
+  return markdown + `\n`;
+}
+
+/**
+ * Activity per member
+ */
+function renderMembers({ result, t, limit }: SectionContext): string {
+  const { members, activity } = result;
+  if (members.length === 0) return "";
+
+  let markdown = `## ${t("report.memberActivity")}\n\n`;
+  markdown += formatTableHeader([t("report.member"), t("report.activity")]);
+
+  findMostActiveMembers(activity, limit).forEach(({ id, count }) => {
+    const member = members.find((m) => m.id === id);
+    if (member) {
+      markdown += `| ${member.fullName} | ${count} |\n`;
+    }
+  });
+
+  return markdown + `\n`;
+}
+
+/**
+ * The most active members, for summaries
+ */
+function renderMembersSummary({ result, t, limit = 3 }: SectionContext): string {
+  const { members, activity } = result;
+  const mostActiveMembers = findMostActiveMembers(activity, limit);
+  if (mostActiveMembers.length === 0) return "";
+
+  const memberNames = mostActiveMembers.map(({ id }) => {
+    const member = members.find((m) => m.id === id);
+    return member ? member.fullName : t("common.unknownMember");
+  });
+
+  return (
+    `## ${t("summary.teamActivity")}\n\n` +
+    `${t("summary.mostActiveMembers", { members: memberNames.join(", ") })}\n\n`
+  );
+}
+
+/**
+ * Label usage on the cards active in the period
+ */
+function renderLabels({ result, t, limit }: SectionContext): string {
+  const { labels } = result;
+  const activeCards = findActiveCards(result);
+  if (labels.length === 0 || activeCards.length === 0) return "";
+
+  const labelUsage = new Map<string, number>();
+  activeCards.forEach((card) => {
+    card.idLabels.forEach((labelId: string) => {
+      labelUsage.set(labelId, (labelUsage.get(labelId) || 0) + 1);
+    });
+  });
+
+  // Sort labels by usage
+  const usedLabels = [...labels]
+    .filter((label) => (labelUsage.get(label.id) || 0) > 0)
+    .sort((a, b) => (labelUsage.get(b.id) || 0) - (labelUsage.get(a.id) || 0));
+
+  let markdown = `## ${t("report.labelUsage")}\n\n`;
+  markdown += formatTableHeader([t("report.label"), t("report.color"), t("report.usage")]);
+
+  usedLabels.slice(0, limit).forEach((label) => {
+    markdown += `| ${label.name || t("common.noName")} | ${label.color || "-"} | ${labelUsage.get(label.id)} |\n`;
+  });
+
+  return markdown + `\n`;
+}
+
+/**
+ * Card flow between lists, time in each list and cumulative flow
+ */
+function renderFlow({ result, t, limit = CUMULATIVE_FLOW_MAX_ROWS }: SectionContext): string {
+  const { activity, lists, workflow } = result;
+  const { locale } = result.dateSettings;
+  let markdown = "";
+
+  // Card flow between lists
+  if (activity.cardsMoved > 0) {
+    markdown += `## ${t("report.cardFlow")}\n\n`;
+    markdown += `${t("report.cardFlowIntro")}\n\n`;
+
+    let hasFlow = false;
+    activity.cardFlow.forEach((flowMap, sourceListId) => {
+      const sourceList = lists.find((l) => l.id === sourceListId);
+      if (!sourceList || ![...flowMap.values()].some((count) => count > 0)) return;
+
+      hasFlow = true;
+      markdown += `### ${t("report.fromList", { list: sourceList.name })}\n\n`;
+
+      flowMap.forEach((count: number, targetListId: string) => {
+        const targetList = lists.find((l) => l.id === targetListId);
+        if (count > 0 && targetList) {
+          markdown += `- **${t("report.toList", { list: targetList.name })}**: ${t("common.cardCount", { count })}\n`;
+        }
+      });
+
+      markdown += `\n`;
+    });
+
+    if (!hasFlow) {
+      markdown += `${t("report.noCardFlow")}\n\n`;
+    }
+  }
+
+  // Time in each list
+  if (activity.listDwell.size > 0) {
+    markdown += `## ${t("report.timeInList")}\n\n`;
+    markdown += `${t("report.timeInListIntro")}\n\n`;
+    markdown += formatTableHeader([
+      t("report.list"),
+      t("report.stays"),
+      t("report.average"),
+      t("report.median"),
+      t("report.max"),
+    ]);
+
+    lists.forEach((list) => {
+      const dwell = activity.listDwell.get(list.id);
+      if (dwell) {
+        markdown += `| ${list.name} | ${dwell.stays} | ${formatDays(dwell.averageDays, locale)} | ${formatDays(
+          dwell.medianDays
+        , locale)} | ${formatDays(dwell.maxDays, locale)} |\n`;
+      }
+    });
+
+    markdown += `\n`;
+
+    const [slowest] = findBottleneckLists(activity.listDwell, lists, workflow);
+    if (slowest) {
+      markdown += `${t("report.slowestList", {
+        list: slowest.list.name,
+        median: formatDays(slowest.dwell.medianDays, locale),
+      })}\n\n`;
+    }
+  }
+
+  // Cumulative flow
+  const flowLists = lists.filter((list) => !list.closed).sort((a, b) => a.pos - b.pos);
+  if (activity.cumulativeFlow.length > 1 && flowLists.length > 0) {
+    markdown += `## ${t("report.cumulativeFlow")}\n\n`;
+    markdown += `${t("report.cumulativeFlowIntro")}\n\n`;
+    markdown += `| ${t("report.date")} | ${flowLists.map((list) => list.name).join(" | ")} |\n`;
+    markdown += `|------|${flowLists.map(() => "---").join("|")}|\n`;
+
+    sampleCumulativeFlow(activity.cumulativeFlow, limit).forEach((point) => {
+      markdown += `| ${point.date} | ${flowLists.map((list) => point.counts[list.id] || 0).join(" | ")} |\n`;
+    });
+
+    markdown += `\n`;
+
+    const trends = describeCumulativeFlowTrends(activity.cumulativeFlow, lists, workflow, t);
+    if (trends.length > 0) {
+      trends.forEach((trend) => {
+        markdown += `- ${trend}\n`;
+      });
+      markdown += `\n`;
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * The lists cards spent the most time in, for summaries
+ */
+function renderFlowSummary({ result, t }: SectionContext): string {
+  const { locale } = result.dateSettings;
+  const [slowest, nextSlowest] = findBottleneckLists(result.activity.listDwell, result.lists, result.workflow);
+  if (!slowest) return "";
+
+  let summary = `## ${t("summary.workflowAnalysis")}\n\n`;
+  summary += `${t("summary.slowestList", {
+    list: slowest.list.name,
+    median: formatDays(slowest.dwell.medianDays, locale),
+    max: formatDays(slowest.dwell.maxDays, locale),
+    stays: t("summary.stayCount", { count: slowest.dwell.stays }),
+  })} `;
+
+  if (nextSlowest) {
+    summary += t("summary.nextSlowestList", {
+      list: nextSlowest.list.name,
+      median: formatDays(nextSlowest.dwell.medianDays, locale),
+    });
+  }
+
+  return summary + `\n\n`;
+}
+
+/**
+ * Lead and cycle time percentiles, by label and member, and the longest lead times
+ */
+function renderCycleTime({ result, t, limit = 5 }: SectionContext): string {
+  const { cycleTimes } = result.activity;
+  const { locale } = result.dateSettings;
+  if (cycleTimes.leadTime.count === 0) return "";
+
+  let markdown = `## ${t("report.cycleLeadTime")}\n\n`;
+  markdown += `${t("report.cycleLeadTimeIntro")}\n\n`;
+  markdown += formatTableHeader([t("report.metric"), t("report.cards"), "p50", "p85", "p95"]);
+  markdown += `| ${t("report.leadTime")} | ${formatPercentileCells(cycleTimes.leadTime, locale)} |\n`;
+  markdown += `| ${t("report.cycleTime")} | ${formatPercentileCells(cycleTimes.cycleTime, locale)} |\n\n`;
+
+  const labelRows: string[] = [];
+  cycleTimes.byLabel.forEach((breakdown: TimingBreakdown, labelId: string) => {
+    const label = result.labels.find((l) => l.id === labelId);
+    if (label) {
+      labelRows.push(formatBreakdownRow(label.name || label.color || t("common.noName"), breakdown, locale));
+    }
+  });
+
+  if (labelRows.length > 0) {
+    markdown += `### ${t("report.byField", { name: t("report.label") })}\n\n`;
+    markdown += formatBreakdownHeader(t("report.label"), t);
+    markdown += labelRows.join("");
+    markdown += `\n`;
+  }
+
+  const memberRows: string[] = [];
+  cycleTimes.byMember.forEach((breakdown: TimingBreakdown, memberId: string) => {
+    const member = result.members.find((m) => m.id === memberId);
+    if (member) {
+      memberRows.push(formatBreakdownRow(member.fullName, breakdown, locale));
+    }
+  });
+
+  if (memberRows.length > 0) {
+    markdown += `### ${t("report.byField", { name: t("report.member") })}\n\n`;
+    markdown += formatBreakdownHeader(t("report.member"), t);
+    markdown += memberRows.join("");
+    markdown += `\n`;
+  }
+
+  markdown += `### ${t("report.longestLeadTimes")}\n\n`;
+  cycleTimes.cards.slice(0, limit).forEach((timing) => {
+    const times = [t("report.leadTimeOf", { days: formatDays(timing.leadTimeDays, locale) })];
+    if (timing.cycleTimeDays !== undefined) {
+      times.push(t("report.cycleTimeOf", { days: formatDays(timing.cycleTimeDays, locale) }));
+    }
+    markdown += `- **${timing.cardName}**: ${times.join(", ")}\n`;
+  });
+
+  return markdown + `\n`;
+}
+
+/**
+ * Delivery speed in prose, for summaries
+ */
+function renderCycleTimeSummary({ result, t }: SectionContext): string {
+  const { leadTime, cycleTime } = result.activity.cycleTimes;
+  const { locale } = result.dateSettings;
+  if (leadTime.count === 0) return "";
+
+  let summary = `## ${t("summary.deliverySpeed")}\n\n`;
+  summary += `${t("summary.leadTime", {
+    count: leadTime.count,
+    p50: formatDays(leadTime.p50, locale),
+    p85: formatDays(leadTime.p85, locale),
+  })} `;
+
+  if (cycleTime.count > 0) {
+    summary += t("summary.cycleTime", {
+      p50: formatDays(cycleTime.p50, locale),
+      p85: formatDays(cycleTime.p85, locale),
+    });
+  }
+
+  return summary + `\n\n`;
+}
+
+/**
+ * Due date compliance, by member and label, with overdue cards and cards due soon
+ */
+function renderDueDates({ result, t, limit }: SectionContext): string {
+  const { dueDates } = result.activity;
+  const { members, labels } = result;
+  const { timeZone, locale } = result.dateSettings;
+  const hasDueDates =
+    dueDates.dueInPeriod.length > 0 ||
+    dueDates.completedOnTime.length + dueDates.completedLate.length > 0 ||
+    dueDates.overdue.length > 0 ||
+    dueDates.dueSoon.length > 0;
+  if (!hasDueDates) return "";
+
+  let markdown = `## ${t("report.dueDates")}\n\n`;
+  markdown += `- **${t("report.cardsDueInPeriod")}**: ${dueDates.dueInPeriod.length}\n`;
+  markdown += `- **${t("report.completedOnTime")}**: ${dueDates.completedOnTime.length}\n`;
+  markdown += `- **${t("report.completedLate")}**: ${dueDates.completedLate.length}\n`;
+  if (dueDates.onTimeRate !== null) {
+    markdown += `- **${t("report.onTimeRate")}**: ${Math.round(dueDates.onTimeRate * 100)}%\n`;
+  }
+  if (dueDates.averageSlipDays !== null) {
+    markdown += `- **${t("report.averageSlip")}**: ${formatDays(dueDates.averageSlipDays, locale)}\n`;
+  }
+  markdown += `- **${t("report.currentlyOverdue")}**: ${dueDates.overdue.length}\n`;
+  markdown += `- **${t("report.dueSoon", { count: dueDates.dueSoonDays })}**: ${dueDates.dueSoon.length}\n\n`;
+
+  markdown += formatDueDateBreakdown(
+    t("report.member"),
+    dueDates.byMember,
+    (id) => members.find((m) => m.id === id)?.fullName,
+    t
+  );
+  markdown += formatDueDateBreakdown(
+    t("report.label"),
+    dueDates.byLabel,
+    (id) => {
+      const label = labels.find((l) => l.id === id);
+      return label && (label.name || label.color || t("common.noName"));
+    },
+    t
+  );
+
+  if (dueDates.overdue.length > 0) {
+    markdown += `### ${t("report.overdueCards")}\n\n`;
+    dueDates.overdue.slice(0, limit ?? 10).forEach((status) => {
+      markdown += `- **${status.cardName}**: ${t("report.dueOn", {
+        date: formatDate(status.due, timeZone),
+      })}, ${t("report.overdueBy", { days: formatDays(status.slipDays || 0, locale) })}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (dueDates.dueSoon.length > 0) {
+    markdown += `### ${t("report.dueSoon", { count: dueDates.dueSoonDays })}\n\n`;
+    dueDates.dueSoon.slice(0, limit).forEach((status) => {
+      markdown += `- **${status.cardName}**: ${t("report.dueOn", { date: formatDate(status.due, timeZone) })}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Due date compliance in prose, for summaries
+ */
+function renderDueDatesSummary({ result, t, limit = 3 }: SectionContext): string {
+  const { dueDates } = result.activity;
+  const { locale } = result.dateSettings;
+  const completedWithDue = dueDates.completedOnTime.length + dueDates.completedLate.length;
+  if (completedWithDue === 0 && dueDates.overdue.length === 0 && dueDates.dueSoon.length === 0) return "";
+
+  let summary = `## ${t("summary.dueDates")}\n\n`;
+
+  if (completedWithDue > 0) {
+    summary += `${t("summary.onTime", {
+      count: completedWithDue,
+      onTime: dueDates.completedOnTime.length,
+      percent: Math.round((dueDates.onTimeRate || 0) * 100),
+    })} `;
+
+    if (dueDates.averageSlipDays !== null) {
+      summary += `${t("summary.averageSlip", { days: formatDays(dueDates.averageSlipDays, locale) })} `;
+    }
+  }
+
+  summary += `${t("summary.overdueAndDueSoon", {
+    overdue: t("summary.overdue", { count: dueDates.overdue.length }),
+    dueSoon: t("summary.dueSoon", { count: dueDates.dueSoon.length, days: dueDates.dueSoonDays }),
+  })}\n\n`;
+
+  dueDates.overdue.slice(0, limit).forEach((status) => {
+    summary += `- **${status.cardName}**: ${t("report.overdueBy", { days: formatDays(status.slipDays || 0, locale) })}\n`;
+  });
+  if (dueDates.overdue.length > 0) {
+    summary += `\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Checklist items completed in the period and progress on open cards
+ */
+function renderChecklists({ result, t, limit = 15 }: SectionContext): string {
+  const { checklists } = result.activity;
+  const { members, lists } = result;
+  if (checklists.totalItems === 0 && checklists.itemsCompletedInPeriod === 0) return "";
+
+  let markdown = `## ${t("report.checklists")}\n\n`;
+  markdown += `- **${t("report.itemsCompletedInPeriod")}**: ${checklists.itemsCompletedInPeriod}\n`;
+  if (checklists.totalItems > 0) {
+    markdown += `- **${t("report.openCardsWithChecklists")}**: ${checklists.cards.length}\n`;
+    markdown += `- **${t("report.itemsDoneOnOpenCards")}**: ${t("report.itemsDoneOf", {
+      done: checklists.completedItems,
+      total: checklists.totalItems,
+      percent: Math.round((checklists.completedItems / checklists.totalItems) * 100),
+    })}\n`;
+  }
+  markdown += `- **${t("report.doneCardsWithOpenItems")}**: ${checklists.doneWithOpenItems.length}\n\n`;
+
+  const memberRows = [...checklists.itemsCompletedByMember.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([memberId, count]) => [members.find((m) => m.id === memberId)?.fullName, count])
+    .filter(([name]) => !!name);
+
+  if (memberRows.length > 0) {
+    markdown += `### ${t("report.itemsCompletedByMember")}\n\n`;
+    markdown += formatTableHeader([t("report.member"), t("report.itemsCompleted")]);
+    memberRows.forEach(([name, count]) => {
+      markdown += `| ${name} | ${count} |\n`;
+    });
+    markdown += `\n`;
+  }
+
+  // Cards still being worked on; done cards with open items are listed separately below
+  const doneCardIds = new Set(checklists.doneWithOpenItems.map((progress) => progress.cardId));
+  const unfinished = checklists.cards.filter(
+    (progress) => progress.openItems.length > 0 && !doneCardIds.has(progress.cardId)
+  );
+
+  if (unfinished.length > 0) {
+    markdown += `### ${t("report.checklistProgress")}\n\n`;
+    markdown += formatTableHeader([t("report.card"), t("report.list"), t("report.progress"), t("report.openItems")]);
+    unfinished.slice(0, limit).forEach((progress) => {
+      markdown += `| ${progress.cardName} | ${getListName(lists, progress.listId, t)} | ${progress.completedItems}/${
+        progress.totalItems
+      } | ${progress.openItems.length} |\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (checklists.doneWithOpenItems.length > 0) {
+    markdown += `### ${t("report.doneCardsWithOpenItems")}\n\n`;
+    checklists.doneWithOpenItems.forEach((progress) => {
+      const openItems = progress.openItems.slice(0, 3);
+      if (progress.openItems.length > 3) {
+        openItems.push(t("report.moreItems", { count: progress.openItems.length - 3 }));
+      }
+      markdown += `- **${progress.cardName}**: ${t("report.doneWithOpenItems", {
+        done: progress.completedItems,
+        total: progress.totalItems,
+        items: openItems.join(", "),
+      })}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Checklist progress in prose, for summaries
+ */
+function renderChecklistsSummary({ result, t }: SectionContext): string {
+  const { checklists } = result.activity;
+  if (checklists.totalItems === 0 && checklists.itemsCompletedInPeriod === 0) return "";
+
+  let summary = `## ${t("summary.checklists")}\n\n`;
+  summary += `${t("summary.checklistItemsCompleted", { count: checklists.itemsCompletedInPeriod })} `;
+
+  if (checklists.totalItems > 0) {
+    summary += t("summary.checklistProgress", {
+      done: checklists.completedItems,
+      total: checklists.totalItems,
+      percent: Math.round((checklists.completedItems / checklists.totalItems) * 100),
+    });
+    summary +=
+      checklists.doneWithOpenItems.length > 0
+        ? t("summary.checklistDoneWithOpenItems", { count: checklists.doneWithOpenItems.length })
+        : `.`;
+  }
+
+  return summary + `\n\n`;
+}
+
+/**
+ * Comment activity: most discussed cards, comments per member and unresolved threads
+ */
+function renderComments({ result, t, limit = 10 }: SectionContext): string {
+  const { comments } = result.activity;
+  const { cards, lists, members } = result;
+  const { timeZone } = result.dateSettings;
+  if (comments.discussions.length === 0) return "";
+
+  let markdown = `## ${t("report.comments")}\n\n`;
+  markdown += `- **${t("report.commentsAdded")}**: ${comments.comments.length}\n`;
+  markdown += `- **${t("report.cardsDiscussed")}**: ${comments.discussions.length}\n`;
+  markdown += `- **${t("report.commenters")}**: ${comments.byMember.size}\n`;
+  markdown += `- **${t("report.unresolvedThreads")}**: ${comments.unresolvedThreads.length}\n\n`;
+
+  markdown += `### ${t("report.mostDiscussedCards")}\n\n`;
+  markdown += formatTableHeader([
+    t("report.card"),
+    t("report.list"),
+    t("report.comments"),
+    t("report.participants"),
+    t("report.lastComment"),
+  ]);
+  comments.discussions.slice(0, limit).forEach((discussion) => {
+    const card = cards.find((c) => c.id === discussion.cardId);
+    markdown += `| ${discussion.cardName} | ${card ? getListName(lists, card.idList, t) : t("common.unknown")} | ${
+      discussion.comments
+    } | ${discussion.participants.length} | ${formatDate(discussion.lastCommentAt, timeZone)} |\n`;
+  });
+  markdown += `\n`;
+
+  const memberRows = [...comments.byMember.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([memberId, count]) => [members.find((m) => m.id === memberId)?.fullName, count])
+    .filter(([name]) => !!name);
+
+  if (memberRows.length > 0) {
+    markdown += `### ${t("report.commentsByMember")}\n\n`;
+    markdown += formatTableHeader([t("report.member"), t("report.comments")]);
+    memberRows.forEach(([name, count]) => {
+      markdown += `| ${name} | ${count} |\n`;
+    });
+    markdown += `\n`;
+  }
+
+  if (comments.unresolvedThreads.length > 0) {
+    markdown += `### ${t("report.unresolvedThreads")}\n\n`;
+    markdown += `${t("report.unresolvedThreadsIntro", { count: LONG_THREAD_MIN_COMMENTS })}\n\n`;
+    comments.unresolvedThreads.forEach((discussion) => {
+      markdown += `- **${discussion.cardName}**: ${t("report.threadSummary", {
+        comments: t("common.commentCount", { count: discussion.comments }),
+        people: t("report.personCount", { count: discussion.participants.length }),
+        date: formatDate(discussion.lastCommentAt, timeZone),
+      })}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * Discussions in prose, for summaries
+ */
+function renderCommentsSummary({ result, t, limit = 3 }: SectionContext): string {
+  const { comments } = result.activity;
+  if (comments.discussions.length === 0) return "";
+
+  const [mostDiscussed] = comments.discussions;
+  let summary = `## ${t("summary.discussions")}\n\n`;
+  summary += `${t("summary.commentsAcross", {
+    count: comments.comments.length,
+    cards: t("common.cardCount", { count: comments.discussions.length }),
+  })} ${t("summary.mostDiscussed", {
+    card: mostDiscussed.cardName,
+    comments: t("common.commentCount", { count: mostDiscussed.comments }),
+  })}`;
+
+  if (comments.unresolvedThreads.length > 0) {
+    summary += ` ${t("summary.unresolvedThreads", {
+      count: comments.unresolvedThreads.length,
+      cards: comments.unresolvedThreads
+        .slice(0, limit)
+        .map((discussion) => `"${discussion.cardName}"`)
+        .join(", "),
+    })}`;
+  }
+
+  return summary + `\n\n`;
+}
+
+/**
+ * Story points completed, velocity and points by label and member
+ */
+function renderStoryPoints({ result, t }: SectionContext): string {
+  const { storyPoints } = result.activity;
+  const { labels, members } = result;
+  if (!storyPoints) return "";
+
+  let markdown = `## ${t("report.storyPoints")}\n\n`;
+  markdown += `${t("report.pointsField", { field: storyPoints.fieldName })}\n\n`;
+  markdown += `- **${t("report.pointsCompleted")}**: ${t("report.pointsAcross", {
+    points: formatPoints(storyPoints.pointsCompleted),
+    cards: t("common.cardCount", { count: storyPoints.cardsCompleted }),
+  })}\n`;
+  markdown += `- **${t("report.velocity")}**: ${t("report.pointsPerWeek", {
+    points: formatPoints(storyPoints.velocityPerWeek),
+  })}\n`;
+  markdown += `- **${t("report.completedWithoutPoints")}**: ${storyPoints.unestimatedCompleted}\n`;
+  markdown += `- **${t("report.openPoints")}**: ${formatPoints(storyPoints.openPoints)}\n\n`;
+
+  markdown += formatPointsBreakdown(
+    t("report.label"),
+    storyPoints.byLabel,
+    (id) => {
+      const label = labels.find((l) => l.id === id);
+      return label && (label.name || label.color || t("common.noName"));
+    },
+    t
+  );
+  markdown += formatPointsBreakdown(
+    t("report.member"),
+    storyPoints.byMember,
+    (id) => members.find((m) => m.id === id)?.fullName,
+    t
+  );
+
+  return markdown;
+}
+
+/**
+ * Story points in prose, for summaries
+ */
+function renderStoryPointsSummary({ result, t }: SectionContext): string {
+  const { storyPoints } = result.activity;
+  if (!storyPoints || storyPoints.pointsCompleted === 0) return "";
+
+  return (
+    `## ${t("summary.storyPoints")}\n\n` +
+    `${t("summary.pointsCompleted", {
+      points: formatPoints(storyPoints.pointsCompleted),
+      velocity: formatPoints(storyPoints.velocityPerWeek),
+      open: formatPoints(storyPoints.openPoints),
+    })}\n\n`
+  );
+}
+
+/**
+ * Open and completed cards by the values of a dropdown custom field
+ */
+function renderFieldGroups({ result, t }: SectionContext): string {
+  const { fieldGrouping } = result.activity;
+  if (!fieldGrouping) return "";
+
+  const { fieldName } = fieldGrouping;
+  const showPoints = fieldGrouping.groups.some((group) => group.pointsCompleted !== undefined);
+  let markdown = `## ${t("report.byField", { name: fieldName })}\n\n`;
+  markdown += formatTableHeader([
+    fieldName,
+    t("report.openCards"),
+    t("report.completed"),
+    ...(showPoints ? [t("report.pointsCompleted")] : []),
+  ]);
+  fieldGrouping.groups.forEach((group) => {
+    markdown += `| ${group.value} | ${group.openCards} | ${group.completedCards} |${
+      showPoints ? ` ${formatPoints(group.pointsCompleted || 0)} |` : ""
+    }\n`;
+  });
+
+  return markdown + `\n`;
+}
+
+/**
+ * Natural language summary of the work completed
+ */
+function renderWorkSummary({ result, t }: SectionContext): string {
+  const { activity, labels } = result;
+  return `## ${t("report.workSummary")}\n\n${generateWorkSummary(
+    activity.completedCards,
+    labels,
+    activity.cardsByLabel,
+    t
+  )}\n\n`;
+}
+
+/**
+ * Work completed, for summaries
+ */
+function renderWorkSummaryCompact({ result, t }: SectionContext): string {
+  const { activity, labels } = result;
+  return `## ${t("summary.workCompleted")}\n\n${generateWorkSummary(
+    activity.completedCards,
+    labels,
+    activity.cardsByLabel,
+    t
+  )}\n\n`;
+}
+
+/**
+ * Completed cards grouped by label
+ */
+function renderCompletedFeatures({ result, t, limit }: SectionContext): string {
+  const { activity, labels } = result;
+  if (activity.completedCards.length === 0) return "";
+
+  let markdown = `## ${t("report.completedFeatures")}\n\n`;
+
+  labels.forEach((label) => {
+    if (!label.name) return; // Skip labels without names
+
+    const completedLabelCards = (activity.cardsByLabel.get(label.id) || []).filter((card: TrelloCard) =>
+      activity.completedCards.some((c: TrelloCard) => c.id === card.id)
+    );
+    if (completedLabelCards.length === 0) return;
+
+    markdown += `### ${label.name} (${completedLabelCards.length})\n\n`;
+
+    completedLabelCards.slice(0, limit).forEach((card) => {
+      markdown += `- **${card.name}**`;
+
+      // Add card description (truncated if too long)
+      if (card.desc) {
+        const shortDesc = card.desc.length > 100 ? card.desc.substring(0, 100) + "..." : card.desc;
+        markdown += `: ${shortDesc}`;
+      }
+
+      markdown += ` [${t("report.viewCard")}](${card.url})\n`;
+    });
+
+    markdown += `\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * The cards with the most activity, with their details and recent comments
+ */
+function renderKeyCards({ result, t, limit = 10 }: SectionContext): string {
+  const { activity, lists, members, labels, dateSettings } = result;
+  if (activity.topCards.length === 0) return "";
+
+  let markdown = `## ${t("report.keyCards")}\n\n`;
+  markdown += `${t("report.keyCardsIntro")}\n\n`;
+
+  activity.topCards.slice(0, limit).forEach((card: TrelloCard, index: number) => {
+    markdown += `### ${index + 1}. ${card.name}\n\n`;
+
+    // Card details
+    markdown += `- **${t("report.list")}**: ${getListName(lists, card.idList, t)}\n`;
+
+    // Card members
+    const cardMembers = members.filter((m) => card.idMembers.includes(m.id));
+    if (cardMembers.length > 0) {
+      markdown += `- **${t("report.assignedTo")}**: ${cardMembers.map((m) => m.fullName).join(", ")}\n`;
+    }
+
+    // Card labels
+    const cardLabels = labels.filter((l) => card.idLabels.includes(l.id));
+    if (cardLabels.length > 0) {
+      markdown += `- **${t("report.labels")}**: ${cardLabels.map((l) => l.name || l.color || t("common.noName")).join(", ")}\n`;
+    }
+
+    // Due date
+    if (card.due) {
+      markdown += `- **${t("report.due")}**: ${formatLocaleDate(new Date(card.due), dateSettings)} ${
+        card.dueComplete ? t("report.dueCompleted") : ""
+      }\n`;
+    }
+
+    // Checklist progress
+    const cardItems = (activity.cardChecklists.get(card.id) || []).flatMap((checklist) => checklist.checkItems);
+    if (cardItems.length > 0) {
+      markdown += `- **${t("report.checklists")}**: ${t("report.checklistItemsComplete", {
+        done: cardItems.filter((item) => item.state === "complete").length,
+        total: cardItems.length,
+      })}\n`;
+    }
+
+    // Description
+    if (card.desc) {
+      markdown += `\n**${t("report.description")}**:\n\n${card.desc}\n\n`;
+    }
+
+    // Recent comments
+    const cardDigest = activity.comments.digest?.find((digest) => digest.cardId === card.id);
+    if (cardDigest) {
+      markdown += `\n**${t("report.recentComments")}**:\n\n`;
+      cardDigest.comments.forEach((comment) => {
+        markdown += `- **${comment.memberCreator.fullName}** (${formatDate(
+          new Date(comment.date),
+          dateSettings.timeZone
+        )}): ${excerptComment(comment.data.text)}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    markdown += `[${t("report.viewOnTrello")}](${card.url})\n\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Key focus areas with the latest comment on each card, for summaries
+ */
+function renderKeyCardsSummary({ result, t, limit = 3 }: SectionContext): string {
+  const { activity, lists, labels } = result;
+  if (activity.topCards.length === 0) return "";
+
+  let summary = `## ${t("summary.keyFocusAreas")}\n\n`;
+  summary += `${t("summary.keyFocusIntro")}\n\n`;
+
+  activity.topCards.slice(0, limit).forEach((card: TrelloCard, index: number) => {
+    const cardList = lists.find((l) => l.id === card.idList);
+    const cardLabels = labels.filter((l) => card.idLabels.includes(l.id));
+    const labelText = cardLabels.length > 0 ? ` (${cardLabels.map((l) => l.name || l.color || t("common.noName")).join(", ")})` : "";
+
+    summary += `${index + 1}. **${card.name}**${labelText} - ${cardList?.name || t("common.unknownList")}\n`;
+
+    const latestComment = activity.comments.digest?.find((digest) => digest.cardId === card.id)?.comments[0];
+    if (latestComment) {
+      summary += `   > ${latestComment.memberCreator.fullName}: ${excerptComment(latestComment.data.text)}\n`;
+    }
+  });
+
+  return summary + `\n`;
+}
+
+/**
+ * Cards in progress grouped by list, with their time in the list
+ */
+function renderWip({ result, t, limit }: SectionContext): string {
+  const { activity, lists, labels, dateSettings } = result;
+  const { locale } = dateSettings;
+  if (activity.inProgressCards.length === 0) return "";
+
+  let markdown = `## ${t("report.workInProgress")}\n\n`;
+
+  lists.forEach((list) => {
+    const listCards = activity.inProgressCards.filter((card: TrelloCard) => card.idList === list.id);
+    if (listCards.length === 0) return;
+
+    markdown += `### ${list.name} (${listCards.length})\n\n`;
+
+    listCards.slice(0, limit).forEach((card) => {
+      // Card labels
+      const cardLabels = labels.filter((l) => card.idLabels.includes(l.id));
+      const labelText = cardLabels.length > 0 ? ` [${cardLabels.map((l) => l.name || l.color || t("common.noName")).join(", ")}]` : "";
+
+      markdown += `- **${card.name}**${labelText}`;
+
+      // Due date
+      if (card.due) {
+        markdown += ` (${t("report.dueDate", { date: formatLocaleDate(new Date(card.due), dateSettings) })})`;
+      }
+
+      // Time in the current list
+      const age = activity.agingWip.cards.find((a) => a.cardId === card.id);
+      if (age) {
+        markdown += ` - ${t("report.daysInList", { days: formatDays(age.ageDays, locale) })}${
+          age.stale ? `, ${t("report.stale")}` : ""
+        }`;
+      }
+
+      markdown += `\n`;
+    });
+
+    markdown += `\n`;
+  });
+
+  return markdown;
+}
+
+/**
+ * Cards in progress per list, for summaries
+ */
+function renderWipSummary({ result, t }: SectionContext): string {
+  const { activity, lists } = result;
+  if (activity.inProgressCards.length === 0) return "";
+
+  let summary = `## ${t("summary.currentWork")}\n\n`;
+  summary += `${t("summary.inProgress", { count: activity.inProgressCards.length })} `;
+
+  const listSummaries: string[] = [];
+  lists.forEach((list) => {
+    const count = activity.inProgressCards.filter((card: TrelloCard) => card.idList === list.id).length;
+    if (count > 0) {
+      listSummaries.push(t("summary.inList", { count, list: list.name }));
+    }
+  });
+
+  if (listSummaries.length > 0) {
+    summary += `${t("summary.includes", { items: listSummaries.join(", ") })}\n\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Age histogram, oldest cards and stale cards
+ */
+function renderAging({ result, t, limit = 10 }: SectionContext): string {
+  const { agingWip } = result.activity;
+  const { lists } = result;
+  const { timeZone, locale } = result.dateSettings;
+  if (agingWip.cards.length === 0) return "";
+
+  let markdown = `## ${t("report.agingWork")}\n\n`;
+  markdown += `${t("report.agingWorkIntro", { date: formatDate(agingWip.asOf, timeZone) })}\n\n`;
+
+  markdown += formatTableHeader([t("report.ageInList"), t("report.cards")]);
+  agingWip.histogram.forEach((bucket) => {
+    markdown += `| ${getAgeBucketLabel(bucket, t)} | ${bucket.cards} |\n`;
+  });
+  markdown += `\n`;
+
+  const oldest = agingWip.cards.slice(0, limit);
+  markdown += `### ${t("report.oldestCards")}\n\n`;
+  markdown += formatTableHeader([
+    t("report.card"),
+    t("report.list"),
+    t("report.inListSince"),
+    t("report.age"),
+    t("report.idle"),
+  ]);
+  oldest.forEach((age) => {
+    markdown += `| ${age.cardName} | ${getListName(lists, age.listId, t)} | ${formatDate(age.enteredListAt, timeZone)}${
+      age.ageSource === "lastActivity" ? "*" : ""
+    } | ${formatDays(age.ageDays, locale)} | ${formatDays(age.idleDays, locale)} |\n`;
+  });
+  markdown += `\n`;
+  if (oldest.some((age) => age.ageSource === "lastActivity")) {
+    markdown += `\\* ${t("report.lastActivityFallback")}\n\n`;
+  }
+
+  if (agingWip.staleCards.length > 0) {
+    markdown += `### ${t("report.staleCards")}\n\n`;
+    markdown += `${t("report.staleCardsIntro", { count: agingWip.staleDays })}\n\n`;
+    agingWip.staleCards.forEach((age) => {
+      markdown += `- **${age.cardName}** (${getListName(lists, age.listId, t)}): ${t("report.staleSince", {
+        date: formatDate(age.lastActivityAt, timeZone),
+        days: formatDays(age.idleDays, locale),
+      })}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  return markdown;
+}
+
+/**
+ * The oldest work in progress and stale cards, for summaries
+ */
+function renderAgingSummary({ result, t, limit = 3 }: SectionContext): string {
+  const { agingWip } = result.activity;
+  const { locale } = result.dateSettings;
+  if (agingWip.cards.length === 0) return "";
+
+  const startedAges = agingWip.cards.filter((age) => age.stage !== "todo");
+  let summary = `## ${t("summary.agingWork")}\n\n`;
+  if (startedAges.length > 0) {
+    summary += `${t("summary.oldestWork", {
+      cards: describeCardAges(startedAges, result.lists, "age", limit, t, locale),
+    })} `;
+  }
+  summary += `${
+    agingWip.staleCards.length > 0
+      ? t("summary.staleCards", { count: agingWip.staleCards.length, days: agingWip.staleDays })
+      : t("summary.noStaleCards", { days: agingWip.staleDays })
+  }\n\n`;
+
+  return summary;
+}
+
+/**
+ * Recommendations based on completed work, stale cards, bottlenecks and checklists
+ */
+function renderRecommendations({ result, t, limit }: SectionContext): string {
+  const { activity, lists, workflow, period } = result;
+  const { agingWip } = activity;
+  const { locale } = result.dateSettings;
+  const startedAges = agingWip.cards.filter((age) => age.stage !== "todo");
+  const recommendations: string[] = [];
+
+  // Based on completed work, naming the cards that have been in progress the longest
+  const oldestWork =
+    startedAges.length > 0
+      ? t("summary.oldestInProgress", { cards: describeCardAges(startedAges, lists, "age", 3, t, locale) })
+      : undefined;
+  if (activity.completedCards.length === 0) {
+    recommendations.push(`${t("summary.noneCompleted")} ${oldestWork || t("summary.investigate")}`);
+  } else if (activity.completedCards.length < 3 && period.type !== "year") {
+    recommendations.push(`${t("summary.lowCompletion")} ${oldestWork || t("summary.reviewWorkflow")}`);
+  }
+
+  // Based on cards without recent activity
+  if (agingWip.staleCards.length > 0) {
+    recommendations.push(
+      t("summary.followUp", { cards: describeCardAges(agingWip.staleCards, lists, "idle", 3, t, locale) })
+    );
+  }
+
+  // Based on time spent in each list
+  const bottlenecks = findBottleneckLists(activity.listDwell, lists, workflow);
+  if (bottlenecks.length > 0) {
+    const [slowest, nextSlowest] = bottlenecks;
+    if (!nextSlowest || slowest.dwell.medianDays >= BOTTLENECK_DWELL_RATIO * nextSlowest.dwell.medianDays) {
+      recommendations.push(
+        t("summary.mainBottleneck", {
+          list: slowest.list.name,
+          median: formatDays(slowest.dwell.medianDays, locale),
+          comparison: nextSlowest
+            ? t("summary.bottleneckComparison", {
+                median: formatDays(nextSlowest.dwell.medianDays, locale),
+                list: nextSlowest.list.name,
+              })
+            : "",
+        })
+      );
+    }
+
+    bottlenecks.forEach(({ list, dwell }) => {
+      if (dwell.maxDays >= OUTLIER_MIN_DAYS && dwell.maxDays >= OUTLIER_DWELL_RATIO * dwell.medianDays) {
+        // Name the cards still in the list that are well past its median
+        const stuckCards = agingWip.cards.filter(
+          (age) => age.listId === list.id && age.ageDays >= OUTLIER_DWELL_RATIO * dwell.medianDays
+        );
+        recommendations.push(
+          `${t("summary.outliers", {
+            list: list.name,
+            max: formatDays(dwell.maxDays, locale),
+            median: formatDays(dwell.medianDays, locale),
+          })} ${
+            stuckCards.length > 0
+              ? t("summary.checkStuckCards", { cards: describeCardAges(stuckCards, lists, "age", 3, t, locale) })
+              : t("summary.checkOutliers")
+          }`
+        );
+      }
+    });
+  }
+
+  // Based on checklists
+  const { doneWithOpenItems } = activity.checklists;
+  if (doneWithOpenItems.length > 0) {
+    recommendations.push(
+      t("summary.doneWithOpenItems", { count: doneWithOpenItems.length, card: doneWithOpenItems[0].cardName })
+    );
+  }
+
+  if (recommendations.length === 0) return "";
+
+  return (
+    `## ${t("summary.recommendations")}\n\n` +
+    recommendations
+      .slice(0, limit)
+      .map((recommendation) => `- ${recommendation}\n`)
+      .join("") +
+    `\n`
+  );
+}
+
+/**
+ * Closing summary of the period and the number of actions
+ */
+function renderConclusion({ result, t }: SectionContext): string {
+  let markdown = `## ${t("report.summary")}\n\n`;
+  markdown += `${t("report.summaryCovers", {
+    board: result.boardInfo.name,
+    period: getPeriodDescription(result.period, t),
+    range: describeDateRange(result, t),
+  })}\n`;
+  markdown += `${t("report.totalActivity", { count: result.actions.length })}\n\n`;
+
+  return markdown;
+}
+
+// Renderers of each section, in the detailed style of full reports and the prose style of summaries
+const REPORT_SECTIONS: Record<ReportSectionId, { full?: SectionRenderer; summary?: SectionRenderer }> = {
+  overview: { full: renderOverview },
+  activity: { full: renderActivity, summary: renderActivitySummary },
+  comparison: { full: renderComparison, summary: renderComparisonSummary },
+  lists: { full: renderLists },
+  members: { full: renderMembers, summary: renderMembersSummary },
+  labels: { full: renderLabels },
+  flow: { full: renderFlow, summary: renderFlowSummary },
+  cycleTime: { full: renderCycleTime, summary: renderCycleTimeSummary },
+  dueDates: { full: renderDueDates, summary: renderDueDatesSummary },
+  checklists: { full: renderChecklists, summary: renderChecklistsSummary },
+  comments: { full: renderComments, summary: renderCommentsSummary },
+  storyPoints: { full: renderStoryPoints, summary: renderStoryPointsSummary },
+  fieldGroups: { full: renderFieldGroups },
+  workSummary: { full: renderWorkSummary, summary: renderWorkSummaryCompact },
+  completedFeatures: { full: renderCompletedFeatures },
+  keyCards: { full: renderKeyCards, summary: renderKeyCardsSummary },
+  wip: { full: renderWip, summary: renderWipSummary },
+  aging: { full: renderAging, summary: renderAgingSummary },
+  recommendations: { summary: renderRecommendations },
+  conclusion: { full: renderConclusion },
+};
+
+// Section IDs accepted in section selections and templates
+export const REPORT_SECTION_IDS = Object.keys(REPORT_SECTIONS) as ReportSectionId[];
+
+// Default section layouts of full reports and summaries
+export const REPORT_LAYOUTS: Record<ReportStyle, ReportSectionId[]> = {
+  full: [
+    "overview",
+    "activity",
+    "comparison",
+    "lists",
+    "members",
+    "labels",
+    "flow",
+    "cycleTime",
+    "dueDates",
+    "checklists",
+    "comments",
+    "storyPoints",
+    "fieldGroups",
+    "workSummary",
+    "completedFeatures",
+    "keyCards",
+    "wip",
+    "aging",
+    "conclusion",
+  ],
+  summary: [
+    "activity",
+    "comparison",
+    "members",
+    "workSummary",
+    "cycleTime",
+    "dueDates",
+    "checklists",
+    "storyPoints",
+    "comments",
+    "keyCards",
+    "flow",
+    "wip",
+    "aging",
+    "recommendations",
+  ],
+};
+
+/**
+ * Normalize a section selection to section IDs with limits, validating the IDs and limits
+ */
+export function resolveSectionSelection(
+  sections: Array<ReportSectionId | ReportSectionSelection> | undefined,
+  style: ReportStyle
+): ReportSectionSelection[] {
+  if (!sections) {
+    return REPORT_LAYOUTS[style].map((id) => ({ id }));
+  }
+
+  return sections.map(toSectionSelection);
+}
+
+/**
+ * Normalize a section ID or selection, validating the ID and limit
+ */
+export function toSectionSelection(section: ReportSectionId | ReportSectionSelection): ReportSectionSelection {
+  const selection = typeof section === "string" ? { id: section } : section;
+  if (!Object.prototype.hasOwnProperty.call(REPORT_SECTIONS, selection.id)) {
+    throw new Error(`Unknown report section "${selection.id}". Use one of: ${REPORT_SECTION_IDS.join(", ")}.`);
+  }
+  if (selection.limit !== undefined && (!Number.isInteger(selection.limit) || selection.limit < 1)) {
+    throw new Error(`Invalid limit for report section "${selection.id}". It must be a positive whole number.`);
+  }
+  return selection;
+}
+
+/**
+ * Render one section in the given style, falling back to its other style when it has none
+ */
+export function renderReportSection(
+  selection: ReportSectionSelection,
+  style: ReportStyle,
+  context: Omit<SectionContext, "limit">
+): string {
+  const section = REPORT_SECTIONS[selection.id];
+  const render = (style === "full" ? section.full || section.summary : section.summary || section.full)!;
+  return render({ ...context, limit: selection.limit });
+}
+
+/**
+ * Render the filter notice and truncation warning shown below a report's title
+ */
+export function renderReportNotices({ result, t, filterDescription }: Omit<SectionContext, "limit">): string {
+  let markdown = "";
+
+  if (filterDescription) {
+    markdown += getFilterNotice(filterDescription, t);
+  }
+
+  if (result.actionsTruncated) {
+    markdown += getTruncationWarning(result.actions.length, t);
+  }
+
+  return markdown;
+}
+
+/**
+ * Render the title, period and notices at the top of a report
+ */
+function renderReportHeader(style: ReportStyle, context: Omit<SectionContext, "limit">): string {
+  const { result, t } = context;
+  const periodDesc = getPeriodDescription(result.period, t);
+  const title =
+    style === "full"
+      ? `# ${t("report.title", { board: result.boardInfo.name })}\n\n` +
+        `## ${t("report.reportPeriod", { period: periodDesc })}\n\n` +
+        `${t("report.dateRange", { range: describeDateRange(result, t) })}\n\n`
+      : `# ${t("summary.title", { board: result.boardInfo.name, period: periodDesc })}\n\n`;
+
+  return title + renderReportNotices(context);
+}
+
+/**
+ * Render a markdown report: the header, the selected sections in order and, for full reports,
+ * the generation date
+ */
+export function renderReportMarkdown(
+  style: ReportStyle,
+  sections: ReportSectionSelection[],
+  context: Omit<SectionContext, "limit">
+): string {
+  let markdown = renderReportHeader(style, context);
+
+  sections.forEach((selection) => {
+    markdown += renderReportSection(selection, style, context);
+  });
+
+  if (style === "full") {
+    const { t, result } = context;
+    markdown += `*${t("report.generatedOn", { date: formatLocaleDate(new Date(), result.dateSettings) })}*\n`;
+  }
+
+  return markdown;
+}
@@ -0,0 +1,120 @@
+/**
+ * Tests for board snapshots and the snapshot data source
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BoardBuilder } from "../mock/builders.js";
+import { SnapshotDataSource, readSnapshot, resolveSnapshotPeriod } from "./snapshot.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+// When the snapshot is captured, two weeks after June
+const JULY_15 = new Date("2024-07-15T00:00:00.000Z");
+
+/**
+ * Build a board with one card moved in June and again in July
+ */
+function createBoard(): BoardBuilder {
+  const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+  const todo = builder.list("To Do");
+  const doing = builder.list("Doing");
+  const done = builder.list("Done");
+
+  const card = builder.card("Card", todo, new Date("2024-06-03T00:00:00.000Z"));
+  builder.move(card, doing, new Date("2024-06-10T00:00:00.000Z"));
+  builder.move(card, done, new Date("2024-07-05T00:00:00.000Z"));
+
+  return builder;
+}
+
+describe("SnapshotDataSource.getActions", () => {
+  it("serves the actions after the period up to the capture time", async () => {
+    const builder = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE, JULY_15));
+
+    const june = await source.getActions(builder.board.id, JUNE);
+    const later = await source.getActions(builder.board.id, { start: JUNE.end, end: new Date("2026-01-01") });
+
+    assert.equal(june.actions.length, 2);
+    assert.deepEqual(later.actions.map((action) => action.data.listAfter?.name), ["Done"]);
+  });
+
+  it("serves older snapshots without later actions as a truncated history", async () => {
+    const builder = createBoard();
+    const { actionsEnd, ...snapshot } = builder.build(JUNE, JULY_15);
+    const source = new SnapshotDataSource({
+      ...snapshot,
+      actions: snapshot.actions.filter((action) => new Date(action.date) <= JUNE.end),
+    });
+
+    assert.deepEqual(await source.getActions(builder.board.id, { start: JUNE.end, end: JULY_15 }), {
+      actions: [],
+      truncated: true,
+    });
+    await assert.rejects(
+      source.getActions(builder.board.id, { start: JUNE.start, end: JULY_15 }),
+      /Snapshot only covers 2024-06-01 to 2024-06-30/
+    );
+  });
+
+  it("rejects ranges before the captured period", async () => {
+    const builder = createBoard();
+    const source = new SnapshotDataSource(builder.build(JUNE, JULY_15));
+
+    await assert.rejects(
+      source.getActions(builder.board.id, { start: new Date("2024-05-01T00:00:00.000Z"), end: JUNE.end }),
+      /Snapshot only covers 2024-06-01 to 2024-07-15, but 2024-05-01 to 2024-06-30 was requested/
+    );
+  });
+});
+
+describe("resolveSnapshotPeriod", () => {
+  const snapshot = {
+    ...createBoard().build(JUNE, JULY_15),
+    period: { type: "month" as const, year: 2024, month: 6 },
+    timeZone: "UTC",
+  };
+
+  it("reuses the captured range for the snapshot's own period", () => {
+    assert.deepEqual(resolveSnapshotPeriod(snapshot), {
+      period: snapshot.period,
+      dateRange: JUNE,
+      asOf: JULY_15,
+    });
+    assert.deepEqual(resolveSnapshotPeriod(snapshot, { type: "month", year: 2024, month: 6 }, "UTC").dateRange, JUNE);
+  });
+
+  it("recomputes the range for another period or time zone, as of the capture time", () => {
+    assert.deepEqual(resolveSnapshotPeriod(snapshot, { type: "week", year: 2024, week: 24 }), {
+      period: { type: "week", year: 2024, week: 24 },
+      dateRange: undefined,
+      asOf: JULY_15,
+    });
+    assert.equal(resolveSnapshotPeriod(snapshot, undefined, "America/Sao_Paulo").dateRange, undefined);
+  });
+});
+
+describe("readSnapshot", () => {
+  it("rejects files that are not snapshots of a supported version", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "board-snapshots-"));
+    try {
+      const invalid = join(directory, "invalid.json");
+      const future = join(directory, "future.json");
+      const empty = join(directory, "empty.json");
+      await writeFile(invalid, "{");
+      await writeFile(future, JSON.stringify({ version: 2 }));
+      await writeFile(empty, JSON.stringify({ version: 1 }));
+
+      await assert.rejects(readSnapshot(invalid), /Invalid JSON in snapshot/);
+      await assert.rejects(readSnapshot(future), /Unsupported snapshot version 2 .* Expected version 1\./);
+      await assert.rejects(readSnapshot(empty), /is missing board data\./);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Board snapshots: versioned JSON captures of everything a report needs
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import {
+  ActionHistory,
+  BoardSnapshot,
+  DateRange,
+  ReportPeriod,
+  TrelloBoard,
+  TrelloCard,
+  TrelloChecklist,
+  TrelloCustomField,
+  TrelloDataSource,
+  TrelloLabel,
+  TrelloList,
+  TrelloMember,
+} from "./types.js";
+import { formatDate } from "./utils.js";
+
+// Current snapshot file format version
+export const SNAPSHOT_VERSION = 1;
+
+// Environment variable for the directory snapshots are written to by default
+const SNAPSHOT_DIR_ENV = "TRELLO_SNAPSHOT_DIR";
+
+// Default snapshot directory, relative to the working directory
+const DEFAULT_SNAPSHOT_DIR = "snapshots";
+
+// Period fields that must match for a report to cover the snapshot's own period
+const PERIOD_FIELDS: Array<keyof ReportPeriod> = [
+  "type",
+  "year",
+  "month",
+  "week",
+  "days",
+  "start",
+  "end",
+  "fiscalYearStartMonth",
+];
+
+/**
+ * Build the default file path for a snapshot: <dir>/<board-slug>-<start>-<end>-<timestamp>.json
+ */
+export function getDefaultSnapshotPath(snapshot: BoardSnapshot): string {
+  const directory = process.env[SNAPSHOT_DIR_ENV] || DEFAULT_SNAPSHOT_DIR;
+  const slug = snapshot.board.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  const start = formatDate(new Date(snapshot.dateRange.start));
+  const end = formatDate(new Date(snapshot.dateRange.end));
+  const timestamp = snapshot.createdAt.replace(/[:.]/g, "-");
+
+  return join(directory, `${slug || snapshot.board.id}-${start}-${end}-${timestamp}.json`);
+}
+
+/**
+ * Write a snapshot to disk, creating the directory if needed
+ */
+export async function writeSnapshot(snapshot: BoardSnapshot, path: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(snapshot, null, 2), "utf-8");
+}
+
+/**
+ * Read and validate a snapshot file
+ */
+export async function readSnapshot(path: string): Promise<BoardSnapshot> {
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf-8");
+  } catch (error) {
+    throw new Error(`Could not read snapshot "${path}": ${(error as Error).message}`);
+  }
+
+  let snapshot: BoardSnapshot;
+  try {
+    snapshot = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid JSON in snapshot "${path}".`);
+  }
+
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${snapshot.version} in "${path}". Expected version ${SNAPSHOT_VERSION}.`
+    );
+  }
+
+  if (!snapshot.board || !snapshot.dateRange || !Array.isArray(snapshot.actions)) {
+    throw new Error(`Snapshot "${path}" is missing board data.`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Resolve the period, date range and reference time of a report built from a snapshot.
+ *
+ * The report describes the board as it was captured: relative periods and card ages are measured
+ * from the capture time, and a report on the snapshot's own period (the default) reuses the exact
+ * range that was captured, unless it is asked for in another time zone.
+ */
+export function resolveSnapshotPeriod(
+  snapshot: BoardSnapshot,
+  period?: ReportPeriod,
+  timeZone?: string
+): { period: ReportPeriod; dateRange?: DateRange; asOf: Date } {
+  const asOf = new Date(snapshot.createdAt);
+  const reportPeriod = period || snapshot.period;
+  const sameRange =
+    PERIOD_FIELDS.every((field) => reportPeriod[field] === snapshot.period[field]) &&
+    (!timeZone || timeZone === snapshot.timeZone);
+
+  return {
+    period: reportPeriod,
+    dateRange: sameRange
+      ? { start: new Date(snapshot.dateRange.start), end: new Date(snapshot.dateRange.end) }
+      : undefined,
+    asOf,
+  };
+}
+
+/**
+ * Data source that serves board data from a snapshot instead of the Trello API
+ */
+export class SnapshotDataSource implements TrelloDataSource {
+  private snapshot: BoardSnapshot;
+
+  constructor(snapshot: BoardSnapshot) {
+    this.snapshot = snapshot;
+  }
+
+  /**
+   * Ensure a request targets the board stored in the snapshot
+   */
+  private assertBoard(boardId: string): void {
+    if (boardId !== this.snapshot.board.id) {
+      throw new Error(
+        `Snapshot contains board "${this.snapshot.board.name}" (${this.snapshot.board.id}), not ${boardId}.`
+      );
+    }
+  }
+
+  async getBoards(): Promise<TrelloBoard[]> {
+    return [this.snapshot.board];
+  }
+
+  async getOrganizationBoards(organizationId: string): Promise<TrelloBoard[]> {
+    const { board } = this.snapshot;
+    return board.idOrganization === organizationId ? [board] : [];
+  }
+
+  async findBoardByName(name: string): Promise<TrelloBoard | null> {
+    const { board } = this.snapshot;
+    return board.name.toLowerCase().includes(name.toLowerCase()) ? board : null;
+  }
+
+  async getBoard(boardId: string): Promise<TrelloBoard> {
+    this.assertBoard(boardId);
+    return this.snapshot.board;
+  }
+
+  async getLists(boardId: string): Promise<TrelloList[]> {
+    this.assertBoard(boardId);
+    return this.snapshot.lists;
+  }
+
+  async getCards(boardId: string): Promise<TrelloCard[]> {
+    this.assertBoard(boardId);
+    return this.snapshot.cards;
+  }
+
+  async getCard(cardId: string): Promise<TrelloCard> {
+    const card = this.snapshot.cards.find((c) => c.id === cardId);
+    if (!card) {
+      throw new Error(`Card ${cardId} is not in the snapshot of board "${this.snapshot.board.name}".`);
+    }
+    return card;
+  }
+
+  async getMembers(boardId: string): Promise<TrelloMember[]> {
+    this.assertBoard(boardId);
+    return this.snapshot.members;
+  }
+
+  async getLabels(boardId: string): Promise<TrelloLabel[]> {
+    this.assertBoard(boardId);
+    return this.snapshot.labels;
+  }
+
+  /**
+   * Get the captured actions within a date range, which must lie inside the captured range.
+   * The board does not change after it was captured, so ranges running past the capture time
+   * are served up to it.
+   */
+  async getActions(boardId: string, dateRange: DateRange): Promise<ActionHistory> {
+    this.assertBoard(boardId);
+
+    const { actionsEnd } = this.snapshot;
+    const capturedAt = new Date(this.snapshot.createdAt);
+    const capturedStart = new Date(this.snapshot.dateRange.start);
+    const capturedEnd = new Date(actionsEnd || this.snapshot.dateRange.end);
+
+    // Older snapshots stop at the period end: the actions after it are missing, so reports place
+    // cards in the lists they were captured in
+    if (!actionsEnd && dateRange.start.getTime() === capturedEnd.getTime()) {
+      return { actions: [], truncated: true };
+    }
+
+    const end = capturedEnd >= capturedAt && dateRange.end > capturedEnd ? capturedEnd : dateRange.end;
+    if (dateRange.start < capturedStart || end > capturedEnd) {
+      throw new Error(
+        `Snapshot only covers ${formatDate(capturedStart)} to ${formatDate(capturedEnd)}, ` +
+          `but ${formatDate(dateRange.start)} to ${formatDate(dateRange.end)} was requested.`
+      );
+    }
+
+    const actions = this.snapshot.actions.filter((action) => {
+      const date = new Date(action.date);
+      return date >= dateRange.start && date <= end;
+    });
+
+    return { actions, truncated: this.snapshot.actionsTruncated };
+  }
+
+  async getCardChecklists(cardId: string): Promise<TrelloChecklist[]> {
+    return this.snapshot.checklists.filter((checklist) => checklist.idCard === cardId);
+  }
+
+  async getBoardChecklists(boardId: string): Promise<TrelloChecklist[]> {
+    this.assertBoard(boardId);
+    return this.snapshot.checklists;
+  }
+
+  async getCustomFields(boardId: string): Promise<TrelloCustomField[]> {
+    this.assertBoard(boardId);
+    return this.snapshot.customFields || [];
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for user-defined markdown report templates
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BoardBuilder } from "../mock/builders.js";
+import { generateReport } from "../tools/generateReport.js";
+import { loadReportTemplate } from "./templates.js";
+import { SnapshotDataSource } from "./snapshot.js";
+
+// June 2024, in UTC
+const JUNE = { start: new Date("2024-06-01T00:00:00.000Z"), end: new Date("2024-06-30T23:59:59.999Z") };
+
+const WEEKLY_TEMPLATE = `# {{boardInfo.name}}: {{periodDescription}}
+
+{{#each lists}}
+{{@number}}. {{name}}
+{{/each}}
+
+{{#if comparison}}
+Compared
+{{else}}
+No comparison
+{{/if}}
+
+{{> activity}}
+`;
+
+describe("report templates", () => {
+  let directory: string;
+  const previousDirectory = process.env.TRELLO_REPORT_TEMPLATES;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "report-templates-"));
+    process.env.TRELLO_REPORT_TEMPLATES = directory;
+    await writeFile(join(directory, "weekly.md"), WEEKLY_TEMPLATE);
+    await writeFile(join(directory, "unclosed.md"), "{{#each lists}}{{name}}");
+    await writeFile(join(directory, "unknown-section.md"), "{{> velocity}}");
+  });
+
+  after(async () => {
+    if (previousDirectory === undefined) {
+      delete process.env.TRELLO_REPORT_TEMPLATES;
+    } else {
+      process.env.TRELLO_REPORT_TEMPLATES = previousDirectory;
+    }
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("renders values, loops, conditionals and sections", async () => {
+    const builder = new BoardBuilder("Team Board", new Date("2024-05-01T00:00:00.000Z"));
+    const todo = builder.list("To Do");
+    builder.list("Done");
+    builder.card("First", todo, new Date("2024-06-03T00:00:00.000Z"));
+
+    const result = await generateReport(new SnapshotDataSource(builder.build(JUNE)), {
+      boardId: builder.board.id,
+      period: { type: "month", year: 2024, month: 6 },
+      timezone: "UTC",
+      asOf: JUNE.end,
+      template: "weekly",
+    });
+
+    assert.ok(result.markdown.startsWith("# Team Board: June 2024\n\n1. To Do\n2. Done\n\nNo comparison\n\n"));
+    assert.match(result.markdown, /## Activity Summary\n\n- \*\*Cards Created\*\*: 1\n/);
+  });
+
+  it("rejects missing templates, bad names and invalid templates", async () => {
+    await assert.rejects(loadReportTemplate("missing"), /Report template "missing" not found/);
+    await assert.rejects(loadReportTemplate("../weekly"), /Invalid template name/);
+    await assert.rejects(loadReportTemplate("unclosed"), /unclosed "\{\{#each\}\}" block/);
+    await assert.rejects(loadReportTemplate("unknown-section"), /Unknown report section "velocity"/);
+  });
+});
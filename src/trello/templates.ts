@@ -0,0 +1,288 @@
+/**
+ * User-defined markdown report templates, read from the local report templates directory
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+import { ReportSectionSelection } from "./types.js";
+import { formatDate, getPeriodDescription } from "./utils.js";
+import { formatLocaleDate } from "./timezone.js";
+import {
+  describeDateRange,
+  renderReportNotices,
+  renderReportSection,
+  ReportStyle,
+  SectionContext,
+  toSectionSelection,
+} from "./sections.js";
+
+// Environment variable pointing to the directory report templates are read from
+const TEMPLATES_DIR_ENV = "TRELLO_REPORT_TEMPLATES";
+
+// Report templates directory, relative to the working directory, used when the env var is not set
+const DEFAULT_TEMPLATES_DIR = "report-templates";
+
+// Template names are file names without the .md extension, so they cannot point outside the directory
+const TEMPLATE_NAME_PATTERN = /^[\w-]+$/;
+
+// Template tags: {{path}}, {{> section}}, {{sections}}, {{#each path}}, {{#if path}}, {{else}}, {{/each}}, {{/if}}
+const TAG_PATTERN = /\{\{\s*(.*?)\s*\}\}/g;
+
+// Tags that open, split or close a block
+const BLOCK_TAG = /^(#|\/|else$)/;
+
+// Rest of a line after a tag: spaces up to the line break or the end of the template
+const STANDALONE_LINE_END = /^[ \t]*(\r?\n|$)/;
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; path: string }
+  | { type: "section"; selection: ReportSectionSelection }
+  | { type: "sections" }
+  | { type: "each"; path: string; body: TemplateNode[] }
+  | { type: "if"; path: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+/**
+ * A parsed report template
+ */
+export interface ReportTemplate {
+  name: string;
+  nodes: TemplateNode[];
+}
+
+// A block being parsed, with the nodes its tags are added to
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: "each" | "if" }>;
+  nodes: TemplateNode[];
+}
+
+// Values visible to a template: the innermost scope is looked up first
+interface TemplateScope {
+  value: unknown;
+  index?: number;
+  key?: unknown;
+}
+
+/**
+ * Load and parse a report template by name.
+ *
+ * The template is read from <name>.md in TRELLO_REPORT_TEMPLATES, or report-templates in the
+ * working directory.
+ */
+export async function loadReportTemplate(name: string): Promise<ReportTemplate> {
+  if (!TEMPLATE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid template name "${name}". Use only letters, numbers, dashes and underscores.`);
+  }
+
+  const directory = process.env[TEMPLATES_DIR_ENV] || DEFAULT_TEMPLATES_DIR;
+  const path = join(directory, `${name}.md`);
+
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Report template "${name}" not found in "${directory}".`);
+    }
+    throw new Error(`Could not read report template "${path}": ${(error as Error).message}`);
+  }
+
+  return { name, nodes: parseTemplate(name, contents) };
+}
+
+/**
+ * Parse template text into nodes, validating tags, blocks and embedded sections
+ */
+function parseTemplate(name: string, contents: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const blocks: OpenBlock[] = [];
+  const current = () => (blocks.length > 0 ? blocks[blocks.length - 1].nodes : root);
+  const fail = (message: string) => new Error(`Invalid report template "${name}": ${message}`);
+
+  let lastIndex = 0;
+  for (const match of contents.matchAll(TAG_PATTERN)) {
+    const tag = match[1];
+    const start = match.index!;
+    const lineStart = contents.lastIndexOf("\n", start - 1) + 1;
+    let text = contents.slice(lastIndex, start);
+    let end = start + match[0].length;
+
+    // Block tags alone on their line take the whole line with them, so they leave no blank lines
+    const lineEnd = STANDALONE_LINE_END.exec(contents.slice(end));
+    if (BLOCK_TAG.test(tag) && lineEnd && lineStart >= lastIndex && !contents.slice(lineStart, start).trim()) {
+      text = contents.slice(lastIndex, lineStart);
+      end += lineEnd[0].length;
+    }
+    if (text) {
+      current().push({ type: "text", text });
+    }
+    lastIndex = end;
+
+    if (tag.startsWith("#")) {
+      const [keyword, path] = tag.slice(1).split(/\s+/);
+      if ((keyword !== "each" && keyword !== "if") || !path) {
+        throw fail(`unknown block "{{${tag}}}".`);
+      }
+      const node: OpenBlock["node"] =
+        keyword === "each" ? { type: "each", path, body: [] } : { type: "if", path, body: [], elseBody: [] };
+      current().push(node);
+      blocks.push({ node, nodes: node.body });
+    } else if (tag.startsWith("/")) {
+      const block = blocks.pop();
+      if (!block || block.node.type !== tag.slice(1)) {
+        throw fail(`unexpected "{{${tag}}}".`);
+      }
+    } else if (tag === "else") {
+      const block = blocks[blocks.length - 1];
+      if (!block || block.node.type !== "if" || block.nodes === block.node.elseBody) {
+        throw fail(`"{{else}}" must be inside an {{#if}} block.`);
+      }
+      block.nodes = block.node.elseBody;
+    } else if (tag.startsWith(">")) {
+      const [id, ...args] = tag.slice(1).trim().split(/\s+/);
+      const selection: ReportSectionSelection = { id: id as ReportSectionSelection["id"] };
+      args.forEach((arg) => {
+        const [key, value] = arg.split("=");
+        if (key !== "limit") {
+          throw fail(`unknown section option "${arg}".`);
+        }
+        selection.limit = Number(value);
+      });
+      try {
+        current().push({ type: "section", selection: toSectionSelection(selection) });
+      } catch (error) {
+        throw fail((error as Error).message);
+      }
+    } else if (tag === "sections") {
+      current().push({ type: "sections" });
+    } else if (tag) {
+      current().push({ type: "value", path: tag });
+    }
+  }
+
+  if (blocks.length > 0) {
+    throw fail(`unclosed "{{#${blocks[blocks.length - 1].node.type}}}" block.`);
+  }
+
+  if (lastIndex < contents.length) {
+    root.push({ type: "text", text: contents.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+/**
+ * Build the data a template can refer to: the report result plus descriptions of its period
+ */
+function getTemplateData(context: Omit<SectionContext, "limit">): Record<string, unknown> {
+  const { result, t } = context;
+  return {
+    ...result,
+    periodDescription: getPeriodDescription(result.period, t),
+    dateRangeDescription: describeDateRange(result, t),
+    generatedOn: formatLocaleDate(new Date(), result.dateSettings),
+    notices: renderReportNotices(context),
+  };
+}
+
+/**
+ * Look up a dotted path (e.g. "activity.dueDates.overdue") in the innermost scope that has it
+ */
+function lookup(path: string, scopes: TemplateScope[]): unknown {
+  const [head, ...rest] = path.split(".");
+  const scope = scopes[scopes.length - 1];
+
+  let value: unknown;
+  if (head === "this") {
+    value = scope.value;
+  } else if (head === "@index") {
+    return scope.index;
+  } else if (head === "@number") {
+    return scope.index === undefined ? undefined : scope.index + 1;
+  } else if (head === "@key") {
+    return scope.key;
+  } else {
+    const owner = [...scopes].reverse().find((s) => getProperty(s.value, head) !== undefined);
+    value = owner ? getProperty(owner.value, head) : undefined;
+  }
+
+  return rest.reduce((current, key) => getProperty(current, key), value);
+}
+
+/**
+ * Get a property of an object, an entry of a Map or an item of an array
+ */
+function getProperty(value: unknown, key: string): unknown {
+  if (value instanceof Map) {
+    return value.has(key) ? value.get(key) : key === "size" ? value.size : undefined;
+  }
+  if (value !== null && typeof value === "object") {
+    return (value as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a value counts as true in {{#if}}: empty lists and Maps do not
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value instanceof Map) return value.size > 0;
+  return !!value;
+}
+
+/**
+ * Format a value for output: dates in the report's time zone, lists joined with commas
+ */
+function formatValue(value: unknown, timeZone: string): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return formatDate(value, timeZone);
+  if (Array.isArray(value)) return value.map((item) => formatValue(item, timeZone)).join(", ");
+  if (value instanceof Map) return [...value.values()].map((item) => formatValue(item, timeZone)).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Render a report template: values from the report data, embedded sections and the selected sections
+ */
+export function renderReportTemplate(
+  template: ReportTemplate,
+  style: ReportStyle,
+  sections: ReportSectionSelection[],
+  context: Omit<SectionContext, "limit">
+): string {
+  const { timeZone } = context.result.dateSettings;
+
+  const render = (nodes: TemplateNode[], scopes: TemplateScope[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.text;
+          case "value":
+            return formatValue(lookup(node.path, scopes), timeZone);
+          case "section":
+            return renderReportSection(node.selection, style, context);
+          case "sections":
+            return sections.map((selection) => renderReportSection(selection, style, context)).join("");
+          case "if":
+            return render(isTruthy(lookup(node.path, scopes)) ? node.body : node.elseBody, scopes);
+          case "each": {
+            const items = lookup(node.path, scopes);
+            const entries: Array<[unknown, unknown]> =
+              items instanceof Map
+                ? [...items.entries()]
+                : Array.isArray(items)
+                  ? items.map((item, index) => [index, item])
+                  : [];
+            return entries
+              .map(([key, value], index) => render(node.body, [...scopes, { value, index, key }]))
+              .join("");
+          }
+        }
+      })
+      .join("");
+
+  return render(template.nodes, [{ value: getTemplateData(context) }]);
+}
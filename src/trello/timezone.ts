@@ -0,0 +1,142 @@
+/**
+ * Time zone and locale handling: period boundaries, day buckets and rendered dates follow the
+ * report's time zone instead of the server's
+ */
+
+import { DateSettings } from "./types.js";
+
+// Environment variables with the default time zone (IANA name) and locale (BCP 47 tag) of reports
+const TIMEZONE_ENV = "TRELLO_REPORT_TIMEZONE";
+const LOCALE_ENV = "TRELLO_REPORT_LOCALE";
+
+// Formatters reading the wall-clock time of a time zone, cached per zone
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Resolve the time zone and locale of a report: the given values, then the environment
+ * defaults, then the server's own settings
+ */
+export function resolveDateSettings(timeZone?: string, locale?: string): DateSettings {
+  const hostSettings = Intl.DateTimeFormat().resolvedOptions();
+  const settings: DateSettings = {
+    timeZone: timeZone || process.env[TIMEZONE_ENV] || hostSettings.timeZone,
+    locale: locale || process.env[LOCALE_ENV] || hostSettings.locale,
+  };
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: settings.timeZone });
+  } catch (error) {
+    throw new Error(`Invalid timezone "${settings.timeZone}". Use an IANA name such as "America/Sao_Paulo".`);
+  }
+
+  let supported: string[];
+  try {
+    supported = Intl.DateTimeFormat.supportedLocalesOf([settings.locale]);
+  } catch (error) {
+    throw new Error(`Invalid locale "${settings.locale}". Use a language tag such as "en-US" or "pt-BR".`);
+  }
+  if (supported.length === 0) {
+    throw new Error(`Locale "${settings.locale}" is not supported by this server.`);
+  }
+
+  return settings;
+}
+
+/**
+ * Get the formatter that reads the wall-clock time of a time zone
+ */
+function getWallClockFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = wallClockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    wallClockFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the offset of a time zone from UTC at a given instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  getWallClockFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== "literal") {
+        parts[part.type] = Number(part.value);
+      }
+    });
+
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    date.getUTCMilliseconds()
+  );
+  return wallClockAsUtc - date.getTime();
+}
+
+/**
+ * Get the wall-clock time of an instant in a time zone, as a server-local date that date-fns
+ * can do calendar arithmetic on. Without a time zone the date is returned as is.
+ */
+export function toWallClock(date: Date, timeZone?: string): Date {
+  if (!timeZone) return date;
+
+  const shifted = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+  return new Date(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth(),
+    shifted.getUTCDate(),
+    shifted.getUTCHours(),
+    shifted.getUTCMinutes(),
+    shifted.getUTCSeconds(),
+    shifted.getUTCMilliseconds()
+  );
+}
+
+/**
+ * Get the instant at which a time zone shows the wall-clock time of a server-local date.
+ * The inverse of toWallClock.
+ */
+export function fromWallClock(wallClock: Date, timeZone?: string): Date {
+  if (!timeZone) return wallClock;
+
+  const wallClockAsUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds()
+  );
+
+  // The offset at the first guess can differ when a DST change lies in between
+  const guess = wallClockAsUtc - getTimeZoneOffset(new Date(wallClockAsUtc), timeZone);
+  return new Date(wallClockAsUtc - getTimeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Format a date for readers, in the report's locale and time zone
+ */
+export function formatLocaleDate(date: Date, settings: DateSettings): string {
+  return new Intl.DateTimeFormat(settings.locale, {
+    timeZone: settings.timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).format(date);
+}
@@ -45,6 +45,39 @@ export interface TrelloCard {
     due?: string;
     dueComplete?: boolean;
   };
+  customFieldItems?: TrelloCustomFieldItem[]; // Only returned when requested
+}
+
+export type TrelloCustomFieldType = "number" | "text" | "date" | "checkbox" | "list";
+
+export interface TrelloCustomFieldOption {
+  id: string;
+  idCustomField: string;
+  value: { text: string };
+  color: string;
+  pos: number;
+}
+
+export interface TrelloCustomField {
+  id: string;
+  idModel: string; // The board the field is defined on
+  name: string;
+  type: TrelloCustomFieldType;
+  pos: number;
+  options?: TrelloCustomFieldOption[]; // Dropdown ("list") fields only
+}
+
+export interface TrelloCustomFieldItem {
+  id: string;
+  idCustomField: string;
+  idModel: string; // The card the value belongs to
+  idValue?: string; // Selected option of dropdown fields
+  value?: {
+    number?: string; // Numbers are sent as strings
+    text?: string;
+    date?: string;
+    checked?: string; // "true" or "false"
+  };
 }
 
 export interface TrelloComment {
@@ -84,7 +117,7 @@ export interface TrelloLabel {
   id: string;
   idBoard: string;
   name: string;
-  color: string;
+  color: string | null; // Null for labels without a color
 }
 
 export interface TrelloMember {
@@ -111,6 +144,8 @@ export interface TrelloAction {
     card?: {
       id: string;
       name: string;
+      due?: string | null; // Set on updateCard actions that change the due date
+      dueComplete?: boolean; // Set on updateCard actions that mark the due date complete
     };
     listBefore?: {
       id: string;
@@ -120,7 +155,22 @@ export interface TrelloAction {
       id: string;
       name: string;
     };
+    checklist?: {
+      id: string;
+      name: string;
+    };
+    checkItem?: {
+      id: string;
+      name: string;
+      state: "complete" | "incomplete";
+    };
     text?: string;
+    old?: {
+      closed?: boolean;
+      idList?: string;
+      due?: string | null;
+      dueComplete?: boolean;
+    };
   };
   memberCreator: {
     id: string;
@@ -129,14 +179,276 @@ export interface TrelloAction {
   };
 }
 
+export interface ActionHistory {
+  actions: TrelloAction[];
+  truncated: boolean; // True when the page cap was hit before the whole range was fetched
+}
+
+/**
+ * Source of the board data used to build reports (the live Trello API or a snapshot)
+ */
+export interface TrelloDataSource {
+  getBoards(): Promise<TrelloBoard[]>;
+  getOrganizationBoards(organizationId: string): Promise<TrelloBoard[]>;
+  findBoardByName(name: string): Promise<TrelloBoard | null>;
+  getBoard(boardId: string): Promise<TrelloBoard>;
+  getLists(boardId: string): Promise<TrelloList[]>;
+  getCards(boardId: string): Promise<TrelloCard[]>;
+  getCard(cardId: string): Promise<TrelloCard>;
+  getMembers(boardId: string): Promise<TrelloMember[]>;
+  getLabels(boardId: string): Promise<TrelloLabel[]>;
+  getActions(boardId: string, dateRange: DateRange, maxPages?: number): Promise<ActionHistory>;
+  getCardChecklists(cardId: string): Promise<TrelloChecklist[]>;
+  getBoardChecklists(boardId: string): Promise<TrelloChecklist[]>;
+  getCustomFields(boardId: string): Promise<TrelloCustomField[]>;
+}
+
+export interface BoardSnapshot {
+  version: number;
+  createdAt: string; // ISO timestamp of the capture
+  period: ReportPeriod;
+  dateRange: { start: string; end: string }; // Range of the captured period
+  timeZone?: string; // Time zone the period boundaries were computed in
+  board: TrelloBoard;
+  lists: TrelloList[];
+  cards: TrelloCard[];
+  members: TrelloMember[];
+  labels: TrelloLabel[];
+  actions: TrelloAction[]; // From the start of the period up to actionsEnd
+  actionsEnd?: string; // ISO timestamp, past the period end for past periods (older snapshots stop at the period end)
+  actionsTruncated: boolean;
+  checklists: TrelloChecklist[];
+  customFields?: TrelloCustomField[]; // Missing in snapshots taken before custom fields were captured
+}
+
+export interface SnapshotOptions {
+  boardId?: string;
+  boardName?: string;
+  period: ReportPeriod;
+  outputPath?: string;
+  maxActionPages?: number;
+  timezone?: string; // Time zone of the period boundaries (default: TRELLO_REPORT_TIMEZONE or the server's)
+}
+
 export interface DateRange {
   start: Date;
   end: Date;
 }
 
+export type ReportPeriodType =
+  | "Q1"
+  | "Q2"
+  | "Q3"
+  | "Q4"
+  | "year"
+  | "month"
+  | "week"
+  | "lastDays"
+  | "custom";
+
 export interface ReportPeriod {
-  type: "Q1" | "Q2" | "Q3" | "Q4" | "year";
+  type: ReportPeriodType;
   year: number;
+  month?: number; // 1-12, for "month" periods
+  week?: number; // ISO week number, for "week" periods
+  days?: number; // Number of days ending today, for "lastDays" periods
+  start?: string; // YYYY-MM-DD, for "custom" periods
+  end?: string; // YYYY-MM-DD (inclusive), for "custom" periods
+  fiscalYearStartMonth?: number; // 1-12, shifts quarters and years (default: 1)
+}
+
+export interface CardTiming {
+  cardId: string;
+  cardName: string;
+  createdAt: Date;
+  startedAt?: Date; // First move into an in-progress list, if observed
+  completedAt: Date;
+  leadTimeDays: number;
+  cycleTimeDays?: number;
+}
+
+export interface DurationPercentiles {
+  count: number;
+  p50: number;
+  p85: number;
+  p95: number;
+}
+
+export interface TimingBreakdown {
+  leadTime: DurationPercentiles;
+  cycleTime: DurationPercentiles;
+}
+
+export interface CycleTimeStats extends TimingBreakdown {
+  cards: CardTiming[];
+  byLabel: Map<string, TimingBreakdown>;
+  byMember: Map<string, TimingBreakdown>;
+}
+
+export interface ListDwellStats {
+  listId: string;
+  stays: number; // Number of card stays in the list that overlap the period
+  averageDays: number;
+  medianDays: number;
+  maxDays: number;
+  totalDays: number;
+}
+
+export interface CumulativeFlowPoint {
+  date: string; // YYYY-MM-DD
+  counts: Record<string, number>; // Cards in each list (by list ID) at the end of the day
+}
+
+export type WorkflowStage =
+  | "backlog"
+  | "todo"
+  | "inProgress"
+  | "review"
+  | "blocked"
+  | "done"
+  | "other";
+
+export interface WorkflowStageMatcher {
+  listIds?: string[]; // Exact list IDs
+  names?: string[]; // Case- and accent-insensitive substrings of the list name
+}
+
+export type ConfigurableWorkflowStage = Exclude<WorkflowStage, "other">;
+
+export type WorkflowConfig = Partial<Record<ConfigurableWorkflowStage, WorkflowStageMatcher>>;
+
+export interface WorkflowConfigFile {
+  default?: WorkflowConfig;
+  boards?: Record<string, WorkflowConfig>; // Keyed by board ID
+}
+
+export interface BoardWorkflow {
+  config: WorkflowConfig; // Configuration merged over the defaults
+  configuredStages: ConfigurableWorkflowStage[]; // Stages defined by the configuration, matched before the defaults
+  stagesByListId: Map<string, WorkflowStage>;
+}
+
+export interface DueCardStatus {
+  cardId: string;
+  cardName: string;
+  due: Date;
+  completedAt?: Date; // When the card was completed, if observed in the period
+  slipDays?: number; // Days past due: at completion for late cards, until now for overdue cards
+}
+
+export interface DueDateBreakdown {
+  dueInPeriod: number;
+  completedOnTime: number;
+  completedLate: number;
+  overdue: number;
+}
+
+export interface DueDateMetrics {
+  dueInPeriod: DueCardStatus[]; // Cards with a due date within the period
+  completedOnTime: DueCardStatus[]; // Cards with a due date completed in the period, on or before it
+  completedLate: DueCardStatus[]; // Cards with a due date completed in the period, after it
+  overdue: DueCardStatus[]; // Open cards past their due date as of now
+  dueSoon: DueCardStatus[]; // Open cards due within the next dueSoonDays days
+  dueSoonDays: number;
+  onTimeRate: number | null; // Share of completions that were on time, null without completions
+  averageSlipDays: number | null; // Average days late of late completions, null without any
+  byMember: Map<string, DueDateBreakdown>; // Keyed by member ID
+  byLabel: Map<string, DueDateBreakdown>; // Keyed by label ID
+}
+
+export interface CardChecklistProgress {
+  cardId: string;
+  cardName: string;
+  listId: string;
+  totalItems: number;
+  completedItems: number;
+  openItems: string[]; // Names of the incomplete items
+}
+
+export interface ChecklistMetrics {
+  cards: CardChecklistProgress[]; // Open cards with checklists, least complete first
+  totalItems: number;
+  completedItems: number;
+  doneWithOpenItems: CardChecklistProgress[]; // Cards in a done list that still have open items
+  itemsCompletedInPeriod: number; // Items whose last state change in the period was to complete
+  itemsCompletedByMember: Map<string, number>; // Keyed by member ID
+}
+
+export interface CardAge {
+  cardId: string;
+  cardName: string;
+  listId: string;
+  stage: WorkflowStage;
+  enteredListAt: Date;
+  ageSource: "transition" | "lastActivity"; // Last move into the list, or dateLastActivity when it was not fetched
+  ageDays: number; // Days in the current list
+  lastActivityAt: Date;
+  idleDays: number; // Days since the last activity on the card
+  stale: boolean;
+}
+
+export interface AgeBucket {
+  label: string;
+  minDays: number;
+  maxDays: number | null; // Null for the open-ended last bucket
+  cards: number;
+}
+
+export interface AgingWipMetrics {
+  cards: CardAge[]; // Open cards past the backlog and not done, oldest first
+  staleCards: CardAge[]; // Cards without activity for staleDays or more, most idle first
+  staleDays: number;
+  asOf: Date; // Time ages and idle days are measured at
+  histogram: AgeBucket[];
+}
+
+export interface CardDiscussion {
+  cardId: string;
+  cardName: string;
+  comments: number; // Comments in the period
+  participants: string[]; // Member IDs of the commenters
+  lastCommentAt: Date;
+}
+
+export interface CardCommentDigest {
+  cardId: string;
+  cardName: string;
+  comments: TrelloComment[]; // Most recent first
+}
+
+export interface CommentMetrics {
+  comments: TrelloComment[]; // Comments in the period, most recent first
+  byMember: Map<string, number>; // Keyed by member ID
+  discussions: CardDiscussion[]; // Cards with comments, most discussed first
+  unresolvedThreads: CardDiscussion[]; // Long threads on cards that are still open
+  digest?: CardCommentDigest[]; // Recent comments on the key cards, when requested
+}
+
+export interface StoryPointMetrics {
+  fieldId: string;
+  fieldName: string;
+  pointsCompleted: number;
+  cardsCompleted: number; // Completed cards with an estimate
+  unestimatedCompleted: number; // Completed cards without an estimate
+  velocityPerWeek: number; // Points completed per week of the period (up to now)
+  openPoints: number; // Points on open cards that are not done yet
+  byLabel: Map<string, number>; // Points completed, keyed by label ID
+  byMember: Map<string, number>; // Points completed, keyed by member ID
+}
+
+export interface CustomFieldGroupStats {
+  optionId?: string; // Undefined for cards without a value
+  value: string;
+  color?: string;
+  openCards: number;
+  completedCards: number;
+  pointsCompleted?: number; // Only when a story points field is in use
+}
+
+export interface CustomFieldGrouping {
+  fieldId: string;
+  fieldName: string;
+  groups: CustomFieldGroupStats[]; // In the field's option order, cards without a value last
 }
 
 export interface BoardActivity {
@@ -153,13 +465,233 @@ export interface BoardActivity {
   completedCards: TrelloCard[];
   inProgressCards: TrelloCard[];
   cardChecklists: Map<string, TrelloChecklist[]>;
+  // Flow metrics
+  cycleTimes: CycleTimeStats;
+  listDwell: Map<string, ListDwellStats>;
+  cumulativeFlow: CumulativeFlowPoint[];
+  // Due date compliance
+  dueDates: DueDateMetrics;
+  // Checklist progress
+  checklists: ChecklistMetrics;
+  // Comment discussions
+  comments: CommentMetrics;
+  // Aging work in progress
+  agingWip: AgingWipMetrics;
+  // Custom fields (only when the board has the fields)
+  storyPoints?: StoryPointMetrics;
+  fieldGrouping?: CustomFieldGrouping;
+}
+
+export type ComparisonMode = "previous" | "yearAgo";
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number;
+  percentChange: number | null; // Null when the previous value was zero
+}
+
+export interface PeriodComparisonMetrics {
+  cardsCreated: MetricDelta;
+  cardsCompleted: MetricDelta;
+  cardsMoved: MetricDelta;
+  commentsAdded: MetricDelta;
+  activeMembers: MetricDelta;
+  labelCompletions: Map<string, MetricDelta>;
+}
+
+export interface PeriodComparison {
+  mode: ComparisonMode;
+  period: ReportPeriod;
+  dateRange: DateRange;
+  actionCount: number;
+  actionsTruncated: boolean;
+  activity: BoardActivity;
+  metrics: PeriodComparisonMetrics;
+}
+
+export type ReportFormat = "summary" | "full" | "json" | "csv" | "html";
+
+export interface ReportDocument {
+  name: string; // "report", or the table name for CSV exports
+  extension: string;
+  mimeType: string;
+  content: string;
+  path?: string; // Set once the document has been written to disk
+}
+
+export interface CardFilterCriteria {
+  labels?: string[]; // Label names (case-insensitive) or IDs
+  members?: string[]; // Member usernames, full names or IDs
+  lists?: string[]; // List IDs
+  query?: string; // Text searched in card names and descriptions (case-insensitive)
+  customFields?: Record<string, string[]>; // Dropdown field (name or ID) to option values or IDs
+}
+
+export interface ReportFilter {
+  include?: CardFilterCriteria; // Cards must match these criteria
+  exclude?: CardFilterCriteria; // Cards matching any of these criteria are left out
+  match?: "all" | "any"; // Whether cards must match all include criteria or any of them (default: "all")
+}
+
+export interface DateSettings {
+  timeZone: string; // IANA time zone, e.g. "America/Sao_Paulo"
+  locale: string; // BCP 47 language tag, e.g. "pt-BR"
+}
+
+export type ReportLanguage = "en" | "pt" | "es";
+
+// Named building blocks of full and summary markdown reports
+export type ReportSectionId =
+  | "overview"
+  | "activity"
+  | "comparison"
+  | "lists"
+  | "members"
+  | "labels"
+  | "flow"
+  | "cycleTime"
+  | "dueDates"
+  | "checklists"
+  | "comments"
+  | "storyPoints"
+  | "fieldGroups"
+  | "workSummary"
+  | "completedFeatures"
+  | "keyCards"
+  | "wip"
+  | "aging"
+  | "recommendations"
+  | "conclusion";
+
+export interface ReportSectionSelection {
+  id: ReportSectionId;
+  limit?: number; // Maximum number of rows or cards the section lists
 }
 
 export interface ReportOptions {
   boardId?: string;
   boardName?: string;
   period: ReportPeriod;
-  format?: "summary" | "full"; // Default is "summary"
+  format?: ReportFormat; // Default is "full"
+  outputPath?: string; // Also write the rendered report to this local file
+  maxActionPages?: number; // Safety cap on action pages (1000 actions each)
+  compareTo?: ComparisonMode; // Compare with the previous period or the same period a year earlier
+  workflow?: WorkflowConfig; // Overrides the workflow configuration file for this board
+  filter?: ReportFilter; // Restrict the report to matching cards and their actions
+  dueSoonDays?: number; // Window for the cards due soon list (default: 7 days)
+  pointsField?: string; // Number custom field with story points, by name or ID (default: detected by name)
+  groupByField?: string; // Dropdown custom field to break the report down by, by name or ID
+  commentDigest?: boolean; // Include recent comment excerpts for the key cards
+  staleDays?: number; // Days without activity after which an open card is stale (default: 14 days)
+  timezone?: string; // Time zone of period boundaries and dates (default: TRELLO_REPORT_TIMEZONE or the server's)
+  locale?: string; // Locale of rendered dates (default: TRELLO_REPORT_LOCALE or the server's)
+  language?: ReportLanguage; // Language of the report text (default: "en")
+  sections?: Array<ReportSectionId | ReportSectionSelection>; // Sections of the markdown report, in order (default: the format's layout)
+  template?: string; // Name of a markdown template in the report templates directory
+  asOf?: Date; // Time the report describes: end of relative periods and reference for card ages (default: now)
+  dateRange?: DateRange; // Range to report on instead of the period's own (e.g. the range a snapshot covers)
+}
+
+export interface WorkspaceReportOptions {
+  organizationId?: string;
+  boardIds?: string[];
+  boardNameFilter?: string;
+  period: ReportPeriod;
+  maxActionPages?: number;
+  timezone?: string; // Time zone of period boundaries and dates (default: TRELLO_REPORT_TIMEZONE or the server's)
+  locale?: string; // Locale of rendered dates (default: TRELLO_REPORT_LOCALE or the server's)
+  language?: ReportLanguage; // Language of the report text (default: "en")
+}
+
+export interface WorkspaceLabelStats {
+  name: string; // Labels are merged across boards by name
+  color: string | null;
+  cardsActive: number;
+  cardsCompleted: number;
+}
+
+export interface WorkspaceReportResult {
+  boards: ReportResult[];
+  period: ReportPeriod;
+  dateRange: DateRange;
+  dateSettings: DateSettings;
+  language: ReportLanguage;
+  totals: {
+    actions: number;
+    cardsCreated: number;
+    cardsCompleted: number;
+    cardsMoved: number;
+    commentsAdded: number;
+    activeMembers: number;
+  };
+  members: TrelloMember[];
+  membersActive: Map<string, number>;
+  labelStats: Map<string, WorkspaceLabelStats>;
+  markdown: string;
+}
+
+export interface MemberReportOptions {
+  member: string; // Member ID, username or full name
+  organizationId?: string;
+  boardIds?: string[];
+  boardNameFilter?: string;
+  period: ReportPeriod;
+  maxActionPages?: number;
+  timezone?: string; // Time zone of period boundaries and dates (default: TRELLO_REPORT_TIMEZONE or the server's)
+  locale?: string; // Locale of rendered dates (default: TRELLO_REPORT_LOCALE or the server's)
+  language?: ReportLanguage; // Language of the report text (default: "en")
+}
+
+export interface MemberCardRef {
+  id: string;
+  name: string;
+  boardId: string;
+  listName?: string;
+  url?: string; // Missing for cards that are no longer on the board
+}
+
+export interface MemberLabelStats {
+  name: string; // Labels are merged across boards by name
+  color: string | null;
+  cards: number; // Cards with this label the member acted on
+}
+
+export interface MemberBoardActivity {
+  board: TrelloBoard;
+  actionCount: number; // Actions by the member
+  actionsTruncated: boolean;
+  cardsCreated: MemberCardRef[];
+  cardsMoved: MemberCardRef[];
+  moveCount: number;
+  cardsCompleted: MemberCardRef[]; // Moved to a done list by the member, or assigned to them
+  cardsCommented: MemberCardRef[];
+  commentCount: number;
+  checkItemsCompleted: number;
+  assignedCards: MemberCardRef[]; // Open cards currently assigned to the member
+  labelStats: Map<string, MemberLabelStats>; // Keyed by lower-case label name
+}
+
+export interface MemberReportResult {
+  member: TrelloMember;
+  period: ReportPeriod;
+  dateRange: DateRange;
+  dateSettings: DateSettings;
+  language: ReportLanguage;
+  boards: MemberBoardActivity[];
+  totals: {
+    actions: number;
+    cardsCreated: number;
+    cardsMoved: number;
+    moves: number;
+    cardsCompleted: number;
+    cardsCommented: number;
+    comments: number;
+    checkItemsCompleted: number;
+    assignedCards: number;
+  };
+  labels: MemberLabelStats[]; // Sorted by number of cards, descending
+  markdown: string;
 }
 
 export interface ReportResult {
@@ -171,6 +703,14 @@ export interface ReportResult {
   members: TrelloMember[];
   labels: TrelloLabel[];
   actions: TrelloAction[];
+  actionsTruncated: boolean;
+  customFields: TrelloCustomField[];
+  workflow: BoardWorkflow;
   activity: BoardActivity;
+  comparison?: PeriodComparison;
+  filter?: ReportFilter; // Cards, actions and activity only cover cards matching the filter
+  dateSettings: DateSettings;
+  language: ReportLanguage;
   markdown: string;
+  documents: ReportDocument[]; // The report rendered in the requested format
 }
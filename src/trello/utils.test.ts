@@ -0,0 +1,149 @@
+/**
+ * Tests for report period ranges, parsing and descriptions
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getDateRangeForPeriod, getPeriodDescription, parsePeriodString } from "./utils.js";
+import { createTranslator } from "./i18n.js";
+import { ReportPeriod } from "./types.js";
+
+/**
+ * Get a period's range in a time zone as ISO strings
+ */
+function getRange(period: ReportPeriod, timeZone = "UTC", now?: Date): { start: string; end: string } {
+  const { start, end } = getDateRangeForPeriod(period, timeZone, now);
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+describe("getDateRangeForPeriod", () => {
+  it("covers whole calendar quarters and years", () => {
+    assert.deepEqual(getRange({ type: "Q1", year: 2024 }), {
+      start: "2024-01-01T00:00:00.000Z",
+      end: "2024-03-31T23:59:59.999Z",
+    });
+    assert.deepEqual(getRange({ type: "Q4", year: 2023 }), {
+      start: "2023-10-01T00:00:00.000Z",
+      end: "2023-12-31T23:59:59.999Z",
+    });
+    assert.deepEqual(getRange({ type: "year", year: 2024 }), {
+      start: "2024-01-01T00:00:00.000Z",
+      end: "2024-12-31T23:59:59.999Z",
+    });
+  });
+
+  it("shifts quarters and years to the fiscal year start", () => {
+    assert.deepEqual(getRange({ type: "Q1", year: 2024, fiscalYearStartMonth: 4 }), {
+      start: "2024-04-01T00:00:00.000Z",
+      end: "2024-06-30T23:59:59.999Z",
+    });
+    assert.deepEqual(getRange({ type: "Q4", year: 2024, fiscalYearStartMonth: 4 }), {
+      start: "2025-01-01T00:00:00.000Z",
+      end: "2025-03-31T23:59:59.999Z",
+    });
+    assert.deepEqual(getRange({ type: "year", year: 2024, fiscalYearStartMonth: 4 }), {
+      start: "2024-04-01T00:00:00.000Z",
+      end: "2025-03-31T23:59:59.999Z",
+    });
+  });
+
+  it("covers months, including leap days", () => {
+    assert.deepEqual(getRange({ type: "month", year: 2024, month: 2 }), {
+      start: "2024-02-01T00:00:00.000Z",
+      end: "2024-02-29T23:59:59.999Z",
+    });
+  });
+
+  it("covers ISO weeks from Monday to Sunday", () => {
+    assert.deepEqual(getRange({ type: "week", year: 2021, week: 1 }), {
+      start: "2021-01-04T00:00:00.000Z",
+      end: "2021-01-10T23:59:59.999Z",
+    });
+    assert.deepEqual(getRange({ type: "week", year: 2020, week: 53 }), {
+      start: "2020-12-28T00:00:00.000Z",
+      end: "2021-01-03T23:59:59.999Z",
+    });
+  });
+
+  it("counts the last N days back from now, including today", () => {
+    const now = new Date("2024-06-30T12:00:00.000Z");
+    assert.deepEqual(getRange({ type: "lastDays", year: 2024, days: 7 }, "UTC", now), {
+      start: "2024-06-24T00:00:00.000Z",
+      end: "2024-06-30T23:59:59.999Z",
+    });
+  });
+
+  it("includes both ends of custom periods", () => {
+    assert.deepEqual(getRange({ type: "custom", year: 2024, start: "2024-01-15", end: "2024-02-15" }), {
+      start: "2024-01-15T00:00:00.000Z",
+      end: "2024-02-15T23:59:59.999Z",
+    });
+  });
+
+  it("puts the boundaries at midnight in the given time zone", () => {
+    assert.deepEqual(getRange({ type: "month", year: 2024, month: 3 }, "America/Sao_Paulo"), {
+      start: "2024-03-01T03:00:00.000Z",
+      end: "2024-04-01T02:59:59.999Z",
+    });
+    assert.deepEqual(getRange({ type: "Q1", year: 2024 }, "Asia/Tokyo"), {
+      start: "2023-12-31T15:00:00.000Z",
+      end: "2024-03-31T14:59:59.999Z",
+    });
+  });
+
+  it("rejects incomplete or impossible periods", () => {
+    assert.throws(() => getRange({ type: "month", year: 2024, month: 13 }), /month between 1 and 12/);
+    assert.throws(() => getRange({ type: "week", year: 2021, week: 53 }), /valid ISO week/);
+    assert.throws(() => getRange({ type: "lastDays", year: 2024 }), /positive number of days/);
+    assert.throws(
+      () => getRange({ type: "custom", year: 2024, start: "2024-02-15", end: "2024-01-15" }),
+      /start date must be before the end date/
+    );
+    assert.throws(() => getRange({ type: "Q1", year: 2024, fiscalYearStartMonth: 13 }), /fiscalYearStartMonth/);
+  });
+});
+
+describe("parsePeriodString", () => {
+  it("parses every compact period form", () => {
+    assert.deepEqual(parsePeriodString("2024"), { type: "year", year: 2024 });
+    assert.deepEqual(parsePeriodString("2024-Q3"), { type: "Q3", year: 2024 });
+    assert.deepEqual(parsePeriodString("2024-03"), { type: "month", year: 2024, month: 3 });
+    assert.deepEqual(parsePeriodString("2024-W05"), { type: "week", year: 2024, week: 5 });
+    assert.equal(parsePeriodString("last-30-days").days, 30);
+    assert.deepEqual(parsePeriodString("2024-01-15..2024-02-15"), {
+      type: "custom",
+      year: 2024,
+      start: "2024-01-15",
+      end: "2024-02-15",
+    });
+  });
+
+  it("rejects unknown forms", () => {
+    assert.throws(() => parsePeriodString("next quarter"), /Invalid period/);
+  });
+});
+
+describe("getPeriodDescription", () => {
+  it("describes each period type", () => {
+    assert.equal(getPeriodDescription({ type: "Q2", year: 2024 }), "Second Quarter 2024");
+    assert.equal(getPeriodDescription({ type: "Q2", year: 2024, fiscalYearStartMonth: 4 }), "Second Quarter FY2024");
+    assert.equal(getPeriodDescription({ type: "year", year: 2024 }), "Year 2024");
+    assert.equal(getPeriodDescription({ type: "week", year: 2024, week: 5 }), "Week 5 of 2024");
+    assert.equal(getPeriodDescription({ type: "lastDays", year: 2024, days: 1 }), "Last Day");
+    assert.equal(getPeriodDescription({ type: "lastDays", year: 2024, days: 30 }), "Last 30 Days");
+    assert.equal(
+      getPeriodDescription({ type: "custom", year: 2024, start: "2024-01-15", end: "2024-02-15" }),
+      "2024-01-15 to 2024-02-15"
+    );
+    assert.equal(getPeriodDescription({ type: "custom", year: 2024 }), "Custom Period");
+  });
+
+  it("describes periods in the report language", () => {
+    const t = createTranslator("pt");
+    assert.equal(getPeriodDescription({ type: "Q2", year: 2024 }, t), "Segundo Trimestre de 2024");
+    assert.equal(
+      getPeriodDescription({ type: "custom", year: 2024, start: "2024-01-15", end: "2024-02-15" }, t),
+      "2024-01-15 a 2024-02-15"
+    );
+  });
+});
@@ -2,7 +2,21 @@
  * Utility functions for Trello API and report generation
  */
 
-import { format, parse, startOfYear, endOfYear, addMonths, subDays } from "date-fns";
+import {
+  format,
+  parse,
+  parseISO,
+  isValid,
+  addMonths,
+  subDays,
+  startOfDay,
+  endOfDay,
+  endOfMonth,
+  startOfISOWeek,
+  endOfISOWeek,
+  setISOWeek,
+  getISOWeeksInYear,
+} from "date-fns";
 import {
   DateRange,
   ReportPeriod,
@@ -12,76 +26,242 @@ import {
   TrelloLabel,
   TrelloComment,
   TrelloChecklist,
-  TrelloBoard,
-  TrelloMember,
   BoardActivity,
+  BoardWorkflow,
 } from "./types.js";
+import { DEFAULT_BOARD_WORKFLOW, isListInStage } from "./workflow.js";
+import {
+  calculateCycleTimes,
+  calculateListDwellTimes,
+  calculateCumulativeFlow,
+} from "./flowMetrics.js";
+import { calculateDueDateMetrics, DEFAULT_DUE_SOON_DAYS } from "./dueDates.js";
+import { calculateChecklistMetrics, groupChecklistsByCard } from "./checklists.js";
+import { calculateCommentMetrics } from "./comments.js";
+import { calculateAgingWip, DEFAULT_STALE_DAYS } from "./aging.js";
+import { fromWallClock, toWallClock } from "./timezone.js";
+import { DEFAULT_TRANSLATOR, formatMonthYear, MessageKey, Translator } from "./i18n.js";
+
+/**
+ * Ordinal names for quarters
+ */
+const QUARTER_NAMES: Record<string, MessageKey> = {
+  Q1: "period.firstQuarter",
+  Q2: "period.secondQuarter",
+  Q3: "period.thirdQuarter",
+  Q4: "period.fourthQuarter",
+};
+
+/**
+ * Check whether a period uses a fiscal year that does not start in January
+ */
+function isFiscalPeriod(period: ReportPeriod): boolean {
+  return (period.fiscalYearStartMonth || 1) !== 1;
+}
+
+/**
+ * Parse a YYYY-MM-DD (or full ISO) date string, throwing on invalid input
+ */
+function parseDateArgument(value: string | undefined, name: string): Date {
+  if (!value) {
+    throw new Error(`A "${name}" date is required for custom periods.`);
+  }
+
+  const date = parseISO(value);
+  if (!isValid(date)) {
+    throw new Error(`Invalid ${name} date "${value}". Expected format YYYY-MM-DD.`);
+  }
+
+  return date;
+}
 
 /**
  * Get date range for a report period
+ *
+ * Quarters and years honour `fiscalYearStartMonth`: fiscal year N starts on the
+ * first day of that month in calendar year N (e.g. April 2024 for FY2024).
+ * Boundaries fall at midnight in the given time zone, or the server's when none is given.
+ * Relative periods (lastDays) end at `now`.
+ */
+export function getDateRangeForPeriod(
+  period: ReportPeriod,
+  timeZone?: string,
+  now: Date = new Date()
+): DateRange {
+  const { start, end } = getWallClockRange(period, toWallClock(now, timeZone));
+  return { start: fromWallClock(start, timeZone), end: fromWallClock(end, timeZone) };
+}
+
+/**
+ * Get the wall-clock boundaries of a report period, relative to the current wall-clock time
  */
-export function getDateRangeForPeriod(period: ReportPeriod): DateRange {
+function getWallClockRange(period: ReportPeriod, now: Date): DateRange {
   const { type, year } = period;
-  const currentYear = new Date().getFullYear();
+  const currentYear = now.getFullYear();
   const targetYear = year || currentYear;
+  const fiscalStartMonth = (period.fiscalYearStartMonth || 1) - 1;
 
-  if (type === "year") {
-    return {
-      start: startOfYear(new Date(targetYear, 0, 1)),
-      end: endOfYear(new Date(targetYear, 0, 1)),
-    };
+  if (fiscalStartMonth < 0 || fiscalStartMonth > 11) {
+    throw new Error("Invalid fiscalYearStartMonth. Must be between 1 and 12.");
   }
 
-  // Handle quarters
-  const quarterMap: Record<string, number> = {
-    Q1: 0, // January
-    Q2: 3, // April
-    Q3: 6, // July
-    Q4: 9, // October
-  };
+  switch (type) {
+    case "year": {
+      const start = new Date(targetYear, fiscalStartMonth, 1);
+      return { start, end: endOfMonth(addMonths(start, 11)) };
+    }
 
-  const quarterStartMonth = quarterMap[type];
-  const start = new Date(targetYear, quarterStartMonth, 1);
-  const end = subDays(addMonths(start, 3), 0); // Last day of the quarter
+    case "Q1":
+    case "Q2":
+    case "Q3":
+    case "Q4": {
+      const quarterIndex = Number(type.slice(1)) - 1;
+      const start = new Date(targetYear, fiscalStartMonth + quarterIndex * 3, 1);
+      return { start, end: endOfMonth(addMonths(start, 2)) };
+    }
+
+    case "month": {
+      if (!period.month || period.month < 1 || period.month > 12) {
+        throw new Error("A month between 1 and 12 is required for monthly periods.");
+      }
+      const start = new Date(targetYear, period.month - 1, 1);
+      return { start, end: endOfMonth(start) };
+    }
+
+    case "week": {
+      if (!period.week || period.week < 1 || period.week > getISOWeeksInYear(new Date(targetYear, 0, 4))) {
+        throw new Error(`A valid ISO week number is required for weekly periods in ${targetYear}.`);
+      }
+      // January 4th always falls in ISO week 1 of its year
+      const start = startOfISOWeek(setISOWeek(new Date(targetYear, 0, 4), period.week));
+      return { start, end: endOfISOWeek(start) };
+    }
 
-  return { start, end };
+    case "lastDays": {
+      if (!period.days || period.days < 1) {
+        throw new Error("A positive number of days is required for 'lastDays' periods.");
+      }
+      return {
+        start: startOfDay(subDays(now, period.days - 1)),
+        end: endOfDay(now),
+      };
+    }
+
+    case "custom": {
+      const start = startOfDay(parseDateArgument(period.start, "start"));
+      const end = endOfDay(parseDateArgument(period.end, "end"));
+      if (start > end) {
+        throw new Error("Invalid custom period. The start date must be before the end date.");
+      }
+      return { start, end };
+    }
+
+    default:
+      throw new Error(`Unsupported period type "${type}".`);
+  }
+}
+
+/**
+ * Parse a compact period string, as used in resource URIs:
+ * "2024" (year), "2024-Q1", "2024-03" (month), "2024-W05" (ISO week),
+ * "last-30-days" and "2024-01-15..2024-02-15" (custom, inclusive)
+ */
+export function parsePeriodString(value: string): ReportPeriod {
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})$/))) {
+    return { type: "year", year: Number(match[1]) };
+  }
+  if ((match = text.match(/^(\d{4})-Q([1-4])$/i))) {
+    return { type: `Q${match[2]}` as ReportPeriod["type"], year: Number(match[1]) };
+  }
+  if ((match = text.match(/^(\d{4})-(\d{1,2})$/))) {
+    return { type: "month", year: Number(match[1]), month: Number(match[2]) };
+  }
+  if ((match = text.match(/^(\d{4})-W(\d{1,2})$/i))) {
+    return { type: "week", year: Number(match[1]), week: Number(match[2]) };
+  }
+  if ((match = text.match(/^last-(\d+)-days$/i))) {
+    return { type: "lastDays", year: new Date().getFullYear(), days: Number(match[1]) };
+  }
+  if ((match = text.match(/^(\d{4}-\d{2}-\d{2})\.\.(\d{4}-\d{2}-\d{2})$/))) {
+    return { type: "custom", year: Number(match[1].slice(0, 4)), start: match[1], end: match[2] };
+  }
+
+  throw new Error(
+    `Invalid period "${value}". Use e.g. 2024, 2024-Q1, 2024-03, 2024-W05, last-30-days or 2024-01-15..2024-02-15.`
+  );
 }
 
 /**
- * Format a date as YYYY-MM-DD
+ * Format a date as YYYY-MM-DD, in the given time zone or the server's
  */
-export function formatDate(date: Date): string {
-  return format(date, "yyyy-MM-dd");
+export function formatDate(date: Date, timeZone?: string): string {
+  return format(toWallClock(date, timeZone), "yyyy-MM-dd");
 }
 
 /**
- * Get a human-readable description of a report period
+ * Get a human-readable description of a report period. Custom periods are described by their dates.
  */
-export function getPeriodDescription(period: ReportPeriod): string {
+export function getPeriodDescription(period: ReportPeriod, t: Translator = DEFAULT_TRANSLATOR): string {
   const { type, year } = period;
+  const yearLabel = isFiscalPeriod(period) ? t("period.fiscalYearLabel", { year }) : `${year}`;
 
-  if (type === "year") {
-    return `Year ${year}`;
-  }
+  switch (type) {
+    case "year":
+      return isFiscalPeriod(period) ? t("period.fiscalYear", { year }) : t("period.year", { year });
 
-  const quarterNames: Record<string, string> = {
-    Q1: "First Quarter",
-    Q2: "Second Quarter",
-    Q3: "Third Quarter",
-    Q4: "Fourth Quarter",
-  };
+    case "Q1":
+    case "Q2":
+    case "Q3":
+    case "Q4":
+      return t("period.quarter", { quarter: t(QUARTER_NAMES[type]), year: yearLabel });
+
+    case "month":
+      return formatMonthYear(period.month || 1, year, t);
+
+    case "week":
+      return t("period.week", { week: period.week ?? "", year });
 
-  return `${quarterNames[type]} ${year}`;
+    case "lastDays":
+      return t("period.lastDays", { count: period.days ?? 0 });
+
+    case "custom":
+      return period.start && period.end
+        ? t("common.dateRange", { start: period.start, end: period.end })
+        : t("period.custom");
+
+    default:
+      return `${type} ${year}`;
+  }
+}
+
+/**
+ * Build the markdown warning shown when the action history was cut short
+ */
+export function getTruncationWarning(actionCount: number, t: Translator = DEFAULT_TRANSLATOR): string {
+  return `> **${t("notice.truncatedTitle")}**: ${t("notice.truncated", { count: actionCount })}\n\n`;
 }
 
 /**
- * Calculate board activity metrics from actions
+ * Calculate board activity metrics from actions. `laterActions` are the actions after the period,
+ * used to trace cards back from their current state to where they were when the period ended.
  */
 export function calculateBoardActivity(
   lists: TrelloList[],
   cards: TrelloCard[],
-  actions: TrelloAction[]
+  actions: TrelloAction[],
+  dateRange: DateRange,
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW,
+  dueSoonDays: number = DEFAULT_DUE_SOON_DAYS,
+  checklists: TrelloChecklist[] = [],
+  staleDays: number = DEFAULT_STALE_DAYS,
+  timeZone?: string,
+  now: Date = new Date(),
+  laterActions: TrelloAction[] = []
 ): BoardActivity {
+  const cardChecklists = groupChecklistsByCard(checklists);
   const activity: BoardActivity = {
     cardsCreated: 0,
     cardsCompleted: 0,
@@ -95,7 +275,14 @@ export function calculateBoardActivity(
     topCards: [],
     completedCards: [],
     inProgressCards: [],
-    cardChecklists: new Map<string, TrelloChecklist[]>(),
+    cardChecklists,
+    cycleTimes: calculateCycleTimes(cards, actions, workflow),
+    listDwell: calculateListDwellTimes(cards, actions, dateRange, now, laterActions),
+    cumulativeFlow: calculateCumulativeFlow(lists, cards, actions, dateRange, timeZone, now, laterActions),
+    dueDates: calculateDueDateMetrics(lists, cards, actions, dateRange, workflow, dueSoonDays, now),
+    checklists: calculateChecklistMetrics(lists, cards, cardChecklists, actions, workflow),
+    comments: calculateCommentMetrics(lists, cards, actions, workflow),
+    agingWip: calculateAgingWip(lists, cards, actions, workflow, staleDays, now),
   };
 
   // Initialize list activity counters
@@ -271,28 +458,13 @@ export function findTopCards(
 }
 
 /**
- * Identify completed cards (cards that were moved to a completion list)
+ * Identify completed cards (cards that were moved to a list in the "done" stage)
  */
 export function findCompletedCards(
   cards: TrelloCard[],
   actions: TrelloAction[],
-  completionListNames: string[] = ["Done", "Completed", "Finished"]
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW
 ): TrelloCard[] {
-  // Find completion list IDs
-  const completionListIds = new Set<string>();
-
-  actions.forEach((action) => {
-    if (
-      action.type === "updateCard" &&
-      action.data.listAfter &&
-      completionListNames.some((name) =>
-        action.data.listAfter!.name.toLowerCase().includes(name.toLowerCase())
-      )
-    ) {
-      completionListIds.add(action.data.listAfter.id);
-    }
-  });
-
   // Find cards that were moved to completion lists
   const completedCardIds = new Set<string>();
 
@@ -300,7 +472,7 @@ export function findCompletedCards(
     if (
       action.type === "updateCard" &&
       action.data.listAfter &&
-      completionListIds.has(action.data.listAfter.id) &&
+      isListInStage(workflow, action.data.listAfter, "done") &&
       action.data.card?.id
     ) {
       completedCardIds.add(action.data.card.id);
@@ -311,18 +483,16 @@ export function findCompletedCards(
 }
 
 /**
- * Identify cards that are currently in progress
+ * Identify cards that are currently in progress (in a list in the "inProgress" stage)
  */
 export function findInProgressCards(
   cards: TrelloCard[],
   lists: TrelloList[],
-  inProgressListNames: string[] = ["In Progress", "Doing", "Working", "Current Sprint"]
+  workflow: BoardWorkflow = DEFAULT_BOARD_WORKFLOW
 ): TrelloCard[] {
   // Find in-progress list IDs
   const inProgressListIds = lists
-    .filter((list) =>
-      inProgressListNames.some((name) => list.name.toLowerCase().includes(name.toLowerCase()))
-    )
+    .filter((list) => isListInStage(workflow, list, "inProgress"))
     .map((list) => list.id);
 
   // Find cards in in-progress lists
@@ -335,13 +505,14 @@ export function findInProgressCards(
 export function generateWorkSummary(
   completedCards: TrelloCard[],
   labels: TrelloLabel[],
-  cardsByLabel: Map<string, TrelloCard[]>
+  cardsByLabel: Map<string, TrelloCard[]>,
+  t: Translator = DEFAULT_TRANSLATOR
 ): string {
   if (completedCards.length === 0) {
-    return "No work was completed during this period.";
+    return t("work.noneCompleted");
   }
 
-  let summary = `During this period, the team completed ${completedCards.length} cards. `;
+  let summary = `${t("work.completed", { cards: t("common.cardCount", { count: completedCards.length }) })} `;
 
   // Summarize by label
   const labelSummaries: string[] = [];
@@ -353,171 +524,19 @@ export function generateWorkSummary(
     );
 
     if (completedLabelCards.length > 0 && label.name) {
-      labelSummaries.push(`${completedLabelCards.length} ${label.name} items`);
+      labelSummaries.push(t("work.labelItems", { count: completedLabelCards.length, label: label.name }));
     }
   });
 
   if (labelSummaries.length > 0) {
-    summary += "This included " + labelSummaries.join(", ") + ". ";
+    summary += `${t("work.included", { items: labelSummaries.join(", ") })} `;
   }
 
   // Add information about most significant completed cards
   if (completedCards.length > 0) {
-    summary += "Key completed items include: ";
     const topCompletedCards = completedCards.slice(0, 3);
 
-    summary += topCompletedCards.map((card) => `"${card.name}"`).join(", ");
-
-    summary += ".";
-  }
-
-  return summary;
-}
-
-/**
- * Generate a comprehensive report summary with insights
- */
-export function generateReportSummary(
-  board: TrelloBoard,
-  period: ReportPeriod,
-  dateRange: DateRange,
-  lists: TrelloList[],
-  cards: TrelloCard[],
-  members: TrelloMember[],
-  labels: TrelloLabel[],
-  actions: TrelloAction[],
-  activity: BoardActivity
-): string {
-  const periodDesc = getPeriodDescription(period);
-  const dateRangeStr = `${formatDate(dateRange.start)} to ${formatDate(dateRange.end)}`;
-  const mostActiveList = findMostActiveList(activity, lists);
-
-  // Find active cards (cards with activity in the period)
-  const activeCardIds = new Set<string>();
-  actions.forEach((action) => {
-    if (action.data.card?.id) {
-      activeCardIds.add(action.data.card.id);
-    }
-  });
-  const activeCards = cards.filter((card) => activeCardIds.has(card.id));
-
-  // Start building the summary
-  let summary = `# ${board.name} - ${periodDesc} Summary\n\n`;
-
-  // Overall stats
-  summary += `## Overall Activity\n\n`;
-  summary += `During ${periodDesc} (${dateRangeStr}), the team recorded ${actions.length} activities across ${activeCards.length} cards. `;
-  summary += `There were ${activity.cardsCreated} new cards created, ${activity.cardsMoved} card movements, and ${activity.commentsAdded} comments added.\n\n`;
-
-  // Team activity
-  if (activity.membersActive.size > 0) {
-    const mostActiveMembers = findMostActiveMembers(activity, 3);
-    if (mostActiveMembers.length > 0) {
-      summary += `## Team Activity\n\n`;
-      summary += `The most active team members were: `;
-
-      const memberNames = mostActiveMembers.map(({ id }) => {
-        const member = members.find((m) => m.id === id);
-        return member ? member.fullName : "Unknown Member";
-      });
-
-      summary += memberNames.join(", ");
-      summary += `.\n\n`;
-    }
-  }
-
-  // Work completed
-  const workSummary = generateWorkSummary(activity.completedCards, labels, activity.cardsByLabel);
-  summary += `## Work Completed\n\n${workSummary}\n\n`;
-
-  // Key cards
-  if (activity.topCards.length > 0) {
-    summary += `## Key Focus Areas\n\n`;
-    summary += `The team focused primarily on these items:\n\n`;
-
-    activity.topCards.slice(0, 3).forEach((card: TrelloCard, index: number) => {
-      const cardList = lists.find((l) => l.id === card.idList);
-      const cardLabels = labels.filter((l) => card.idLabels.includes(l.id));
-      const labelText =
-        cardLabels.length > 0 ? ` (${cardLabels.map((l) => l.name || l.color).join(", ")})` : "";
-
-      summary += `${index + 1}. **${card.name}**${labelText} - ${
-        cardList?.name || "Unknown List"
-      }\n`;
-    });
-
-    summary += `\n`;
-  }
-
-  // Workflow analysis
-  if (activity.cardsMoved > 0 && mostActiveList) {
-    summary += `## Workflow Analysis\n\n`;
-    summary += `The most active list was "${mostActiveList.name}", indicating this was a key stage in the workflow. `;
-
-    // Identify potential bottlenecks
-    const listActivity = [...activity.listActivity.entries()].sort((a, b) => b[1] - a[1]);
-    if (listActivity.length >= 2) {
-      const secondMostActiveListId = listActivity[1][0];
-      const secondMostActiveList = lists.find((l) => l.id === secondMostActiveListId);
-
-      if (secondMostActiveList) {
-        summary += `"${secondMostActiveList.name}" also saw significant activity.\n\n`;
-      }
-    }
-  }
-
-  // Work in progress
-  if (activity.inProgressCards.length > 0) {
-    summary += `## Current Work\n\n`;
-    summary += `There ${activity.inProgressCards.length === 1 ? "is" : "are"} currently ${
-      activity.inProgressCards.length
-    } ${activity.inProgressCards.length === 1 ? "card" : "cards"} in progress. `;
-
-    // Group by list
-    const inProgressByList = new Map<string, TrelloCard[]>();
-    lists.forEach((list) => {
-      const listCards = activity.inProgressCards.filter((card: TrelloCard) => card.idList === list.id);
-      if (listCards.length > 0) {
-        inProgressByList.set(list.id, listCards);
-      }
-    });
-
-    if (inProgressByList.size > 0) {
-      const listSummaries: string[] = [];
-
-      inProgressByList.forEach((cards, listId) => {
-        const list = lists.find((l) => l.id === listId);
-        if (list) {
-          listSummaries.push(`${cards.length} in "${list.name}"`);
-        }
-      });
-
-      if (listSummaries.length > 0) {
-        summary += `This includes ${listSummaries.join(", ")}.\n\n`;
-      }
-    }
-  }
-
-  // Recommendations
-  summary += `## Recommendations\n\n`;
-
-  // Based on completed work
-  if (activity.completedCards.length === 0) {
-    summary += `- Consider investigating why no cards were completed during this period.\n`;
-  } else if (activity.completedCards.length < 3 && period.type !== "year") {
-    summary += `- The completion rate appears to be lower than optimal. Consider reviewing the workflow for potential bottlenecks.\n`;
-  }
-
-  // Based on card flow
-  if (mostActiveList) {
-    const mostActiveListName = mostActiveList.name.toLowerCase();
-    if (mostActiveListName.includes("backlog") || mostActiveListName.includes("todo")) {
-      summary += `- There's significant activity in the "${mostActiveList.name}" list. Consider prioritizing these items to move them forward in the workflow.\n`;
-    } else if (mostActiveListName.includes("progress") || mostActiveListName.includes("doing")) {
-      summary += `- Many cards are in "${mostActiveList.name}". Consider whether the team might be taking on too much work simultaneously.\n`;
-    } else if (mostActiveListName.includes("review") || mostActiveListName.includes("validation")) {
-      summary += `- The "${mostActiveList.name}" list appears to be a potential bottleneck. Consider allocating more resources to review and validation.\n`;
-    }
+    summary += t("work.keyItems", { cards: topCompletedCards.map((card) => `"${card.name}"`).join(", ") });
   }
 
   return summary;
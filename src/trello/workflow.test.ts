@@ -0,0 +1,99 @@
+/**
+ * Tests for workflow stage mapping of lists
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getListStage, listNameMatches, resolveBoardWorkflow } from "./workflow.js";
+import { TrelloList } from "./types.js";
+
+/**
+ * Build open lists with the given names, in board order
+ */
+function createLists(names: string[]): TrelloList[] {
+  return names.map((name, index) => ({
+    id: `list${index}`,
+    name,
+    closed: false,
+    pos: (index + 1) * 1024,
+    idBoard: "board",
+  }));
+}
+
+/**
+ * Get the stage of each list, by list name
+ */
+function getStages(lists: TrelloList[], workflow = resolveBoardWorkflow(lists)): Record<string, string> {
+  return Object.fromEntries(lists.map((list) => [list.name, getListStage(workflow, list)]));
+}
+
+describe("listNameMatches", () => {
+  it("matches patterns as whole words, ignoring case and accents", () => {
+    assert.equal(listNameMatches("Done (reviewed)", ["Done"]), true);
+    assert.equal(listNameMatches("Sprint 5 - DONE", ["done"]), true);
+    assert.equal(listNameMatches("Concluído", ["Concluido"]), true);
+    assert.equal(listNameMatches("Undone", ["Done"]), false);
+    assert.equal(listNameMatches("Readyness check", ["Ready"]), false);
+  });
+
+  it("skips negated patterns", () => {
+    assert.equal(listNameMatches("Not Done", ["Done"]), false);
+    assert.equal(listNameMatches("Non-blocked", ["Blocked"]), false);
+    assert.equal(listNameMatches("Não Concluído", ["Concluído"]), false);
+    assert.equal(listNameMatches("Not started / Done", ["Done"]), true);
+  });
+});
+
+describe("resolveBoardWorkflow", () => {
+  it("classifies lists by the default name patterns", () => {
+    const lists = createLists(["Backlog", "To Do", "In Progress", "Code Review", "Blocked", "Done", "Misc"]);
+
+    assert.deepEqual(getStages(lists), {
+      Backlog: "backlog",
+      "To Do": "todo",
+      "In Progress": "inProgress",
+      "Code Review": "review",
+      Blocked: "blocked",
+      Done: "done",
+      Misc: "other",
+    });
+  });
+
+  it("does not take negated or partial names for done", () => {
+    const lists = createLists(["Not Done", "Undone", "Done (reviewed)"]);
+
+    assert.deepEqual(getStages(lists), {
+      "Not Done": "other",
+      Undone: "other",
+      "Done (reviewed)": "done",
+    });
+  });
+
+  it("matches configured stages before the default patterns", () => {
+    const lists = createLists(["Done - awaiting QA", "Shipped"]);
+    const workflow = resolveBoardWorkflow(lists, {
+      review: { names: ["Awaiting QA"] },
+      done: { names: ["Shipped"] },
+    });
+
+    assert.deepEqual(getStages(lists, workflow), {
+      "Done - awaiting QA": "review",
+      Shipped: "done",
+    });
+  });
+
+  it("prefers configured list IDs over names", () => {
+    const lists = createLists(["Done", "Review"]);
+    const workflow = resolveBoardWorkflow(lists, { blocked: { listIds: ["list0"] } });
+
+    assert.equal(getListStage(workflow, lists[0]), "blocked");
+    assert.equal(getListStage(workflow, lists[1]), "review");
+  });
+
+  it("classifies lists that are no longer on the board by name", () => {
+    const workflow = resolveBoardWorkflow(createLists(["To Do"]));
+
+    assert.equal(getListStage(workflow, { id: "gone", name: "Finished" }), "done");
+    assert.equal(getListStage(workflow, { id: "gone" }), "other");
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Workflow stage mapping for Trello lists
+ */
+
+import { readFile } from "fs/promises";
+import {
+  BoardWorkflow,
+  ConfigurableWorkflowStage,
+  TrelloList,
+  WorkflowConfig,
+  WorkflowConfigFile,
+  WorkflowStage,
+} from "./types.js";
+
+// Environment variable pointing to a workflow configuration file
+const WORKFLOW_CONFIG_ENV = "TRELLO_WORKFLOW_CONFIG";
+
+// Workflow configuration file looked up in the working directory when the env var is not set
+const DEFAULT_WORKFLOW_CONFIG_PATH = "trello-workflow.json";
+
+// Stages in the order they are matched, so a "Done (reviewed)" list counts as done, not review.
+// Stages defined in a workflow configuration are matched before the default ones.
+export const WORKFLOW_STAGES: ConfigurableWorkflowStage[] = [
+  "done",
+  "review",
+  "blocked",
+  "inProgress",
+  "todo",
+  "backlog",
+];
+
+// Default list name patterns for each stage
+export const DEFAULT_WORKFLOW_CONFIG: WorkflowConfig = {
+  backlog: { names: ["Backlog", "Icebox", "Ideas"] },
+  todo: { names: ["To Do", "Todo", "Ready", "Next"] },
+  inProgress: { names: ["In Progress", "Doing", "Working", "Current Sprint"] },
+  review: { names: ["Review", "Validation", "QA", "Testing"] },
+  blocked: { names: ["Blocked", "On Hold", "Waiting"] },
+  done: { names: ["Done", "Completed", "Finished"] },
+};
+
+/**
+ * Normalize a name for matching: lower case without diacritics ("Concluído" matches "concluido")
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+// Words that negate the pattern after them, so "Not Done" or "Não Concluído" is not done
+const NEGATION_WORDS = ["not", "no", "non", "nao", "sin", "sem"];
+
+// Negation word right before a match, e.g. "not " or "non-"
+const NEGATION_BEFORE_MATCH = new RegExp(`(?:^|[^\\p{L}\\p{N}])(?:${NEGATION_WORDS.join("|")})[\\s-]*$`, "u");
+
+/**
+ * Check whether a pattern appears in a normalized list name as whole words, not negated
+ */
+function containsPattern(normalizedName: string, pattern: string): boolean {
+  const escaped = normalizeName(pattern).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const matcher = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "gu");
+
+  return [...normalizedName.matchAll(matcher)].some(
+    (match) => !NEGATION_BEFORE_MATCH.test(normalizedName.slice(0, match.index))
+  );
+}
+
+/**
+ * Check whether a list name contains any of the given patterns as whole words (case- and
+ * accent-insensitive). "Done" matches "Done" and "Done (reviewed)", but not "Undone" or "Not Done".
+ */
+export function listNameMatches(listName: string, patterns: string[]): boolean {
+  const normalizedName = normalizeName(listName);
+  return patterns.some((pattern) => containsPattern(normalizedName, pattern));
+}
+
+/**
+ * Merge a workflow configuration over the defaults. A stage defined in the configuration
+ * replaces the default patterns for that stage.
+ */
+export function mergeWorkflowConfig(config?: WorkflowConfig): WorkflowConfig {
+  return { ...DEFAULT_WORKFLOW_CONFIG, ...(config || {}) };
+}
+
+/**
+ * Classify a list name using the name patterns of a workflow, trying configured stages first
+ */
+function getStageByName(workflow: BoardWorkflow, listName: string): WorkflowStage {
+  const stages = [
+    ...workflow.configuredStages,
+    ...WORKFLOW_STAGES.filter((stage) => !workflow.configuredStages.includes(stage)),
+  ];
+  return (
+    stages.find((stage) => listNameMatches(listName, workflow.config[stage]?.names || [])) || "other"
+  );
+}
+
+/**
+ * Map every list of a board to a workflow stage. Explicit list IDs take precedence over
+ * name patterns.
+ */
+export function resolveBoardWorkflow(lists: TrelloList[], config?: WorkflowConfig): BoardWorkflow {
+  const mergedConfig = mergeWorkflowConfig(config);
+  const configuredStages = WORKFLOW_STAGES.filter((stage) => config?.[stage]);
+  const workflow: BoardWorkflow = { config: mergedConfig, configuredStages, stagesByListId: new Map() };
+
+  lists.forEach((list) => {
+    const stageById = WORKFLOW_STAGES.find((stage) =>
+      mergedConfig[stage]?.listIds?.includes(list.id)
+    );
+    workflow.stagesByListId.set(list.id, stageById || getStageByName(workflow, list.name));
+  });
+
+  return workflow;
+}
+
+// Name-based workflow used when no board lists are known
+export const DEFAULT_BOARD_WORKFLOW: BoardWorkflow = resolveBoardWorkflow([]);
+
+/**
+ * Get the workflow stage of a list. Lists that are not on the board any more (e.g. only known
+ * from an action) are classified by name.
+ */
+export function getListStage(
+  workflow: BoardWorkflow,
+  list: { id: string; name?: string }
+): WorkflowStage {
+  const stage = workflow.stagesByListId.get(list.id);
+  if (stage) return stage;
+
+  if (list.name) return getStageByName(workflow, list.name);
+
+  return "other";
+}
+
+/**
+ * Check whether a list belongs to a workflow stage
+ */
+export function isListInStage(
+  workflow: BoardWorkflow,
+  list: { id: string; name?: string },
+  stage: WorkflowStage
+): boolean {
+  return getListStage(workflow, list) === stage;
+}
+
+/**
+ * Load the workflow configuration for a board from the local configuration file.
+ *
+ * The file is read from TRELLO_WORKFLOW_CONFIG, or trello-workflow.json in the working
+ * directory. Board-specific entries are merged over the file's default entry. Returns
+ * undefined when no file exists.
+ */
+export async function loadWorkflowConfig(boardId: string): Promise<WorkflowConfig | undefined> {
+  const configPath = process.env[WORKFLOW_CONFIG_ENV] || DEFAULT_WORKFLOW_CONFIG_PATH;
+
+  let contents: string;
+  try {
+    contents = await readFile(configPath, "utf-8");
+  } catch (error) {
+    // A missing default file is fine, a missing explicitly configured file is not
+    if (!process.env[WORKFLOW_CONFIG_ENV] && (error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw new Error(`Could not read workflow configuration "${configPath}": ${(error as Error).message}`);
+  }
+
+  let file: WorkflowConfigFile;
+  try {
+    file = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid JSON in workflow configuration "${configPath}".`);
+  }
+
+  return { ...(file.default || {}), ...(file.boards?.[boardId] || {}) };
+}